@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "IngestionJob" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'process_document',
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "nextRunAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedBy" TEXT,
+    "leaseExpiresAt" TIMESTAMP(3),
+    "heartbeatAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "IngestionJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IngestionJob_status_nextRunAt_idx" ON "IngestionJob"("status", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "IngestionJob_documentId_idx" ON "IngestionJob"("documentId");
+
+-- AddForeignKey
+ALTER TABLE "IngestionJob" ADD CONSTRAINT "IngestionJob_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "sha256" TEXT,
+ADD COLUMN     "sizeBytes" INTEGER,
+ADD COLUMN     "storageKey" TEXT;
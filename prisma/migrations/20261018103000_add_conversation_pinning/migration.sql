@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "forkedFromId" TEXT,
+ADD COLUMN     "pinned" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "Chunk" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "chunkIndex" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "metadata" JSONB,
+    "searchVector" tsvector GENERATED ALWAYS AS (to_tsvector('english', "text")) STORED,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Chunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Chunk_projectId_idx" ON "Chunk"("projectId");
+
+-- CreateIndex
+CREATE INDEX "Chunk_documentId_idx" ON "Chunk"("documentId");
+
+-- CreateIndex
+CREATE INDEX "Chunk_searchVector_idx" ON "Chunk" USING GIN ("searchVector");
+
+-- AddForeignKey
+ALTER TABLE "Chunk" ADD CONSTRAINT "Chunk_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Chunk" ADD CONSTRAINT "Chunk_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- CreateTable
+CREATE TABLE "VectorCollection" (
+    "name" TEXT NOT NULL,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VectorCollection_pkey" PRIMARY KEY ("name")
+);
+
+-- CreateTable
+CREATE TABLE "VectorRecord" (
+    "collectionName" TEXT NOT NULL,
+    "id" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "metadata" JSONB NOT NULL DEFAULT '{}',
+    "embedding" vector NOT NULL,
+
+    CONSTRAINT "VectorRecord_pkey" PRIMARY KEY ("collectionName","id")
+);
+
+-- CreateIndex
+CREATE INDEX "VectorRecord_metadata_idx" ON "VectorRecord" USING GIN ("metadata");
+
+-- AddForeignKey
+ALTER TABLE "VectorRecord" ADD CONSTRAINT "VectorRecord_collectionName_fkey" FOREIGN KEY ("collectionName") REFERENCES "VectorCollection"("name") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN "crawlId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Crawl" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "rootUrl" TEXT NOT NULL,
+    "maxDepth" INTEGER NOT NULL,
+    "maxPages" INTEGER NOT NULL,
+    "scope" TEXT NOT NULL,
+    "respectRobots" BOOLEAN NOT NULL DEFAULT true,
+    "useSitemap" BOOLEAN NOT NULL DEFAULT true,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "pagesFound" INTEGER NOT NULL DEFAULT 0,
+    "errorMessage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Crawl_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Document_crawlId_idx" ON "Document"("crawlId");
+
+-- CreateIndex
+CREATE INDEX "Crawl_projectId_idx" ON "Crawl"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "Document" ADD CONSTRAINT "Document_crawlId_fkey" FOREIGN KEY ("crawlId") REFERENCES "Crawl"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Crawl" ADD CONSTRAINT "Crawl_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN "contentHash" TEXT,
+ADD COLUMN "etag" TEXT,
+ADD COLUMN "lastModified" TEXT,
+ADD COLUMN "lastSyncedAt" TIMESTAMP(3),
+ADD COLUMN "syncIntervalMinutes" INTEGER;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "chunkingStrategy" TEXT NOT NULL DEFAULT 'recursive',
+ADD COLUMN "chunkSize" INTEGER NOT NULL DEFAULT 1000,
+ADD COLUMN "chunkOverlap" INTEGER NOT NULL DEFAULT 200;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Chunk" ADD COLUMN "fingerprint" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Document_projectId_sha256_idx" ON "Document"("projectId", "sha256");
+
+-- CreateIndex
+CREATE INDEX "Document_projectId_contentHash_idx" ON "Document"("projectId", "contentHash");
+
+-- CreateIndex
+CREATE INDEX "Chunk_projectId_fingerprint_idx" ON "Chunk"("projectId", "fingerprint");
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "EmbeddingCacheEntry" (
+    "provider" TEXT NOT NULL,
+    "modelName" TEXT NOT NULL,
+    "dimensions" INTEGER NOT NULL,
+    "textHash" TEXT NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmbeddingCacheEntry_pkey" PRIMARY KEY ("provider","modelName","dimensions","textHash")
+);
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "vectorCollection" TEXT;
+
+-- CreateTable
+CREATE TABLE "Reindex" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "fromCollection" TEXT NOT NULL,
+    "toCollection" TEXT NOT NULL,
+    "embeddingFingerprint" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "totalRecords" INTEGER NOT NULL DEFAULT 0,
+    "processedRecords" INTEGER NOT NULL DEFAULT 0,
+    "errorMessage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Reindex_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Reindex_projectId_createdAt_idx" ON "Reindex"("projectId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Reindex" ADD CONSTRAINT "Reindex_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Reindex" ADD COLUMN "leaseExpiresAt" TIMESTAMP(3);
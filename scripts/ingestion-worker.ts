@@ -0,0 +1,24 @@
+/**
+ * Background ingestion worker
+ * Polls the IngestionJob table and runs the document pipeline for each job.
+ * Run one or more instances alongside the Next.js server:
+ *
+ *   bun run worker
+ */
+
+import "dotenv/config";
+import { IngestionWorkerService } from "../src/services/ingestion-worker.service";
+
+const worker = new IngestionWorkerService();
+
+async function shutdown(signal: string) {
+  console.log(`Received ${signal}, finishing in-flight job...`);
+  await worker.stop();
+  process.exit(0);
+}
+
+process.on("SIGINT", () => void shutdown("SIGINT"));
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+
+console.log("Ingestion worker started");
+worker.start();
@@ -0,0 +1,34 @@
+/**
+ * One-off vector collection migration
+ * Moves collections written under the legacy `project_<id>` names to the
+ * canonical per-project names used by VectorStore. Safe to re-run.
+ *
+ *   bun run migrate:collections            # migrate
+ *   bun run migrate:collections --dry-run  # only list what would move
+ */
+
+import "dotenv/config";
+import { VectorStore } from "../src/lib/vector-store";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  const vectorStore = new VectorStore();
+
+  const migrations = await vectorStore.migrateLegacyCollections(dryRun);
+
+  if (migrations.length === 0) {
+    console.log("No legacy collections found");
+    return;
+  }
+
+  for (const { from, to, records } of migrations) {
+    console.log(
+      `${dryRun ? "Would move" : "Moved"} ${from} -> ${to} (${records} records)`
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error("Collection migration failed:", error);
+  process.exit(1);
+});
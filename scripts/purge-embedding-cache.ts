@@ -0,0 +1,31 @@
+/**
+ * Embedding cache purge
+ * Deletes cached embeddings that the configured embedding model can no
+ * longer use, e.g. after EMBEDDING_MODEL_NAME changes.
+ *
+ *   bun run purge:embedding-cache        # keep only the configured model's
+ *   bun run purge:embedding-cache --all  # delete every cached embedding
+ */
+
+import "dotenv/config";
+import { getConfig } from "../src/lib/config";
+import { purgeEmbeddingCache } from "../src/lib/embedding-cache";
+
+async function main() {
+  const all = process.argv.includes("--all");
+  const { embedding } = getConfig();
+
+  const deleted = await purgeEmbeddingCache(all ? undefined : embedding);
+  const model = `${embedding.provider}/${embedding.modelName}`;
+
+  console.log(
+    all
+      ? `Deleted ${deleted} cached embeddings`
+      : `Deleted ${deleted} cached embeddings of models other than ${model}`
+  );
+}
+
+main().catch((error) => {
+  console.error("Embedding cache purge failed:", error);
+  process.exit(1);
+});
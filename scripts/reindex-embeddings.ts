@@ -0,0 +1,64 @@
+/**
+ * Project re-embedding
+ * Re-embeds projects whose vectors come from another embedding model than
+ * the configured one, e.g. after EMBEDDING_MODEL_NAME changes, and switches
+ * each to its new collection once complete. An interrupted run is resumed
+ * by running the command again, once its lease has run out (10 minutes
+ * after its last progress); until then the project is reported as busy.
+ *
+ *   bun run reindex:embeddings              # every project that needs it
+ *   bun run reindex:embeddings <id> [...]   # only these projects
+ *   bun run reindex:embeddings --force <id> # even if already on the model
+ */
+
+import "dotenv/config";
+import { prisma } from "../lib/prisma";
+import { ReindexService } from "../src/services/reindex.service";
+import { ConflictError } from "../src/lib/errors";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const force = args.includes("--force");
+  const reindexService = new ReindexService();
+
+  let projectIds = args.filter((arg) => !arg.startsWith("--"));
+  if (projectIds.length === 0) {
+    const projects = await prisma.project.findMany({ select: { id: true } });
+    projectIds = projects.map((project: { id: string }) => project.id);
+  }
+
+  let failed = 0;
+  for (const projectId of projectIds) {
+    if (!force && !(await reindexService.needsReindex(projectId))) {
+      continue;
+    }
+
+    try {
+      const reindex = await reindexService.reindexProject(
+        projectId,
+        ({ processedRecords, totalRecords }) =>
+          console.log(`${projectId}: ${processedRecords}/${totalRecords}`)
+      );
+      console.log(
+        `${projectId}: re-indexed ${reindex.totalRecords} records into ` +
+          `${reindex.toCollection}`
+      );
+    } catch (error) {
+      failed++;
+      if (error instanceof ConflictError) {
+        console.error(`${projectId}: ${error.message}`);
+      } else {
+        console.error(`${projectId}: re-index failed, rolled back:`, error);
+      }
+    }
+  }
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("Re-index failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,51 @@
+/**
+ * Shared setup for unit tests
+ * Import it before the modules under test: it provides the environment that
+ * configuration requires and replaces the Prisma client, so services load
+ * without a database.
+ */
+
+import type { PGlite } from "@electric-sql/pglite";
+import { empty, join, raw, sqltag } from "@prisma/client/runtime/client";
+
+process.env.DATABASE_URL ??= "postgresql://localhost:5432/test";
+process.env.GOOGLE_API_KEY ??= "test-key";
+process.env.VECTOR_STORE_PROVIDER ??= "memory";
+
+/**
+ * Replaces the Prisma client with a fake
+ *
+ * The generated client can't be loaded without `prisma generate`, so its
+ * `Prisma.sql` helpers are taken from the Prisma runtime instead; raw
+ * queries built with them can run on PGlite (see rawQueries).
+ * Load the modules under test with `await import()` after calling this.
+ *
+ * @param prisma - The models and methods the code under test uses
+ */
+export function mockPrisma(prisma: object = {}): void {
+  jest.mock("../../lib/prisma", () => ({ prisma }));
+  jest.mock("../../generated/prisma/client", () => ({
+    Prisma: { sql: sqltag, join, raw, empty },
+  }));
+}
+
+/**
+ * Prisma's raw query methods, running on an in-process Postgres
+ *
+ * @param db - The PGlite database
+ */
+export function rawQueries(db: PGlite) {
+  return {
+    $queryRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const query = sqltag(strings, ...values);
+      return (await db.query(query.text, query.values)).rows;
+    },
+    $executeRaw: async (
+      strings: TemplateStringsArray,
+      ...values: unknown[]
+    ) => {
+      const query = sqltag(strings, ...values);
+      return (await db.query(query.text, query.values)).affectedRows ?? 0;
+    },
+  };
+}
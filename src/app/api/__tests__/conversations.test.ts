@@ -0,0 +1,305 @@
+/**
+ * Unit tests for the conversation API routes
+ * Tests request validation and status codes against a mocked Prisma client
+ */
+
+import { mockPrisma } from "../../../__tests__/setup";
+import { NextRequest } from "next/server";
+
+const PROJECT_ID = "6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f";
+
+const notFound = () =>
+  Object.assign(new Error("Record not found"), { code: "P2025" });
+
+const prisma = {
+  project: { findUnique: jest.fn() },
+  conversation: {
+    count: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    create: jest.fn(),
+  },
+  $transaction: (operations: Promise<unknown>[]) => Promise.all(operations),
+};
+mockPrisma(prisma);
+
+const conversationsRoute = await import(
+  "../projects/[id]/conversations/route"
+);
+const conversationRoute = await import("../conversations/[id]/route");
+const forkRoute = await import("../conversations/[id]/fork/route");
+
+function conversationRecord(id: string, overrides = {}) {
+  return {
+    id,
+    projectId: PROJECT_ID,
+    title: "Refunds",
+    pinned: false,
+    forkedFromId: null,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    updatedAt: new Date("2026-01-02T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+function request(url: string, init?: { method: string; body?: unknown }) {
+  return new NextRequest(`http://localhost${url}`, {
+    method: init?.method ?? "GET",
+    ...(init?.body !== undefined && { body: JSON.stringify(init.body) }),
+  });
+}
+
+describe("conversation routes", () => {
+  // errorHandler logs every error it turns into a response
+  const consoleError = jest.spyOn(console, "error");
+  beforeAll(() => consoleError.mockImplementation(() => {}));
+  afterAll(() => consoleError.mockRestore());
+
+  beforeEach(() => {
+    for (const model of [prisma.project, prisma.conversation]) {
+      for (const fn of Object.values(model)) {
+        fn.mockReset();
+      }
+    }
+  });
+
+  describe("GET /api/projects/[id]/conversations", () => {
+    it("should list a page of conversations with message counts", async () => {
+      prisma.project.findUnique.mockResolvedValue({
+        id: PROJECT_ID,
+        name: "Docs",
+        createdAt: new Date(),
+        documents: [],
+      });
+      prisma.conversation.count.mockResolvedValue(3);
+      prisma.conversation.findMany.mockResolvedValue([
+        { ...conversationRecord("c1"), _count: { messages: 4 } },
+      ]);
+
+      const response = await conversationsRoute.GET(
+        request(`/api/projects/${PROJECT_ID}/conversations?page=2&pageSize=2`),
+        { params: { id: PROJECT_ID } }
+      );
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.conversations).toMatchObject([
+        { id: "c1", title: "Refunds", messageCount: 4 },
+      ]);
+      expect(body.pagination).toEqual({
+        page: 2,
+        pageSize: 2,
+        total: 3,
+        totalPages: 2,
+      });
+      expect(prisma.conversation.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ skip: 2, take: 2 })
+      );
+    });
+
+    it("should reject an invalid page size", async () => {
+      const response = await conversationsRoute.GET(
+        request(`/api/projects/${PROJECT_ID}/conversations?pageSize=500`),
+        { params: { id: PROJECT_ID } }
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe("Validation failed");
+    });
+
+    it("should return 404 for an unknown project", async () => {
+      prisma.project.findUnique.mockResolvedValue(null);
+
+      const response = await conversationsRoute.GET(
+        request(`/api/projects/${PROJECT_ID}/conversations`),
+        { params: { id: PROJECT_ID } }
+      );
+
+      expect(response.status).toBe(404);
+      expect(prisma.conversation.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /api/conversations/[id]", () => {
+    it("should return the conversation with its messages", async () => {
+      prisma.conversation.findUnique.mockResolvedValue({
+        ...conversationRecord("c1"),
+        messages: [
+          {
+            id: "m1",
+            conversationId: "c1",
+            role: "user",
+            content: "How do refunds work?",
+            sources: null,
+            createdAt: new Date(),
+          },
+        ],
+      });
+
+      const response = await conversationRoute.GET(
+        request("/api/conversations/c1"),
+        { params: { id: "c1" } }
+      );
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.messages).toMatchObject([
+        { id: "m1", role: "user", sources: [] },
+      ]);
+    });
+
+    it("should return 404 for an unknown conversation", async () => {
+      prisma.conversation.findUnique.mockResolvedValue(null);
+
+      const response = await conversationRoute.GET(
+        request("/api/conversations/missing"),
+        { params: { id: "missing" } }
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("PATCH /api/conversations/[id]", () => {
+    it("should rename and pin a conversation", async () => {
+      prisma.conversation.update.mockResolvedValue(
+        conversationRecord("c1", { title: "Refund policy", pinned: true })
+      );
+
+      const response = await conversationRoute.PATCH(
+        request("/api/conversations/c1", {
+          method: "PATCH",
+          body: { title: "  Refund policy ", pinned: true },
+        }),
+        { params: { id: "c1" } }
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        title: "Refund policy",
+        pinned: true,
+      });
+      expect(prisma.conversation.update).toHaveBeenCalledWith({
+        where: { id: "c1" },
+        data: { title: "Refund policy", pinned: true },
+      });
+    });
+
+    it("should reject an update without any field", async () => {
+      const response = await conversationRoute.PATCH(
+        request("/api/conversations/c1", { method: "PATCH", body: {} }),
+        { params: { id: "c1" } }
+      );
+
+      expect(response.status).toBe(400);
+      expect(prisma.conversation.update).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 for an unknown conversation", async () => {
+      prisma.conversation.update.mockRejectedValue(notFound());
+
+      const response = await conversationRoute.PATCH(
+        request("/api/conversations/missing", {
+          method: "PATCH",
+          body: { pinned: true },
+        }),
+        { params: { id: "missing" } }
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("DELETE /api/conversations/[id]", () => {
+    it("should delete the conversation", async () => {
+      prisma.conversation.delete.mockResolvedValue(conversationRecord("c1"));
+
+      const response = await conversationRoute.DELETE(
+        request("/api/conversations/c1", { method: "DELETE" }),
+        { params: { id: "c1" } }
+      );
+
+      expect(response.status).toBe(200);
+      expect(prisma.conversation.delete).toHaveBeenCalledWith({
+        where: { id: "c1" },
+      });
+    });
+
+    it("should return 404 for an unknown conversation", async () => {
+      prisma.conversation.delete.mockRejectedValue(notFound());
+
+      const response = await conversationRoute.DELETE(
+        request("/api/conversations/missing", { method: "DELETE" }),
+        { params: { id: "missing" } }
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("POST /api/conversations/[id]/fork", () => {
+    it("should reject a request without a message ID", async () => {
+      const response = await forkRoute.POST(
+        request("/api/conversations/c1/fork", { method: "POST", body: {} }),
+        { params: { id: "c1" } }
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should create a conversation from the messages up to one", async () => {
+      const messages = ["m1", "m2", "m3"].map((id, i) => ({
+        id,
+        conversationId: "c1",
+        role: i % 2 === 0 ? "user" : "assistant",
+        content: `Message ${id}`,
+        sources: null,
+        createdAt: new Date(i * 1000),
+      }));
+      prisma.conversation.findUnique
+        .mockResolvedValueOnce({ ...conversationRecord("c1"), messages })
+        .mockResolvedValueOnce({
+          ...conversationRecord("c2", { forkedFromId: "c1" }),
+          messages: messages.slice(0, 2),
+        });
+      prisma.conversation.create.mockResolvedValue(conversationRecord("c2"));
+
+      const response = await forkRoute.POST(
+        request("/api/conversations/c1/fork", {
+          method: "POST",
+          body: { messageId: "m2" },
+        }),
+        { params: { id: "c1" } }
+      );
+
+      expect(response.status).toBe(201);
+      expect(await response.json()).toMatchObject({
+        id: "c2",
+        forkedFromId: "c1",
+      });
+      const [{ data }] = prisma.conversation.create.mock.calls[0];
+      expect(data.messages.create.map((m: { content: string }) => m.content))
+        .toEqual(["Message m1", "Message m2"]);
+    });
+
+    it("should reject a message of another conversation", async () => {
+      prisma.conversation.findUnique.mockResolvedValue({
+        ...conversationRecord("c1"),
+        messages: [],
+      });
+
+      const response = await forkRoute.POST(
+        request("/api/conversations/c1/fork", {
+          method: "POST",
+          body: { messageId: "m9" },
+        }),
+        { params: { id: "c1" } }
+      );
+
+      expect(response.status).toBe(400);
+      expect(prisma.conversation.create).not.toHaveBeenCalled();
+    });
+  });
+});
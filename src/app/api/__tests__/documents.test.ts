@@ -0,0 +1,289 @@
+/**
+ * Unit tests for the document API routes
+ * Tests listing, retrieval, deletion and reprocessing against a mocked
+ * Prisma client, the memory vector store and a temporary blob store
+ */
+
+import { mockPrisma } from "../../../__tests__/setup";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { resetConfig } from "../../../lib/config";
+import { documentStorageKey } from "../../../lib/blob-store";
+
+const PROJECT_ID = "6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f";
+
+const blobRoot = await fs.mkdtemp(path.join(os.tmpdir(), "document-routes-"));
+const previousBlobPath = process.env.BLOB_STORE_PATH;
+process.env.BLOB_STORE_PATH = blobRoot;
+resetConfig();
+
+const prisma = {
+  project: { findUnique: jest.fn() },
+  document: {
+    count: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    delete: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  ingestionJob: { create: jest.fn() },
+  $transaction: (operations: Promise<unknown>[]) => Promise.all(operations),
+};
+mockPrisma(prisma);
+
+const documentsRoute = await import("../projects/[id]/documents/route");
+const documentRoute = await import("../documents/[id]/route");
+const reprocessRoute = await import("../documents/[id]/reprocess/route");
+
+function documentRecord(id: string, overrides = {}) {
+  return {
+    id,
+    projectId: PROJECT_ID,
+    filename: "handbook.pdf",
+    fileType: "pdf",
+    status: "ready",
+    uploadedAt: new Date("2026-01-01T00:00:00Z"),
+    errorMessage: null,
+    sizeBytes: 1024,
+    sha256: "abc",
+    storageKey: null,
+    crawlId: null,
+    metadata: null,
+    contentHash: null,
+    lastSyncedAt: null,
+    syncIntervalMinutes: null,
+    ...overrides,
+  };
+}
+
+function request(url: string, method = "GET") {
+  return new NextRequest(`http://localhost${url}`, { method });
+}
+
+describe("document routes", () => {
+  // errorHandler logs every error it turns into a response
+  const consoleError = jest.spyOn(console, "error");
+  beforeAll(() => consoleError.mockImplementation(() => {}));
+  afterAll(async () => {
+    consoleError.mockRestore();
+    if (previousBlobPath === undefined) {
+      delete process.env.BLOB_STORE_PATH;
+    } else {
+      process.env.BLOB_STORE_PATH = previousBlobPath;
+    }
+    resetConfig();
+    await fs.rm(blobRoot, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    const models = [prisma.project, prisma.document, prisma.ingestionJob];
+    for (const model of models) {
+      for (const fn of Object.values(model)) {
+        fn.mockReset();
+      }
+    }
+  });
+
+  describe("GET /api/projects/[id]/documents", () => {
+    beforeEach(() => {
+      prisma.project.findUnique.mockResolvedValue({
+        id: PROJECT_ID,
+        name: "Docs",
+        createdAt: new Date(),
+        documents: [],
+      });
+    });
+
+    it("should list a filtered page of documents", async () => {
+      prisma.document.count.mockResolvedValue(21);
+      prisma.document.findMany.mockResolvedValue([documentRecord("d1")]);
+
+      const response = await documentsRoute.GET(
+        request(
+          `/api/projects/${PROJECT_ID}/documents` +
+            "?status=ready&fileType=pdf&tag=handbook&page=2"
+        ),
+        { params: { id: PROJECT_ID } }
+      );
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.documents).toMatchObject([
+        { id: "d1", filename: "handbook.pdf", status: "ready" },
+      ]);
+      expect(body.pagination).toEqual({
+        page: 2,
+        pageSize: 20,
+        total: 21,
+        totalPages: 2,
+      });
+      expect(prisma.document.findMany).toHaveBeenCalledWith({
+        where: {
+          projectId: PROJECT_ID,
+          status: "ready",
+          fileType: "pdf",
+          tags: { some: { tag: { name: "handbook" } } },
+        },
+        orderBy: { uploadedAt: "desc" },
+        skip: 20,
+        take: 20,
+      });
+    });
+
+    it("should reject an unknown status", async () => {
+      const response = await documentsRoute.GET(
+        request(`/api/projects/${PROJECT_ID}/documents?status=done`),
+        { params: { id: PROJECT_ID } }
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe("Validation failed");
+      expect(prisma.document.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 for an unknown project", async () => {
+      prisma.project.findUnique.mockResolvedValue(null);
+
+      const response = await documentsRoute.GET(
+        request(`/api/projects/${PROJECT_ID}/documents`),
+        { params: { id: PROJECT_ID } }
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("GET /api/documents/[id]", () => {
+    it("should return the document with its chunk count and tags", async () => {
+      prisma.document.findUnique.mockResolvedValue({
+        ...documentRecord("d1"),
+        _count: { chunks: 12 },
+        tags: [{ tag: { name: "handbook" } }, { tag: { name: "hr" } }],
+      });
+
+      const response = await documentRoute.GET(
+        request("/api/documents/d1"),
+        { params: { id: "d1" } }
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        id: "d1",
+        chunkCount: 12,
+        tags: ["handbook", "hr"],
+      });
+    });
+
+    it("should return 404 for an unknown document", async () => {
+      prisma.document.findUnique.mockResolvedValue(null);
+
+      const response = await documentRoute.GET(
+        request("/api/documents/missing"),
+        { params: { id: "missing" } }
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("DELETE /api/documents/[id]", () => {
+    it("should delete the document and its stored file", async () => {
+      const storageKey = documentStorageKey(PROJECT_ID, "d1", "handbook.pdf");
+      const filePath = path.join(blobRoot, storageKey);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, "%PDF");
+      prisma.document.findUnique.mockResolvedValue({
+        project: { id: PROJECT_ID, vectorCollection: null },
+      });
+      prisma.document.delete.mockResolvedValue(
+        documentRecord("d1", { storageKey })
+      );
+
+      const response = await documentRoute.DELETE(
+        request("/api/documents/d1", "DELETE"),
+        { params: { id: "d1" } }
+      );
+
+      expect(response.status).toBe(200);
+      expect(prisma.document.delete).toHaveBeenCalledWith({
+        where: { id: "d1" },
+      });
+      await expect(fs.access(filePath)).rejects.toThrow();
+    });
+
+    it("should return 404 for an unknown document", async () => {
+      prisma.document.findUnique.mockResolvedValue(null);
+
+      const response = await documentRoute.DELETE(
+        request("/api/documents/missing", "DELETE"),
+        { params: { id: "missing" } }
+      );
+
+      expect(response.status).toBe(404);
+      expect(prisma.document.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /api/documents/[id]/reprocess", () => {
+    it("should queue a failed document again", async () => {
+      prisma.document.findUnique.mockResolvedValue(
+        documentRecord("d1", {
+          status: "failed",
+          errorMessage: "Extraction failed",
+          storageKey: "some/key.pdf",
+        })
+      );
+      prisma.document.updateMany.mockResolvedValue({ count: 1 });
+      prisma.ingestionJob.create.mockResolvedValue({ id: "job-1" });
+
+      const response = await reprocessRoute.POST(
+        request("/api/documents/d1/reprocess", "POST"),
+        { params: { id: "d1" } }
+      );
+
+      expect(response.status).toBe(202);
+      const body = await response.json();
+      expect(body).toMatchObject({
+        id: "d1",
+        status: "pending",
+        jobId: "job-1",
+      });
+      expect(body.errorMessage).toBeUndefined();
+      expect(prisma.ingestionJob.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          documentId: "d1",
+          type: "process_document",
+        }),
+      });
+    });
+
+    it("should refuse a document that is already queued", async () => {
+      prisma.document.findUnique.mockResolvedValue(
+        documentRecord("d1", { status: "pending", storageKey: "some/key.pdf" })
+      );
+      prisma.document.updateMany.mockResolvedValue({ count: 0 });
+
+      const response = await reprocessRoute.POST(
+        request("/api/documents/d1/reprocess", "POST"),
+        { params: { id: "d1" } }
+      );
+
+      expect(response.status).toBe(409);
+      expect(prisma.ingestionJob.create).not.toHaveBeenCalled();
+    });
+
+    it("should refuse a file whose upload is no longer stored", async () => {
+      prisma.document.findUnique.mockResolvedValue(documentRecord("d1"));
+
+      const response = await reprocessRoute.POST(
+        request("/api/documents/d1/reprocess", "POST"),
+        { params: { id: "d1" } }
+      );
+
+      expect(response.status).toBe(400);
+      expect(prisma.document.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -31,12 +31,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { projectId, message } = validationResult.data.body;
+    const { projectId, message, conversationId, filter } =
+      validationResult.data.body;
 
     // Process query using ChatService
     const response = await chatService.processQuery({
       projectId,
       message,
+      conversationId,
+      filter,
     });
 
     // Return success response
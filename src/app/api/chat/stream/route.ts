@@ -0,0 +1,103 @@
+/**
+ * POST /api/chat/stream - Stream chat responses over Server-Sent Events
+ * Emits retrieval metadata, then answer token deltas, then a final event
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ChatService } from "@/services/chat.service";
+import { ChatRequestSchema } from "@/lib/schemas";
+import { errorHandler } from "@/lib/error-handler";
+import { AppError } from "@/lib/errors";
+
+const chatService = new ChatService();
+
+/**
+ * Serializes one event in SSE wire format
+ */
+function encodeEvent(event: string, data: unknown): Uint8Array {
+  return new TextEncoder().encode(
+    `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+  );
+}
+
+/**
+ * POST /api/chat/stream
+ * Processes user chat queries using RAG pipeline and streams the answer
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Parse and validate request body
+    const body = await request.json();
+
+    const validationResult = ChatRequestSchema.safeParse({ body });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { projectId, message, conversationId, filter } =
+      validationResult.data.body;
+
+    const events = chatService.processQueryStream({
+      projectId,
+      message,
+      conversationId,
+      filter,
+    });
+
+    // Run retrieval before committing to a stream so that request errors
+    // (unknown project, embedding failure) still get a normal error response
+    const first = await events.next();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          if (!first.done) {
+            controller.enqueue(encodeEvent(first.value.type, first.value));
+          }
+
+          for await (const event of events) {
+            controller.enqueue(encodeEvent(event.type, event));
+          }
+        } catch (error) {
+          console.error("Chat stream failed:", error);
+          controller.enqueue(
+            encodeEvent("error", {
+              type: "error",
+              code:
+                error instanceof AppError
+                  ? error.code
+                  : "INTERNAL_SERVER_ERROR",
+              message:
+                error instanceof AppError
+                  ? error.message
+                  : "An unexpected error occurred",
+            })
+          );
+        } finally {
+          controller.close();
+        }
+      },
+      async cancel() {
+        // Client disconnected; stop pulling tokens from the LLM
+        await events.return(undefined);
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * POST /api/conversations/[id]/fork - Branch a conversation at a message
+ * Creates a new conversation with the messages up to and including messageId
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ConversationService } from "@/services/conversation.service";
+import { ForkConversationSchema } from "@/lib/schemas";
+import { errorHandler } from "@/lib/error-handler";
+
+const conversationService = new ConversationService();
+
+/**
+ * POST /api/conversations/[id]/fork
+ * Forks a conversation from the given message
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Parse and validate request body
+    const body = await request.json();
+
+    const validationResult = ForkConversationSchema.safeParse({
+      params: { id: params.id },
+      body,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { params: validParams, body: forkRequest } = validationResult.data;
+
+    // Fork conversation using service
+    const conversation = await conversationService.forkConversation(
+      validParams.id,
+      forkRequest.messageId
+    );
+
+    // Return success response
+    return NextResponse.json(conversation, { status: 201 });
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * GET /api/conversations/[id] - Retrieve a conversation with its messages
+ * PATCH /api/conversations/[id] - Rename and/or pin a conversation
+ * DELETE /api/conversations/[id] - Delete a conversation and its messages
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ConversationService } from "@/services/conversation.service";
+import {
+  GetConversationSchema,
+  UpdateConversationSchema,
+  DeleteConversationSchema,
+} from "@/lib/schemas";
+import { errorHandler } from "@/lib/error-handler";
+
+const conversationService = new ConversationService();
+
+/**
+ * GET /api/conversations/[id]
+ * Retrieves a conversation and its messages, including cited sources
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate conversation ID parameter
+    const validationResult = GetConversationSchema.safeParse({
+      params: { id: params.id },
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = validationResult.data.params;
+
+    // Retrieve conversation using service
+    const conversation = await conversationService.getConversation(id);
+
+    // Return success response
+    return NextResponse.json(conversation, { status: 200 });
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
+
+/**
+ * PATCH /api/conversations/[id]
+ * Updates a conversation's title and/or pinned flag
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Parse and validate request body
+    const body = await request.json();
+
+    const validationResult = UpdateConversationSchema.safeParse({
+      params: { id: params.id },
+      body,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { params: validParams, body: update } = validationResult.data;
+
+    // Update conversation using service
+    const conversation = await conversationService.updateConversation(
+      validParams.id,
+      update
+    );
+
+    // Return success response
+    return NextResponse.json(conversation, { status: 200 });
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
+
+/**
+ * DELETE /api/conversations/[id]
+ * Deletes a conversation and all of its messages
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate conversation ID parameter
+    const validationResult = DeleteConversationSchema.safeParse({
+      params: { id: params.id },
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = validationResult.data.params;
+
+    // Delete conversation using service (cascade deletes messages)
+    await conversationService.deleteConversation(id);
+
+    // Return success response
+    return NextResponse.json(
+      { message: "Conversation deleted successfully" },
+      { status: 200 }
+    );
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * GET /api/crawls/[id] - Retrieve a crawl's status and page progress
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { CrawlService } from "@/services/crawl.service";
+import { GetCrawlSchema } from "@/lib/schemas";
+import { errorHandler } from "@/lib/error-handler";
+
+const crawlService = new CrawlService();
+
+/**
+ * GET /api/crawls/[id]
+ * Retrieves a crawl with the processing status counts of its pages
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate crawl ID parameter
+    const validationResult = GetCrawlSchema.safeParse({
+      params: { id: params.id },
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = validationResult.data.params;
+
+    const crawl = await crawlService.getCrawl(id);
+
+    // Return success response
+    return NextResponse.json(crawl, { status: 200 });
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * POST /api/documents/[id]/reprocess - Re-run processing for a document
+ * Queues the document again from its stored file or URL
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { DocumentService } from "@/services/document.service";
+import { ReprocessDocumentSchema } from "@/lib/schemas";
+import { errorHandler } from "@/lib/error-handler";
+
+const documentService = new DocumentService();
+
+/**
+ * POST /api/documents/[id]/reprocess
+ * Resets the document to "pending" and queues a new ingestion job
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate document ID parameter
+    const validationResult = ReprocessDocumentSchema.safeParse({
+      params: { id: params.id },
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = validationResult.data.params;
+
+    const { document, job } = await documentService.reprocessDocument(id);
+
+    // Return accepted response; the worker replaces the document's vectors
+    return NextResponse.json({ ...document, jobId: job.id }, { status: 202 });
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * GET /api/documents/[id] - Retrieve a document's status and chunk count
+ * PATCH /api/documents/[id] - Change a URL document's re-sync interval
+ * DELETE /api/documents/[id] - Delete a document, its vectors and stored file
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { DocumentService } from "@/services/document.service";
+import {
+  GetDocumentSchema,
+  UpdateDocumentSchema,
+  DeleteDocumentSchema,
+} from "@/lib/schemas";
+import { errorHandler } from "@/lib/error-handler";
+
+const documentService = new DocumentService();
+
+/**
+ * GET /api/documents/[id]
+ * Retrieves a document with its processing status and chunk count
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate document ID parameter
+    const validationResult = GetDocumentSchema.safeParse({
+      params: { id: params.id },
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = validationResult.data.params;
+
+    // Retrieve document using service
+    const document = await documentService.getDocument(id);
+
+    // Return success response
+    return NextResponse.json(document, { status: 200 });
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
+
+/**
+ * PATCH /api/documents/[id]
+ * Updates a document's settings
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Parse and validate request body
+    const body = await request.json();
+
+    const validationResult = UpdateDocumentSchema.safeParse({
+      params: { id: params.id },
+      body,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { params: validParams, body: update } = validationResult.data;
+
+    // Update document using service
+    const document = await documentService.updateDocument(
+      validParams.id,
+      update
+    );
+
+    // Return success response
+    return NextResponse.json(document, { status: 200 });
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
+
+/**
+ * DELETE /api/documents/[id]
+ * Deletes a document and everything derived from it
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate document ID parameter
+    const validationResult = DeleteDocumentSchema.safeParse({
+      params: { id: params.id },
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = validationResult.data.params;
+
+    // Delete vectors, database record (cascade deletes chunks and jobs) and
+    // stored file
+    await documentService.deleteDocument(id);
+
+    // Return success response
+    return NextResponse.json(
+      { message: "Document deleted successfully" },
+      { status: 200 }
+    );
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * POST /api/documents/[id]/sync - Re-sync a URL document now
+ * Queues a conditional re-fetch; the document is only re-indexed if its
+ * content changed
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { DocumentService } from "@/services/document.service";
+import { SyncDocumentSchema } from "@/lib/schemas";
+import { errorHandler } from "@/lib/error-handler";
+
+const documentService = new DocumentService();
+
+/**
+ * POST /api/documents/[id]/sync
+ * Queues a sync job for the document, ahead of its schedule
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate document ID parameter
+    const validationResult = SyncDocumentSchema.safeParse({
+      params: { id: params.id },
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = validationResult.data.params;
+
+    const job = await documentService.queueSync(id);
+
+    // Return accepted response; the worker fetches the page in the background
+    return NextResponse.json({ jobId: job.id }, { status: 202 });
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
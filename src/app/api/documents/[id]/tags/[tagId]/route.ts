@@ -0,0 +1,45 @@
+/**
+ * DELETE /api/documents/[id]/tags/[tagId] - Remove a tag from a document
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { TagService } from "@/services/tag.service";
+import { RemoveDocumentTagSchema } from "@/lib/schemas";
+import { errorHandler } from "@/lib/error-handler";
+
+const tagService = new TagService();
+
+/**
+ * DELETE /api/documents/[id]/tags/[tagId]
+ * Removes a tag from a document and untags its stored chunks
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; tagId: string } }
+) {
+  try {
+    // Validate document and tag ID parameters
+    const validationResult = RemoveDocumentTagSchema.safeParse({
+      params: { id: params.id, tagId: params.tagId },
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id, tagId } = validationResult.data.params;
+
+    const tags = await tagService.removeTagFromDocument(id, tagId);
+
+    // Return success response
+    return NextResponse.json({ tags }, { status: 200 });
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * GET /api/documents/[id]/tags - List a document's tags
+ * POST /api/documents/[id]/tags - Assign a tag to a document
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { TagService } from "@/services/tag.service";
+import { GetDocumentTagsSchema, AddDocumentTagSchema } from "@/lib/schemas";
+import { errorHandler } from "@/lib/error-handler";
+
+const tagService = new TagService();
+
+/**
+ * GET /api/documents/[id]/tags
+ * Lists the tags carried by a document
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate document ID parameter
+    const validationResult = GetDocumentTagsSchema.safeParse({
+      params: { id: params.id },
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = validationResult.data.params;
+
+    const tags = await tagService.getDocumentTags(id);
+
+    // Return success response
+    return NextResponse.json({ tags }, { status: 200 });
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
+
+/**
+ * POST /api/documents/[id]/tags
+ * Assigns a tag from the document's project and tags its stored chunks
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Parse and validate request body
+    const body = await request.json();
+
+    const validationResult = AddDocumentTagSchema.safeParse({
+      params: { id: params.id },
+      body,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { params: validParams, body: tagRequest } = validationResult.data;
+
+    const tags = await tagService.addTagToDocument(
+      validParams.id,
+      tagRequest.tagId
+    );
+
+    // Return success response
+    return NextResponse.json({ tags }, { status: 200 });
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
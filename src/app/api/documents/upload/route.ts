@@ -1,15 +1,19 @@
 /**
  * POST /api/documents/upload - Upload document or URL
- * Handles file uploads and URL submissions for document processing
+ * Handles file uploads and URL submissions and queues them for processing.
+ * URL submissions with `crawl=true` crawl the site instead of a single page,
+ * and `syncIntervalMinutes` re-syncs URL documents on a schedule.
  * Requirements: 13.4, 13.6
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { DocumentService } from "@/services/document.service";
+import { CrawlService } from "@/services/crawl.service";
 import { UploadDocumentSchema } from "@/lib/schemas";
 import { errorHandler } from "@/lib/error-handler";
 
 const documentService = new DocumentService();
+const crawlService = new CrawlService();
 
 /**
  * POST /api/documents/upload
@@ -25,9 +29,26 @@ export async function POST(request: NextRequest) {
     const url = formData.get("url") as string;
     const file = formData.get("file") as File;
 
+    // Crawl options are optional form fields; missing ones take defaults
+    const field = (name: string) => formData.get(name) ?? undefined;
+    const crawl =
+      formData.get("crawl") === "true"
+        ? {
+            maxDepth: field("maxDepth"),
+            maxPages: field("maxPages"),
+            scope: field("scope"),
+            respectRobots: field("respectRobots"),
+            useSitemap: field("useSitemap"),
+          }
+        : undefined;
+
     // Validate request with Zod schema
     const validationResult = UploadDocumentSchema.safeParse({
-      body: { projectId },
+      body: {
+        projectId,
+        crawl,
+        syncIntervalMinutes: field("syncIntervalMinutes"),
+      },
     });
 
     if (!validationResult.success) {
@@ -40,11 +61,38 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const { crawl: crawlOptions, syncIntervalMinutes } =
+      validationResult.data.body;
+
+    if (crawlOptions) {
+      if (!url) {
+        return NextResponse.json(
+          {
+            error: "Validation failed",
+            details: "Crawl mode requires a 'url'",
+          },
+          { status: 400 }
+        );
+      }
+
+      // The crawl job discovers the pages and queues each one for processing
+      const { document, job } = await crawlService.startCrawl(
+        projectId,
+        url,
+        crawlOptions,
+        syncIntervalMinutes
+      );
+
+      return NextResponse.json({ ...document, jobId: job.id }, { status: 202 });
+    }
+
     let document;
 
     if (url) {
       // Handle URL upload
-      document = await documentService.uploadUrl(projectId, url);
+      document = await documentService.uploadUrl(projectId, url, {
+        syncIntervalMinutes,
+      });
     } else if (file) {
       // Handle file upload
       // Convert File to buffer format expected by DocumentService
@@ -66,21 +114,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Trigger async document processing
-    // Note: In a production app, this would typically be done with a job queue
-    // For now, we'll process synchronously for simplicity
-    try {
-      await documentService.processDocument(document.id);
-    } catch (processError) {
-      // Log processing error but don't fail the upload
-      console.error(
-        `Document processing failed for ${document.id}:`,
-        processError
-      );
-    }
+    // Hand processing off to the background ingestion worker
+    const job = await documentService.queueProcessing(document.id);
 
-    // Return success response
-    return NextResponse.json(document, { status: 201 });
+    // Return accepted response; the document stays "pending" until the worker runs
+    return NextResponse.json({ ...document, jobId: job.id }, { status: 202 });
   } catch (error) {
     return errorHandler(error);
   }
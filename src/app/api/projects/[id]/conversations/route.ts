@@ -0,0 +1,61 @@
+/**
+ * GET /api/projects/[id]/conversations - List a project's conversations
+ * Returns pinned conversations first, then the most recently active
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ProjectService } from "@/services/project.service";
+import { ConversationService } from "@/services/conversation.service";
+import { ListConversationsSchema } from "@/lib/schemas";
+import { errorHandler } from "@/lib/error-handler";
+
+const projectService = new ProjectService();
+const conversationService = new ConversationService();
+
+/**
+ * GET /api/projects/[id]/conversations?page=1&pageSize=20
+ * Lists conversations for a project, paginated
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = request.nextUrl;
+
+    // Validate project ID parameter and pagination query
+    const validationResult = ListConversationsSchema.safeParse({
+      params: { id: params.id },
+      query: {
+        page: searchParams.get("page") ?? undefined,
+        pageSize: searchParams.get("pageSize") ?? undefined,
+      },
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { params: validParams, query } = validationResult.data;
+
+    // Ensure the project exists so an unknown ID is a 404, not an empty page
+    await projectService.getProject(validParams.id);
+
+    const page = await conversationService.listConversations(
+      validParams.id,
+      query.page,
+      query.pageSize
+    );
+
+    // Return success response
+    return NextResponse.json(page, { status: 200 });
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
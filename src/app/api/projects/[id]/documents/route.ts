@@ -0,0 +1,65 @@
+/**
+ * GET /api/projects/[id]/documents - List a project's documents
+ * Supports filtering by status, file type and tag, most recent uploads first
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ProjectService } from "@/services/project.service";
+import { DocumentService } from "@/services/document.service";
+import { ListDocumentsSchema } from "@/lib/schemas";
+import { errorHandler } from "@/lib/error-handler";
+
+const projectService = new ProjectService();
+const documentService = new DocumentService();
+
+/**
+ * GET /api/projects/[id]/documents?status=ready&fileType=pdf&tag=handbook&page=1&pageSize=20
+ * Lists documents for a project, filtered and paginated
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = request.nextUrl;
+
+    // Validate project ID parameter, filters and pagination query
+    const validationResult = ListDocumentsSchema.safeParse({
+      params: { id: params.id },
+      query: {
+        status: searchParams.get("status") ?? undefined,
+        fileType: searchParams.get("fileType") ?? undefined,
+        tag: searchParams.get("tag") ?? undefined,
+        page: searchParams.get("page") ?? undefined,
+        pageSize: searchParams.get("pageSize") ?? undefined,
+      },
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { params: validParams, query } = validationResult.data;
+
+    // Ensure the project exists so an unknown ID is a 404, not an empty page
+    await projectService.getProject(validParams.id);
+
+    const page = await documentService.listDocuments(
+      validParams.id,
+      { status: query.status, fileType: query.fileType, tag: query.tag },
+      query.page,
+      query.pageSize
+    );
+
+    // Return success response
+    return NextResponse.json(page, { status: 200 });
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * GET /api/projects/[id]/reindex - Retrieve a project's latest re-index
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ReindexService } from "@/services/reindex.service";
+import { GetReindexSchema } from "@/lib/schemas";
+import { errorHandler } from "@/lib/error-handler";
+
+const reindexService = new ReindexService();
+
+/**
+ * GET /api/projects/[id]/reindex
+ * Retrieves the project's most recent re-index with its progress
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate project ID parameter
+    const validationResult = GetReindexSchema.safeParse({
+      params: { id: params.id },
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = validationResult.data.params;
+
+    const reindex = await reindexService.getLatestReindex(id);
+
+    // Return success response
+    return NextResponse.json(reindex, { status: 200 });
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * GET /api/projects/[id]/tags - List a project's tags
+ * POST /api/projects/[id]/tags - Create a tag in a project
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ProjectService } from "@/services/project.service";
+import { TagService } from "@/services/tag.service";
+import { ListTagsSchema, CreateTagSchema } from "@/lib/schemas";
+import { errorHandler } from "@/lib/error-handler";
+
+const projectService = new ProjectService();
+const tagService = new TagService();
+
+/**
+ * GET /api/projects/[id]/tags
+ * Lists a project's tags with their document counts
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate project ID parameter
+    const validationResult = ListTagsSchema.safeParse({
+      params: { id: params.id },
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = validationResult.data.params;
+
+    // Ensure the project exists so an unknown ID is a 404, not an empty list
+    await projectService.getProject(id);
+
+    const tags = await tagService.listTags(id);
+
+    // Return success response
+    return NextResponse.json({ tags }, { status: 200 });
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
+
+/**
+ * POST /api/projects/[id]/tags
+ * Creates a tag with a name unique within the project
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Parse and validate request body
+    const body = await request.json();
+
+    const validationResult = CreateTagSchema.safeParse({
+      params: { id: params.id },
+      body,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { params: validParams, body: tagRequest } = validationResult.data;
+
+    await projectService.getProject(validParams.id);
+
+    const tag = await tagService.createTag(validParams.id, tagRequest.name);
+
+    // Return success response
+    return NextResponse.json(tag, { status: 201 });
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
@@ -1,6 +1,7 @@
 /**
  * POST /api/projects - Create a new project
- * Creates a project with the specified name and returns project details
+ * Creates a project with the specified name and chunking settings and
+ * returns project details
  * Requirements: 13.1, 13.6
  */
 
@@ -31,10 +32,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { name } = validationResult.data.body;
+    const { name, chunking } = validationResult.data.body;
 
     // Create project using service
-    const project = await projectService.createProject(name);
+    const project = await projectService.createProject(name, chunking);
 
     // Return success response
     return NextResponse.json(project, { status: 201 });
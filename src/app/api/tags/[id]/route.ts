@@ -0,0 +1,48 @@
+/**
+ * DELETE /api/tags/[id] - Delete a tag and remove it from its documents
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { TagService } from "@/services/tag.service";
+import { DeleteTagSchema } from "@/lib/schemas";
+import { errorHandler } from "@/lib/error-handler";
+
+const tagService = new TagService();
+
+/**
+ * DELETE /api/tags/[id]
+ * Deletes a tag; documents carrying it are untagged, chunks included
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Validate tag ID parameter
+    const validationResult = DeleteTagSchema.safeParse({
+      params: { id: params.id },
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = validationResult.data.params;
+
+    await tagService.deleteTag(id);
+
+    // Return success response
+    return NextResponse.json(
+      { message: "Tag deleted successfully" },
+      { status: 200 }
+    );
+  } catch (error) {
+    return errorHandler(error);
+  }
+}
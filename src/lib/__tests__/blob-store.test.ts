@@ -0,0 +1,217 @@
+/**
+ * Unit tests for the blob stores
+ * Tests the local backend on a temporary directory and the S3 backend
+ * against a minimal in-process S3 endpoint
+ */
+
+import { promises as fs } from "fs";
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import {
+  LocalBlobStore,
+  S3BlobStore,
+  documentStorageKey,
+  projectStoragePrefix,
+} from "../blob-store";
+import { NotFoundError, ValidationError } from "../errors";
+
+describe("documentStorageKey", () => {
+  it("should place a document's blob under its project's prefix", () => {
+    const key = documentStorageKey("p1", "d1", "../Annual Report.pdf");
+
+    expect(key).toBe("projects/p1/d1/Annual_Report.pdf");
+    expect(key.startsWith(projectStoragePrefix("p1"))).toBe(true);
+  });
+});
+
+describe("LocalBlobStore", () => {
+  let root: string;
+  let store: LocalBlobStore;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "blob-store-"));
+    store = new LocalBlobStore(root);
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("should read back what was put", async () => {
+    await store.put("projects/p1/d1/a.txt", Buffer.from("hello"));
+
+    expect((await store.get("projects/p1/d1/a.txt")).toString()).toBe("hello");
+  });
+
+  it("should overwrite an existing blob", async () => {
+    await store.put("a.txt", Buffer.from("first"));
+    await store.put("a.txt", Buffer.from("second"));
+
+    expect((await store.get("a.txt")).toString()).toBe("second");
+  });
+
+  it("should throw NotFoundError for a missing or deleted blob", async () => {
+    await store.put("a.txt", Buffer.from("hello"));
+    await store.delete("a.txt");
+
+    await expect(store.get("a.txt")).rejects.toThrow(NotFoundError);
+    await expect(store.get("never.txt")).rejects.toThrow(NotFoundError);
+  });
+
+  it("should ignore deleting a missing blob", async () => {
+    await expect(store.delete("never.txt")).resolves.toBeUndefined();
+  });
+
+  it("should delete only the blobs under a prefix", async () => {
+    await store.put("projects/p1/d1/a.txt", Buffer.from("a"));
+    await store.put("projects/p1/d2/b.txt", Buffer.from("b"));
+    await store.put("projects/p2/d3/c.txt", Buffer.from("c"));
+
+    await store.deletePrefix(projectStoragePrefix("p1"));
+
+    await expect(store.get("projects/p1/d1/a.txt")).rejects.toThrow(
+      NotFoundError
+    );
+    await expect(store.get("projects/p1/d2/b.txt")).rejects.toThrow(
+      NotFoundError
+    );
+    expect((await store.get("projects/p2/d3/c.txt")).toString()).toBe("c");
+  });
+
+  it("should reject keys that escape the root", async () => {
+    const outside = path.join(path.dirname(root), "outside.txt");
+
+    for (const key of ["../x", "a/../../x", outside, "", "."]) {
+      await expect(store.put(key, Buffer.from("x"))).rejects.toThrow(
+        ValidationError
+      );
+      await expect(store.get(key)).rejects.toThrow(ValidationError);
+      await expect(store.delete(key)).rejects.toThrow(ValidationError);
+    }
+    await expect(store.deletePrefix("../")).rejects.toThrow(ValidationError);
+    await expect(fs.access(outside)).rejects.toThrow();
+  });
+});
+
+/**
+ * Serves the handful of S3 operations S3BlobStore uses, with path-style
+ * addressing, from an in-memory map
+ */
+function startS3Stub(objects: Map<string, Buffer>): Promise<Server> {
+  const readBody = async (request: IncomingMessage) => {
+    const parts: Buffer[] = [];
+    for await (const part of request) {
+      parts.push(part as Buffer);
+    }
+    return Buffer.concat(parts);
+  };
+
+  const server = createServer(async (request, response) => {
+    const url = new URL(request.url!, "http://localhost");
+    const [, bucket, ...rest] = url.pathname.split("/");
+    const key = decodeURIComponent(rest.join("/"));
+    const body = await readBody(request);
+
+    if (bucket !== "uploads") {
+      response.writeHead(404).end();
+    } else if (request.method === "PUT") {
+      objects.set(key, body);
+      response.writeHead(200).end();
+    } else if (request.method === "GET" && url.searchParams.has("list-type")) {
+      const prefix = url.searchParams.get("prefix") ?? "";
+      const contents = Array.from(objects.keys())
+        .filter((objectKey) => objectKey.startsWith(prefix))
+        .map((objectKey) => `<Contents><Key>${objectKey}</Key></Contents>`);
+      response
+        .writeHead(200, { "Content-Type": "application/xml" })
+        .end(
+          `<ListBucketResult><IsTruncated>false</IsTruncated>` +
+            `${contents.join("")}</ListBucketResult>`
+        );
+    } else if (request.method === "GET") {
+      const object = objects.get(key);
+      if (object) {
+        response.writeHead(200).end(object);
+      } else {
+        response
+          .writeHead(404, { "Content-Type": "application/xml" })
+          .end(`<Error><Code>NoSuchKey</Code><Key>${key}</Key></Error>`);
+      }
+    } else if (request.method === "DELETE") {
+      objects.delete(key);
+      response.writeHead(204).end();
+    } else if (request.method === "POST" && url.searchParams.has("delete")) {
+      for (const [, deleted] of body
+        .toString()
+        .matchAll(/<Key>([^<]*)<\/Key>/g)) {
+        objects.delete(deleted);
+      }
+      response
+        .writeHead(200, { "Content-Type": "application/xml" })
+        .end("<DeleteResult></DeleteResult>");
+    } else {
+      response.writeHead(400).end();
+    }
+  });
+
+  return new Promise((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve(server))
+  );
+}
+
+describe("S3BlobStore", () => {
+  const objects = new Map<string, Buffer>();
+  let server: Server;
+  let store: S3BlobStore;
+
+  beforeAll(async () => {
+    server = await startS3Stub(objects);
+    const { port } = server.address() as AddressInfo;
+    store = new S3BlobStore({
+      endpoint: `http://127.0.0.1:${port}`,
+      region: "us-east-1",
+      bucket: "uploads",
+      accessKeyId: "test",
+      secretAccessKey: "test",
+      forcePathStyle: true,
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    objects.clear();
+  });
+
+  it("should read back what was put", async () => {
+    await store.put("projects/p1/d1/a.txt", Buffer.from("hello"), "text/plain");
+
+    expect(objects.get("projects/p1/d1/a.txt")?.toString()).toBe("hello");
+    expect((await store.get("projects/p1/d1/a.txt")).toString()).toBe("hello");
+  });
+
+  it("should throw NotFoundError for a missing blob", async () => {
+    await expect(store.get("never.txt")).rejects.toThrow(NotFoundError);
+  });
+
+  it("should delete a blob", async () => {
+    await store.put("a.txt", Buffer.from("hello"));
+    await store.delete("a.txt");
+
+    expect(objects.has("a.txt")).toBe(false);
+  });
+
+  it("should delete only the blobs under a prefix", async () => {
+    await store.put("projects/p1/d1/a.txt", Buffer.from("a"));
+    await store.put("projects/p1/d2/b.txt", Buffer.from("b"));
+    await store.put("projects/p2/d3/c.txt", Buffer.from("c"));
+
+    await store.deletePrefix(projectStoragePrefix("p1"));
+
+    expect(Array.from(objects.keys())).toEqual(["projects/p2/d3/c.txt"]);
+  });
+});
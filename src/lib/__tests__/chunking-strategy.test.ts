@@ -0,0 +1,180 @@
+/**
+ * Unit tests for chunking strategies
+ * Tests where each strategy cuts text and the ranges it reports
+ */
+
+import {
+  STRATEGY_DEFAULTS,
+  chunkingOptionsError,
+  createChunkingStrategy,
+  resolveChunkingOptions,
+} from "../chunking-strategy";
+
+describe("createChunkingStrategy", () => {
+  describe("recursive", () => {
+    it("should cut chunks within the character budget", async () => {
+      const text = "Plain sentence number one. ".repeat(200);
+      const strategy = createChunkingStrategy({
+        strategy: "recursive",
+        chunkSize: 300,
+        chunkOverlap: 50,
+      });
+
+      const spans = await strategy.split(text);
+
+      expect(spans.length).toBeGreaterThan(1);
+      for (const span of spans) {
+        expect(span.text.length).toBeLessThanOrEqual(300);
+        expect(text.slice(span.start, span.end)).toBe(span.text);
+      }
+    });
+  });
+
+  describe("markdown", () => {
+    const markdown = [
+      "Intro before any heading.",
+      "",
+      "# Guide",
+      "",
+      "## Install",
+      "",
+      "Run the installer.",
+      "",
+      "```sh",
+      "# not a heading",
+      "```",
+      "",
+      "## Usage",
+      "",
+      "Start the server.",
+    ].join("\n");
+
+    it("should keep sections apart and prefix their heading trail", async () => {
+      const strategy = createChunkingStrategy(STRATEGY_DEFAULTS.markdown);
+
+      const spans = await strategy.split(markdown);
+
+      expect(spans.map((span) => span.text)).toEqual([
+        "Intro before any heading.",
+        "Guide > Install\n\nRun the installer.\n\n```sh\n# not a heading\n```",
+        "Guide > Usage\n\nStart the server.",
+      ]);
+      expect(markdown.slice(spans[2].start, spans[2].end)).toBe(
+        "Start the server."
+      );
+    });
+
+    it("should repeat the trail on every chunk of a long section", async () => {
+      const text = `# Long\n\n${"Some words in a row. ".repeat(50)}`;
+      const strategy = createChunkingStrategy({
+        strategy: "markdown",
+        chunkSize: 200,
+        chunkOverlap: 0,
+      });
+
+      const spans = await strategy.split(text);
+
+      expect(spans.length).toBeGreaterThan(1);
+      for (const span of spans) {
+        expect(span.text.startsWith("Long\n\n")).toBe(true);
+        expect(span.text.length).toBeLessThanOrEqual(200);
+      }
+    });
+  });
+
+  describe("sentence", () => {
+    it("should group whole sentences into overlapping windows", async () => {
+      const text = "One is first. Two is next. Three follows. Four ends it.";
+      const strategy = createChunkingStrategy({
+        strategy: "sentence",
+        chunkSize: 2,
+        chunkOverlap: 1,
+      });
+
+      const spans = await strategy.split(text);
+
+      expect(spans.map((span) => span.text)).toEqual([
+        "One is first. Two is next.",
+        "Two is next. Three follows.",
+        "Three follows. Four ends it.",
+      ]);
+      for (const span of spans) {
+        expect(text.slice(span.start, span.end)).toBe(span.text);
+      }
+    });
+
+    it("should return a single window for short text", async () => {
+      const strategy = createChunkingStrategy(STRATEGY_DEFAULTS.sentence);
+
+      const spans = await strategy.split("Only one sentence here.");
+
+      expect(spans.map((span) => span.text)).toEqual([
+        "Only one sentence here.",
+      ]);
+    });
+  });
+
+  describe("token", () => {
+    it("should measure chunks in tokens rather than characters", async () => {
+      // Each repetition is a handful of tokens but many characters
+      const text = "internationalization ".repeat(200);
+      const strategy = createChunkingStrategy({
+        strategy: "token",
+        chunkSize: 100,
+        chunkOverlap: 0,
+      });
+
+      const spans = await strategy.split(text);
+
+      expect(spans.length).toBeGreaterThan(1);
+      expect(spans[0].text.length).toBeGreaterThan(300);
+      expect(text.slice(spans[1].start, spans[1].end)).toBe(spans[1].text);
+    });
+  });
+});
+
+describe("chunkingOptionsError", () => {
+  it("should accept each strategy's defaults", () => {
+    for (const options of Object.values(STRATEGY_DEFAULTS)) {
+      expect(chunkingOptionsError(options)).toBeNull();
+    }
+  });
+
+  it("should check sizes in the strategy's unit", () => {
+    expect(
+      chunkingOptionsError({
+        strategy: "sentence",
+        chunkSize: 1000,
+        chunkOverlap: 0,
+      })
+    ).toContain("between 1 and 50 sentences");
+  });
+
+  it("should reject an overlap as large as the chunk", () => {
+    expect(
+      chunkingOptionsError({
+        strategy: "recursive",
+        chunkSize: 500,
+        chunkOverlap: 500,
+      })
+    ).toContain("less than the chunk size");
+  });
+});
+
+describe("resolveChunkingOptions", () => {
+  const defaults = { ...STRATEGY_DEFAULTS.recursive, chunkSize: 1500 };
+
+  it("should fill in the configured defaults", () => {
+    expect(resolveChunkingOptions({ chunkOverlap: 100 }, defaults)).toEqual({
+      strategy: "recursive",
+      chunkSize: 1500,
+      chunkOverlap: 100,
+    });
+  });
+
+  it("should use another strategy's own defaults", () => {
+    expect(resolveChunkingOptions({ strategy: "token" }, defaults)).toEqual(
+      STRATEGY_DEFAULTS.token
+    );
+  });
+});
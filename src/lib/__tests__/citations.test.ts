@@ -0,0 +1,79 @@
+/**
+ * Unit tests for citation utilities
+ * Tests marker extraction and validation against retrieved sources
+ */
+
+import {
+  ChatSource,
+  buildSnippet,
+  checkCitations,
+  extractCitationMarkers,
+  pageRange,
+} from "../citations";
+
+describe("citations", () => {
+  const sources: ChatSource[] = [1, 2, 3].map((marker) => ({
+    marker,
+    documentId: `doc-${marker}`,
+    filename: "guide.pdf",
+    chunkIndex: marker - 1,
+    score: 0.9 - marker / 10,
+    snippet: `Passage ${marker}`,
+  }));
+
+  describe("extractCitationMarkers", () => {
+    it("should extract single and grouped markers in order of first use", () => {
+      const answer = "SSO is supported [2]. Sync works offline [1, 3] [2].";
+
+      expect(extractCitationMarkers(answer)).toEqual([2, 1, 3]);
+    });
+
+    it("should return an empty list when nothing is cited", () => {
+      expect(extractCitationMarkers("I don't know")).toEqual([]);
+    });
+  });
+
+  describe("checkCitations", () => {
+    it("should map cited markers to their sources", () => {
+      const { cited, unverified } = checkCitations("Yes [3] and [1].", sources);
+
+      expect(cited.map((source) => source.documentId)).toEqual([
+        "doc-3",
+        "doc-1",
+      ]);
+      expect(unverified).toEqual([]);
+    });
+
+    it("should report markers that match no retrieved chunk", () => {
+      const { cited, unverified } = checkCitations("Yes [2] and [7].", sources);
+
+      expect(cited).toHaveLength(1);
+      expect(unverified).toEqual([7]);
+    });
+  });
+
+  describe("pageRange", () => {
+    it("should read the pages a chunk covers", () => {
+      expect(pageRange({ pageNumber: 14, pageEnd: 15 })).toEqual({
+        pageNumber: 14,
+        pageEnd: 15,
+      });
+      expect(pageRange({ pageNumber: 3 })).toEqual({
+        pageNumber: 3,
+        pageEnd: 3,
+      });
+      expect(pageRange({ chunkIndex: 2 })).toBeUndefined();
+      expect(pageRange(undefined)).toBeUndefined();
+    });
+  });
+
+  describe("buildSnippet", () => {
+    it("should flatten whitespace and truncate long text", () => {
+      const snippet = buildSnippet("word\n\n".repeat(100));
+
+      expect(snippet).not.toContain("\n");
+      expect(snippet.endsWith("…")).toBe(true);
+      expect(snippet.length).toBeLessThanOrEqual(241);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for the embedding cache
+ * Tests lookups across the memory and database tiers and their counters
+ */
+
+import { mockPrisma } from "../../__tests__/setup";
+import { createHash } from "crypto";
+
+interface StoredEntry {
+  modelName: string;
+  dimensions: number;
+  textHash: string;
+  embedding: number[];
+}
+
+let rows: StoredEntry[] = [];
+let failReads = false;
+mockPrisma({
+  embeddingCacheEntry: {
+    findMany: async ({
+      where,
+    }: {
+      where: Omit<StoredEntry, "embedding" | "textHash"> & {
+        textHash: { in: string[] };
+      };
+    }) => {
+      if (failReads) {
+        throw new Error("connection refused");
+      }
+      return rows.filter(
+        (row) =>
+          row.modelName === where.modelName &&
+          row.dimensions === where.dimensions &&
+          where.textHash.in.includes(row.textHash)
+      );
+    },
+    createMany: async ({ data }: { data: StoredEntry[] }) => {
+      rows.push(...data);
+      return { count: data.length };
+    },
+  },
+});
+
+const { EmbeddingCache, getEmbeddingCacheStats } = await import(
+  "../embedding-cache"
+);
+
+const model = { provider: "local", modelName: "test", dimensions: 2 } as const;
+const config = { enabled: true, memoryEntries: 100, statsLogIntervalMs: 0 };
+
+/**
+ * Counters change by every cache in the process, so tests compare deltas
+ */
+function statsSince(before: ReturnType<typeof getEmbeddingCacheStats>) {
+  const now = getEmbeddingCacheStats();
+  return {
+    memoryHits: now.memoryHits - before.memoryHits,
+    databaseHits: now.databaseHits - before.databaseHits,
+    misses: now.misses - before.misses,
+  };
+}
+
+describe("EmbeddingCache", () => {
+  beforeEach(() => {
+    rows = [];
+    failReads = false;
+  });
+
+  it("should count misses, then memory hits once stored", async () => {
+    const cache = new EmbeddingCache(model, config);
+    const before = getEmbeddingCacheStats();
+
+    expect(await cache.getMany(["alpha", "beta"])).toEqual([
+      undefined,
+      undefined,
+    ]);
+    await cache.setMany(["alpha"], [[1, 0]]);
+    expect(await cache.getMany(["alpha", "beta"])).toEqual([
+      [1, 0],
+      undefined,
+    ]);
+
+    expect(statsSince(before)).toEqual({
+      memoryHits: 1,
+      databaseHits: 0,
+      misses: 3,
+    });
+  });
+
+  it("should count database hits for entries stored elsewhere", async () => {
+    const cache = new EmbeddingCache(model, config);
+    rows.push({
+      modelName: model.modelName,
+      dimensions: model.dimensions,
+      textHash: createHash("sha256").update("gamma").digest("hex"),
+      embedding: [0, 1],
+    });
+    const before = getEmbeddingCacheStats();
+
+    expect(await cache.getMany(["gamma"])).toEqual([[0, 1]]);
+    // Now held in memory as well
+    expect(await cache.getMany(["gamma"])).toEqual([[0, 1]]);
+
+    expect(statsSince(before)).toEqual({
+      memoryHits: 1,
+      databaseHits: 1,
+      misses: 0,
+    });
+  });
+
+  it("should keep embeddings of different models apart", async () => {
+    await new EmbeddingCache(model, config).setMany(["delta"], [[1, 1]]);
+    const other = new EmbeddingCache({ ...model, dimensions: 3 }, config);
+    const before = getEmbeddingCacheStats();
+
+    expect(await other.getMany(["delta"])).toEqual([undefined]);
+    expect(statsSince(before).misses).toBe(1);
+  });
+
+  it("should count lookups as misses when the database fails", async () => {
+    const cache = new EmbeddingCache(model, config);
+    const logError = jest.spyOn(console, "error").mockImplementation(() => {});
+    failReads = true;
+    const before = getEmbeddingCacheStats();
+
+    expect(await cache.getMany(["epsilon"])).toEqual([undefined]);
+    expect(statsSince(before).misses).toBe(1);
+    logError.mockRestore();
+  });
+
+  it("should neither look up nor count anything when disabled", async () => {
+    const cache = new EmbeddingCache(model, { ...config, enabled: false });
+    const before = getEmbeddingCacheStats();
+
+    expect(await cache.getMany(["zeta"])).toEqual([undefined]);
+    expect(statsSince(before)).toEqual({
+      memoryHits: 0,
+      databaseHits: 0,
+      misses: 0,
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for the embedding service
+ * Tests batch embedding against a stubbed provider that hits its rate limit,
+ * and what the model fingerprint depends on
+ */
+
+import { mockPrisma } from "../../__tests__/setup";
+
+// The embedding cache is replaced below, so Prisma is never reached
+mockPrisma();
+
+const { EmbeddingService, embeddingFingerprint } = await import(
+  "../embedding-service"
+);
+const { getConfig } = await import("../config");
+const { QuotaExceededError } = await import("../errors");
+
+const TEXTS = ["a1", "a2", "b1", "b2", "c1", "c2"];
+
+describe("EmbeddingService.generateBatchEmbeddings", () => {
+  let cached: Map<string, number[]>;
+  let failing: Set<string>;
+  let embedDocuments: ReturnType<typeof jest.fn>;
+  let pause: ReturnType<typeof jest.fn>;
+  let service: InstanceType<typeof EmbeddingService>;
+
+  beforeEach(() => {
+    cached = new Map();
+    // Texts whose batch the provider refuses with a 429
+    failing = new Set(["b1"]);
+    embedDocuments = jest.fn(async (batch: string[]) => {
+      if (batch.some((text) => failing.has(text))) {
+        throw new Error("[429 Too Many Requests] Resource has been exhausted");
+      }
+      return batch.map((text) => [text.charCodeAt(0), Number(text[1])]);
+    });
+    pause = jest.fn();
+
+    const config = getConfig();
+    service = new EmbeddingService();
+    Object.assign(service, {
+      config: {
+        ...config,
+        embedding: {
+          ...config.embedding,
+          provider: "gemini",
+          apiKey: "test-key",
+          batchSize: 2,
+          concurrency: 2,
+          quotaWaitMs: 10000,
+        },
+      },
+      model: { embedDocuments },
+      rateLimiter: { acquire: async () => {}, pause },
+      cache: {
+        getMany: async (texts: string[]) =>
+          texts.map((text) => cached.get(text)),
+        setMany: async (texts: string[], embeddings: number[][]) =>
+          texts.forEach((text, i) => cached.set(text, embeddings[i])),
+      },
+    });
+  });
+
+  function batchesSent(): string[][] {
+    return embedDocuments.mock.calls.map(([batch]: string[][]) => batch);
+  }
+
+  it("should finish the other batches when one exhausts its wait", async () => {
+    await expect(service.generateBatchEmbeddings(TEXTS)).rejects.toThrow(
+      QuotaExceededError
+    );
+
+    // The batches around the refused one were embedded and kept
+    expect(Array.from(cached.keys()).sort()).toEqual(["a1", "a2", "c1", "c2"]);
+  });
+
+  it("should keep its backoff within the wait budget", async () => {
+    await expect(service.generateBatchEmbeddings(TEXTS)).rejects.toThrow(
+      QuotaExceededError
+    );
+
+    // 2s, 4s, then 8s would overrun the 10s budget
+    expect(pause.mock.calls).toEqual([[2000], [4000]]);
+    expect(
+      batchesSent().filter((batch) => batch.includes("b1"))
+    ).toHaveLength(3);
+  });
+
+  it("should embed only the missing texts when run again", async () => {
+    await expect(service.generateBatchEmbeddings(TEXTS)).rejects.toThrow(
+      QuotaExceededError
+    );
+    failing.clear();
+    embedDocuments.mockClear();
+
+    const embeddings = await service.generateBatchEmbeddings(TEXTS);
+
+    expect(batchesSent()).toEqual([["b1", "b2"]]);
+    expect(embeddings).toEqual(
+      TEXTS.map((text) => [text.charCodeAt(0), Number(text[1])])
+    );
+  });
+
+  it("should resume a batch once the rate limit clears", async () => {
+    embedDocuments.mockImplementationOnce(async () => {
+      throw new Error("429 rate limit exceeded");
+    });
+
+    const embeddings = await service.generateBatchEmbeddings(["a1"]);
+
+    expect(embeddings).toEqual([["a".charCodeAt(0), 1]]);
+    expect(pause.mock.calls).toEqual([[2000]]);
+  });
+});
+
+describe("embeddingFingerprint", () => {
+  it("should not depend on the configured dimensions", () => {
+    const model = { provider: "gemini" as const, modelName: "embedding-001" };
+
+    expect(embeddingFingerprint({ ...model, dimensions: 768 })).toBe(
+      "gemini/embedding-001"
+    );
+    expect(embeddingFingerprint({ ...model, dimensions: 256 })).toBe(
+      embeddingFingerprint({ ...model, dimensions: 768 })
+    );
+  });
+});
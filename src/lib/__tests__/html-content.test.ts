@@ -0,0 +1,111 @@
+/**
+ * Unit tests for HTML content extraction
+ * Tests boilerplate removal, Markdown structure and page metadata
+ */
+
+import { extractHtmlContent } from "../html-content";
+
+describe("extractHtmlContent", () => {
+  const page = `<!doctype html>
+    <html>
+      <head>
+        <title> Getting Started | Acme Docs </title>
+        <link rel="canonical" href="/docs/start">
+        <meta name="description" content="How to install Acme.">
+      </head>
+      <body>
+        <header class="site-header">
+          <a href="/">Acme</a>
+          <nav><a href="/docs">Docs</a> <a href="/blog">Blog</a></nav>
+        </header>
+        <div id="cookie-banner">We use cookies. <button>Accept</button></div>
+        <main>
+          <h1>Getting   Started</h1>
+          <p>Install the <strong>CLI</strong> with
+            npm, then run <code>acme init</code>.</p>
+          <div class="share-buttons">Share on X</div>
+        </main>
+        <footer>&copy; Acme</footer>
+        <script>track();</script>
+      </body>
+    </html>`;
+
+  it("should keep only the main content", () => {
+    const { markdown } = extractHtmlContent(page);
+
+    expect(markdown).toBe(
+      "# Getting Started\n\nInstall the **CLI** with npm, then run `acme init`."
+    );
+  });
+
+  it("should record the title, canonical URL and description", () => {
+    const content = extractHtmlContent(page, "https://acme.dev/docs/start?x=1");
+
+    expect(content).toMatchObject({
+      title: "Getting Started | Acme Docs",
+      canonicalUrl: "https://acme.dev/docs/start",
+      description: "How to install Acme.",
+    });
+  });
+
+  it("should fall back to Open Graph metadata", () => {
+    const content = extractHtmlContent(
+      `<html><head>
+        <meta property="og:title" content="Launch">
+        <meta property="og:description" content="We launched.">
+        <meta property="og:url" content="https://acme.dev/launch">
+      </head><body><p>Body</p></body></html>`
+    );
+
+    expect(content).toEqual({
+      markdown: "Body",
+      title: "Launch",
+      canonicalUrl: "https://acme.dev/launch",
+      description: "We launched.",
+    });
+  });
+
+  it("should convert lists, tables, code and quotes to Markdown", () => {
+    const { markdown } = extractHtmlContent(`<html><body><article>
+      <ul><li>Fast<ul><li>Really fast</li></ul></li><li>Small</li></ul>
+      <ol start="3"><li>Third</li></ol>
+      <table>
+        <tr><th>Flag</th><th>Meaning</th></tr>
+        <tr><td>-v</td><td>Verbose | loud</td></tr>
+      </table>
+      <pre><code>acme init
+acme run</code></pre>
+      <blockquote><p>Quote one</p><p>Quote two</p></blockquote>
+    </article></body></html>`);
+
+    expect(markdown.split("\n\n")).toEqual([
+      "- Fast\n  - Really fast\n- Small",
+      "3. Third",
+      "| Flag | Meaning |\n| --- | --- |\n| -v | Verbose \\| loud |",
+      "```\nacme init\nacme run\n```",
+      "> Quote one\n>\n> Quote two",
+    ]);
+  });
+
+  it("should pick the densest paragraphs without semantic markup", () => {
+    const { markdown } = extractHtmlContent(`<html><body>
+      <div class="links">
+        <p><a href="/a">A link list entry that is long enough to score</a></p>
+        <p><a href="/b">Another link list entry, also long enough</a></p>
+      </div>
+      <div class="post">
+        <div class="text">
+          <p>First paragraph of the story, with commas, and enough text.</p>
+        </div>
+        <div class="text">
+          <p>Continuation in a sibling block, with plenty of readable text.</p>
+        </div>
+      </div>
+    </body></html>`);
+
+    expect(markdown).toBe(
+      "First paragraph of the story, with commas, and enough text.\n\n" +
+        "Continuation in a sibling block, with plenty of readable text."
+    );
+  });
+});
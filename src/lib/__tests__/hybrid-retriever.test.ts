@@ -0,0 +1,204 @@
+/**
+ * Unit tests for hybrid retrieval
+ * Tests reciprocal rank fusion and how the retriever combines its two legs
+ */
+
+import {
+  HybridRetriever,
+  dropDuplicateResults,
+  reciprocalRankFusion,
+} from "../hybrid-retriever";
+import type { KeywordIndex } from "../keyword-index";
+import type {
+  SearchResult,
+  VectorProject,
+  VectorStore,
+} from "../vector-store";
+
+function result(id: string, score: number): SearchResult {
+  return { id, text: `Chunk ${id}`, score, metadata: {} };
+}
+
+describe("reciprocalRankFusion", () => {
+  it("should rank results found by both legs above single-leg results", () => {
+    const fused = reciprocalRankFusion(
+      [
+        {
+          name: "vector",
+          results: [result("a", 0.9), result("b", 0.8)],
+          weight: 1,
+        },
+        {
+          name: "keyword",
+          results: [result("c", 0.4), result("b", 0.2)],
+          weight: 1,
+        },
+      ],
+      60
+    );
+
+    expect(fused.map((r) => r.id)).toEqual(["b", "a", "c"]);
+    expect(fused[0].fusedScore).toBeCloseTo(2 / 62);
+    expect(fused[0]).toMatchObject({ vectorRank: 2, keywordRank: 2 });
+  });
+
+  it("should keep the vector similarity as the score of shared results", () => {
+    const fused = reciprocalRankFusion(
+      [
+        { name: "vector", results: [result("a", 0.9)], weight: 1 },
+        { name: "keyword", results: [result("a", 0.05)], weight: 1 },
+      ],
+      60
+    );
+
+    expect(fused[0].score).toBe(0.9);
+  });
+
+  it("should let weights shift the ranking between legs", () => {
+    const legs = (keywordWeight: number) =>
+      reciprocalRankFusion(
+        [
+          { name: "vector", results: [result("a", 0.9)], weight: 1 },
+          {
+            name: "keyword",
+            results: [result("b", 0.3)],
+            weight: keywordWeight,
+          },
+        ],
+        60
+      ).map((r) => r.id);
+
+    expect(legs(0.5)).toEqual(["a", "b"]);
+    expect(legs(2)).toEqual(["b", "a"]);
+  });
+
+  it("should break ties by vector rank", () => {
+    const fused = reciprocalRankFusion(
+      [
+        { name: "keyword", results: [result("k", 0.3)], weight: 1 },
+        { name: "vector", results: [result("v", 0.9)], weight: 1 },
+      ],
+      60
+    );
+
+    expect(fused.map((r) => r.id)).toEqual(["v", "k"]);
+  });
+});
+
+describe("dropDuplicateResults", () => {
+  it("should keep the best-ranked of results with the same text", () => {
+    const results = dropDuplicateResults([
+      { ...result("d1_0", 0.9), text: "Contact us: support@acme.com" },
+      result("d1_1", 0.8),
+      { ...result("d2_4", 0.7), text: "CONTACT US  support acme com" },
+    ]);
+
+    expect(results.map((r) => r.id)).toEqual(["d1_0", "d1_1"]);
+  });
+});
+
+describe("HybridRetriever", () => {
+  const config = {
+    vectorWeight: 1,
+    keywordWeight: 1,
+    vectorTopK: 20,
+    keywordTopK: 20,
+    rrfK: 60,
+  };
+
+  const project: VectorProject = { id: "p1", vectorCollection: null };
+
+  function createRetriever(
+    keywordSearch: KeywordIndex["search"],
+    keywordWeight = 1
+  ) {
+    const similaritySearch = jest.fn(
+      async (
+        _project: VectorProject,
+        _embedding: number[],
+        _topK?: number,
+        options: { ids?: string[] } = {}
+      ) =>
+        options.ids
+          ? options.ids.map((id) => result(id, 0.6))
+          : [result("a", 0.9), result("b", 0.8)]
+    );
+    const keywordIndex = { search: jest.fn(keywordSearch) };
+    const retriever = new HybridRetriever(
+      { similaritySearch } as unknown as VectorStore,
+      keywordIndex as unknown as KeywordIndex,
+      { ...config, keywordWeight }
+    );
+    return { retriever, similaritySearch, keywordIndex };
+  }
+
+  it("should score keyword-only results by vector similarity", async () => {
+    const { retriever, similaritySearch } = createRetriever(async () => [
+      result("ERR-4021", 0.5),
+    ]);
+
+    const results = await retriever.retrieve(project, "ERR-4021", [0.1], 5);
+
+    const keywordOnly = results.find((r) => r.id === "ERR-4021");
+    expect(keywordOnly?.score).toBe(0.6);
+    expect(similaritySearch).toHaveBeenLastCalledWith(project, [0.1], 1, {
+      ids: ["ERR-4021"],
+    });
+  });
+
+  it("should fall back to vector results when keyword search fails", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const { retriever } = createRetriever(async () => {
+      throw new Error("database down");
+    });
+
+    const results = await retriever.retrieve(project, "query", [0.1], 5);
+
+    expect(results.map((r) => r.id)).toEqual(["a", "b"]);
+    warn.mockRestore();
+  });
+
+  it("should skip keyword search when its weight is zero", async () => {
+    const { retriever, keywordIndex } = createRetriever(async () => [], 0);
+
+    await retriever.retrieve(project, "query", [0.1], 5);
+
+    expect(keywordIndex.search).not.toHaveBeenCalled();
+  });
+
+  it("should return at most topK results", async () => {
+    const { retriever } = createRetriever(async () => [
+      result("c", 0.5),
+      result("d", 0.4),
+    ]);
+
+    const results = await retriever.retrieve(project, "query", [0.1], 3);
+
+    expect(results).toHaveLength(3);
+  });
+
+  it("should fill topK with distinct texts from other documents", async () => {
+    const { retriever } = createRetriever(async () => [
+      { ...result("copy-of-a", 0.5), text: "chunk A." },
+      result("c", 0.4),
+    ]);
+
+    const results = await retriever.retrieve(project, "query", [0.1], 3);
+
+    expect(results.map((r) => r.id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("should apply the document filter to both legs", async () => {
+    const { retriever, similaritySearch, keywordIndex } = createRetriever(
+      async () => []
+    );
+    const filter = { fileTypes: ["pdf"] };
+
+    await retriever.retrieve(project, "query", [0.1], 5, filter);
+
+    expect(similaritySearch).toHaveBeenCalledWith(project, [0.1], 20, {
+      filter,
+    });
+    expect(keywordIndex.search).toHaveBeenCalledWith("p1", "query", 20, filter);
+  });
+});
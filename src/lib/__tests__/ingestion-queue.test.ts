@@ -0,0 +1,319 @@
+/**
+ * Unit tests for the ingestion queue
+ * Runs the queue's SQL against an in-process Postgres (PGlite) with the
+ * IngestionJob migration applied
+ */
+
+import { mockPrisma, rawQueries } from "../../__tests__/setup";
+import { randomUUID } from "crypto";
+import { readFileSync } from "fs";
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+
+const db = new PGlite();
+
+type Row = Record<string, unknown>;
+
+/**
+ * Runs a parameterised UPDATE built from Prisma-style where and data objects
+ */
+async function updateMany(
+  table: string,
+  { where, data }: { where: Row; data: Row }
+) {
+  const values: unknown[] = [];
+  const param = (value: unknown) => `$${values.push(value)}`;
+  const set = Object.entries(data)
+    .map(([column, value]) => `"${column}" = ${param(value)}`)
+    .join(", ");
+  const conditions = Object.entries(where)
+    .map(([column, value]) =>
+      value === null ? `"${column}" IS NULL` : `"${column}" = ${param(value)}`
+    )
+    .join(" AND ");
+  const result = await db.query(
+    `UPDATE "${table}" SET ${set} WHERE ${conditions}`,
+    values
+  );
+  return { count: result.affectedRows ?? 0 };
+}
+
+mockPrisma({
+  ...rawQueries(db),
+  ingestionJob: {
+    create: async ({ data }: { data: Row }) => {
+      const row = { id: randomUUID(), updatedAt: new Date(), ...data };
+      const columns = Object.keys(row);
+      const result = await db.query(
+        `INSERT INTO "IngestionJob" (${columns
+          .map((column) => `"${column}"`)
+          .join(", ")})
+         VALUES (${columns.map((_, i) => `$${i + 1}`).join(", ")})
+         RETURNING *`,
+        Object.values(row)
+      );
+      return result.rows[0];
+    },
+    findUnique: async ({ where }: { where: { id: string } }) => {
+      const result = await db.query(
+        `SELECT * FROM "IngestionJob" WHERE "id" = $1`,
+        [where.id]
+      );
+      return result.rows[0] ?? null;
+    },
+    updateMany: (args: { where: Row; data: Row }) =>
+      updateMany("IngestionJob", args),
+  },
+});
+
+const { IngestionQueue } = await import("../ingestion-queue");
+
+async function getDocumentStatus(id: string): Promise<string> {
+  const result = await db.query<{ status: string }>(
+    `SELECT "status" FROM "Document" WHERE "id" = $1`,
+    [id]
+  );
+  return result.rows[0].status;
+}
+
+/**
+ * Lets a running job's lease run out, as when its worker dies
+ */
+async function expireLease(jobId: string): Promise<void> {
+  await db.query(
+    `UPDATE "IngestionJob"
+     SET "leaseExpiresAt" = NOW() - INTERVAL '1 second'
+     WHERE "id" = $1`,
+    [jobId]
+  );
+}
+
+/**
+ * Makes a rescheduled job due now instead of after its backoff
+ */
+async function makeDue(jobId: string): Promise<void> {
+  await db.query(
+    `UPDATE "IngestionJob" SET "nextRunAt" = NOW() WHERE "id" = $1`,
+    [jobId]
+  );
+}
+
+describe("IngestionQueue", () => {
+  let queue: InstanceType<typeof IngestionQueue>;
+
+  beforeAll(async () => {
+    await db.exec(`
+      CREATE TABLE "Document" (
+        "id" TEXT PRIMARY KEY,
+        "status" TEXT NOT NULL,
+        "errorMessage" TEXT
+      )`);
+    await db.exec(
+      readFileSync(
+        path.join(
+          __dirname,
+          "../../../prisma/migrations/20261018090000_add_ingestion_jobs",
+          "migration.sql"
+        ),
+        "utf8"
+      )
+    );
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await db.exec(`
+      DELETE FROM "IngestionJob";
+      DELETE FROM "Document";
+      INSERT INTO "Document" ("id", "status") VALUES ('doc-1', 'pending');`);
+    queue = new IngestionQueue();
+  });
+
+  describe("claimNext", () => {
+    it("should return null when no job is queued", async () => {
+      expect(await queue.claimNext("worker-a")).toBeNull();
+    });
+
+    it("should lease a due job to one worker as an attempt", async () => {
+      const queued = await queue.enqueue("doc-1");
+
+      const claimed = await queue.claimNext("worker-a");
+
+      expect(claimed).toMatchObject({
+        id: queued.id,
+        status: "running",
+        lockedBy: "worker-a",
+        attempts: 1,
+      });
+      expect(claimed!.leaseExpiresAt!.getTime()).toBeGreaterThan(
+        claimed!.heartbeatAt!.getTime()
+      );
+      expect(await queue.claimNext("worker-b")).toBeNull();
+    });
+
+    it("should claim jobs in the order they are due", async () => {
+      const first = await queue.enqueue("doc-1");
+      await queue.enqueue("doc-1", "sync_document");
+
+      expect((await queue.claimNext("worker-a"))!.id).toBe(first.id);
+    });
+
+    it("should not claim a job before it is due", async () => {
+      const job = await queue.enqueue("doc-1");
+      await queue.claimNext("worker-a");
+      await queue.fail(
+        await queue.getJob(job.id),
+        "worker-a",
+        new Error("timeout"),
+        true
+      );
+
+      expect(await queue.claimNext("worker-b")).toBeNull();
+    });
+  });
+
+  describe("lease expiry", () => {
+    it("should let another worker reclaim an expired job", async () => {
+      const job = await queue.enqueue("doc-1");
+      await queue.claimNext("worker-a");
+      await expireLease(job.id);
+
+      const reclaimed = await queue.claimNext("worker-b");
+
+      expect(reclaimed).toMatchObject({
+        id: job.id,
+        lockedBy: "worker-b",
+        attempts: 2,
+      });
+    });
+
+    it("should not reclaim a job while its lease is held", async () => {
+      const job = await queue.enqueue("doc-1");
+      await queue.claimNext("worker-a");
+
+      expect(await queue.heartbeat(job.id, "worker-a")).toBe(true);
+      expect(await queue.claimNext("worker-b")).toBeNull();
+    });
+
+    it("should tell a worker that lost its lease", async () => {
+      const job = await queue.enqueue("doc-1");
+      await queue.claimNext("worker-a");
+      await expireLease(job.id);
+      await queue.claimNext("worker-b");
+
+      expect(await queue.heartbeat(job.id, "worker-a")).toBe(false);
+      await queue.complete(job.id, "worker-a");
+      expect((await queue.getJob(job.id)).status).toBe("running");
+    });
+
+    it("should fail an expired job that has no attempts left", async () => {
+      const job = await queue.enqueue("doc-1");
+      await db.query(
+        `UPDATE "IngestionJob" SET "maxAttempts" = 2 WHERE "id" = $1`,
+        [job.id]
+      );
+      await db.query(
+        `UPDATE "Document" SET "status" = 'processing' WHERE "id" = 'doc-1'`
+      );
+
+      for (const worker of ["worker-a", "worker-b"]) {
+        expect(await queue.claimNext(worker)).not.toBeNull();
+        await expireLease(job.id);
+      }
+
+      expect(await queue.claimNext("worker-c")).toBeNull();
+      expect(await queue.getJob(job.id)).toMatchObject({
+        status: "failed",
+        attempts: 2,
+        lockedBy: null,
+      });
+      expect(await getDocumentStatus("doc-1")).toBe("failed");
+    });
+
+    it("should leave a ready document alone when its sync fails", async () => {
+      await db.query(
+        `UPDATE "Document" SET "status" = 'ready' WHERE "id" = 'doc-1'`
+      );
+      const job = await queue.enqueue("doc-1", "sync_document");
+      await db.query(
+        `UPDATE "IngestionJob" SET "maxAttempts" = 1 WHERE "id" = $1`,
+        [job.id]
+      );
+      await queue.claimNext("worker-a");
+      await expireLease(job.id);
+
+      expect(await queue.claimNext("worker-b")).toBeNull();
+      expect((await queue.getJob(job.id)).status).toBe("failed");
+      expect(await getDocumentStatus("doc-1")).toBe("ready");
+    });
+  });
+
+  describe("complete and fail", () => {
+    it("should complete a job and release its lease", async () => {
+      const job = await queue.enqueue("doc-1");
+      await queue.claimNext("worker-a");
+
+      await queue.complete(job.id, "worker-a");
+
+      expect(await queue.getJob(job.id)).toMatchObject({
+        status: "succeeded",
+        lockedBy: null,
+        leaseExpiresAt: null,
+      });
+    });
+
+    it("should reschedule a retryable failure with backoff", async () => {
+      const job = await queue.enqueue("doc-1");
+      const claimed = await queue.claimNext("worker-a");
+
+      const outcome = await queue.fail(
+        claimed!,
+        "worker-a",
+        new Error("Embedding request timed out"),
+        true
+      );
+
+      const rescheduled = await queue.getJob(job.id);
+      expect(outcome).toBe("queued");
+      expect(rescheduled).toMatchObject({
+        status: "queued",
+        lockedBy: null,
+        lastError: "Embedding request timed out",
+      });
+      expect(rescheduled.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+
+      await makeDue(job.id);
+      expect(await queue.claimNext("worker-b")).toMatchObject({
+        id: job.id,
+        attempts: 2,
+      });
+    });
+
+    it("should fail a job permanently on a non-retryable error", async () => {
+      const job = await queue.enqueue("doc-1");
+      const claimed = await queue.claimNext("worker-a");
+
+      expect(
+        await queue.fail(claimed!, "worker-a", new Error("Bad input"), false)
+      ).toBe("failed");
+      expect((await queue.getJob(job.id)).status).toBe("failed");
+    });
+
+    it("should fail a job permanently on its last attempt", async () => {
+      const job = await queue.enqueue("doc-1");
+      await db.query(
+        `UPDATE "IngestionJob" SET "maxAttempts" = 1 WHERE "id" = $1`,
+        [job.id]
+      );
+      const claimed = await queue.claimNext("worker-a");
+
+      expect(
+        await queue.fail(claimed!, "worker-a", new Error("timeout"), true)
+      ).toBe("failed");
+      expect(await queue.claimNext("worker-b")).toBeNull();
+    });
+  });
+});
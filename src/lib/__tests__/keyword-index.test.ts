@@ -0,0 +1,87 @@
+/**
+ * Unit tests for the keyword index
+ * Runs the metadata backfill against an in-process Postgres (PGlite)
+ */
+
+import { mockPrisma, rawQueries } from "../../__tests__/setup";
+import { PGlite } from "@electric-sql/pglite";
+
+const db = new PGlite();
+
+// Only the columns the queries under test use
+await db.exec(`
+  CREATE TABLE "Document" (
+    "id" TEXT PRIMARY KEY,
+    "fileType" TEXT NOT NULL,
+    "uploadedAt" TIMESTAMP(3) NOT NULL
+  );
+  CREATE TABLE "Chunk" (
+    "id" TEXT PRIMARY KEY,
+    "documentId" TEXT NOT NULL REFERENCES "Document"("id"),
+    "projectId" TEXT NOT NULL,
+    "metadata" JSONB
+  );
+`);
+
+mockPrisma(rawQueries(db));
+
+const { KeywordIndex, buildKeywordQuery } = await import("../keyword-index");
+
+async function chunkMetadata(id: string) {
+  const { rows } = await db.query<{ metadata: Record<string, unknown> }>(
+    `SELECT "metadata" FROM "Chunk" WHERE "id" = $1`,
+    [id]
+  );
+  return rows[0].metadata;
+}
+
+describe("buildKeywordQuery", () => {
+  it("should OR the distinct tokens, keeping identifiers whole", () => {
+    expect(buildKeywordQuery("What does ERR-4021 mean in v2.3? err-4021")).toBe(
+      "what | does | err-4021 | mean | in | v2.3"
+    );
+    expect(buildKeywordQuery("?! & |")).toBeNull();
+  });
+});
+
+describe("KeywordIndex.backfillDocumentMetadata", () => {
+  const uploadedAt = new Date("2026-01-01T12:34:56.789Z");
+
+  beforeEach(async () => {
+    await db.exec(`DELETE FROM "Chunk"; DELETE FROM "Document";`);
+    await db.query(
+      `INSERT INTO "Document" VALUES ('d1', 'pdf', $1), ('d2', 'md', $1)`,
+      [uploadedAt.toISOString().replace("Z", "")]
+    );
+    await db.query(
+      `INSERT INTO "Chunk" VALUES
+         ('d1_0', 'd1', 'p1', '{"documentId": "d1"}'),
+         ('d1_1', 'd1', 'p1', NULL),
+         ('d2_0', 'd2', 'p1',
+          '{"documentId": "d2", "fileType": "markdown", "uploadedAt": 1}'),
+         ('d3_0', 'd2', 'p2', '{"documentId": "d2"}')`
+    );
+  });
+
+  it("should copy document attributes onto chunks lacking them", async () => {
+    const updated = await new KeywordIndex().backfillDocumentMetadata("p1");
+
+    expect(updated).toBe(2);
+    expect(await chunkMetadata("d1_0")).toEqual({
+      documentId: "d1",
+      fileType: "pdf",
+      uploadedAt: uploadedAt.getTime(),
+    });
+    expect(await chunkMetadata("d1_1")).toEqual({
+      fileType: "pdf",
+      uploadedAt: uploadedAt.getTime(),
+    });
+    // Chunks that have both keys, and other projects, are left alone
+    expect(await chunkMetadata("d2_0")).toEqual({
+      documentId: "d2",
+      fileType: "markdown",
+      uploadedAt: 1,
+    });
+    expect(await chunkMetadata("d3_0")).toEqual({ documentId: "d2" });
+  });
+});
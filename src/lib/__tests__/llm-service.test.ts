@@ -0,0 +1,114 @@
+/**
+ * Unit tests for the LLM service
+ * Tests how model message content is turned into response text, and how
+ * a local endpoint's event stream is read
+ */
+
+import "../../__tests__/setup";
+import { AIMessageChunk } from "@langchain/core/messages";
+import { LLMService, messageText } from "../llm-service";
+
+describe("messageText", () => {
+  it("should return string content as is", () => {
+    expect(messageText("Hello")).toBe("Hello");
+  });
+
+  it("should join the text of content parts", () => {
+    expect(
+      messageText([
+        { type: "text", text: "Hello, " },
+        { type: "image_url", image_url: "https://example.com/a.png" },
+        { type: "text", text: "world" },
+      ])
+    ).toBe("Hello, world");
+  });
+
+  it("should return an empty string for parts without text", () => {
+    expect(messageText([])).toBe("");
+    expect(messageText([{ type: "image_url", image_url: "data:," }])).toBe("");
+  });
+});
+
+describe("LLMService.generateResponseStream", () => {
+  it("should yield the text of chunks with content parts", async () => {
+    const chunks = [
+      new AIMessageChunk({ content: [{ type: "text", text: "Hello, " }] }),
+      new AIMessageChunk({ content: [] }),
+      new AIMessageChunk({ content: "world" }),
+    ];
+    const service = new LLMService();
+    Object.assign(service, {
+      model: {
+        stream: async () =>
+          (async function* () {
+            yield* chunks;
+          })(),
+      },
+    });
+
+    const deltas: string[] = [];
+    for await (const delta of service.generateResponseStream("system", "q")) {
+      deltas.push(delta);
+    }
+
+    expect(deltas).toEqual(["Hello, ", "world"]);
+  });
+});
+
+describe("LLMService local event streams", () => {
+  function eventStream(events: string[], cancel = jest.fn()) {
+    const encoder = new TextEncoder();
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const event of events) {
+          controller.enqueue(encoder.encode(event));
+        }
+        controller.close();
+      },
+      cancel,
+    });
+  }
+
+  function delta(content: string): string {
+    return `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}`;
+  }
+
+  async function read(body: ReadableStream<Uint8Array>, limit = Infinity) {
+    const deltas: string[] = [];
+    for await (const text of new LLMService()["readLocalLLMStream"](body)) {
+      deltas.push(text);
+      if (deltas.length >= limit) {
+        break;
+      }
+    }
+    return deltas;
+  }
+
+  it("should parse an event left without a newline at the end", async () => {
+    const body = eventStream([`${delta("Hello, ")}\n`, delta("world")]);
+
+    expect(await read(body)).toEqual(["Hello, ", "world"]);
+  });
+
+  it("should cancel the body when reading stops early", async () => {
+    const cancel = jest.fn();
+    const body = eventStream(
+      [`${delta("Hello, ")}\n`, `${delta("world")}\n`],
+      cancel
+    );
+
+    expect(await read(body, 1)).toEqual(["Hello, "]);
+    expect(cancel).toHaveBeenCalledTimes(1);
+  });
+
+  it("should cancel the rest of the body after [DONE]", async () => {
+    const cancel = jest.fn();
+    const body = eventStream(
+      [`${delta("Hello")}\ndata: [DONE]\n`, `${delta("ignored")}\n`],
+      cancel
+    );
+
+    expect(await read(body)).toEqual(["Hello"]);
+    expect(cancel).toHaveBeenCalledTimes(1);
+  });
+});
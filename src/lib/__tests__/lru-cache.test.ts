@@ -0,0 +1,40 @@
+/**
+ * Unit tests for LruCache
+ * Tests eviction order and capacity limits
+ */
+
+import { LruCache } from "../lru-cache";
+
+describe("LruCache", () => {
+  it("should evict the least recently used entry when full", () => {
+    const cache = new LruCache<number>(2);
+    cache.set("a", 1);
+    cache.set("b", 2);
+
+    // Reading "a" makes "b" the least recently used
+    expect(cache.get("a")).toBe(1);
+    cache.set("c", 3);
+
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toBe(1);
+    expect(cache.get("c")).toBe(3);
+    expect(cache.size).toBe(2);
+  });
+
+  it("should replace an existing entry without growing", () => {
+    const cache = new LruCache<number>(2);
+    cache.set("a", 1);
+    cache.set("a", 2);
+
+    expect(cache.get("a")).toBe(2);
+    expect(cache.size).toBe(1);
+  });
+
+  it("should hold nothing when its capacity is zero", () => {
+    const cache = new LruCache<number>(0);
+    cache.set("a", 1);
+
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+});
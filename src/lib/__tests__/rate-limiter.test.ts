@@ -0,0 +1,84 @@
+/**
+ * Unit tests for rate limiting utilities
+ * Tests token bucket pacing and bounded concurrency
+ */
+
+import { TokenBucket, mapWithConcurrency } from "../rate-limiter";
+
+describe("TokenBucket", () => {
+  it("should let a burst up to its capacity through at once", async () => {
+    const bucket = new TokenBucket(60, 3);
+    const started = Date.now();
+
+    for (let i = 0; i < 3; i++) {
+      await bucket.acquire();
+    }
+
+    expect(Date.now() - started).toBeLessThan(50);
+  });
+
+  it("should pace calls beyond the capacity at the rate", async () => {
+    // 1200 per minute is one token every 50ms
+    const bucket = new TokenBucket(1200, 1);
+    const started = Date.now();
+
+    for (let i = 0; i < 3; i++) {
+      await bucket.acquire();
+    }
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+  });
+
+  it("should hand out no tokens while paused", async () => {
+    const bucket = new TokenBucket(60000, 10);
+    bucket.pause(100);
+    const started = Date.now();
+
+    await bucket.acquire();
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  const delay = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  it("should keep the order of the items", async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms) => {
+      await delay(ms);
+      return ms * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40]);
+  });
+
+  it("should run at most the limit at once", async () => {
+    let running = 0;
+    let mostRunning = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+      running++;
+      mostRunning = Math.max(mostRunning, running);
+      await delay(5);
+      running--;
+    });
+
+    expect(mostRunning).toBe(2);
+  });
+
+  it("should start no items after a failure and throw it", async () => {
+    const started: number[] = [];
+
+    const run = mapWithConcurrency([0, 1, 2, 3, 4], 2, async (item) => {
+      started.push(item);
+      await delay(item === 0 ? 5 : 20);
+      if (item === 0) {
+        throw new Error("batch 0 failed");
+      }
+    });
+
+    await expect(run).rejects.toThrow("batch 0 failed");
+    expect(started).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for rerankers
+ * Tests score application, the LLM judge and the cross-encoder client
+ */
+
+import {
+  applyRerankScores,
+  CrossEncoderReranker,
+  LLMJudgeReranker,
+} from "../reranker";
+import { LLMError } from "../errors";
+import type { LLMService } from "../llm-service";
+import type { SearchResult } from "../vector-store";
+
+const candidates: SearchResult[] = ["a", "b", "c"].map((id, i) => ({
+  id,
+  text: `Passage ${id}`,
+  score: 0.9 - i / 10,
+  metadata: {},
+}));
+
+describe("applyRerankScores", () => {
+  it("should order by reranker score and keep the retrieval score", () => {
+    const reranked = applyRerankScores(candidates, [0.2, 0.9, 0.5], 2);
+
+    expect(reranked.map((r) => r.id)).toEqual(["b", "c"]);
+    expect(reranked[0]).toMatchObject({ score: 0.9, retrievalScore: 0.8 });
+  });
+
+  it("should keep retrieval order for equal scores", () => {
+    const reranked = applyRerankScores(candidates, [0.5, 0.5, 0.5], 3);
+
+    expect(reranked.map((r) => r.id)).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("LLMJudgeReranker", () => {
+  function judge(response: string) {
+    const generateResponse = jest.fn(async () => response);
+    const reranker = new LLMJudgeReranker({
+      generateResponse,
+    } as unknown as LLMService);
+    return { reranker, generateResponse };
+  }
+
+  it("should normalize grades to 0-1 scores", async () => {
+    const { reranker, generateResponse } = judge("Grades: [2, 10, 7]");
+
+    const reranked = await reranker.rerank("question", candidates, 3);
+
+    expect(reranked.map((r) => [r.id, r.score])).toEqual([
+      ["b", 1],
+      ["c", 0.7],
+      ["a", 0.2],
+    ]);
+    expect(generateResponse).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject a response with the wrong number of grades", async () => {
+    const { reranker } = judge("[10, 0]");
+
+    await expect(
+      reranker.rerank("question", candidates, 3)
+    ).rejects.toBeInstanceOf(LLMError);
+  });
+
+  it("should not call the LLM when there is nothing to rerank", async () => {
+    const { reranker, generateResponse } = judge("[]");
+
+    expect(await reranker.rerank("question", [], 3)).toEqual([]);
+    expect(generateResponse).not.toHaveBeenCalled();
+  });
+});
+
+describe("CrossEncoderReranker", () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("should map indexed scores back to the candidates", async () => {
+    const fetchMock = jest.fn(
+      async () =>
+        new Response(
+          JSON.stringify([
+            { index: 2, score: 0.95 },
+            { index: 0, score: 0.4 },
+            { index: 1, score: 0.1 },
+          ])
+        )
+    );
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const reranker = new CrossEncoderReranker("http://localhost:8080/rerank");
+    const reranked = await reranker.rerank("question", candidates, 2);
+
+    expect(reranked.map((r) => r.id)).toEqual(["c", "a"]);
+    expect(fetchMock).toHaveBeenCalledWith(
+      "http://localhost:8080/rerank",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({
+          query: "question",
+          texts: ["Passage a", "Passage b", "Passage c"],
+        }),
+      })
+    );
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for retrieval filters
+ * Tests translation of document filters to chunk metadata conditions
+ */
+
+import {
+  combineFilters,
+  tagMetadata,
+  tagMetadataKey,
+  toMetadataFilter,
+} from "../retrieval-filter";
+import { MetadataFilter, matchesFilter } from "../vector-backend";
+import { toChromaWhere } from "../vector-backend-chroma";
+
+describe("toMetadataFilter", () => {
+  it("should return undefined when nothing is restricted", () => {
+    expect(toMetadataFilter(undefined)).toBeUndefined();
+    expect(toMetadataFilter({})).toBeUndefined();
+  });
+
+  it("should translate a single restriction without wrapping it", () => {
+    expect(toMetadataFilter({ documentIds: ["doc-1"] })).toEqual({
+      documentId: { $in: ["doc-1"] },
+    });
+  });
+
+  it("should require every restriction to match", () => {
+    const filter = toMetadataFilter({
+      fileTypes: ["pdf"],
+      tags: ["handbook", "2024"],
+      uploadedAfter: "2024-01-01T00:00:00Z",
+      uploadedBefore: "2024-12-31T23:59:59Z",
+    })!;
+
+    const chunk = {
+      fileType: "pdf",
+      [tagMetadataKey("2024")]: true,
+      uploadedAt: Date.parse("2024-06-01T00:00:00Z"),
+    };
+
+    expect(matchesFilter(chunk, filter)).toBe(true);
+    expect(matchesFilter({ ...chunk, fileType: "url" }, filter)).toBe(false);
+    expect(
+      matchesFilter({ ...chunk, [tagMetadataKey("2024")]: undefined }, filter)
+    ).toBe(false);
+    expect(
+      matchesFilter(
+        { ...chunk, uploadedAt: Date.parse("2025-01-01T00:00:00Z") },
+        filter
+      )
+    ).toBe(false);
+  });
+});
+
+describe("toChromaWhere", () => {
+  // ChromaDB rejects `$and` and `$or` with fewer than two entries
+  function expectValidWhere(where: unknown): void {
+    if (!where || typeof where !== "object") {
+      return;
+    }
+    for (const [key, value] of Object.entries(where)) {
+      if (key === "$and" || key === "$or") {
+        expect((value as unknown[]).length).toBeGreaterThanOrEqual(2);
+        (value as unknown[]).forEach(expectValidWhere);
+      }
+    }
+  }
+
+  it("should send a single tag as a plain condition", () => {
+    const where = toChromaWhere(toMetadataFilter({ tags: ["handbook"] }));
+
+    expect(where).toEqual({ [tagMetadataKey("handbook")]: true });
+  });
+
+  it("should send a single file type as a plain condition", () => {
+    const where = toChromaWhere(toMetadataFilter({ fileTypes: ["pdf"] }));
+
+    expect(where).toEqual({ fileType: { $in: ["pdf"] } });
+  });
+
+  it("should keep one-tag filters valid when combined", () => {
+    const where = toChromaWhere(
+      combineFilters(
+        { documentId: "doc-1" },
+        toMetadataFilter({ tags: ["handbook"], fileTypes: ["pdf"] })
+      )
+    );
+
+    expectValidWhere(where);
+    expect(where).toEqual({
+      $and: [
+        { documentId: "doc-1" },
+        {
+          $and: [
+            { fileType: { $in: ["pdf"] } },
+            { [tagMetadataKey("handbook")]: true },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("should unwrap single-entry and drop empty operators", () => {
+    const filter: MetadataFilter = {
+      $and: [{ $or: [{ a: 1 }] }, { $and: [] }, { b: 2 }],
+    };
+
+    expect(toChromaWhere(filter)).toEqual({ $and: [{ a: 1 }, { b: 2 }] });
+    expect(toChromaWhere({ $or: [] })).toBeUndefined();
+  });
+});
+
+describe("tagMetadata", () => {
+  it("should flag assigned tags and clear removed ones", () => {
+    expect(tagMetadata(["handbook"], ["draft"])).toEqual({
+      [tagMetadataKey("handbook")]: true,
+      [tagMetadataKey("draft")]: false,
+    });
+  });
+
+  it("should no longer match a tag filter once the tag is removed", () => {
+    const filter = toMetadataFilter({ tags: ["draft"] })!;
+    const chunk = { documentId: "doc-1", ...tagMetadata(["draft"]) };
+
+    expect(matchesFilter(chunk, filter)).toBe(true);
+    expect(
+      matchesFilter({ ...chunk, ...tagMetadata([], ["draft"]) }, filter)
+    ).toBe(false);
+  });
+});
+
+describe("combineFilters", () => {
+  it("should skip undefined filters", () => {
+    expect(combineFilters(undefined, undefined)).toBeUndefined();
+    expect(combineFilters({ a: 1 }, undefined)).toEqual({ a: 1 });
+    expect(combineFilters({ a: 1 }, { b: 2 })).toEqual({
+      $and: [{ a: 1 }, { b: 2 }],
+    });
+  });
+});
@@ -3,7 +3,12 @@
  * Tests text chunking functionality with RecursiveCharacterTextSplitter
  */
 
-import { TextChunker, ChunkMetadata } from "../text-chunker";
+import {
+  TextChunker,
+  ChunkMetadata,
+  chunkFingerprint,
+  dropDuplicateChunks,
+} from "../text-chunker";
 
 describe("TextChunker", () => {
   let chunker: TextChunker;
@@ -92,4 +97,96 @@ describe("TextChunker", () => {
       expect(chunks.length).toBe(0);
     });
   });
+
+  describe("chunkText with pages", () => {
+    it("should record the pages each chunk covers", async () => {
+      const metadata: ChunkMetadata = {
+        documentId: "pdf-1",
+        filename: "guide.pdf",
+      };
+
+      const chunks = await chunker.chunkText(
+        [
+          { pageNumber: 1, text: "Intro. ".repeat(40).trim() },
+          { pageNumber: 2, text: "Short second page." },
+          { pageNumber: 3, text: "Third page. ".repeat(120).trim() },
+        ],
+        metadata
+      );
+
+      const pages = chunks.map((chunk) => [
+        chunk.metadata.pageNumber,
+        chunk.metadata.pageEnd,
+      ]);
+      // The first two pages fit in one chunk; the third needs several
+      expect(pages[0]).toEqual([1, 2]);
+      expect(pages.slice(1)).toEqual(Array(pages.length - 1).fill([3, 3]));
+      expect(pages.length).toBeGreaterThan(2);
+      chunks.forEach((chunk, index) => {
+        expect(chunk.metadata.chunkIndex).toBe(index);
+      });
+    });
+  });
+
+  describe("chunkSections", () => {
+    it("should chunk each section separately with its metadata", async () => {
+      const metadata: ChunkMetadata = {
+        documentId: "deck-1",
+        filename: "deck.pptx",
+      };
+
+      const chunks = await chunker.chunkSections(
+        [
+          { text: "Short first slide.", metadata: { slideNumber: 1 } },
+          { text: "", metadata: { slideNumber: 2 } },
+          { text: "Long slide. ".repeat(150), metadata: { slideNumber: 3 } },
+        ],
+        metadata
+      );
+
+      expect(chunks.length).toBeGreaterThan(2);
+      expect(chunks[0].text).toBe("Short first slide.");
+      expect(chunks.map((chunk) => chunk.metadata.slideNumber)).toEqual([
+        1,
+        ...Array(chunks.length - 1).fill(3),
+      ]);
+      chunks.forEach((chunk, index) => {
+        expect(chunk.metadata.documentId).toBe("deck-1");
+        expect(chunk.metadata.chunkIndex).toBe(index);
+      });
+    });
+  });
+});
+
+describe("dropDuplicateChunks", () => {
+  const metadata: ChunkMetadata = { documentId: "doc-1", filename: "a.html" };
+  const chunk = (text: string, chunkIndex: number) => ({
+    text,
+    metadata: { ...metadata, chunkIndex },
+  });
+
+  it("should fingerprint near-identical text alike", () => {
+    expect(chunkFingerprint("Copyright  2024, ACME Inc.")).toBe(
+      chunkFingerprint("copyright 2024 — acme inc")
+    );
+    expect(chunkFingerprint("Copyright 2024")).not.toBe(
+      chunkFingerprint("Copyright 2025")
+    );
+  });
+
+  it("should drop repeated chunks and renumber the rest", () => {
+    const chunks = dropDuplicateChunks([
+      chunk("Site navigation: Home | About", 0),
+      chunk("The actual article.", 1),
+      chunk("THE ACTUAL ARTICLE", 2),
+      chunk("A closing remark.", 3),
+    ]);
+
+    expect(chunks.map((kept) => kept.text)).toEqual([
+      "Site navigation: Home | About",
+      "The actual article.",
+      "A closing remark.",
+    ]);
+    expect(chunks.map((kept) => kept.metadata.chunkIndex)).toEqual([0, 1, 2]);
+  });
 });
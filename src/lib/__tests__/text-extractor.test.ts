@@ -3,9 +3,75 @@
  * Tests core text extraction functionality
  */
 
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import JSZip from "jszip";
 import { TextExtractor } from "../text-extractor";
 import { ValidationError } from "../errors";
 
+const REL =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+/**
+ * Builds an Office Open XML package from its parts
+ */
+async function officePackage(parts: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [path, xml] of Object.entries(parts)) {
+    zip.file(path, xml);
+  }
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+/**
+ * A relationships part with one relationship per [id, type, target]
+ */
+function relationships(...entries: [string, string, string][]): string {
+  const items = entries.map(
+    ([id, type, target]) =>
+      `<Relationship Id="${id}" Type="${REL}/${type}" Target="${target}"/>`
+  );
+  return `<Relationships>${items.join("")}</Relationships>`;
+}
+
+/**
+ * Builds a PDF with one line of Helvetica text per page and an info
+ * dictionary
+ */
+function pdfDocument(pages: string[], info: string): Buffer {
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages
+      .map((_, i) => `${4 + i * 2} 0 R`)
+      .join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+  pages.forEach((text, i) => {
+    const content = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] ` +
+        `/Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+  objects.push(info);
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf +=
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("") +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R ` +
+    `/Info ${objects.length} 0 R >>\nstartxref\n${xref}\n%%EOF`;
+
+  return Buffer.from(pdf, "latin1");
+}
+
 describe("TextExtractor", () => {
   let extractor: TextExtractor;
 
@@ -13,6 +79,37 @@ describe("TextExtractor", () => {
     extractor = new TextExtractor();
   });
 
+  describe("extractPagesFromPdf", () => {
+    it("should extract each page and the document information", async () => {
+      const buffer = pdfDocument(
+        ["Leave policy", "Expenses policy"],
+        "<< /Title (Staff Handbook) /Author (People Team) " +
+          "/CreationDate (D:20240115093000Z) >>"
+      );
+
+      const pdf = await extractor.extractPagesFromPdf(buffer);
+
+      expect(pdf).toEqual({
+        pages: [
+          { pageNumber: 1, text: "Leave policy" },
+          { pageNumber: 2, text: "Expenses policy" },
+        ],
+        title: "Staff Handbook",
+        author: "People Team",
+        creationDate: "2024-01-15T09:30:00.000Z",
+      });
+      expect(await extractor.extractFromPdf(buffer)).toBe(
+        "Leave policy\n\nExpenses policy"
+      );
+    });
+
+    it("should throw ValidationError for an invalid PDF", async () => {
+      await expect(
+        extractor.extractPagesFromPdf(Buffer.from("not a pdf"))
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
   describe("extractFromTxt", () => {
     it("should extract text from a TXT buffer", async () => {
       const text = "Hello, this is a test document.";
@@ -32,6 +129,214 @@ describe("TextExtractor", () => {
     });
   });
 
+  describe("extractFromMarkdown", () => {
+    it("should keep the heading hierarchy and drop front matter", async () => {
+      const markdown = [
+        "---",
+        "title: Guide",
+        "---",
+        "Guide",
+        "=====",
+        "",
+        "Setup",
+        "-----",
+        "<!-- internal note -->",
+        "",
+        "",
+        "### Install",
+        "```",
+        "heading",
+        "---",
+        "```",
+      ].join("\r\n");
+
+      const result = await extractor.extractFromMarkdown(
+        Buffer.from(markdown, "utf-8")
+      );
+
+      expect(result).toBe(
+        "# Guide\n\n## Setup\n\n### Install\n```\nheading\n---\n```"
+      );
+    });
+  });
+
+  describe("extractFromHtml", () => {
+    it("should extract the main content and metadata", async () => {
+      const html = `<html><head><title>Handbook</title></head><body>
+        <nav><a href="/">Home</a></nav>
+        <main><h1>Leave</h1><p>Request leave in advance.</p></main>
+      </body></html>`;
+
+      const page = await extractor.extractPageFromHtml(Buffer.from(html));
+
+      expect(page).toEqual({
+        markdown: "# Leave\n\nRequest leave in advance.",
+        title: "Handbook",
+      });
+    });
+  });
+
+  describe("extractFromCsv", () => {
+    it("should render each row with its column headers", async () => {
+      const csv = [
+        "name,role,notes",
+        'Alice,Engineer,"Leads the ""core"" team, on-call"',
+        "Bob,,",
+        "",
+        'Carol,Designer,"Joined\nin 2024",extra',
+      ].join("\r\n");
+
+      const result = await extractor.extractFromCsv(Buffer.from(csv));
+
+      expect(result.split("\n")).toEqual([
+        'name: Alice; role: Engineer; notes: Leads the "core" team, on-call',
+        "name: Bob",
+        "name: Carol; role: Designer; notes: Joined in 2024; Column 4: extra",
+      ]);
+    });
+
+    it("should detect semicolon and tab delimiters", async () => {
+      expect(await extractor.extractFromCsv(Buffer.from("a;b\n1;2"))).toBe(
+        "a: 1; b: 2"
+      );
+      expect(await extractor.extractFromCsv(Buffer.from("a\tb\n1\t2"))).toBe(
+        "a: 1; b: 2"
+      );
+    });
+  });
+
+  describe("extractFromJson", () => {
+    it("should flatten values to path/value lines", async () => {
+      const json = JSON.stringify({
+        users: [{ name: "Alice", active: true }],
+        "api key": null,
+        tags: [],
+      });
+
+      const result = await extractor.extractFromJson(Buffer.from(json));
+
+      expect(result.split("\n")).toEqual([
+        "users[0].name: Alice",
+        "users[0].active: true",
+        '["api key"]: null',
+        "tags: []",
+      ]);
+    });
+
+    it("should throw ValidationError for invalid JSON", async () => {
+      await expect(
+        extractor.extractFromJson(Buffer.from("{ not json"))
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe("extractFromPptx", () => {
+    const slide = (body: string, show = "") =>
+      `<p:sld xmlns:a="a" xmlns:p="p"${show}><p:cSld><p:spTree>${body}` +
+      `</p:spTree></p:cSld></p:sld>`;
+    const shape = (placeholder: string, ...lines: string[]) =>
+      `<p:sp><p:nvSpPr><p:nvPr><p:ph type="${placeholder}"/></p:nvPr>` +
+      `</p:nvSpPr><p:txBody>${lines
+        .map((line) => `<a:p><a:r><a:t>${line}</a:t></a:r></a:p>`)
+        .join("")}</p:txBody></p:sp>`;
+
+    it("should extract slides in order with speaker notes", async () => {
+      const buffer = await officePackage({
+        "ppt/presentation.xml":
+          `<p:presentation xmlns:p="p" xmlns:r="r"><p:sldIdLst>` +
+          `<p:sldId id="256" r:id="rId3"/><p:sldId id="257" r:id="rId2"/>` +
+          `<p:sldId id="258" r:id="rId4"/></p:sldIdLst></p:presentation>`,
+        "ppt/_rels/presentation.xml.rels": relationships(
+          ["rId2", "slide", "slides/slide2.xml"],
+          ["rId3", "slide", "slides/slide1.xml"],
+          ["rId4", "slide", "/ppt/slides/slide3.xml"]
+        ),
+        "ppt/slides/slide1.xml": slide(
+          shape("title", "Roadmap") + shape("body", "Q1: search", "Q2: sync")
+        ),
+        "ppt/slides/_rels/slide1.xml.rels": relationships([
+          "rId1",
+          "notesSlide",
+          "../notesSlides/notesSlide1.xml",
+        ]),
+        "ppt/notesSlides/notesSlide1.xml": slide(
+          shape("sldImg") +
+            shape("body", "Mention hiring") +
+            shape("sldNum", "1")
+        ),
+        "ppt/slides/slide2.xml": slide(shape("body", "Draft"), ' show="0"'),
+        "ppt/slides/slide3.xml": slide(shape("title", "Questions?")),
+      });
+
+      const sections = await extractor.extractFromPptx(buffer);
+
+      expect(sections).toEqual([
+        {
+          text:
+            "Roadmap\nQ1: search\nQ2: sync\n\n" +
+            "Speaker notes:\nMention hiring",
+          metadata: { slideNumber: 1 },
+        },
+        { text: "Questions?", metadata: { slideNumber: 3 } },
+      ]);
+    });
+
+    it("should throw ValidationError for a non-PPTX file", async () => {
+      await expect(
+        extractor.extractFromPptx(Buffer.from("not a zip"))
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe("extractFromXlsx", () => {
+    it("should extract each sheet's rows with their headers", async () => {
+      const buffer = await officePackage({
+        "xl/workbook.xml":
+          `<workbook xmlns:r="r"><sheets>` +
+          `<sheet name="Staff" sheetId="1" r:id="rId1"/>` +
+          `<sheet name="Secret" sheetId="2" state="hidden" r:id="rId2"/>` +
+          `</sheets></workbook>`,
+        "xl/_rels/workbook.xml.rels": relationships(
+          ["rId1", "worksheet", "worksheets/sheet1.xml"],
+          ["rId2", "worksheet", "worksheets/sheet2.xml"],
+          ["rId3", "sharedStrings", "sharedStrings.xml"],
+          ["rId4", "styles", "styles.xml"]
+        ),
+        "xl/sharedStrings.xml":
+          `<sst><si><t>Name</t></si><si><t>Started</t></si>` +
+          `<si><r><t>Ali</t></r><r><t>ce</t></r></si></sst>`,
+        "xl/styles.xml":
+          `<styleSheet><numFmts>` +
+          `<numFmt numFmtId="164" formatCode="dd/mm/yyyy"/></numFmts>` +
+          `<cellXfs><xf numFmtId="0"/><xf numFmtId="164"/></cellXfs>` +
+          `</styleSheet>`,
+        "xl/worksheets/sheet1.xml":
+          `<worksheet><sheetData>` +
+          `<row r="1"><c r="A1" t="s"><v>0</v></c>` +
+          `<c r="B1" t="s"><v>1</v></c>` +
+          `<c r="D1" t="inlineStr"><is><t>Remote</t></is></c></row>` +
+          `<row r="3"><c r="A3" t="s"><v>2</v></c>` +
+          `<c r="B3" s="1"><v>45292</v></c><c r="C3"><v>12.5</v></c>` +
+          `<c r="D3" t="b"><v>1</v></c></row>` +
+          `</sheetData></worksheet>`,
+        "xl/worksheets/sheet2.xml":
+          `<worksheet><sheetData><row r="1"><c r="A1"><v>1</v></c></row>` +
+          `</sheetData></worksheet>`,
+      });
+
+      const sections = await extractor.extractFromXlsx(buffer);
+
+      expect(sections).toEqual([
+        {
+          text:
+            "## Staff\n\n" +
+            "Name: Alice; Started: 2024-01-01; Column 3: 12.5; Remote: TRUE",
+          metadata: { sheetName: "Staff" },
+        },
+      ]);
+    });
+  });
+
   describe("extractFromUrl", () => {
     it("should throw ValidationError for invalid URL", async () => {
       await expect(extractor.extractFromUrl("not-a-url")).rejects.toThrow(
@@ -45,4 +350,69 @@ describe("TextExtractor", () => {
       );
     });
   });
+
+  describe("fetchPage", () => {
+    const ETAG = '"v1"';
+    let server: Server;
+    let url: string;
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        if (req.url === "/unchanged" || req.headers["if-none-match"] === ETAG) {
+          res.writeHead(304).end();
+          return;
+        }
+        if (req.url === "/large") {
+          // Streamed without a Content-Length, 1MB at a time
+          res.writeHead(200, { "Content-Type": "text/html" });
+          for (let i = 0; i < 6; i++) {
+            res.write(`<p>${"x".repeat(1024 * 1024)}</p>`);
+          }
+          res.end();
+          return;
+        }
+        res.writeHead(200, {
+          "Content-Type": "text/html",
+          ETag: ETAG,
+          "Last-Modified": "Wed, 01 Jan 2025 00:00:00 GMT",
+        });
+        res.end("<main><p>Current content</p></main>");
+      });
+      await new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", resolve)
+      );
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("should return the page with its validators", async () => {
+      const page = await extractor.fetchPage(url);
+
+      expect(page).toMatchObject({
+        markdown: "Current content",
+        etag: ETAG,
+        lastModified: "Wed, 01 Jan 2025 00:00:00 GMT",
+      });
+    });
+
+    it("should return null when the page is not modified", async () => {
+      expect(await extractor.fetchPage(url, { etag: ETAG })).toBeNull();
+      expect(await extractor.fetchPage(url, { etag: '"v0"' })).not.toBeNull();
+    });
+
+    it("should refuse a page larger than the HTML upload limit", async () => {
+      await expect(extractor.fetchPage(`${url}large`)).rejects.toThrow(
+        "Page size exceeds 5MB limit"
+      );
+    });
+
+    it("should throw ValidationError for a 304 to a plain fetch", async () => {
+      await expect(
+        extractor.extractPageFromUrl(`${url}unchanged`)
+      ).rejects.toThrow(ValidationError);
+    });
+  });
 });
@@ -0,0 +1,166 @@
+/**
+ * Unit tests for vector store backends
+ * Tests metadata filter semantics and the in-memory backend
+ */
+
+import { cosineSimilarity, matchesFilter } from "../vector-backend";
+import { MemoryVectorBackend } from "../vector-backend-memory";
+
+describe("matchesFilter", () => {
+  const metadata = { documentId: "doc-1", fileType: "pdf", chunkIndex: 3 };
+
+  it("should AND field equality conditions", () => {
+    expect(matchesFilter(metadata, { documentId: "doc-1" })).toBe(true);
+    expect(
+      matchesFilter(metadata, { documentId: "doc-1", fileType: "txt" })
+    ).toBe(false);
+  });
+
+  it("should support comparison operators", () => {
+    expect(matchesFilter(metadata, { fileType: { $in: ["pdf", "docx"] } })).toBe(
+      true
+    );
+    expect(matchesFilter(metadata, { fileType: { $nin: ["pdf"] } })).toBe(
+      false
+    );
+    expect(matchesFilter(metadata, { chunkIndex: { $gte: 3 } })).toBe(true);
+    expect(matchesFilter(metadata, { chunkIndex: { $lt: 3 } })).toBe(false);
+    expect(matchesFilter(metadata, { fileType: { $gt: 1 } })).toBe(false);
+  });
+
+  it("should combine nested filters with $and and $or", () => {
+    expect(
+      matchesFilter(metadata, {
+        $or: [{ documentId: "doc-2" }, { chunkIndex: { $ne: 0 } }],
+      })
+    ).toBe(true);
+    expect(
+      matchesFilter(metadata, {
+        $and: [{ documentId: "doc-1" }, { fileType: "txt" }],
+      })
+    ).toBe(false);
+  });
+});
+
+describe("cosineSimilarity", () => {
+  it("should ignore vector magnitude", () => {
+    expect(cosineSimilarity([1, 0], [5, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 2])).toBeCloseTo(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+describe("MemoryVectorBackend", () => {
+  async function seeded() {
+    const backend = new MemoryVectorBackend();
+    await backend.upsert("project-1", [
+      {
+        id: "doc-1_0",
+        text: "Alpha",
+        embedding: [1, 0],
+        metadata: { documentId: "doc-1" },
+      },
+      {
+        id: "doc-1_1",
+        text: "Beta",
+        embedding: [0.7, 0.7],
+        metadata: { documentId: "doc-1" },
+      },
+      {
+        id: "doc-2_0",
+        text: "Gamma",
+        embedding: [0, 1],
+        metadata: { documentId: "doc-2" },
+      },
+    ]);
+    return backend;
+  }
+
+  it("should return the nearest records first", async () => {
+    const backend = await seeded();
+
+    const results = await backend.query("project-1", [1, 0.1], 2);
+
+    expect(results.map((r) => r.id)).toEqual(["doc-1_0", "doc-1_1"]);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it("should restrict queries by id and metadata filter", async () => {
+    const backend = await seeded();
+
+    const byFilter = await backend.query("project-1", [1, 0], 5, {
+      where: { documentId: "doc-2" },
+    });
+    const byIds = await backend.query("project-1", [1, 0], 5, {
+      ids: ["doc-2_0", "doc-1_1"],
+    });
+
+    expect(byFilter.map((r) => r.id)).toEqual(["doc-2_0"]);
+    expect(byIds.map((r) => r.id)).toEqual(["doc-1_1", "doc-2_0"]);
+  });
+
+  it("should replace records with the same id on upsert", async () => {
+    const backend = await seeded();
+
+    await backend.upsert("project-1", [
+      { id: "doc-2_0", text: "Delta", embedding: [1, 0] },
+    ]);
+
+    expect(await backend.count("project-1")).toBe(3);
+    const [replaced] = await backend.query("project-1", [1, 0], 1, {
+      ids: ["doc-2_0"],
+    });
+    expect(replaced).toMatchObject({ text: "Delta", score: 1 });
+  });
+
+  it("should delete records matching a filter", async () => {
+    const backend = await seeded();
+
+    await backend.delete("project-1", { where: { documentId: "doc-1" } });
+
+    expect(await backend.count("project-1")).toBe(1);
+    expect(
+      (await backend.get("project-1", { limit: 10, offset: 0 })).map(
+        (r) => r.id
+      )
+    ).toEqual(["doc-2_0"]);
+  });
+
+  it("should page through records matching a filter", async () => {
+    const backend = await seeded();
+
+    const page = await backend.get("project-1", {
+      limit: 1,
+      offset: 1,
+      where: { documentId: "doc-1" },
+    });
+
+    expect(page.map((r) => r.id)).toEqual(["doc-1_1"]);
+    expect(page[0].embedding).toEqual([0.7, 0.7]);
+  });
+
+  it("should treat a missing collection as empty", async () => {
+    const backend = new MemoryVectorBackend();
+
+    expect(await backend.collectionExists("missing")).toBe(false);
+    expect(await backend.query("missing", [1, 0], 5)).toEqual([]);
+    expect(await backend.count("missing")).toBe(0);
+    await expect(
+      backend.delete("missing", { ids: ["x"] })
+    ).resolves.toBeUndefined();
+  });
+
+  it("should merge collection metadata updates", async () => {
+    const backend = new MemoryVectorBackend();
+    await backend.createCollection("project-1", { projectId: "p1" });
+
+    await backend.updateCollectionMetadata("project-1", { model: "a" });
+    await backend.updateCollectionMetadata("project-1", { model: "b" });
+
+    expect(await backend.getCollectionMetadata("project-1")).toEqual({
+      projectId: "p1",
+      model: "b",
+    });
+    expect(await backend.getCollectionMetadata("missing")).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for the vector store
+ * Runs VectorStore on the in-memory backend
+ */
+
+import { mockPrisma } from "../../__tests__/setup";
+import type { DocumentChunk } from "../vector-backend";
+
+// The pgvector backend is never used here but loads the Prisma client
+mockPrisma();
+
+const { MemoryVectorBackend } = await import("../vector-backend-memory");
+const { VectorStore, activeCollectionName } = await import("../vector-store");
+const { ConflictError, VectorStoreError } = await import("../errors");
+
+function chunk(id: string, documentId: string, embedding: number[]) {
+  return { id, text: `Chunk ${id}`, embedding, metadata: { documentId } };
+}
+
+describe("VectorStore", () => {
+  it("should name the active collection after the project by default", () => {
+    expect(activeCollectionName({ id: "p1", vectorCollection: null })).toBe(
+      "p1"
+    );
+    expect(
+      activeCollectionName({ id: "p1", vectorCollection: "p1_abc" })
+    ).toBe("p1_abc");
+  });
+
+  it("should use the collection recorded on the project", async () => {
+    const backend = new MemoryVectorBackend();
+    const store = new VectorStore(backend);
+    const project = { id: "p1", vectorCollection: "p1_abc" };
+
+    await store.addDocuments(project, [chunk("d1_0", "d1", [1, 0])]);
+
+    expect(await backend.count("p1_abc")).toBe(1);
+    expect(await backend.collectionExists("p1")).toBe(false);
+    const [result] = await store.similaritySearch(project, [1, 0]);
+    expect(result.id).toBe("d1_0");
+
+    await store.deleteDocumentVectors(project, "d1");
+    expect(await store.getDocumentCount(project)).toBe(0);
+  });
+
+  it("should trim surplus vectors when replacing a document's", async () => {
+    const store = new VectorStore(new MemoryVectorBackend());
+    const project = { id: "p1", vectorCollection: null };
+    const withIndex = (id: string, chunkIndex: number) => ({
+      ...chunk(id, "d1", [1, 0]),
+      metadata: { documentId: "d1", chunkIndex },
+    });
+
+    await store.addDocuments(project, [
+      withIndex("d1_0", 0),
+      withIndex("d1_1", 1),
+    ]);
+    await store.replaceDocumentVectors(project, "d1", [withIndex("d1_0", 0)]);
+
+    expect(await store.getDocumentCount(project)).toBe(1);
+  });
+
+  it("should only record the model of an empty collection", async () => {
+    const store = new VectorStore(new MemoryVectorBackend());
+    const fresh = { id: "fresh", vectorCollection: null };
+    const legacy = { id: "legacy", vectorCollection: null };
+
+    await store.recordEmbeddingFingerprint(fresh, "local/a");
+    await store.addDocuments(legacy, [chunk("d1_0", "d1", [1, 0])]);
+    await store.recordEmbeddingFingerprint(legacy, "local/a");
+
+    expect(await store.getEmbeddingFingerprint(fresh)).toBe("local/a");
+    expect(await store.getEmbeddingFingerprint(legacy)).toBeNull();
+  });
+
+  it("should refuse a model other than the one recorded", async () => {
+    const store = new VectorStore(new MemoryVectorBackend());
+    const project = { id: "p1", vectorCollection: null };
+    await store.recordEmbeddingFingerprint(project, "local/a");
+
+    await expect(
+      store.verifyEmbeddingFingerprint(project, "local/a")
+    ).resolves.toBeUndefined();
+    await expect(
+      store.verifyEmbeddingFingerprint(project, "local/b")
+    ).rejects.toThrow(ConflictError);
+  });
+});
+
+describe("VectorStore.migrateLegacyCollections", () => {
+  let backend: InstanceType<typeof MemoryVectorBackend>;
+  let store: InstanceType<typeof VectorStore>;
+
+  // More than one batch, so copying has to page through the collection
+  const legacyChunks = Array.from({ length: 1200 }, (_, i) =>
+    chunk(`d1_${String(i).padStart(4, "0")}`, "d1", [i, 1])
+  );
+
+  beforeEach(async () => {
+    backend = new MemoryVectorBackend();
+    store = new VectorStore(backend);
+    await backend.upsert("project_p1", legacyChunks);
+    await backend.upsert("p2", [chunk("d2_0", "d2", [0, 1])]);
+  });
+
+  it("should copy a legacy collection and drop it", async () => {
+    expect(await store.migrateLegacyCollections()).toEqual([
+      { from: "project_p1", to: "p1", records: 1200 },
+    ]);
+
+    expect(await backend.collectionExists("project_p1")).toBe(false);
+    expect(await backend.get("p1", { limit: 2000, offset: 0 })).toEqual(
+      legacyChunks
+    );
+    expect(await backend.count("p2")).toBe(1);
+  });
+
+  it("should change nothing in a dry run", async () => {
+    expect(await store.migrateLegacyCollections(true)).toEqual([
+      { from: "project_p1", to: "p1", records: 1200 },
+    ]);
+
+    expect(await backend.count("project_p1")).toBe(1200);
+    expect(await backend.collectionExists("p1")).toBe(false);
+  });
+
+  it("should find nothing to do when run again", async () => {
+    await store.migrateLegacyCollections();
+
+    expect(await store.migrateLegacyCollections()).toEqual([]);
+    expect(await backend.count("p1")).toBe(1200);
+  });
+
+  it("should keep a legacy collection whose copy falls short", async () => {
+    // Loses the last record of every write
+    const upsert = backend.upsert.bind(backend);
+    jest
+      .spyOn(backend, "upsert")
+      .mockImplementation((name: string, chunks: DocumentChunk[]) =>
+        upsert(name, chunks.slice(0, -1))
+      );
+
+    await expect(store.migrateLegacyCollections()).rejects.toThrow(
+      VectorStoreError
+    );
+    expect(await backend.count("project_p1")).toBe(1200);
+  });
+});
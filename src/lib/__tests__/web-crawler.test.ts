@@ -0,0 +1,236 @@
+/**
+ * Unit tests for the web crawler
+ * Crawls a fixture site served from a local HTTP server
+ */
+
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import {
+  CrawlOptions,
+  WebCrawler,
+  extractLinks,
+  isAllowedByRobots,
+  parseRobotsTxt,
+  parseSitemap,
+} from "../web-crawler";
+import { ValidationError } from "../errors";
+
+const USER_AGENT = "rag-chatbot-crawler/1.0";
+
+function page(...links: string[]): string {
+  const anchors = links.map((href) => `<a href="${href}">link</a>`).join("");
+  return `<html><body>${anchors}</body></html>`;
+}
+
+describe("WebCrawler", () => {
+  let server: Server;
+  let origin: string;
+  let robotsTxt: string;
+  const requested: string[] = [];
+
+  const site: Record<string, { type: string; body: () => string }> = {
+    "/robots.txt": { type: "text/plain", body: () => robotsTxt },
+    "/sitemap.xml": {
+      type: "application/xml",
+      body: () =>
+        `<?xml version="1.0"?>
+        <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+          <url><loc>${origin}/docs/orphan</loc></url>
+          <url><loc>${origin}/blog/from-sitemap</loc></url>
+        </urlset>`,
+    },
+    "/docs/": {
+      type: "text/html",
+      body: () =>
+        page(
+          "a",
+          "/docs/a#section",
+          "/docs/private/secret",
+          "/blog/post",
+          "https://external.example/",
+          "mailto:team@example.com",
+          "/docs/file.pdf"
+        ),
+    },
+    "/docs/a": { type: "text/html", body: () => page("/docs/b") },
+    "/docs/b": { type: "text/html", body: () => page("/docs/c") },
+    "/docs/c": { type: "text/html", body: () => page() },
+    "/docs/orphan": { type: "text/html", body: () => page() },
+    "/docs/private/secret": { type: "text/html", body: () => page() },
+    "/docs/file.pdf": { type: "application/pdf", body: () => "%PDF-1.4" },
+    "/blog/post": { type: "text/html", body: () => page() },
+  };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requested.push(req.url ?? "");
+      const resource = site[req.url ?? ""];
+      if (!resource) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": resource.type });
+      res.end(resource.body());
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    robotsTxt = [
+      "User-agent: *",
+      "Disallow: /docs/private",
+      `Sitemap: ${origin}/sitemap.xml`,
+    ].join("\n");
+    requested.length = 0;
+  });
+
+  function crawler(options: Partial<CrawlOptions> = {}) {
+    return new WebCrawler(
+      {
+        maxDepth: 2,
+        maxPages: 50,
+        scope: "prefix",
+        respectRobots: true,
+        useSitemap: false,
+        ...options,
+      },
+      { userAgent: USER_AGENT, requestTimeoutMs: 5000 }
+    );
+  }
+
+  async function crawledPaths(options: Partial<CrawlOptions> = {}) {
+    const pages = await crawler(options).crawl(`${origin}/docs/`);
+    return pages.map((p) => `${new URL(p.url).pathname}@${p.depth}`);
+  }
+
+  it("should follow links breadth-first up to the depth limit", async () => {
+    expect(await crawledPaths()).toEqual(["/docs/@0", "/docs/a@1", "/docs/b@2"]);
+  });
+
+  it("should crawl only the root page at depth 0", async () => {
+    expect(await crawledPaths({ maxDepth: 0, useSitemap: true })).toEqual([
+      "/docs/@0",
+    ]);
+    expect(requested).not.toContain("/sitemap.xml");
+  });
+
+  it("should stop at the page limit", async () => {
+    expect(await crawledPaths({ maxPages: 2 })).toEqual([
+      "/docs/@0",
+      "/docs/a@1",
+    ]);
+  });
+
+  it("should leave the path prefix only in origin scope", async () => {
+    const paths = await crawledPaths({ scope: "origin", maxDepth: 1 });
+
+    expect(paths).toEqual(["/docs/@0", "/docs/a@1", "/blog/post@1"]);
+    expect(requested).not.toContain("/docs/private/secret");
+  });
+
+  it("should skip non-HTML responses", async () => {
+    await crawledPaths({ maxDepth: 1 });
+
+    expect(requested).toContain("/docs/file.pdf");
+  });
+
+  it("should ignore robots.txt when asked to", async () => {
+    expect(
+      await crawledPaths({ maxDepth: 1, respectRobots: false })
+    ).toContain("/docs/private/secret@1");
+  });
+
+  it("should seed in-scope pages from the sitemap", async () => {
+    const paths = await crawledPaths({ maxDepth: 1, useSitemap: true });
+
+    expect(paths).toEqual(["/docs/@0", "/docs/a@1", "/docs/orphan@1"]);
+  });
+
+  it("should fall back to /sitemap.xml when robots.txt names none", async () => {
+    robotsTxt = "User-agent: *\nDisallow:";
+
+    expect(await crawledPaths({ maxDepth: 1, useSitemap: true })).toContain(
+      "/docs/orphan@1"
+    );
+  });
+
+  it("should reject a root page disallowed by robots.txt", async () => {
+    robotsTxt = "User-agent: rag-chatbot-crawler\nDisallow: /docs/";
+
+    await expect(crawler().crawl(`${origin}/docs/`)).rejects.toThrow(
+      ValidationError
+    );
+  });
+
+  it("should reject a root page that cannot be fetched", async () => {
+    await expect(crawler().crawl(`${origin}/missing`)).rejects.toThrow(
+      ValidationError
+    );
+  });
+});
+
+describe("parseRobotsTxt", () => {
+  const robots = [
+    "# comment",
+    "User-agent: *",
+    "Disallow: /",
+    "",
+    "User-agent: other-bot",
+    "User-agent: rag-chatbot-crawler",
+    "Disallow: /admin",
+    "Allow: /admin/public",
+    "Disallow: /*.json$",
+    "Sitemap: https://example.com/sitemap.xml",
+  ].join("\n");
+
+  it("should apply the most specific matching group", () => {
+    const rules = parseRobotsTxt(robots, USER_AGENT);
+
+    expect(rules.disallow).toEqual(["/admin", "/*.json$"]);
+    expect(rules.sitemaps).toEqual(["https://example.com/sitemap.xml"]);
+    expect(parseRobotsTxt(robots, "SomeBot").disallow).toEqual(["/"]);
+  });
+
+  it("should let the longest matching rule win", () => {
+    const rules = parseRobotsTxt(robots, USER_AGENT);
+    const allowed = (path: string) =>
+      isAllowedByRobots(rules, `https://example.com${path}`);
+
+    expect(allowed("/docs")).toBe(true);
+    expect(allowed("/admin/users")).toBe(false);
+    expect(allowed("/admin/public/page")).toBe(true);
+    expect(allowed("/data/export.json")).toBe(false);
+    expect(allowed("/data/export.json?x=1")).toBe(true);
+  });
+});
+
+describe("extractLinks", () => {
+  it("should resolve links against <base> and skip nofollow", () => {
+    const html = `<html><head><base href="https://example.com/docs/"></head>
+      <body>
+        <a href="intro#top">Intro</a>
+        <a href="intro">Intro again</a>
+        <a href="/login" rel="nofollow">Login</a>
+        <a href="javascript:void(0)">Menu</a>
+      </body></html>`;
+
+    expect(extractLinks(html, "https://example.com/")).toEqual([
+      "https://example.com/docs/intro",
+    ]);
+  });
+});
+
+describe("parseSitemap", () => {
+  it("should read page and nested sitemap locations", () => {
+    expect(
+      parseSitemap(
+        `<sitemapindex><sitemap><loc> https://example.com/a.xml </loc></sitemap></sitemapindex>`
+      )
+    ).toEqual({ pages: [], sitemaps: ["https://example.com/a.xml"] });
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Blob Store Module
+ *
+ * This module persists the original bytes of uploaded files so that documents
+ * can be processed in the background and reprocessed later without asking the
+ * user to upload again. It ships a local-filesystem backend for development
+ * and an S3-compatible backend (AWS S3, MinIO, R2, ...) for deployments.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+} from "@aws-sdk/client-s3";
+import { getConfig, StorageConfig } from "./config";
+import {
+  NotFoundError,
+  ServiceUnavailableError,
+  ValidationError,
+} from "./errors";
+
+/**
+ * Storage backend for raw file bytes, addressed by key
+ */
+export interface BlobStore {
+  /**
+   * Writes bytes under a key, overwriting any existing object
+   */
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+
+  /**
+   * Reads the bytes stored under a key
+   * @throws NotFoundError if nothing is stored under the key
+   */
+  get(key: string): Promise<Buffer>;
+
+  /**
+   * Removes a single object; missing keys are ignored
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Removes every object whose key starts with the prefix
+   */
+  deletePrefix(prefix: string): Promise<void>;
+}
+
+/**
+ * Builds the storage key for a document's original upload
+ *
+ * @param projectId - The owning project
+ * @param documentId - The document
+ * @param filename - The original filename (kept for readability of the store)
+ */
+export function documentStorageKey(
+  projectId: string,
+  documentId: string,
+  filename: string
+): string {
+  const safeName = path.basename(filename).replace(/[^\w.-]+/g, "_");
+  return `${projectStoragePrefix(projectId)}${documentId}/${safeName}`;
+}
+
+/**
+ * Builds the key prefix under which all of a project's blobs live
+ *
+ * @param projectId - The owning project
+ */
+export function projectStoragePrefix(projectId: string): string {
+  return `projects/${projectId}/`;
+}
+
+/**
+ * LocalBlobStore class
+ * Stores blobs as files under a root directory
+ */
+export class LocalBlobStore implements BlobStore {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  /**
+   * Resolves a key to a path, refusing keys that escape the root
+   * @private
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new ValidationError(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new NotFoundError(`Blob not found: ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    await fs.rm(this.resolve(prefix), { recursive: true, force: true });
+  }
+}
+
+/**
+ * S3BlobStore class
+ * Stores blobs in an S3-compatible bucket
+ */
+export class S3BlobStore implements BlobStore {
+  private client: S3Client;
+  private bucket: string;
+
+  constructor(config: NonNullable<StorageConfig["s3"]>) {
+    this.bucket = config.bucket;
+    this.client = new S3Client({
+      endpoint: config.endpoint,
+      region: config.region,
+      forcePathStyle: config.forcePathStyle,
+      credentials:
+        config.accessKeyId && config.secretAccessKey
+          ? {
+              accessKeyId: config.accessKeyId,
+              secretAccessKey: config.secretAccessKey,
+            }
+          : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: data,
+        ContentType: contentType || "application/octet-stream",
+      })
+    );
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      const result = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+
+      if (!result.Body) {
+        throw new NotFoundError(`Blob not found: ${key}`);
+      }
+
+      return Buffer.from(await result.Body.transformToByteArray());
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        throw new NotFoundError(`Blob not found: ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key })
+    );
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        })
+      );
+
+      const keys = (page.Contents || [])
+        .map((object) => object.Key)
+        .filter((key): key is string => Boolean(key));
+
+      if (keys.length > 0) {
+        await this.client.send(
+          new DeleteObjectsCommand({
+            Bucket: this.bucket,
+            Delete: { Objects: keys.map((Key) => ({ Key })), Quiet: true },
+          })
+        );
+      }
+
+      continuationToken = page.IsTruncated
+        ? page.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+  }
+}
+
+/**
+ * Creates the blob store selected by configuration
+ *
+ * @param storage - Storage configuration (default: loaded from environment)
+ * @returns BlobStore instance
+ * @throws ServiceUnavailableError if the S3 provider is selected without settings
+ */
+export function createBlobStore(
+  storage: StorageConfig = getConfig().storage
+): BlobStore {
+  if (storage.provider === "s3") {
+    if (!storage.s3) {
+      throw new ServiceUnavailableError("S3 blob store is not configured");
+    }
+    return new S3BlobStore(storage.s3);
+  }
+
+  return new LocalBlobStore(storage.localPath);
+}
@@ -0,0 +1,419 @@
+/**
+ * Chunking Strategy Module
+ *
+ * This module decides where a document's text is cut into chunks. Four
+ * strategies are provided:
+ * - recursive: splits on paragraphs, then lines, sentences and words until
+ *   each chunk fits a character budget (the original behaviour)
+ * - markdown: splits along the heading hierarchy, so no chunk spans two
+ *   sections, and starts every chunk with its heading trail
+ * - sentence: windows of whole sentences, overlapping by whole sentences
+ * - token: like recursive, but measures chunks in model tokens
+ *
+ * A project's strategy and parameters are stored with the project, so its
+ * documents are always chunked the same way when they are processed again.
+ */
+
+import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+import type { Tiktoken } from "js-tiktoken/lite";
+
+/**
+ * Names of the available chunking strategies
+ */
+export const CHUNKING_STRATEGIES = [
+  "recursive",
+  "markdown",
+  "sentence",
+  "token",
+] as const;
+
+export type ChunkingStrategyName = (typeof CHUNKING_STRATEGIES)[number];
+
+/**
+ * Chunking strategy with its parameters
+ * Sizes are measured in the strategy's unit (see CHUNK_SIZE_UNITS).
+ */
+export interface ChunkingOptions {
+  strategy: ChunkingStrategyName;
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+/**
+ * Unit in which each strategy measures chunk size and overlap
+ */
+export const CHUNK_SIZE_UNITS: Record<ChunkingStrategyName, string> = {
+  recursive: "characters",
+  markdown: "characters",
+  sentence: "sentences",
+  token: "tokens",
+};
+
+/**
+ * Allowed chunk sizes for each strategy
+ */
+export const CHUNK_SIZE_LIMITS: Record<
+  ChunkingStrategyName,
+  { min: number; max: number }
+> = {
+  recursive: { min: 100, max: 8000 },
+  markdown: { min: 100, max: 8000 },
+  sentence: { min: 1, max: 50 },
+  token: { min: 16, max: 2048 },
+};
+
+/**
+ * Parameters used for each strategy when none are given
+ */
+export const STRATEGY_DEFAULTS: Record<ChunkingStrategyName, ChunkingOptions> =
+  {
+    recursive: { strategy: "recursive", chunkSize: 1000, chunkOverlap: 200 },
+    markdown: { strategy: "markdown", chunkSize: 1000, chunkOverlap: 200 },
+    sentence: { strategy: "sentence", chunkSize: 5, chunkOverlap: 1 },
+    token: { strategy: "token", chunkSize: 256, chunkOverlap: 32 },
+  };
+
+export const DEFAULT_CHUNKING_OPTIONS = STRATEGY_DEFAULTS.recursive;
+
+/**
+ * A chunk of text and the range of the source text it was cut from
+ * The text may differ from the range, e.g. when a heading trail is added.
+ */
+export interface TextSpan {
+  text: string;
+  /** Offset in the source text at which the chunk's content starts */
+  start: number;
+  /** Offset in the source text just past the chunk's content */
+  end: number;
+}
+
+/**
+ * Cuts text into chunks
+ */
+export interface ChunkingStrategy {
+  /**
+   * Splits text into chunks, in the order they appear in the text
+   *
+   * @param text - The text to split
+   * @returns The chunks with their ranges in the text
+   */
+  split(text: string): Promise<TextSpan[]>;
+}
+
+/**
+ * Separators tried in turn by the character and token splitters
+ */
+const SEPARATORS = ["\n\n", "\n", ". ", " ", ""];
+
+/**
+ * Lines that open or close a fenced code block
+ */
+const FENCE = /^\s{0,3}(```|~~~)/;
+
+/**
+ * ATX heading lines, capturing the level markers and the heading text
+ */
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+
+/**
+ * Describes what is wrong with a set of chunking options
+ *
+ * @param options - The strategy and parameters to check
+ * @returns The problem, or null if the options are valid
+ */
+export function chunkingOptionsError(options: ChunkingOptions): string | null {
+  const { strategy, chunkSize, chunkOverlap } = options;
+
+  if (!CHUNKING_STRATEGIES.includes(strategy)) {
+    return `Chunking strategy must be one of ${CHUNKING_STRATEGIES.join(", ")}`;
+  }
+
+  const { min, max } = CHUNK_SIZE_LIMITS[strategy];
+  if (!Number.isInteger(chunkSize) || chunkSize < min || chunkSize > max) {
+    return (
+      `Chunk size for the ${strategy} strategy must be between ${min} ` +
+      `and ${max} ${CHUNK_SIZE_UNITS[strategy]}`
+    );
+  }
+
+  if (
+    !Number.isInteger(chunkOverlap) ||
+    chunkOverlap < 0 ||
+    chunkOverlap >= chunkSize
+  ) {
+    return "Chunk overlap must be zero or more and less than the chunk size";
+  }
+
+  return null;
+}
+
+/**
+ * Fills in the parameters a request leaves out
+ *
+ * Missing parameters come from the defaults when the strategy is the
+ * default one, and from the strategy's own defaults otherwise, since sizes
+ * of different strategies are measured in different units.
+ *
+ * @param requested - The strategy and parameters asked for, if any
+ * @param defaults - The configured default strategy and parameters
+ * @returns The complete options (not validated)
+ */
+export function resolveChunkingOptions(
+  requested: Partial<ChunkingOptions>,
+  defaults: ChunkingOptions
+): ChunkingOptions {
+  const strategy = requested.strategy ?? defaults.strategy;
+  const base =
+    strategy === defaults.strategy ? defaults : STRATEGY_DEFAULTS[strategy];
+
+  return {
+    strategy,
+    chunkSize: requested.chunkSize ?? base.chunkSize,
+    chunkOverlap: requested.chunkOverlap ?? base.chunkOverlap,
+  };
+}
+
+/**
+ * Finds the range of each piece a splitter cut from a text
+ *
+ * Pieces are slices of the text in order; with overlap the next piece may
+ * start before this one ends, but never before it starts.
+ *
+ * @param source - The text that was split
+ * @param pieces - The pieces, in order
+ * @param offset - Offset of the text in the document, added to each range
+ */
+function locate(source: string, pieces: string[], offset = 0): TextSpan[] {
+  let searchFrom = 0;
+  return pieces.map((piece) => {
+    const found = source.indexOf(piece, searchFrom);
+    const start = found === -1 ? searchFrom : found;
+    searchFrom = start;
+    return {
+      text: piece,
+      start: offset + start,
+      end: offset + start + piece.length,
+    };
+  });
+}
+
+/**
+ * Splits on paragraphs, lines, sentences and words, measured in characters
+ */
+export class RecursiveChunkingStrategy implements ChunkingStrategy {
+  private splitter: RecursiveCharacterTextSplitter;
+
+  constructor(options: ChunkingOptions) {
+    this.splitter = new RecursiveCharacterTextSplitter({
+      chunkSize: options.chunkSize,
+      chunkOverlap: options.chunkOverlap,
+      separators: SEPARATORS,
+    });
+  }
+
+  async split(text: string): Promise<TextSpan[]> {
+    return locate(text, await this.splitter.splitText(text));
+  }
+}
+
+/**
+ * Splits Markdown along its headings
+ *
+ * The text under each heading (up to the next heading) is split on its own
+ * with the recursive strategy, and each of its chunks starts with the trail
+ * of headings above it, e.g. `Setup > Linux > Packages`, so a chunk read
+ * out of context still says where it belongs. Headings inside fenced code
+ * blocks are ignored, and headings with no text of their own below them
+ * produce no chunks (their title appears in their subsections' trails).
+ */
+export class MarkdownChunkingStrategy implements ChunkingStrategy {
+  private options: ChunkingOptions;
+
+  constructor(options: ChunkingOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Finds the text under each heading, with the heading trail above it
+   * @private
+   */
+  private sections(
+    text: string
+  ): Array<{ trail: string[]; start: number; end: number }> {
+    const sections: Array<{ trail: string[]; start: number; end: number }> =
+      [];
+    const levels: string[] = [];
+    let trail: string[] = [];
+    let start = 0;
+    let offset = 0;
+    let fence: string | null = null;
+
+    for (const line of text.split("\n")) {
+      const marker = line.match(FENCE)?.[1];
+      const heading = line.match(HEADING);
+
+      if (fence) {
+        if (marker === fence) {
+          fence = null;
+        }
+      } else if (marker) {
+        fence = marker;
+      } else if (heading) {
+        sections.push({ trail, start, end: offset });
+        const level = heading[1].length;
+        levels.length = level;
+        levels[level - 1] = heading[2];
+        trail = levels.filter((title) => title);
+        start = offset + line.length + 1;
+      }
+
+      offset += line.length + 1;
+    }
+    sections.push({ trail, start, end: text.length });
+
+    return sections;
+  }
+
+  async split(text: string): Promise<TextSpan[]> {
+    const spans: TextSpan[] = [];
+
+    for (const { trail, start, end } of this.sections(text)) {
+      const body = text.slice(start, end);
+      if (!body.trim()) {
+        continue;
+      }
+
+      // The heading trail counts towards the chunk size
+      const prefix = trail.length > 0 ? `${trail.join(" > ")}\n\n` : "";
+      const chunkSize = Math.max(
+        this.options.chunkSize - prefix.length,
+        Math.ceil(this.options.chunkSize / 2)
+      );
+      const splitter = new RecursiveCharacterTextSplitter({
+        chunkSize,
+        chunkOverlap: Math.min(
+          this.options.chunkOverlap,
+          Math.floor(chunkSize / 2)
+        ),
+        separators: SEPARATORS,
+      });
+
+      for (const span of locate(body, await splitter.splitText(body), start)) {
+        spans.push({ ...span, text: prefix + span.text });
+      }
+    }
+
+    return spans;
+  }
+}
+
+/**
+ * Groups whole sentences into overlapping windows
+ *
+ * Each chunk holds `chunkSize` sentences and repeats the last
+ * `chunkOverlap` sentences of the chunk before it. Sentence boundaries come
+ * from the runtime's Unicode sentence segmentation; line breaks also end a
+ * sentence.
+ */
+export class SentenceChunkingStrategy implements ChunkingStrategy {
+  private options: ChunkingOptions;
+  private segmenter: Intl.Segmenter;
+
+  constructor(options: ChunkingOptions) {
+    this.options = options;
+    this.segmenter = new Intl.Segmenter(undefined, {
+      granularity: "sentence",
+    });
+  }
+
+  async split(text: string): Promise<TextSpan[]> {
+    const sentences = Array.from(this.segmenter.segment(text))
+      .map(({ segment, index }) => {
+        const leading = segment.length - segment.trimStart().length;
+        return {
+          start: index + leading,
+          end: index + segment.trimEnd().length,
+        };
+      })
+      .filter(({ start, end }) => end > start);
+
+    const { chunkSize, chunkOverlap } = this.options;
+    const spans: TextSpan[] = [];
+
+    for (let i = 0; i < sentences.length; i += chunkSize - chunkOverlap) {
+      const start = sentences[i].start;
+      const end = sentences[Math.min(i + chunkSize, sentences.length) - 1].end;
+      spans.push({ text: text.slice(start, end), start, end });
+
+      if (i + chunkSize >= sentences.length) {
+        break;
+      }
+    }
+
+    return spans;
+  }
+}
+
+/**
+ * Tokenizer shared by token strategies, loaded on first use
+ */
+let tokenizer: Promise<Tiktoken> | undefined;
+
+/**
+ * Loads the cl100k_base tokenizer from the bundled ranks
+ */
+function getTokenizer(): Promise<Tiktoken> {
+  tokenizer ??= Promise.all([
+    import("js-tiktoken/lite"),
+    import("js-tiktoken/ranks/cl100k_base"),
+  ]).then(([{ Tiktoken }, { default: ranks }]) => new Tiktoken(ranks));
+  return tokenizer;
+}
+
+/**
+ * Splits like the recursive strategy, but measures chunks in tokens
+ *
+ * Tokens are counted with the cl100k_base encoding. Embedding models use
+ * tokenizers of their own, so counts are close rather than exact; sizes
+ * well under the model's input limit leave room for the difference.
+ */
+export class TokenChunkingStrategy implements ChunkingStrategy {
+  private options: ChunkingOptions;
+
+  constructor(options: ChunkingOptions) {
+    this.options = options;
+  }
+
+  async split(text: string): Promise<TextSpan[]> {
+    const encoding = await getTokenizer();
+    const splitter = new RecursiveCharacterTextSplitter({
+      chunkSize: this.options.chunkSize,
+      chunkOverlap: this.options.chunkOverlap,
+      separators: SEPARATORS,
+      lengthFunction: (piece: string) => encoding.encode(piece).length,
+    });
+
+    return locate(text, await splitter.splitText(text));
+  }
+}
+
+/**
+ * Creates the chunking strategy for a set of options
+ *
+ * @param options - The strategy and its parameters
+ * @returns The chunking strategy
+ */
+export function createChunkingStrategy(
+  options: ChunkingOptions
+): ChunkingStrategy {
+  switch (options.strategy) {
+    case "markdown":
+      return new MarkdownChunkingStrategy(options);
+    case "sentence":
+      return new SentenceChunkingStrategy(options);
+    case "token":
+      return new TokenChunkingStrategy(options);
+    default:
+      return new RecursiveChunkingStrategy(options);
+  }
+}
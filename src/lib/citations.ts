@@ -0,0 +1,121 @@
+/**
+ * Citation utilities for RAG Chatbot Backend
+ * Numbers retrieved chunks for the prompt and maps the `[n]` markers in the
+ * model's answer back to the chunks they refer to
+ */
+
+/**
+ * A retrieved chunk as presented to the model and returned to the client
+ */
+export interface ChatSource {
+  marker: number;
+  documentId: string;
+  filename: string;
+  chunkIndex: number;
+  /** First and last page of the chunk, for paginated documents */
+  pageNumber?: number;
+  pageEnd?: number;
+  score: number;
+  snippet: string;
+}
+
+/**
+ * Result of checking the markers cited in an answer
+ */
+export interface CitationCheck {
+  cited: ChatSource[];
+  unverified: number[];
+}
+
+/**
+ * Maximum snippet length returned for each source
+ */
+const SNIPPET_LENGTH = 240;
+
+/**
+ * Matches `[1]` and grouped forms such as `[1, 3]`
+ */
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * Builds a short, single-line excerpt of a chunk for display
+ *
+ * @param text - The chunk text
+ * @returns The excerpt, ellipsized if truncated
+ */
+export function buildSnippet(text: string): string {
+  const flattened = text.replace(/\s+/g, " ").trim();
+  if (flattened.length <= SNIPPET_LENGTH) {
+    return flattened;
+  }
+  return `${flattened.slice(0, SNIPPET_LENGTH).trimEnd()}…`;
+}
+
+/**
+ * Reads the pages a chunk covers from its metadata
+ *
+ * @param metadata - The chunk's stored metadata
+ * @returns The first and last page, or undefined if the chunk has no pages
+ */
+export function pageRange(
+  metadata: Record<string, unknown> | undefined
+): { pageNumber: number; pageEnd: number } | undefined {
+  const pageNumber = Number(metadata?.pageNumber);
+  if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+    return undefined;
+  }
+
+  const pageEnd = Number(metadata?.pageEnd);
+  return {
+    pageNumber,
+    pageEnd:
+      Number.isInteger(pageEnd) && pageEnd > pageNumber ? pageEnd : pageNumber,
+  };
+}
+
+/**
+ * Extracts the distinct citation markers from an answer, in order of first use
+ *
+ * @param answer - The model's answer
+ * @returns Marker numbers as they appear in the answer
+ */
+export function extractCitationMarkers(answer: string): number[] {
+  const markers: number[] = [];
+
+  for (const match of answer.matchAll(MARKER_PATTERN)) {
+    for (const part of match[1].split(",")) {
+      const marker = parseInt(part.trim(), 10);
+      if (!markers.includes(marker)) {
+        markers.push(marker);
+      }
+    }
+  }
+
+  return markers;
+}
+
+/**
+ * Checks every marker cited in an answer against the sources given to the model
+ *
+ * @param answer - The model's answer
+ * @param sources - The numbered sources included in the prompt context
+ * @returns The cited sources in citation order, and any markers with no matching source
+ */
+export function checkCitations(
+  answer: string,
+  sources: ChatSource[]
+): CitationCheck {
+  const cited: ChatSource[] = [];
+  const unverified: number[] = [];
+
+  for (const marker of extractCitationMarkers(answer)) {
+    const source = sources.find((candidate) => candidate.marker === marker);
+    if (source) {
+      cited.push(source);
+    } else {
+      unverified.push(marker);
+    }
+  }
+
+  return { cited, unverified };
+}
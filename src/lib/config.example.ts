@@ -84,8 +84,9 @@ export function exampleRelevanceCheck(similarityScore: number) {
 export function exampleChunkingSetup() {
   const config = getConfig();
 
-  console.log("Chunk size:", config.processing.chunkSize);
-  console.log("Chunk overlap:", config.processing.chunkOverlap);
+  console.log("Chunking strategy:", config.processing.chunking.strategy);
+  console.log("Chunk size:", config.processing.chunking.chunkSize);
+  console.log("Chunk overlap:", config.processing.chunking.chunkOverlap);
 
-  // Use these values to configure RecursiveCharacterTextSplitter
+  // New projects are chunked with these values unless they choose their own
 }
@@ -29,8 +29,9 @@ try {
   console.log("  ChromaDB Port:", config.vectorStore.port);
   console.log("  Max File Size:", config.processing.maxFileSizeMB, "MB");
   console.log("  Relevance Threshold:", config.processing.relevanceThreshold);
-  console.log("  Chunk Size:", config.processing.chunkSize);
-  console.log("  Chunk Overlap:", config.processing.chunkOverlap);
+  console.log("  Chunking Strategy:", config.processing.chunking.strategy);
+  console.log("  Chunk Size:", config.processing.chunking.chunkSize);
+  console.log("  Chunk Overlap:", config.processing.chunking.chunkOverlap);
 } catch (error) {
   if (error instanceof ConfigurationError) {
     console.log("✗ Configuration error:", error.message);
@@ -7,6 +7,14 @@
  * Requirements: 15.1, 15.2, 15.3, 15.5
  */
 
+import {
+  CHUNKING_STRATEGIES,
+  ChunkingOptions,
+  ChunkingStrategyName,
+  STRATEGY_DEFAULTS,
+  chunkingOptionsError,
+} from "./chunking-strategy";
+
 /**
  * LLM Configuration
  * Supports both Google Gemini and local LLM endpoints
@@ -30,15 +38,102 @@ export interface EmbeddingConfig {
   endpoint?: string;
   modelName: string;
   dimensions: number;
+  /** Texts sent in one embedding request */
+  batchSize: number;
+  /** Embedding requests in flight at once for one batch of texts */
+  concurrency: number;
+  /** Embedding requests allowed per minute, per provider */
+  requestsPerMinute: number;
+  /** Time a batch may spend waiting out rate-limit errors before failing */
+  quotaWaitMs: number;
+}
+
+/**
+ * Embedding Cache Configuration
+ * Embeddings are kept in Postgres, with the most recently used also in memory
+ */
+export interface EmbeddingCacheConfig {
+  enabled: boolean;
+  memoryEntries: number;
+  /** How often workers log the cache's hit and miss counters (0: never) */
+  statsLogIntervalMs: number;
+}
+
+/**
+ * Reranker Configuration
+ * Reorders retrieved candidates with a cross-encoder endpoint or the LLM
+ */
+export interface RerankerConfig {
+  provider: "none" | "local" | "llm";
+  endpoint?: string;
+  candidateCount: number;
+  relevanceThreshold: number;
+}
+
+/**
+ * Vector Store Configuration
+ * Selects the backend that stores embeddings; host and port apply to ChromaDB
+ */
+export interface VectorStoreConfig {
+  provider: "chroma" | "pgvector" | "memory";
+  host: string;
+  port: number;
 }
 
 /**
  * Text Chunking Configuration
+ * Default strategy and parameters for new projects; each project keeps its own
+ */
+export type ChunkingConfig = ChunkingOptions;
+
+/**
+ * Hybrid Retrieval Configuration
+ * Vector and keyword results are fused with weighted reciprocal rank fusion
+ */
+export interface HybridRetrievalConfig {
+  vectorWeight: number;
+  keywordWeight: number;
+  vectorTopK: number;
+  keywordTopK: number;
+  rrfK: number;
+}
+
+/**
+ * Background Ingestion Queue Configuration
+ */
+export interface IngestionConfig {
+  pollIntervalMs: number;
+  leaseDurationMs: number;
+  heartbeatIntervalMs: number;
+  maxAttempts: number;
+  /** How often workers look for URL documents due for a re-sync */
+  syncCheckIntervalMs: number;
+}
+
+/**
+ * Website Crawler Configuration
+ * Request settings for crawl-mode URL uploads
  */
-export interface ChunkingConfig {
-  chunkSize: number;
-  chunkOverlap: number;
-  separators: string[];
+export interface CrawlerConfig {
+  userAgent: string;
+  requestTimeoutMs: number;
+}
+
+/**
+ * Blob Storage Configuration
+ * Original upload bytes are kept so documents can be (re)processed later
+ */
+export interface StorageConfig {
+  provider: "local" | "s3";
+  localPath: string;
+  s3?: {
+    endpoint?: string;
+    region: string;
+    bucket: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    forcePathStyle: boolean;
+  };
 }
 
 /**
@@ -50,16 +145,18 @@ export interface AppConfig {
   };
   llm: LLMConfig;
   embedding: EmbeddingConfig;
-  vectorStore: {
-    host: string;
-    port: number;
-  };
+  embeddingCache: EmbeddingCacheConfig;
+  reranker: RerankerConfig;
+  vectorStore: VectorStoreConfig;
   processing: {
     maxFileSizeMB: number;
     relevanceThreshold: number;
-    chunkSize: number;
-    chunkOverlap: number;
+    chunking: ChunkingConfig;
+    hybrid: HybridRetrievalConfig;
   };
+  ingestion: IngestionConfig;
+  crawler: CrawlerConfig;
+  storage: StorageConfig;
 }
 
 /**
@@ -96,6 +193,7 @@ function requireEnv(name: string, value: string | undefined): string {
  * - GOOGLE_API_KEY: Google Gemini API key (when using Gemini provider)
  *
  * Optional environment variables:
+ * - VECTOR_STORE_PROVIDER: Vector store, "chroma", "pgvector" or "memory" (default: chroma)
  * - CHROMA_HOST: ChromaDB host (default: localhost)
  * - CHROMA_PORT: ChromaDB port (default: 8000)
  * - MAX_FILE_SIZE_MB: Maximum file size in MB (default: 10)
@@ -109,6 +207,37 @@ function requireEnv(name: string, value: string | undefined): string {
  * - EMBEDDING_ENDPOINT: Local embedding endpoint (required if EMBEDDING_PROVIDER=local)
  * - EMBEDDING_MODEL_NAME: Embedding model name (default: embedding-001)
  * - EMBEDDING_DIMENSIONS: Embedding dimensions (default: 768)
+ * - EMBEDDING_BATCH_SIZE: Texts sent in one embedding request (default: 100)
+ * - EMBEDDING_CONCURRENCY: Embedding requests in flight at once (default: 4)
+ * - EMBEDDING_REQUESTS_PER_MINUTE: Embedding request rate limit (default: 300)
+ * - EMBEDDING_QUOTA_WAIT_MS: Time spent waiting out rate-limit errors before giving up (default: 120000)
+ * - EMBEDDING_CACHE: Reuse embeddings of text embedded before, "true" or "false" (default: true)
+ * - EMBEDDING_CACHE_MEMORY_ENTRIES: Embeddings also kept in process memory (default: 2000)
+ * - RERANKER_PROVIDER: Reranker, "none", "local" or "llm" (default: none)
+ * - RERANKER_ENDPOINT: Local cross-encoder endpoint (required if RERANKER_PROVIDER=local)
+ * - RERANKER_CANDIDATES: Candidates retrieved for reranking (default: 30)
+ * - RERANKER_RELEVANCE_THRESHOLD: Minimum reranker score for answers (default: 0.5)
+ * - CHUNKING_STRATEGY: Default chunking strategy for new projects, "recursive", "markdown", "sentence" or "token" (default: recursive)
+ * - CHUNK_SIZE: Default chunk size, in the strategy's unit (default: the strategy's, e.g. 1000 characters)
+ * - CHUNK_OVERLAP: Default chunk overlap, in the strategy's unit (default: the strategy's, e.g. 200 characters)
+ * - HYBRID_VECTOR_WEIGHT: Weight of the vector search leg in rank fusion (default: 1)
+ * - HYBRID_KEYWORD_WEIGHT: Weight of the keyword search leg, 0 disables it (default: 1)
+ * - HYBRID_VECTOR_TOP_K: Candidates fetched by vector search (default: 20)
+ * - HYBRID_KEYWORD_TOP_K: Candidates fetched by keyword search (default: 20)
+ * - HYBRID_RRF_K: Rank fusion smoothing constant (default: 60)
+ * - INGESTION_POLL_INTERVAL_MS: Worker poll interval when the queue is empty (default: 2000)
+ * - INGESTION_LEASE_MS: How long a claimed job is leased to a worker (default: 60000)
+ * - INGESTION_MAX_ATTEMPTS: Attempts before a job is marked failed (default: 5)
+ * - INGESTION_SYNC_CHECK_MS: Interval between checks for URL documents due for re-sync (default: 60000)
+ * - CRAWLER_USER_AGENT: User agent sent and matched against robots.txt (default: rag-chatbot-crawler/1.0)
+ * - CRAWLER_TIMEOUT_MS: Timeout for each crawler request (default: 10000)
+ * - BLOB_STORE_PROVIDER: Where upload bytes are kept, "local" or "s3" (default: local)
+ * - BLOB_STORE_PATH: Directory for the local blob store (default: ./storage/uploads)
+ * - S3_BUCKET: Bucket name (required if BLOB_STORE_PROVIDER=s3)
+ * - S3_ENDPOINT: Custom endpoint for S3-compatible stores such as MinIO
+ * - S3_REGION: Bucket region (default: us-east-1)
+ * - S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY: Credentials (default: AWS credential chain)
+ * - S3_FORCE_PATH_STYLE: Use path-style addressing (default: true when S3_ENDPOINT is set)
  *
  * @returns AppConfig object with all configuration values
  * @throws ConfigurationError if required configuration is missing
@@ -150,6 +279,76 @@ export function loadConfig(): AppConfig {
     );
   }
 
+  // Determine reranker provider
+  const rerankerProvider = (process.env.RERANKER_PROVIDER || "none") as
+    | "none"
+    | "local"
+    | "llm";
+
+  if (!["none", "local", "llm"].includes(rerankerProvider)) {
+    throw new ConfigurationError(
+      "RERANKER_PROVIDER must be one of 'none', 'local' or 'llm'"
+    );
+  }
+
+  let rerankerEndpoint: string | undefined;
+
+  if (rerankerProvider === "local") {
+    rerankerEndpoint = requireEnv(
+      "RERANKER_ENDPOINT",
+      process.env.RERANKER_ENDPOINT
+    );
+  }
+
+  // Determine vector store provider
+  const vectorStoreProvider = (process.env.VECTOR_STORE_PROVIDER ||
+    "chroma") as "chroma" | "pgvector" | "memory";
+
+  if (!["chroma", "pgvector", "memory"].includes(vectorStoreProvider)) {
+    throw new ConfigurationError(
+      "VECTOR_STORE_PROVIDER must be one of 'chroma', 'pgvector' or 'memory'"
+    );
+  }
+
+  // Determine default chunking strategy
+  const chunkingStrategy = (process.env.CHUNKING_STRATEGY ||
+    "recursive") as ChunkingStrategyName;
+
+  if (!CHUNKING_STRATEGIES.includes(chunkingStrategy)) {
+    throw new ConfigurationError(
+      `CHUNKING_STRATEGY must be one of ${CHUNKING_STRATEGIES.map(
+        (strategy) => `'${strategy}'`
+      ).join(", ")}`
+    );
+  }
+
+  // Determine blob storage provider
+  const storageProvider = (process.env.BLOB_STORE_PROVIDER || "local") as
+    | "local"
+    | "s3";
+
+  if (storageProvider !== "local" && storageProvider !== "s3") {
+    throw new ConfigurationError(
+      "BLOB_STORE_PROVIDER must be either 'local' or 's3'"
+    );
+  }
+
+  let s3Config: StorageConfig["s3"];
+
+  if (storageProvider === "s3") {
+    const s3Endpoint = process.env.S3_ENDPOINT;
+    s3Config = {
+      endpoint: s3Endpoint,
+      region: process.env.S3_REGION || "us-east-1",
+      bucket: requireEnv("S3_BUCKET", process.env.S3_BUCKET),
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+        ? process.env.S3_FORCE_PATH_STYLE === "true"
+        : Boolean(s3Endpoint),
+    };
+  }
+
   // Parse numeric configuration with defaults
   const chromaPort = parseInt(process.env.CHROMA_PORT || "8000", 10);
   const maxFileSizeMB = parseInt(process.env.MAX_FILE_SIZE_MB || "10", 10);
@@ -162,6 +361,81 @@ export function loadConfig(): AppConfig {
     process.env.EMBEDDING_DIMENSIONS || "768",
     10
   );
+  const embeddingBatchSize = parseInt(
+    process.env.EMBEDDING_BATCH_SIZE || "100",
+    10
+  );
+  const embeddingConcurrency = parseInt(
+    process.env.EMBEDDING_CONCURRENCY || "4",
+    10
+  );
+  const embeddingRequestsPerMinute = parseFloat(
+    process.env.EMBEDDING_REQUESTS_PER_MINUTE || "300"
+  );
+  const embeddingQuotaWaitMs = parseInt(
+    process.env.EMBEDDING_QUOTA_WAIT_MS || "120000",
+    10
+  );
+  const embeddingCacheMemoryEntries = parseInt(
+    process.env.EMBEDDING_CACHE_MEMORY_ENTRIES || "2000",
+    10
+  );
+  const embeddingCacheStatsLogMs = parseInt(
+    process.env.EMBEDDING_CACHE_STATS_LOG_MS || "300000",
+    10
+  );
+  const rerankerCandidates = parseInt(
+    process.env.RERANKER_CANDIDATES || "30",
+    10
+  );
+  const rerankerRelevanceThreshold = parseFloat(
+    process.env.RERANKER_RELEVANCE_THRESHOLD || "0.5"
+  );
+  const chunkSize = parseInt(
+    process.env.CHUNK_SIZE ||
+      String(STRATEGY_DEFAULTS[chunkingStrategy].chunkSize),
+    10
+  );
+  const chunkOverlap = parseInt(
+    process.env.CHUNK_OVERLAP ||
+      String(STRATEGY_DEFAULTS[chunkingStrategy].chunkOverlap),
+    10
+  );
+  const hybridVectorWeight = parseFloat(
+    process.env.HYBRID_VECTOR_WEIGHT || "1"
+  );
+  const hybridKeywordWeight = parseFloat(
+    process.env.HYBRID_KEYWORD_WEIGHT || "1"
+  );
+  const hybridVectorTopK = parseInt(
+    process.env.HYBRID_VECTOR_TOP_K || "20",
+    10
+  );
+  const hybridKeywordTopK = parseInt(
+    process.env.HYBRID_KEYWORD_TOP_K || "20",
+    10
+  );
+  const hybridRrfK = parseInt(process.env.HYBRID_RRF_K || "60", 10);
+  const ingestionPollIntervalMs = parseInt(
+    process.env.INGESTION_POLL_INTERVAL_MS || "2000",
+    10
+  );
+  const ingestionLeaseMs = parseInt(
+    process.env.INGESTION_LEASE_MS || "60000",
+    10
+  );
+  const ingestionMaxAttempts = parseInt(
+    process.env.INGESTION_MAX_ATTEMPTS || "5",
+    10
+  );
+  const ingestionSyncCheckMs = parseInt(
+    process.env.INGESTION_SYNC_CHECK_MS || "60000",
+    10
+  );
+  const crawlerTimeoutMs = parseInt(
+    process.env.CRAWLER_TIMEOUT_MS || "10000",
+    10
+  );
 
   // Validate numeric values
   if (isNaN(chromaPort) || chromaPort <= 0 || chromaPort > 65535) {
@@ -196,6 +470,129 @@ export function loadConfig(): AppConfig {
     );
   }
 
+  if (isNaN(embeddingBatchSize) || embeddingBatchSize <= 0) {
+    throw new ConfigurationError(
+      "EMBEDDING_BATCH_SIZE must be a positive number"
+    );
+  }
+
+  if (isNaN(embeddingConcurrency) || embeddingConcurrency <= 0) {
+    throw new ConfigurationError(
+      "EMBEDDING_CONCURRENCY must be a positive number"
+    );
+  }
+
+  if (isNaN(embeddingRequestsPerMinute) || embeddingRequestsPerMinute <= 0) {
+    throw new ConfigurationError(
+      "EMBEDDING_REQUESTS_PER_MINUTE must be a positive number"
+    );
+  }
+
+  if (isNaN(embeddingQuotaWaitMs) || embeddingQuotaWaitMs < 0) {
+    throw new ConfigurationError(
+      "EMBEDDING_QUOTA_WAIT_MS must be zero or a positive number"
+    );
+  }
+
+  if (isNaN(embeddingCacheMemoryEntries) || embeddingCacheMemoryEntries < 0) {
+    throw new ConfigurationError(
+      "EMBEDDING_CACHE_MEMORY_ENTRIES must be zero or a positive number"
+    );
+  }
+
+  if (isNaN(embeddingCacheStatsLogMs) || embeddingCacheStatsLogMs < 0) {
+    throw new ConfigurationError(
+      "EMBEDDING_CACHE_STATS_LOG_MS must be zero or a positive number"
+    );
+  }
+
+  if (isNaN(rerankerCandidates) || rerankerCandidates <= 0) {
+    throw new ConfigurationError(
+      "RERANKER_CANDIDATES must be a positive number"
+    );
+  }
+
+  if (
+    isNaN(rerankerRelevanceThreshold) ||
+    rerankerRelevanceThreshold < 0 ||
+    rerankerRelevanceThreshold > 1
+  ) {
+    throw new ConfigurationError(
+      "RERANKER_RELEVANCE_THRESHOLD must be between 0 and 1"
+    );
+  }
+
+  const chunkingError = chunkingOptionsError({
+    strategy: chunkingStrategy,
+    chunkSize,
+    chunkOverlap,
+  });
+  if (chunkingError) {
+    throw new ConfigurationError(
+      `Invalid CHUNK_SIZE or CHUNK_OVERLAP: ${chunkingError}`
+    );
+  }
+
+  if (isNaN(hybridVectorWeight) || hybridVectorWeight <= 0) {
+    throw new ConfigurationError(
+      "HYBRID_VECTOR_WEIGHT must be a positive number"
+    );
+  }
+
+  if (isNaN(hybridKeywordWeight) || hybridKeywordWeight < 0) {
+    throw new ConfigurationError(
+      "HYBRID_KEYWORD_WEIGHT must be zero or a positive number"
+    );
+  }
+
+  if (isNaN(hybridVectorTopK) || hybridVectorTopK <= 0) {
+    throw new ConfigurationError(
+      "HYBRID_VECTOR_TOP_K must be a positive number"
+    );
+  }
+
+  if (isNaN(hybridKeywordTopK) || hybridKeywordTopK <= 0) {
+    throw new ConfigurationError(
+      "HYBRID_KEYWORD_TOP_K must be a positive number"
+    );
+  }
+
+  if (isNaN(hybridRrfK) || hybridRrfK < 0) {
+    throw new ConfigurationError(
+      "HYBRID_RRF_K must be zero or a positive number"
+    );
+  }
+
+  if (isNaN(ingestionPollIntervalMs) || ingestionPollIntervalMs <= 0) {
+    throw new ConfigurationError(
+      "INGESTION_POLL_INTERVAL_MS must be a positive number"
+    );
+  }
+
+  if (isNaN(ingestionLeaseMs) || ingestionLeaseMs < 1000) {
+    throw new ConfigurationError(
+      "INGESTION_LEASE_MS must be at least 1000 milliseconds"
+    );
+  }
+
+  if (isNaN(ingestionMaxAttempts) || ingestionMaxAttempts <= 0) {
+    throw new ConfigurationError(
+      "INGESTION_MAX_ATTEMPTS must be a positive number"
+    );
+  }
+
+  if (isNaN(ingestionSyncCheckMs) || ingestionSyncCheckMs < 1000) {
+    throw new ConfigurationError(
+      "INGESTION_SYNC_CHECK_MS must be at least 1000 milliseconds"
+    );
+  }
+
+  if (isNaN(crawlerTimeoutMs) || crawlerTimeoutMs <= 0) {
+    throw new ConfigurationError(
+      "CRAWLER_TIMEOUT_MS must be a positive number"
+    );
+  }
+
   return {
     database: {
       url: databaseUrl,
@@ -214,16 +611,59 @@ export function loadConfig(): AppConfig {
       endpoint: embeddingEndpoint,
       modelName: process.env.EMBEDDING_MODEL_NAME || "embedding-001",
       dimensions: embeddingDimensions,
+      batchSize: embeddingBatchSize,
+      concurrency: embeddingConcurrency,
+      requestsPerMinute: embeddingRequestsPerMinute,
+      quotaWaitMs: embeddingQuotaWaitMs,
+    },
+    embeddingCache: {
+      enabled: process.env.EMBEDDING_CACHE !== "false",
+      memoryEntries: embeddingCacheMemoryEntries,
+      statsLogIntervalMs: embeddingCacheStatsLogMs,
+    },
+    reranker: {
+      provider: rerankerProvider,
+      endpoint: rerankerEndpoint,
+      candidateCount: rerankerCandidates,
+      relevanceThreshold: rerankerRelevanceThreshold,
     },
     vectorStore: {
+      provider: vectorStoreProvider,
       host: process.env.CHROMA_HOST || "localhost",
       port: chromaPort,
     },
     processing: {
       maxFileSizeMB,
       relevanceThreshold,
-      chunkSize: 1000,
-      chunkOverlap: 200,
+      chunking: {
+        strategy: chunkingStrategy,
+        chunkSize,
+        chunkOverlap,
+      },
+      hybrid: {
+        vectorWeight: hybridVectorWeight,
+        keywordWeight: hybridKeywordWeight,
+        vectorTopK: hybridVectorTopK,
+        keywordTopK: hybridKeywordTopK,
+        rrfK: hybridRrfK,
+      },
+    },
+    ingestion: {
+      pollIntervalMs: ingestionPollIntervalMs,
+      leaseDurationMs: ingestionLeaseMs,
+      // Heartbeat well inside the lease so a slow job is never reclaimed
+      heartbeatIntervalMs: Math.floor(ingestionLeaseMs / 3),
+      maxAttempts: ingestionMaxAttempts,
+      syncCheckIntervalMs: ingestionSyncCheckMs,
+    },
+    crawler: {
+      userAgent: process.env.CRAWLER_USER_AGENT || "rag-chatbot-crawler/1.0",
+      requestTimeoutMs: crawlerTimeoutMs,
+    },
+    storage: {
+      provider: storageProvider,
+      localPath: process.env.BLOB_STORE_PATH || "./storage/uploads",
+      s3: s3Config,
     },
   };
 }
@@ -0,0 +1,220 @@
+/**
+ * Embedding Cache Module
+ *
+ * This module remembers embeddings already computed, so reprocessing a
+ * document or asking a common question again doesn't pay for the same
+ * embeddings twice. Entries are keyed by the embedding provider, model name
+ * and dimensions together with a SHA-256 of the text, so one model is never
+ * served another model's vectors. Entries are stored in Postgres, where the
+ * API server and every worker share them, and the most recently used are
+ * also held in process memory.
+ *
+ * The cache is an optimisation only: if Postgres cannot be read or written,
+ * lookups count as misses and the embeddings are simply computed.
+ */
+
+import { createHash } from "crypto";
+import { prisma } from "../../lib/prisma";
+import { EmbeddingCacheConfig, EmbeddingConfig } from "./config";
+import { DatabaseError } from "./errors";
+import { LruCache } from "./lru-cache";
+
+/**
+ * What an embedding depends on besides its text
+ */
+export type EmbeddingModelKey = Pick<
+  EmbeddingConfig,
+  "provider" | "modelName" | "dimensions"
+>;
+
+/**
+ * Lookups answered by each tier since the process started
+ */
+export interface EmbeddingCacheStats {
+  memoryHits: number;
+  databaseHits: number;
+  misses: number;
+  /** Embeddings currently held in memory */
+  memoryEntries: number;
+}
+
+/**
+ * In-memory tier shared by every cache in the process, created on first use
+ */
+let memoryTier: LruCache<number[]> | null = null;
+
+/**
+ * Counters shared by every cache in the process
+ */
+const counters = { memoryHits: 0, databaseHits: 0, misses: 0 };
+
+/**
+ * Hashes a text for use in a cache key
+ */
+function hashText(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * EmbeddingCache class
+ * Looks up and stores the embeddings of one embedding model
+ */
+export class EmbeddingCache {
+  private model: EmbeddingModelKey;
+  private enabled: boolean;
+  private memory: LruCache<number[]>;
+
+  /**
+   * @param model - The model whose embeddings are cached
+   * @param config - Whether caching is on and the size of the memory tier
+   */
+  constructor(model: EmbeddingModelKey, config: EmbeddingCacheConfig) {
+    this.model = {
+      provider: model.provider,
+      modelName: model.modelName,
+      dimensions: model.dimensions,
+    };
+    this.enabled = config.enabled;
+    memoryTier ??= new LruCache<number[]>(config.memoryEntries);
+    this.memory = memoryTier;
+  }
+
+  /**
+   * Key of a text's entry in the memory tier
+   * @private
+   */
+  private memoryKey(textHash: string): string {
+    const { provider, modelName, dimensions } = this.model;
+    return `${provider}:${modelName}:${dimensions}:${textHash}`;
+  }
+
+  /**
+   * Looks up the embeddings of some texts
+   *
+   * @param texts - The texts to look up
+   * @returns Each text's embedding, or undefined where it isn't cached
+   */
+  async getMany(texts: string[]): Promise<Array<number[] | undefined>> {
+    if (!this.enabled) {
+      return texts.map(() => undefined);
+    }
+
+    const hashes = texts.map(hashText);
+    const results = hashes.map((textHash) =>
+      this.memory.get(this.memoryKey(textHash))
+    );
+    counters.memoryHits += results.filter(Boolean).length;
+
+    const missing = Array.from(
+      new Set(hashes.filter((_, i) => results[i] === undefined))
+    );
+    if (missing.length === 0) {
+      return results;
+    }
+
+    let found = new Map<string, number[]>();
+    try {
+      const rows = await prisma.embeddingCacheEntry.findMany({
+        where: { ...this.model, textHash: { in: missing } },
+        select: { textHash: true, embedding: true },
+      });
+      found = new Map(
+        rows.map((row: { textHash: string; embedding: number[] }) => [
+          row.textHash,
+          row.embedding,
+        ])
+      );
+    } catch (error) {
+      console.error("Failed to read embedding cache:", error);
+    }
+
+    hashes.forEach((textHash, i) => {
+      if (results[i] !== undefined) {
+        return;
+      }
+      const embedding = found.get(textHash);
+      if (embedding) {
+        results[i] = embedding;
+        this.memory.set(this.memoryKey(textHash), embedding);
+        counters.databaseHits++;
+      } else {
+        counters.misses++;
+      }
+    });
+
+    return results;
+  }
+
+  /**
+   * Stores the embeddings of some texts
+   *
+   * @param texts - The embedded texts
+   * @param embeddings - Their embeddings, in the same order
+   */
+  async setMany(texts: string[], embeddings: number[][]): Promise<void> {
+    if (!this.enabled || texts.length === 0) {
+      return;
+    }
+
+    const entries = new Map<string, number[]>();
+    texts.forEach((text, i) => entries.set(hashText(text), embeddings[i]));
+
+    for (const [textHash, embedding] of entries) {
+      this.memory.set(this.memoryKey(textHash), embedding);
+    }
+
+    try {
+      await prisma.embeddingCacheEntry.createMany({
+        data: Array.from(entries, ([textHash, embedding]) => ({
+          ...this.model,
+          textHash,
+          embedding,
+        })),
+        skipDuplicates: true,
+      });
+    } catch (error) {
+      console.error("Failed to write embedding cache:", error);
+    }
+  }
+}
+
+/**
+ * Reports how many lookups each tier has answered in this process
+ *
+ * @returns The hit and miss counters and the memory tier's size
+ */
+export function getEmbeddingCacheStats(): EmbeddingCacheStats {
+  return { ...counters, memoryEntries: memoryTier?.size ?? 0 };
+}
+
+/**
+ * Deletes cached embeddings, e.g. after switching embedding models
+ *
+ * @param keep - The model whose entries are kept; when omitted every entry
+ *        is deleted
+ * @returns The number of entries deleted
+ * @throws DatabaseError if the entries cannot be deleted
+ */
+export async function purgeEmbeddingCache(
+  keep?: EmbeddingModelKey
+): Promise<number> {
+  try {
+    const { count } = await prisma.embeddingCacheEntry.deleteMany({
+      where: keep
+        ? {
+            NOT: {
+              provider: keep.provider,
+              modelName: keep.modelName,
+              dimensions: keep.dimensions,
+            },
+          }
+        : {},
+    });
+    memoryTier?.clear();
+    return count;
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to purge embedding cache: ${(error as Error).message}`
+    );
+  }
+}
@@ -11,6 +11,8 @@ import { GoogleGenerativeAIEmbeddings } from "@langchain/google-genai";
 import { getConfig } from "./config";
 import { LLMError, QuotaExceededError, TimeoutError, ServiceUnavailableError } from "./errors";
 import { CircuitBreaker, withRetryAndCircuitBreaker } from "./retry";
+import { EmbeddingCache, EmbeddingModelKey } from "./embedding-cache";
+import { TokenBucket, mapWithConcurrency } from "./rate-limiter";
 
 // For local embedding endpoints
 interface LocalEmbeddingRequest {
@@ -21,18 +23,68 @@ interface LocalEmbeddingResponse {
   embeddings: number[][];
 }
 
+/**
+ * Wait before trying a batch again after a rate-limit error, doubled after
+ * each further error up to the maximum
+ */
+const QUOTA_BASE_DELAY_MS = 2000;
+const QUOTA_MAX_DELAY_MS = 60000;
+
+/**
+ * Rate limiters shared by every EmbeddingService in the process, one per
+ * provider, so that all callers together stay within the provider's limits
+ */
+const rateLimiters = new Map<string, TokenBucket>();
+
+/**
+ * Tells whether an error is the provider refusing a request because of its
+ * rate limits or quota
+ */
+function isQuotaError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /quota|rate limit|\b429\b|resource has been exhausted/i.test(message);
+}
+
+/**
+ * Identifies the vector space an embedding model produces
+ *
+ * Embeddings are only comparable when provider and model both match, so the
+ * fingerprint is recorded with stored vectors and checked before they are
+ * searched. The configured dimensions are left out: they aren't sent to
+ * either provider, so the vectors always have the model's own size.
+ *
+ * @param model - The embedding model
+ * @returns A fingerprint such as "gemini/embedding-001"
+ */
+export function embeddingFingerprint(model: EmbeddingModelKey): string {
+  return `${model.provider}/${model.modelName}`;
+}
+
 /**
  * EmbeddingService class
  * Handles embedding generation for document chunks and user queries
+ * Embeddings of text seen before are served from the EmbeddingCache
  */
 export class EmbeddingService {
   private model: GoogleGenerativeAIEmbeddings | null = null;
   private config = getConfig();
   private circuitBreaker: CircuitBreaker;
+  private cache: EmbeddingCache;
+  private rateLimiter: TokenBucket;
   private isLocalProvider: boolean = false;
 
   constructor() {
     this.circuitBreaker = new CircuitBreaker();
+    this.cache = new EmbeddingCache(
+      this.config.embedding,
+      this.config.embeddingCache
+    );
+
+    const { provider, requestsPerMinute } = this.config.embedding;
+    if (!rateLimiters.has(provider)) {
+      rateLimiters.set(provider, new TokenBucket(requestsPerMinute));
+    }
+    this.rateLimiter = rateLimiters.get(provider)!;
   }
 
   /**
@@ -156,6 +208,56 @@ export class EmbeddingService {
     }
   }
 
+  /**
+   * Embeds one batch of texts, waiting out rate-limit errors
+   *
+   * After a rate-limit error the provider's rate limiter is paused and the
+   * batch is tried again with exponential backoff until the configured wait
+   * budget runs out. Rate-limit errors are kept away from the retry logic and
+   * the circuit breaker: they mean the provider wants us to slow down, not
+   * that it is failing.
+   * @private
+   */
+  private async embedBatch(batch: string[]): Promise<number[][]> {
+    let budgetMs = this.config.embedding.quotaWaitMs;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter.acquire();
+
+      const result = await withRetryAndCircuitBreaker(async () => {
+        try {
+          // Initialize model (or check provider type)
+          this.initializeModel();
+
+          const embeddings = this.isLocalProvider
+            ? await this.callLocalBatchEmbeddings(batch)
+            : await this.model!.embedDocuments(batch);
+          return { embeddings };
+        } catch (error) {
+          if (isQuotaError(error)) {
+            return { embeddings: null };
+          }
+          throw error;
+        }
+      }, this.circuitBreaker);
+
+      if (result.embeddings) {
+        return result.embeddings;
+      }
+
+      const delay = Math.min(
+        QUOTA_BASE_DELAY_MS * 2 ** attempt,
+        QUOTA_MAX_DELAY_MS
+      );
+      if (delay > budgetMs) {
+        throw new QuotaExceededError("Embedding API quota exceeded");
+      }
+      budgetMs -= delay;
+      // The next acquire() waits for the pause to end
+      this.rateLimiter.pause(delay);
+    }
+  }
+
   /**
    * Generates an embedding vector for a single text string
    *
@@ -174,7 +276,13 @@ export class EmbeddingService {
    * @throws TimeoutError if the request times out
    */
   async generateEmbedding(text: string): Promise<number[]> {
+    const [cached] = await this.cache.getMany([text]);
+    if (cached) {
+      return cached;
+    }
+
     try {
+      await this.rateLimiter.acquire();
       const embedding = await withRetryAndCircuitBreaker(
         async () => {
           // Initialize model (or check provider type)
@@ -192,6 +300,7 @@ export class EmbeddingService {
         this.circuitBreaker
       );
 
+      await this.cache.setMany([text], [embedding]);
       return embedding;
     } catch (error: any) {
       // Handle specific error types
@@ -218,8 +327,11 @@ export class EmbeddingService {
    * Generates embedding vectors for multiple text strings in batch
    *
    * This method is used for generating embeddings for document chunks during
-   * the document processing pipeline. Batch processing is more efficient than
-   * generating embeddings one at a time.
+   * the document processing pipeline. Only texts missing from the cache are
+   * sent to the model, each once, split into batches of the configured size
+   * that run a few at a time within the provider's rate limit. Each batch is
+   * cached as soon as it completes, so when a later batch fails, retrying
+   * the job resumes where it stopped instead of embedding everything again.
    *
    * Requirements:
    * - 5.1: Generates embeddings for all document chunks
@@ -228,37 +340,41 @@ export class EmbeddingService {
    * @param texts - An array of text strings to generate embeddings for
    * @returns A promise that resolves to a 2D array where each inner array is an embedding vector
    * @throws LLMError if embedding generation fails
-   * @throws QuotaExceededError if API quota is exceeded
+   * @throws QuotaExceededError if rate-limit errors outlast the wait budget
    * @throws TimeoutError if the request times out
    */
   async generateBatchEmbeddings(texts: string[]): Promise<number[][]> {
-    try {
-      const embeddings = await withRetryAndCircuitBreaker(
-        async () => {
-          // Initialize model (or check provider type)
-          this.initializeModel();
+    const cached = await this.cache.getMany(texts);
+    const missing = Array.from(
+      new Set(texts.filter((_, i) => cached[i] === undefined))
+    );
+    if (missing.length === 0) {
+      return cached as number[][];
+    }
 
-          if (this.isLocalProvider) {
-            // Use local embedding endpoint
-            return await this.callLocalBatchEmbeddings(texts);
-          } else {
-            // Use Gemini
-            const model = this.model!;
-            return await model.embedDocuments(texts);
-          }
-        },
-        this.circuitBreaker
-      );
+    const { batchSize, concurrency } = this.config.embedding;
+    const batches: string[][] = [];
+    for (let i = 0; i < missing.length; i += batchSize) {
+      batches.push(missing.slice(i, i + batchSize));
+    }
+
+    try {
+      const computed = new Map<string, number[]>();
+      await mapWithConcurrency(batches, concurrency, async (batch) => {
+        const embeddings = await this.embedBatch(batch);
+        await this.cache.setMany(batch, embeddings);
+        batch.forEach((text, i) => computed.set(text, embeddings[i]));
+      });
 
-      return embeddings;
+      return texts.map((text, i) => cached[i] ?? computed.get(text)!);
     } catch (error: any) {
       // Handle specific error types
-      if (error.message?.includes("Circuit breaker is OPEN")) {
-        throw new ServiceUnavailableError("Embedding service temporarily unavailable");
+      if (error instanceof QuotaExceededError) {
+        throw error;
       }
 
-      if (error.message?.includes("quota")) {
-        throw new QuotaExceededError("Embedding API quota exceeded");
+      if (error.message?.includes("Circuit breaker is OPEN")) {
+        throw new ServiceUnavailableError("Embedding service temporarily unavailable");
       }
 
       if (error.message?.includes("timeout")) {
@@ -274,6 +390,15 @@ export class EmbeddingService {
     }
   }
 
+  /**
+   * Fingerprint of the configured embedding model
+   *
+   * @returns The model's fingerprint (see embeddingFingerprint)
+   */
+  getFingerprint(): string {
+    return embeddingFingerprint(this.config.embedding);
+  }
+
   /**
    * Resets the model instance
    * Useful for testing or when configuration changes
@@ -0,0 +1,528 @@
+/**
+ * HTML Content Extraction Module
+ *
+ * This module turns a web page into the text worth indexing. Boilerplate
+ * such as navigation, headers, footers, sidebars and cookie banners is
+ * removed, the main content is located (semantic `<main>`/`<article>`
+ * elements first, otherwise the densest block of paragraphs, in the spirit
+ * of Readability) and converted to Markdown. Headings, paragraphs, lists,
+ * tables, quotes and code blocks keep their structure, so paragraph breaks
+ * survive for the chunker's `"\n\n"` separator.
+ */
+
+import * as cheerio from "cheerio";
+import type { CheerioAPI } from "cheerio";
+import type { AnyNode, Element } from "domhandler";
+
+/**
+ * Main content and metadata of an HTML page
+ */
+export interface HtmlContent {
+  /** The main content as Markdown */
+  markdown: string;
+  title?: string;
+  /** Absolute canonical URL declared by the page */
+  canonicalUrl?: string;
+  description?: string;
+}
+
+/**
+ * Elements that never hold main content
+ */
+const BOILERPLATE_SELECTOR = [
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "canvas",
+  "iframe",
+  "form",
+  "button",
+  "input",
+  "select",
+  "textarea",
+  "nav",
+  "footer",
+  "aside",
+  "dialog",
+  "[hidden]",
+  '[aria-hidden="true"]',
+  '[style*="display:none"]',
+  '[style*="display: none"]',
+  '[role="navigation"]',
+  '[role="banner"]',
+  '[role="contentinfo"]',
+  '[role="complementary"]',
+  '[role="dialog"]',
+  '[role="alertdialog"]',
+  '[role="search"]',
+].join(", ");
+
+/**
+ * class or id words that mark boilerplate, e.g. "site-footer" or
+ * "cookie_banner"
+ */
+const BOILERPLATE_NAME = new RegExp(
+  `(^|[\\s_-])(${[
+    "nav",
+    "navbar",
+    "menu",
+    "breadcrumbs?",
+    "footer",
+    "sidebar",
+    "cookies?",
+    "consent",
+    "gdpr",
+    "banner",
+    "ads?",
+    "advert",
+    "advertisement",
+    "promo",
+    "share",
+    "sharing",
+    "social",
+    "related",
+    "newsletter",
+    "subscribe",
+    "popup",
+    "modal",
+    "skip",
+  ].join("|")})($|[\\s_-])`,
+  "i"
+);
+
+/**
+ * Elements kept even when their class or id looks like boilerplate
+ */
+const STRUCTURAL_TAGS = new Set(["html", "body", "main", "article"]);
+
+/**
+ * Elements rendered as Markdown blocks rather than inline text
+ */
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "blockquote",
+  "body",
+  "dd",
+  "details",
+  "div",
+  "dl",
+  "dt",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "main",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "summary",
+  "table",
+  "ul",
+]);
+
+const BLOCK_SELECTOR = [...BLOCK_TAGS].join(", ");
+
+/**
+ * Paragraphs shorter than this are ignored when scoring content
+ */
+const MIN_PARAGRAPH_LENGTH = 25;
+
+/**
+ * Collapses whitespace the way a browser renders inline text
+ * @private
+ */
+function collapse(text: string): string {
+  return text.replace(/\s+/g, " ");
+}
+
+/**
+ * Returns the first non-empty value, trimmed
+ * @private
+ */
+function firstValue(...values: (string | undefined)[]): string | undefined {
+  for (const value of values) {
+    const trimmed = value ? collapse(value).trim() : "";
+    if (trimmed) {
+      return trimmed;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolves a URL against the page URL, keeping only http(s) URLs
+ * @private
+ */
+function resolveUrl(href: string | undefined, pageUrl?: string) {
+  if (!href) {
+    return undefined;
+  }
+  try {
+    const url = new URL(href.trim(), pageUrl);
+    return url.protocol === "http:" || url.protocol === "https:"
+      ? url.toString()
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Removes boilerplate elements from the document
+ * @private
+ */
+function removeBoilerplate($: CheerioAPI): void {
+  $(BOILERPLATE_SELECTOR).remove();
+
+  // A page header outside the main content is the site banner
+  $("header")
+    .filter((_, element) => $(element).parents("main, article").length === 0)
+    .remove();
+
+  const named = $("[class], [id]").filter((_, element) => {
+    if (STRUCTURAL_TAGS.has(element.tagName)) {
+      return false;
+    }
+    const { class: className = "", id = "" } = element.attribs;
+    return BOILERPLATE_NAME.test(`${className} ${id}`);
+  });
+  named.remove();
+}
+
+/**
+ * Share of an element's text that sits inside links
+ * @private
+ */
+function linkDensity($: CheerioAPI, element: Element): number {
+  const length = collapse($(element).text()).trim().length;
+  if (length === 0) {
+    return 1;
+  }
+  const linked = $(element)
+    .find("a")
+    .map((_, link) => collapse($(link).text()).trim())
+    .get()
+    .join("").length;
+  return Math.min(1, linked / length);
+}
+
+/**
+ * Locates the elements holding the page's main content, in document order
+ *
+ * Paragraphs award points (for length and commas) to their parent and half
+ * as many to their grandparent; the best container, discounted by link
+ * density, wins together with sibling blocks scoring at least a quarter
+ * as much.
+ * @private
+ */
+function findMainContent($: CheerioAPI): Element[] {
+  const semantic = $("main, [role='main']").first();
+  if (semantic.length > 0 && collapse(semantic.text()).trim()) {
+    return [semantic[0]];
+  }
+
+  const articles = $("article");
+  if (articles.length === 1 && collapse(articles.text()).trim()) {
+    return [articles[0]];
+  }
+
+  const scores = new Map<Element, number>();
+  const award = (element: Element | null, points: number) => {
+    if (element?.type === "tag" && element.tagName !== "html") {
+      scores.set(element, (scores.get(element) ?? 0) + points);
+    }
+  };
+
+  $("p, pre, td, blockquote").each((_, paragraph) => {
+    const text = collapse($(paragraph).text()).trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) {
+      return;
+    }
+
+    const points =
+      1 + text.split(",").length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = paragraph.parent as Element | null;
+    award(parent, points);
+    award(parent?.parent as Element | null, points / 2);
+  });
+
+  const adjusted = (element: Element) =>
+    (scores.get(element) ?? 0) * (1 - linkDensity($, element));
+
+  let top: Element | null = null;
+  for (const element of scores.keys()) {
+    if (!top || adjusted(element) > adjusted(top)) {
+      top = element;
+    }
+  }
+
+  if (!top || !top.parent || top.tagName === "body") {
+    const body = $("body");
+    return body.length > 0 ? [body[0]] : [];
+  }
+
+  // Content split across sibling blocks stays together
+  const threshold = adjusted(top) * 0.25;
+  return $(top.parent)
+    .children()
+    .toArray()
+    .filter((element) => element === top || adjusted(element) >= threshold);
+}
+
+/**
+ * Renders inline content, collapsing whitespace except for line breaks
+ * @private
+ */
+function renderInline($: CheerioAPI, node: AnyNode): string {
+  if (node.type === "text") {
+    return collapse(node.data);
+  }
+  if (node.type !== "tag") {
+    return "";
+  }
+
+  const children = () =>
+    node.children.map((child) => renderInline($, child)).join("");
+  const wrap = (marker: string) => {
+    const inner = children();
+    const trimmed = inner.trim();
+    if (!trimmed) {
+      return inner;
+    }
+    const before = inner.startsWith(" ") ? " " : "";
+    const after = inner.endsWith(" ") ? " " : "";
+    return `${before}${marker}${trimmed}${marker}${after}`;
+  };
+
+  switch (node.tagName) {
+    case "br":
+      return "\n";
+    case "img":
+      return "";
+    case "code":
+      return wrap("`");
+    case "strong":
+    case "b":
+      return wrap("**");
+    case "em":
+    case "i":
+      return wrap("_");
+    default:
+      return children();
+  }
+}
+
+/**
+ * Tidies rendered inline text into a paragraph
+ * @private
+ */
+function tidy(text: string): string {
+  return text
+    .replace(/ *\n */g, "\n")
+    .replace(/ {2,}/g, " ")
+    .replace(/\n{2,}/g, "\n")
+    .trim();
+}
+
+/**
+ * Prefixes a block's first line and pads the rest to line up
+ * @private
+ */
+function indent(block: string, first: string, rest: string): string {
+  return block
+    .split("\n")
+    .map((line, i) => (line ? (i === 0 ? first : rest) + line : line))
+    .join("\n");
+}
+
+/**
+ * Renders a list, nesting sub-lists under their items
+ * @private
+ */
+function renderList($: CheerioAPI, list: Element): string {
+  const ordered = list.tagName === "ol";
+  const start = parseInt($(list).attr("start") ?? "1", 10) || 1;
+
+  return $(list)
+    .children("li")
+    .toArray()
+    .map((item, i) => {
+      const marker = ordered ? `${start + i}. ` : "- ";
+      const padding = " ".repeat(marker.length);
+      const blocks = renderBlocks($, item);
+      if (blocks.length === 0) {
+        return marker.trimEnd();
+      }
+      return blocks
+        .map((block, j) =>
+          indent(block, j === 0 ? marker : padding, padding)
+        )
+        .join("\n");
+    })
+    .join("\n");
+}
+
+/**
+ * Renders a table as a Markdown table, its first row as the header
+ * @private
+ */
+function renderTable($: CheerioAPI, table: Element): string {
+  const rows = $(table)
+    .find("tr")
+    .filter((_, row) => $(row).closest("table")[0] === table)
+    .toArray()
+    .map((row) =>
+      $(row)
+        .children("th, td")
+        .toArray()
+        .map((cell) =>
+          tidy(renderInline($, cell))
+            .replace(/\n/g, " ")
+            .replace(/\|/g, "\\|")
+        )
+    )
+    .filter((cells) => cells.length > 0);
+
+  if (rows.length === 0) {
+    return "";
+  }
+
+  const columns = Math.max(...rows.map((cells) => cells.length));
+  const line = (cells: string[]) => {
+    const padded = Array.from({ length: columns }, (_, i) => cells[i] ?? "");
+    return `| ${padded.join(" | ")} |`;
+  };
+
+  return [
+    line(rows[0]),
+    line(Array(columns).fill("---")),
+    ...rows.slice(1).map(line),
+  ].join("\n");
+}
+
+/**
+ * Renders a block element to one Markdown block
+ * @private
+ */
+function renderBlock($: CheerioAPI, element: Element): string[] {
+  const tag = element.tagName;
+
+  if (/^h[1-6]$/.test(tag)) {
+    const text = tidy(renderInline($, element)).replace(/\n/g, " ");
+    return text ? [`${"#".repeat(Number(tag[1]))} ${text}`] : [];
+  }
+
+  switch (tag) {
+    case "p": {
+      const text = tidy(renderInline($, element));
+      return text ? [text] : [];
+    }
+    case "ul":
+    case "ol": {
+      const list = renderList($, element);
+      return list ? [list] : [];
+    }
+    case "table": {
+      const table = renderTable($, element);
+      return table ? [table] : [];
+    }
+    case "pre": {
+      const code = $(element).text().replace(/^\n+|\s+$/g, "");
+      return code ? ["```\n" + code + "\n```"] : [];
+    }
+    case "blockquote": {
+      const quote = renderBlocks($, element).join("\n\n");
+      return quote ? [indent(quote, "> ", "> ").replace(/^$/gm, ">")] : [];
+    }
+    case "hr":
+      return ["---"];
+    default:
+      return renderBlocks($, element);
+  }
+}
+
+/**
+ * Renders an element's children as Markdown blocks
+ *
+ * Runs of text and inline elements become paragraphs; block children are
+ * rendered in place.
+ * @private
+ */
+function renderBlocks($: CheerioAPI, container: Element): string[] {
+  const blocks: string[] = [];
+  let inline = "";
+
+  const flush = () => {
+    const text = tidy(inline);
+    if (text) {
+      blocks.push(text);
+    }
+    inline = "";
+  };
+
+  for (const child of container.children) {
+    const isBlock =
+      child.type === "tag" &&
+      (BLOCK_TAGS.has(child.tagName) ||
+        $(child).find(BLOCK_SELECTOR).length > 0);
+
+    if (isBlock) {
+      flush();
+      blocks.push(...renderBlock($, child as Element));
+    } else {
+      inline += renderInline($, child);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Extracts the main content of an HTML page as Markdown, with its metadata
+ *
+ * @param html - The page's HTML
+ * @param pageUrl - The URL the page was fetched from, used to resolve a
+ *                  relative canonical URL
+ * @returns The page's main content, title, canonical URL and description
+ */
+export function extractHtmlContent(
+  html: string,
+  pageUrl?: string
+): HtmlContent {
+  const $ = cheerio.load(html);
+
+  const meta = (selector: string) => $(selector).attr("content");
+  const title = firstValue(
+    $("head > title").first().text(),
+    meta('meta[property="og:title"]'),
+    $("h1").first().text()
+  );
+  const description = firstValue(
+    meta('meta[name="description"]'),
+    meta('meta[property="og:description"]')
+  );
+  const canonicalUrl =
+    resolveUrl($('link[rel~="canonical"]').attr("href"), pageUrl) ??
+    resolveUrl(meta('meta[property="og:url"]'), pageUrl);
+
+  removeBoilerplate($);
+
+  const markdown = findMainContent($)
+    .flatMap((element) => renderBlock($, element))
+    .join("\n\n");
+
+  return { markdown, title, canonicalUrl, description };
+}
@@ -0,0 +1,237 @@
+/**
+ * Hybrid Retriever Module
+ *
+ * This module combines vector similarity search with keyword search. Each
+ * leg returns its own ranked candidates; the two rankings are merged with
+ * weighted reciprocal rank fusion (RRF), which only looks at ranks and so
+ * needs no calibration between cosine similarity and full-text rank.
+ *
+ * Fused results keep vector similarity as their `score`, so the relevance
+ * threshold applied by the chat pipeline keeps its meaning. Chunks found
+ * only by keyword search are scored against the query embedding before
+ * they are returned.
+ *
+ * Documents keep their own copies of text they share, such as boilerplate
+ * repeated across a site's pages, so fused results are deduplicated by chunk
+ * fingerprint before the best are taken.
+ */
+
+import { getConfig, HybridRetrievalConfig } from "./config";
+import type { KeywordIndex } from "./keyword-index";
+import type { RetrievalFilter } from "./retrieval-filter";
+import { chunkFingerprint } from "./text-chunker";
+import { VectorProject, VectorStore, SearchResult } from "./vector-store";
+
+/**
+ * A fused search result with the signals it was ranked by
+ */
+export interface HybridSearchResult extends SearchResult {
+  fusedScore: number;
+  vectorRank?: number;
+  keywordRank?: number;
+}
+
+/**
+ * One ranked list taking part in fusion
+ */
+export interface RankedLeg {
+  name: "vector" | "keyword";
+  results: SearchResult[];
+  weight: number;
+}
+
+/**
+ * Merges ranked lists with weighted reciprocal rank fusion
+ *
+ * Each result contributes `weight / (k + rank)` per list it appears in
+ * (ranks are 1-based). Ties are broken by vector rank, then by id, so the
+ * output is deterministic.
+ *
+ * @param legs - The ranked lists to merge
+ * @param k - Smoothing constant; larger values flatten the rank curve
+ * @returns Fused results, best first; `score` is taken from the vector leg
+ *          when the result appeared there, otherwise from its own leg
+ */
+export function reciprocalRankFusion(
+  legs: RankedLeg[],
+  k: number
+): HybridSearchResult[] {
+  const fused = new Map<string, HybridSearchResult>();
+
+  for (const leg of legs) {
+    leg.results.forEach((result, index) => {
+      const rank = index + 1;
+      const entry = fused.get(result.id) ?? { ...result, fusedScore: 0 };
+
+      entry.fusedScore += leg.weight / (k + rank);
+      if (leg.name === "vector") {
+        entry.score = result.score;
+        entry.vectorRank = rank;
+      } else {
+        entry.keywordRank = rank;
+      }
+
+      fused.set(result.id, entry);
+    });
+  }
+
+  return Array.from(fused.values()).sort(
+    (a, b) =>
+      b.fusedScore - a.fusedScore ||
+      (a.vectorRank ?? Infinity) - (b.vectorRank ?? Infinity) ||
+      a.id.localeCompare(b.id)
+  );
+}
+
+/**
+ * Keeps only the best-ranked of results with near-identical text
+ *
+ * @param results - Results, best first
+ * @returns The results whose text no better result shares, in order
+ */
+export function dropDuplicateResults<T extends SearchResult>(
+  results: T[]
+): T[] {
+  const seen = new Set<string>();
+  return results.filter((result) => {
+    const fingerprint = chunkFingerprint(result.text);
+    if (seen.has(fingerprint)) {
+      return false;
+    }
+    seen.add(fingerprint);
+    return true;
+  });
+}
+
+/**
+ * HybridRetriever class
+ * Runs vector and keyword search for a query and fuses the rankings
+ */
+export class HybridRetriever {
+  private vectorStore: VectorStore;
+  private keywordIndex: KeywordIndex;
+  private config: HybridRetrievalConfig;
+
+  constructor(
+    vectorStore: VectorStore,
+    keywordIndex: KeywordIndex,
+    config: HybridRetrievalConfig = getConfig().processing.hybrid
+  ) {
+    this.vectorStore = vectorStore;
+    this.keywordIndex = keywordIndex;
+    this.config = config;
+  }
+
+  /**
+   * Retrieves the best chunks for a query from both indexes
+   *
+   * A failing keyword leg degrades retrieval to vector search only; a
+   * failing vector leg fails the retrieval.
+   *
+   * @param project - The project to search
+   * @param query - The query text used for keyword search
+   * @param queryEmbedding - The query embedding used for vector search
+   * @param topK - Maximum number of fused results to return
+   * @param filter - Optional restriction to matching documents, applied to
+   *                 both legs
+   * @returns Fused results, best first, scored by vector similarity, with
+   *          at most one result per distinct chunk text
+   * @throws VectorStoreError or ServiceUnavailableError if vector search fails
+   */
+  async retrieve(
+    project: VectorProject,
+    query: string,
+    queryEmbedding: number[],
+    topK: number,
+    filter?: RetrievalFilter
+  ): Promise<HybridSearchResult[]> {
+    const [vectorResults, keywordResults] = await Promise.all([
+      this.vectorStore.similaritySearch(
+        project,
+        queryEmbedding,
+        this.config.vectorTopK,
+        { filter }
+      ),
+      this.searchKeywords(project.id, query, filter),
+    ]);
+
+    const fused = dropDuplicateResults(
+      reciprocalRankFusion(
+        [
+          {
+            name: "vector",
+            results: vectorResults,
+            weight: this.config.vectorWeight,
+          },
+          {
+            name: "keyword",
+            results: keywordResults,
+            weight: this.config.keywordWeight,
+          },
+        ],
+        this.config.rrfK
+      )
+    ).slice(0, topK);
+
+    await this.scoreKeywordOnlyResults(project, queryEmbedding, fused);
+
+    return fused;
+  }
+
+  /**
+   * Runs the keyword leg, returning no candidates if it is disabled or fails
+   * @private
+   */
+  private async searchKeywords(
+    projectId: string,
+    query: string,
+    filter?: RetrievalFilter
+  ): Promise<SearchResult[]> {
+    if (this.config.keywordWeight === 0) {
+      return [];
+    }
+
+    try {
+      return await this.keywordIndex.search(
+        projectId,
+        query,
+        this.config.keywordTopK,
+        filter
+      );
+    } catch (error) {
+      console.warn("Keyword search failed, using vector search only:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Replaces the full-text rank of keyword-only results with their vector
+   * similarity to the query, so every returned score is on the same scale
+   * @private
+   */
+  private async scoreKeywordOnlyResults(
+    project: VectorProject,
+    queryEmbedding: number[],
+    results: HybridSearchResult[]
+  ): Promise<void> {
+    const keywordOnly = results.filter(
+      (result) => result.vectorRank === undefined
+    );
+    if (keywordOnly.length === 0) {
+      return;
+    }
+
+    const scored = await this.vectorStore.similaritySearch(
+      project,
+      queryEmbedding,
+      keywordOnly.length,
+      { ids: keywordOnly.map((result) => result.id) }
+    );
+    const scores = new Map(scored.map((result) => [result.id, result.score]));
+
+    for (const result of keywordOnly) {
+      // A chunk missing from the vector store cannot pass the threshold
+      result.score = scores.get(result.id) ?? 0;
+    }
+  }
+}
@@ -0,0 +1,336 @@
+/**
+ * Ingestion Queue Module
+ *
+ * This module provides a durable, Postgres-backed job queue for background
+ * document ingestion. Jobs are claimed with `FOR UPDATE SKIP LOCKED` so any
+ * number of workers can poll the same table, and each claim is leased to a
+ * single worker. A worker that dies mid-job simply stops heartbeating; once
+ * its lease expires the job becomes claimable again.
+ */
+
+import { prisma } from "../../lib/prisma";
+import { Prisma } from "../../generated/prisma/client";
+import { DatabaseError, NotFoundError } from "./errors";
+import { getConfig } from "./config";
+import { calculateDelay, RetryConfig } from "./retry";
+
+/**
+ * Job types understood by the ingestion worker
+ * - process_document: extract, chunk and embed a document
+ * - crawl_site: discover the pages of a crawl from its root document
+ * - sync_document: re-fetch a URL document and re-index it if it changed
+ */
+export type IngestionJobType =
+  | "process_document"
+  | "crawl_site"
+  | "sync_document";
+
+/**
+ * Job lifecycle status
+ */
+export type IngestionJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+/**
+ * Ingestion job interface matching Prisma schema
+ */
+export interface IngestionJob {
+  id: string;
+  documentId: string;
+  type: IngestionJobType;
+  status: IngestionJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextRunAt: Date;
+  lockedBy: string | null;
+  leaseExpiresAt: Date | null;
+  heartbeatAt: Date | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
+/**
+ * Backoff applied between failed attempts of the same job
+ */
+const JOB_BACKOFF: RetryConfig = {
+  maxAttempts: Infinity, // Attempts are bounded per job, not here
+  baseDelay: 5000, // 5 seconds
+  maxDelay: 5 * 60 * 1000, // 5 minutes
+  backoffFactor: 2,
+};
+
+/**
+ * Error recorded on jobs whose worker stopped responding on every attempt
+ */
+const EXHAUSTED_MESSAGE =
+  "Worker stopped responding on every attempt (lease expired)";
+
+/**
+ * Advisory lock key held while scheduling re-syncs, so that concurrent
+ * workers don't queue the same document twice
+ */
+const SYNC_SCHEDULER_LOCK = 0x73796e63; // "sync"
+
+/**
+ * IngestionQueue class
+ * Handles enqueueing, claiming, leasing and settling ingestion jobs
+ */
+export class IngestionQueue {
+  private config = getConfig();
+
+  /**
+   * Adds a job to the queue, runnable immediately
+   *
+   * Pass a transaction client to queue the job in the same transaction that
+   * writes its document, so a document is never left without its job.
+   *
+   * @param documentId - The document the job operates on
+   * @param type - The kind of work to perform (default: process_document)
+   * @param tx - Transaction to write the job in (default: its own)
+   * @returns Promise<IngestionJob> - The queued job
+   * @throws DatabaseError if the job cannot be persisted
+   */
+  async enqueue(
+    documentId: string,
+    type: IngestionJobType = "process_document",
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<IngestionJob> {
+    try {
+      const job = await tx.ingestionJob.create({
+        data: {
+          documentId,
+          type,
+          status: "queued",
+          maxAttempts: this.config.ingestion.maxAttempts,
+        },
+      });
+      return job as IngestionJob;
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to enqueue ingestion job: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Queues a sync_document job for every URL document that is due
+   *
+   * A document is due when it has a re-sync interval, is ready, and was last
+   * synced longer ago than that interval. Documents that already have a
+   * queued or running job are skipped.
+   *
+   * @returns Promise<number> - The number of jobs queued
+   * @throws DatabaseError if the jobs cannot be queued
+   */
+  async enqueueDueSyncs(): Promise<number> {
+    try {
+      return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        // Another worker is scheduling right now; its pass covers this one
+        const [{ locked }] = await tx.$queryRaw<{ locked: boolean }[]>`
+          SELECT pg_try_advisory_xact_lock(${SYNC_SCHEDULER_LOCK}) AS "locked"`;
+        if (!locked) {
+          return 0;
+        }
+
+        return tx.$executeRaw`
+          INSERT INTO "IngestionJob"
+            ("id", "documentId", "type", "status", "maxAttempts", "updatedAt")
+          SELECT gen_random_uuid()::text, d."id", 'sync_document', 'queued',
+                 ${this.config.ingestion.maxAttempts}, NOW()
+          FROM "Document" d
+          WHERE d."fileType" = 'url'
+            AND d."status" = 'ready'
+            AND d."syncIntervalMinutes" IS NOT NULL
+            AND (d."lastSyncedAt" IS NULL
+                 OR d."lastSyncedAt"
+                    + make_interval(mins => d."syncIntervalMinutes") <= NOW())
+            AND NOT EXISTS (
+              SELECT 1 FROM "IngestionJob" j
+              WHERE j."documentId" = d."id"
+                AND j."status" IN ('queued', 'running')
+            )`;
+      });
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to schedule document syncs: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Retrieves a job by ID
+   *
+   * @param id - The job identifier
+   * @returns Promise<IngestionJob>
+   * @throws NotFoundError if the job doesn't exist
+   * @throws DatabaseError if the lookup fails
+   */
+  async getJob(id: string): Promise<IngestionJob> {
+    try {
+      const job = await prisma.ingestionJob.findUnique({ where: { id } });
+
+      if (!job) {
+        throw new NotFoundError(`Ingestion job with id ${id} not found`);
+      }
+
+      return job as IngestionJob;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      throw new DatabaseError(
+        `Failed to retrieve ingestion job: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Atomically claims the next runnable job for a worker
+   *
+   * A job is runnable when it is queued and due, or when it is running but
+   * its lease has expired (the previous worker crashed or hung). Claiming
+   * counts as an attempt. An expired job that has used up its attempts is
+   * marked failed instead, along with its document if that was still being
+   * processed, so a job that keeps crashing its worker is not reclaimed
+   * forever.
+   *
+   * @param workerId - Identifier of the claiming worker
+   * @returns Promise<IngestionJob | null> - The claimed job, or null if none is due
+   * @throws DatabaseError if the claim query fails
+   */
+  async claimNext(workerId: string): Promise<IngestionJob | null> {
+    const leaseSeconds = this.config.ingestion.leaseDurationMs / 1000;
+
+    try {
+      const rows = await prisma.$queryRaw<IngestionJob[]>`
+        WITH "exhausted" AS (
+          UPDATE "IngestionJob"
+          SET "status" = 'failed',
+              "lockedBy" = NULL,
+              "leaseExpiresAt" = NULL,
+              "lastError" = ${EXHAUSTED_MESSAGE},
+              "completedAt" = NOW(),
+              "updatedAt" = NOW()
+          WHERE "status" = 'running'
+            AND "leaseExpiresAt" < NOW()
+            AND "attempts" >= "maxAttempts"
+          RETURNING "documentId"
+        ), "failedDocuments" AS (
+          UPDATE "Document"
+          SET "status" = 'failed', "errorMessage" = ${EXHAUSTED_MESSAGE}
+          WHERE "id" IN (SELECT "documentId" FROM "exhausted")
+            AND "status" IN ('pending', 'processing')
+        )
+        UPDATE "IngestionJob"
+        SET "status" = 'running',
+            "lockedBy" = ${workerId},
+            "leaseExpiresAt" = NOW() + make_interval(secs => ${leaseSeconds}),
+            "heartbeatAt" = NOW(),
+            "attempts" = "attempts" + 1,
+            "updatedAt" = NOW()
+        WHERE "id" = (
+          SELECT "id" FROM "IngestionJob"
+          WHERE ("status" = 'queued' AND "nextRunAt" <= NOW())
+             OR ("status" = 'running' AND "leaseExpiresAt" < NOW()
+                 AND "attempts" < "maxAttempts")
+          ORDER BY "nextRunAt" ASC
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *`;
+
+      return rows.length > 0 ? rows[0] : null;
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to claim ingestion job: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Extends the lease on a running job
+   *
+   * @param jobId - The job identifier
+   * @param workerId - The worker holding the lease
+   * @returns Promise<boolean> - False if the lease was lost to another worker
+   */
+  async heartbeat(jobId: string, workerId: string): Promise<boolean> {
+    const result = await prisma.ingestionJob.updateMany({
+      where: { id: jobId, lockedBy: workerId, status: "running" },
+      data: {
+        heartbeatAt: new Date(),
+        leaseExpiresAt: new Date(
+          Date.now() + this.config.ingestion.leaseDurationMs
+        ),
+      },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Marks a job as succeeded and releases its lease
+   *
+   * @param jobId - The job identifier
+   * @param workerId - The worker holding the lease
+   */
+  async complete(jobId: string, workerId: string): Promise<void> {
+    await prisma.ingestionJob.updateMany({
+      where: { id: jobId, lockedBy: workerId },
+      data: {
+        status: "succeeded",
+        lockedBy: null,
+        leaseExpiresAt: null,
+        lastError: null,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Records a failed attempt and either reschedules the job with
+   * exponential backoff or marks it permanently failed
+   *
+   * @param job - The job that failed
+   * @param workerId - The worker holding the lease
+   * @param error - The error raised by the attempt
+   * @param retryable - Whether the failure is worth another attempt
+   * @returns Promise<IngestionJobStatus> - "queued" if rescheduled, "failed" otherwise
+   */
+  async fail(
+    job: IngestionJob,
+    workerId: string,
+    error: unknown,
+    retryable: boolean
+  ): Promise<IngestionJobStatus> {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = job.attempts >= job.maxAttempts;
+
+    if (!retryable || exhausted) {
+      await prisma.ingestionJob.updateMany({
+        where: { id: job.id, lockedBy: workerId },
+        data: {
+          status: "failed",
+          lockedBy: null,
+          leaseExpiresAt: null,
+          lastError: message,
+          completedAt: new Date(),
+        },
+      });
+      return "failed";
+    }
+
+    const delay = calculateDelay(job.attempts, JOB_BACKOFF);
+    await prisma.ingestionJob.updateMany({
+      where: { id: job.id, lockedBy: workerId },
+      data: {
+        status: "queued",
+        lockedBy: null,
+        leaseExpiresAt: null,
+        lastError: message,
+        nextRunAt: new Date(Date.now() + delay),
+      },
+    });
+    return "queued";
+  }
+}
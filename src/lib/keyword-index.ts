@@ -0,0 +1,285 @@
+/**
+ * Keyword Index Module
+ *
+ * This module keeps a copy of every stored chunk in Postgres and searches it
+ * with full-text search. Vector similarity is good at paraphrases but weak at
+ * exact tokens such as part numbers, error codes and acronyms; the keyword
+ * index covers those. The `searchVector` column is generated by the database
+ * from the chunk text, so callers only ever write plain text.
+ */
+
+import { prisma } from "../../lib/prisma";
+import { Prisma } from "../../generated/prisma/client";
+import { DatabaseError } from "./errors";
+import { RetrievalFilter, toMetadataFilter } from "./retrieval-filter";
+import { filterToSql } from "./vector-backend-pgvector";
+import { SearchResult } from "./vector-store";
+
+/**
+ * A chunk as written to the keyword index
+ */
+export interface IndexedChunk {
+  id: string;
+  chunkIndex: number;
+  text: string;
+  /** Fingerprint of the text, to reuse its embedding (see chunkFingerprint) */
+  fingerprint?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Chunk row returned by a keyword search
+ */
+interface KeywordSearchRow {
+  id: string;
+  text: string;
+  metadata: Record<string, unknown> | null;
+  rank: number;
+}
+
+/**
+ * Matches the word-like tokens of a query, keeping hyphenated and dotted
+ * identifiers such as "ERR-4021" or "v2.3" together
+ */
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:[-_.][\p{L}\p{N}]+)*/gu;
+
+/**
+ * Builds a tsquery expression that matches any of the query's tokens
+ *
+ * Terms are OR-ed rather than AND-ed so that a natural-language question
+ * still matches chunks containing only the distinctive terms; ranking then
+ * favours chunks that contain more of them. The pattern leaves out every
+ * tsquery operator character, so user input cannot alter the expression.
+ *
+ * @param query - The user's search text
+ * @returns The tsquery source, or null if the query has no searchable tokens
+ */
+export function buildKeywordQuery(query: string): string | null {
+  const tokens = Array.from(
+    new Set((query.match(TOKEN_PATTERN) || []).map((t) => t.toLowerCase()))
+  );
+  return tokens.length > 0 ? tokens.join(" | ") : null;
+}
+
+/**
+ * KeywordIndex class
+ * Stores chunk text per document and runs ranked full-text search per project
+ */
+export class KeywordIndex {
+  /**
+   * Replaces the indexed chunks of a document
+   *
+   * @param projectId - The owning project
+   * @param documentId - The document the chunks belong to
+   * @param chunks - The document's chunks, using the same ids as the vectors
+   * @throws DatabaseError if the chunks cannot be written
+   */
+  async indexDocument(
+    projectId: string,
+    documentId: string,
+    chunks: IndexedChunk[]
+  ): Promise<void> {
+    try {
+      await prisma.$transaction([
+        prisma.chunk.deleteMany({ where: { documentId } }),
+        prisma.chunk.createMany({
+          data: chunks.map((chunk) => ({
+            id: chunk.id,
+            documentId,
+            projectId,
+            chunkIndex: chunk.chunkIndex,
+            text: chunk.text,
+            fingerprint: chunk.fingerprint,
+            metadata: chunk.metadata,
+          })),
+        }),
+      ]);
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to index chunks for document ${documentId}: ${
+          (error as Error).message
+        }`
+      );
+    }
+  }
+
+  /**
+   * Finds chunks of other documents in a project by fingerprint
+   *
+   * @param projectId - The project to look in
+   * @param documentId - The document being indexed, whose own chunks are
+   *        left out
+   * @param fingerprints - The fingerprints to look for
+   * @returns The id of one chunk for each fingerprint found
+   * @throws DatabaseError if the chunks cannot be read
+   */
+  async findFingerprints(
+    projectId: string,
+    documentId: string,
+    fingerprints: string[]
+  ): Promise<Map<string, string>> {
+    try {
+      const chunks = await prisma.chunk.findMany({
+        where: {
+          projectId,
+          documentId: { not: documentId },
+          fingerprint: { in: fingerprints },
+        },
+        select: { id: true, fingerprint: true },
+        distinct: ["fingerprint"],
+      });
+      return new Map(
+        chunks.map((chunk: { id: string; fingerprint: string | null }) => [
+          chunk.fingerprint as string,
+          chunk.id,
+        ])
+      );
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to look up chunks for document ${documentId}: ${
+          (error as Error).message
+        }`
+      );
+    }
+  }
+
+  /**
+   * Removes a document's chunks from the index
+   *
+   * @param documentId - The document identifier
+   * @throws DatabaseError if the chunks cannot be deleted
+   */
+  async deleteDocument(documentId: string): Promise<void> {
+    try {
+      await prisma.chunk.deleteMany({ where: { documentId } });
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to remove chunks for document ${documentId}: ${
+          (error as Error).message
+        }`
+      );
+    }
+  }
+
+  /**
+   * Merges metadata into every indexed chunk of a document
+   *
+   * Keeps the chunk metadata in step with the vector metadata, so that
+   * retrieval filters select the same chunks in both indexes.
+   *
+   * @param documentId - The document identifier
+   * @param metadata - Metadata keys to set on each chunk
+   * @throws DatabaseError if the chunks cannot be updated
+   */
+  async updateDocumentMetadata(
+    documentId: string,
+    metadata: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await prisma.$executeRaw`
+        UPDATE "Chunk"
+        SET "metadata" = COALESCE("metadata", '{}'::jsonb)
+          || ${JSON.stringify(metadata)}::jsonb
+        WHERE "documentId" = ${documentId}
+      `;
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to update chunks for document ${documentId}: ${
+          (error as Error).message
+        }`
+      );
+    }
+  }
+
+  /**
+   * Fills in the document attributes missing from a project's chunks
+   *
+   * Chunks indexed before retrieval filters existed lack `fileType` and
+   * `uploadedAt`, so filters on those never match them. Both are copied
+   * from the chunk's document; chunks that have them are left alone.
+   *
+   * @param projectId - The project identifier
+   * @returns Number of chunks updated
+   * @throws DatabaseError if the chunks cannot be updated
+   */
+  async backfillDocumentMetadata(projectId: string): Promise<number> {
+    try {
+      return await prisma.$executeRaw`
+        UPDATE "Chunk" AS c
+        SET "metadata" = jsonb_build_object(
+            'fileType', d."fileType",
+            'uploadedAt',
+            floor(extract(epoch FROM d."uploadedAt") * 1000)::bigint
+          ) || COALESCE(c."metadata", '{}'::jsonb)
+        FROM "Document" AS d
+        WHERE d."id" = c."documentId"
+          AND c."projectId" = ${projectId}
+          AND NOT (COALESCE(c."metadata", '{}'::jsonb)
+            ?& ARRAY['fileType', 'uploadedAt'])
+      `;
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to backfill chunks for project ${projectId}: ${
+          (error as Error).message
+        }`
+      );
+    }
+  }
+
+  /**
+   * Runs a ranked full-text search within a project
+   *
+   * The returned score is Postgres' cover-density rank, which is only
+   * meaningful for ordering results of the same query.
+   *
+   * @param projectId - The project identifier
+   * @param query - The user's search text
+   * @param topK - Maximum number of results to return
+   * @param filter - Optional restriction to matching documents
+   * @returns Matching chunks, best match first
+   * @throws DatabaseError if the search fails
+   */
+  async search(
+    projectId: string,
+    query: string,
+    topK: number,
+    filter?: RetrievalFilter
+  ): Promise<SearchResult[]> {
+    const tsquery = buildKeywordQuery(query);
+    if (!tsquery) {
+      return [];
+    }
+
+    // Chunk metadata mirrors the vector metadata, so the same filter applies
+    const where = toMetadataFilter(filter);
+    const metadataCondition = where
+      ? Prisma.sql`AND ${filterToSql(where)}`
+      : Prisma.empty;
+
+    try {
+      const rows = await prisma.$queryRaw<KeywordSearchRow[]>`
+        SELECT "id", "text", "metadata",
+               ts_rank_cd("searchVector", q) AS "rank"
+        FROM "Chunk", to_tsquery('english', ${tsquery}) AS q
+        WHERE "projectId" = ${projectId}
+          AND "searchVector" @@ q
+          ${metadataCondition}
+        ORDER BY "rank" DESC, "id" ASC
+        LIMIT ${topK}
+      `;
+
+      return rows.map((row: KeywordSearchRow) => ({
+        id: row.id,
+        text: row.text,
+        score: Number(row.rank),
+        metadata: row.metadata ?? {},
+      }));
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to run keyword search for project ${projectId}: ${
+          (error as Error).message
+        }`
+      );
+    }
+  }
+}
@@ -8,7 +8,11 @@
  */
 
 import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
-import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import {
+  HumanMessage,
+  MessageContent,
+  SystemMessage,
+} from "@langchain/core/messages";
 import { getConfig } from "./config";
 import { LLMError, QuotaExceededError, TimeoutError, ServiceUnavailableError } from "./errors";
 import { CircuitBreaker, withRetryAndCircuitBreaker } from "./retry";
@@ -18,58 +22,31 @@ interface LocalLLMRequest {
   messages: Array<{ role: string; content: string }>;
   temperature?: number;
   max_tokens?: number;
+  stream?: boolean;
 }
 
 interface LocalLLMResponse {
   choices: Array<{ message: { content: string } }>;
 }
 
+// OpenAI-compatible streaming chunk (one per `data:` line)
+interface LocalLLMStreamChunk {
+  choices: Array<{ delta?: { content?: string } }>;
+}
+
 /**
- * Calls a local LLM endpoint via HTTP
- * @private
+ * Extracts the text of a model message, whose content is either a string or
+ * a list of content parts (text, images, ...); only text parts are kept
  */
-private async callLocalLLM(systemPrompt: string, userPrompt: string): Promise<string> {
-  const { llm } = this.config;
-
-  if (!llm.endpoint) {
-    throw new LLMError("Local LLM endpoint is required for local provider");
-  }
-
-  const request: LocalLLMRequest = {
-    messages: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: userPrompt }
-    ],
-    temperature: Math.min(llm.temperature, 0.3),
-    max_tokens: llm.maxTokens,
-  };
-
-  try {
-    const response = await fetch(llm.endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(request),
-    });
-
-    if (!response.ok) {
-      throw new LLMError(`Local LLM request failed: ${response.status} ${response.statusText}`);
-    }
-
-    const data: LocalLLMResponse = await response.json();
-
-    if (!data.choices || data.choices.length === 0) {
-      throw new LLMError("Invalid response from local LLM");
-    }
-
-    return data.choices[0].message.content;
-  } catch (error) {
-    if (error instanceof LLMError) {
-      throw error;
-    }
-    throw new LLMError(`Failed to call local LLM: ${error instanceof Error ? error.message : 'Unknown error'}`);
+export function messageText(content: MessageContent): string {
+  if (typeof content === "string") {
+    return content;
   }
+  return content
+    .map((part) =>
+      part.type === "text" && typeof part.text === "string" ? part.text : ""
+    )
+    .join("");
 }
 
 /**
@@ -122,6 +99,183 @@ export class LLMService {
     }
   }
 
+  /**
+   * Calls a local LLM endpoint via HTTP
+   * @private
+   */
+  private async callLocalLLM(systemPrompt: string, userPrompt: string): Promise<string> {
+    const { llm } = this.config;
+
+    if (!llm.endpoint) {
+      throw new LLMError("Local LLM endpoint is required for local provider");
+    }
+
+    const request: LocalLLMRequest = {
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt }
+      ],
+      temperature: Math.min(llm.temperature, 0.3),
+      max_tokens: llm.maxTokens,
+    };
+
+    try {
+      const response = await fetch(llm.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+      });
+
+      if (!response.ok) {
+        throw new LLMError(`Local LLM request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const data: LocalLLMResponse = await response.json();
+
+      if (!data.choices || data.choices.length === 0) {
+        throw new LLMError("Invalid response from local LLM");
+      }
+
+      return data.choices[0].message.content;
+    } catch (error) {
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      throw new LLMError(`Failed to call local LLM: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Opens a streaming completion against a local OpenAI-compatible endpoint
+   * @private
+   */
+  private async openLocalLLMStream(
+    systemPrompt: string,
+    userPrompt: string
+  ): Promise<ReadableStream<Uint8Array>> {
+    const { llm } = this.config;
+
+    if (!llm.endpoint) {
+      throw new LLMError("Local LLM endpoint is required for local provider");
+    }
+
+    const request: LocalLLMRequest = {
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+      temperature: Math.min(llm.temperature, 0.3),
+      max_tokens: llm.maxTokens,
+      stream: true,
+    };
+
+    try {
+      const response = await fetch(llm.endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "text/event-stream",
+        },
+        body: JSON.stringify(request),
+      });
+
+      if (!response.ok || !response.body) {
+        throw new LLMError(
+          `Local LLM stream request failed: ${response.status} ${response.statusText}`
+        );
+      }
+
+      return response.body;
+    } catch (error) {
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      throw new LLMError(
+        `Failed to call local LLM: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Parses an OpenAI-compatible SSE body into content deltas
+   *
+   * If reading stops before the body ends (at `[DONE]`, on a parse error or
+   * because the consumer stopped iterating), the body is cancelled so the
+   * connection isn't left open.
+   * @private
+   */
+  private async *readLocalLLMStream(
+    body: ReadableStream<Uint8Array>
+  ): AsyncGenerator<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let ended = false;
+
+    try {
+      while (!ended) {
+        const { done, value } = await reader.read();
+        ended = done;
+
+        buffer += done
+          ? decoder.decode()
+          : decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        // The last line is incomplete until the body ends
+        buffer = done ? "" : lines.pop() || "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith("data:")) continue;
+
+          const payload = trimmed.slice("data:".length).trim();
+          if (payload === "[DONE]") return;
+
+          const chunk: LocalLLMStreamChunk = JSON.parse(payload);
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) {
+            yield delta;
+          }
+        }
+      }
+    } finally {
+      if (!ended) {
+        try {
+          await reader.cancel();
+        } catch {
+          // The body already failed; that error is the one reported
+        }
+      }
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * Maps provider errors to application errors
+   * @private
+   */
+  private toServiceError(error: unknown, action: string): Error {
+    const message = error instanceof Error ? error.message : "";
+
+    if (message.includes("Circuit breaker is OPEN")) {
+      return new ServiceUnavailableError("LLM service temporarily unavailable");
+    }
+
+    if (message.includes("quota")) {
+      return new QuotaExceededError("LLM API quota exceeded");
+    }
+
+    if (message.includes("timeout")) {
+      return new TimeoutError("LLM request timed out");
+    }
+
+    return new LLMError(`Failed to ${action}: ${message || "Unknown error"}`);
+  }
+
   /**
    * Generates a response from the LLM based on system and user prompts
    *
@@ -166,33 +320,71 @@ export class LLMService {
             const result = await model.invoke(messages);
 
             // Return the LLM output verbatim (Requirement 11.1)
-            return typeof result.content === "string"
-              ? result.content
-              : String(result.content);
+            return messageText(result.content);
           }
         },
         this.circuitBreaker
       );
 
       return response;
-    } catch (error: any) {
-      // Handle specific error types
-      if (error.message?.includes("Circuit breaker is OPEN")) {
-        throw new ServiceUnavailableError("LLM service temporarily unavailable");
-      }
+    } catch (error) {
+      throw this.toServiceError(error, "generate response");
+    }
+  }
 
-      if (error.message?.includes("quota")) {
-        throw new QuotaExceededError("LLM API quota exceeded");
-      }
+  /**
+   * Streams a response from the LLM as it is generated
+   *
+   * Same prompts, temperature cap and provider selection as generateResponse,
+   * but yields text deltas instead of waiting for the full completion. Opening
+   * the stream is protected by retry and the circuit breaker; once tokens have
+   * been emitted a failure cannot be retried and is raised to the caller.
+   *
+   * @param systemPrompt - Instructions for the LLM on how to behave
+   * @param userPrompt - The user's question with assembled context
+   * @returns Async iterator of response text deltas, verbatim from the model
+   * @throws LLMError if the LLM invocation fails
+   * @throws QuotaExceededError if API quota is exceeded
+   * @throws TimeoutError if the request times out
+   */
+  async *generateResponseStream(
+    systemPrompt: string,
+    userPrompt: string
+  ): AsyncGenerator<string> {
+    let deltas: AsyncIterable<string>;
 
-      if (error.message?.includes("timeout")) {
-        throw new TimeoutError("LLM request timed out");
-      }
+    try {
+      deltas = await withRetryAndCircuitBreaker(async () => {
+        this.initializeModel();
 
-      // Generic LLM error
-      throw new LLMError(
-        `Failed to generate response: ${error.message || "Unknown error"}`
-      );
+        if (this.isLocalProvider) {
+          const body = await this.openLocalLLMStream(systemPrompt, userPrompt);
+          return this.readLocalLLMStream(body);
+        }
+
+        const model = this.model!;
+        const stream = await model.stream([
+          new SystemMessage(systemPrompt),
+          new HumanMessage(userPrompt),
+        ]);
+
+        return (async function* () {
+          for await (const chunk of stream) {
+            const text = messageText(chunk.content);
+            if (text) {
+              yield text;
+            }
+          }
+        })();
+      }, this.circuitBreaker);
+    } catch (error) {
+      throw this.toServiceError(error, "generate response");
+    }
+
+    try {
+      yield* deltas;
+    } catch (error) {
+      throw this.toServiceError(error, "stream response");
     }
   }
 
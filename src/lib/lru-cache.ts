@@ -0,0 +1,73 @@
+/**
+ * LRU Cache Module
+ *
+ * A bounded in-memory map that evicts the least recently used entry when it
+ * is full. It relies on Map keeping insertion order: reading an entry moves
+ * it to the end, so the first key is always the least recently used.
+ */
+
+/**
+ * Least-recently-used cache with a fixed number of entries
+ */
+export class LruCache<V> {
+  private entries = new Map<string, V>();
+  private maxEntries: number;
+
+  /**
+   * @param maxEntries - Entries kept before the least recently used is
+   *        evicted; 0 disables the cache
+   */
+  constructor(maxEntries: number) {
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Number of entries currently held
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Reads an entry, marking it as most recently used
+   *
+   * @param key - The entry's key
+   * @returns The value, or undefined if it isn't cached
+   */
+  get(key: string): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  /**
+   * Stores an entry as the most recently used, evicting the least recently
+   * used entry if the cache is full
+   *
+   * @param key - The entry's key
+   * @param value - The value to store
+   */
+  set(key: string, value: V): void {
+    if (this.maxEntries <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Removes every entry
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,355 @@
+/**
+ * Office Document Reading Module
+ *
+ * This module reads the text of PowerPoint (PPTX) and Excel (XLSX) files.
+ * Both are Office Open XML packages: zip archives of XML parts linked by
+ * relationship files. Slides are read in presentation order together with
+ * their speaker notes; worksheets are read in workbook order as rows of
+ * cell values, with shared strings, booleans and date-formatted numbers
+ * resolved to the text a reader would see.
+ */
+
+import JSZip from "jszip";
+import * as cheerio from "cheerio";
+import type { CheerioAPI } from "cheerio";
+import type { AnyNode } from "domhandler";
+import { posix } from "path";
+
+/**
+ * Text of a presentation slide
+ */
+export interface Slide {
+  /** 1-based position in the presentation, hidden slides included */
+  slideNumber: number;
+  /** The slide's paragraphs, one per line */
+  text: string;
+  /** The speaker notes' paragraphs, one per line */
+  notes: string;
+}
+
+/**
+ * Cell values of a worksheet
+ */
+export interface Sheet {
+  name: string;
+  /** Rows of formatted cell values, with empty strings for blank cells */
+  rows: string[][];
+}
+
+/**
+ * Relationship type suffixes of the parts read here
+ */
+const NOTES_SLIDE = "/notesSlide";
+const SHARED_STRINGS = "/sharedStrings";
+const STYLES = "/styles";
+
+/**
+ * Built-in number formats that display dates and times
+ */
+const BUILTIN_DATE_FORMATS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47,
+]);
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Opens a package, rejecting files that aren't zip archives
+ */
+async function openPackage(buffer: Buffer): Promise<JSZip> {
+  try {
+    return await JSZip.loadAsync(buffer);
+  } catch {
+    throw new Error("File is not a valid Office Open XML package");
+  }
+}
+
+/**
+ * Reads and parses an XML part
+ * @returns The parsed part, or null if the package doesn't contain it
+ */
+async function readPart(zip: JSZip, path: string): Promise<CheerioAPI | null> {
+  const file = zip.file(path);
+  return file ? cheerio.load(await file.async("string"), { xml: true }) : null;
+}
+
+/**
+ * Reads a part that every package of its kind contains
+ */
+async function readRequiredPart(
+  zip: JSZip,
+  path: string
+): Promise<CheerioAPI> {
+  const part = await readPart(zip, path);
+  if (!part) {
+    throw new Error(`Package is missing ${path}`);
+  }
+  return part;
+}
+
+/**
+ * Reads a part's relationships, keyed by relationship id
+ * Targets are resolved to package paths; external targets are skipped.
+ */
+async function readRelationships(
+  zip: JSZip,
+  path: string
+): Promise<Map<string, { type: string; target: string }>> {
+  const relationships = new Map<string, { type: string; target: string }>();
+  const $ = await readPart(
+    zip,
+    posix.join(posix.dirname(path), "_rels", `${posix.basename(path)}.rels`)
+  );
+
+  $?.("Relationship").each((_, element) => {
+    const { Id, Type, Target, TargetMode } = element.attribs;
+    if (!Id || !Target || TargetMode === "External") {
+      return;
+    }
+    relationships.set(Id, {
+      type: Type ?? "",
+      target: Target.startsWith("/")
+        ? Target.slice(1)
+        : posix.normalize(posix.join(posix.dirname(path), Target)),
+    });
+  });
+
+  return relationships;
+}
+
+/**
+ * Finds the target of a part's first relationship of a type
+ */
+function targetOfType(
+  relationships: Map<string, { type: string; target: string }>,
+  typeSuffix: string
+): string | undefined {
+  for (const { type, target } of relationships.values()) {
+    if (type.endsWith(typeSuffix)) {
+      return target;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Collects the DrawingML paragraphs under an element, one per line
+ */
+function paragraphs($: CheerioAPI, scope: AnyNode | AnyNode[]): string {
+  return $(scope)
+    .find("a\\:p")
+    .map((_, paragraph) =>
+      $(paragraph)
+        .find("a\\:t, a\\:br")
+        .map((_, run) => (run.name === "a:br" ? "\n" : $(run).text()))
+        .get()
+        .join("")
+        .trim()
+    )
+    .get()
+    .filter((line) => line !== "")
+    .join("\n");
+}
+
+/**
+ * Reads the slides of a PPTX presentation in order
+ *
+ * Hidden slides are skipped but keep their number. Notes are taken from the
+ * notes page's body placeholder, leaving out its slide image and number.
+ *
+ * @param buffer - PPTX file buffer
+ * @returns The slides with their text and speaker notes
+ * @throws Error if the file is not a PPTX package
+ */
+export async function readPptxSlides(buffer: Buffer): Promise<Slide[]> {
+  const zip = await openPackage(buffer);
+  const presentationPath = "ppt/presentation.xml";
+  const presentation = await readRequiredPart(zip, presentationPath);
+  const relationships = await readRelationships(zip, presentationPath);
+
+  const slides: Slide[] = [];
+  const slideIds = presentation("p\\:sldIdLst > p\\:sldId")
+    .map((_, element) => element.attribs["r:id"])
+    .get();
+
+  for (const [index, id] of slideIds.entries()) {
+    const slidePath = relationships.get(id)?.target;
+    const slide = slidePath ? await readPart(zip, slidePath) : null;
+    if (
+      !slidePath ||
+      !slide ||
+      slide.root().children().first().attr("show") === "0"
+    ) {
+      continue;
+    }
+
+    const notesPath = targetOfType(
+      await readRelationships(zip, slidePath),
+      NOTES_SLIDE
+    );
+    const notesPage = notesPath ? await readPart(zip, notesPath) : null;
+    const notes = notesPage
+      ? paragraphs(
+          notesPage,
+          notesPage("p\\:sp")
+            .filter(
+              (_, shape) =>
+                notesPage(shape).find('p\\:ph[type="body"]').length > 0
+            )
+            .get()
+        )
+      : "";
+
+    slides.push({
+      slideNumber: index + 1,
+      text: paragraphs(slide, slide.root().get()),
+      notes,
+    });
+  }
+
+  return slides;
+}
+
+/**
+ * Converts a column reference such as "AB" to a 0-based index
+ */
+function columnIndex(letters: string): number {
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + letter.charCodeAt(0) - 64;
+  }
+  return index - 1;
+}
+
+/**
+ * Whether a custom number format code displays a date or time
+ * Literal text, escapes and bracketed colours/conditions are ignored.
+ */
+function isDateFormatCode(code: string): boolean {
+  return /[dmyhs]/i.test(code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, ""));
+}
+
+/**
+ * Formats a date serial number as an ISO date, with the time if it has one
+ */
+function formatDateSerial(serial: number, date1904: boolean): string {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const iso = new Date(epoch + Math.round(serial * MS_PER_DAY)).toISOString();
+  return Number.isInteger(serial)
+    ? iso.slice(0, 10)
+    : iso.slice(0, 16).replace("T", " ");
+}
+
+/**
+ * Reads which cell styles (by index) display numbers as dates
+ */
+function readDateStyles(styles: CheerioAPI | null): Set<number> {
+  const dateStyles = new Set<number>();
+  if (!styles) {
+    return dateStyles;
+  }
+
+  const customDateFormats = new Set(
+    styles("numFmts > numFmt")
+      .filter((_, format) => isDateFormatCode(format.attribs.formatCode ?? ""))
+      .map((_, format) => Number(format.attribs.numFmtId))
+      .get()
+  );
+
+  styles("cellXfs > xf").each((index, xf) => {
+    const formatId = Number(xf.attribs.numFmtId ?? 0);
+    if (
+      BUILTIN_DATE_FORMATS.has(formatId) ||
+      customDateFormats.has(formatId)
+    ) {
+      dateStyles.add(index);
+    }
+  });
+
+  return dateStyles;
+}
+
+/**
+ * Reads the worksheets of an XLSX workbook in order
+ *
+ * Hidden sheets are skipped. Cells hold their cached values: formulas are
+ * not evaluated, and numbers are written as stored unless their style
+ * displays them as dates.
+ *
+ * @param buffer - XLSX file buffer
+ * @returns The sheets with their rows of cell values
+ * @throws Error if the file is not an XLSX package
+ */
+export async function readXlsxSheets(buffer: Buffer): Promise<Sheet[]> {
+  const zip = await openPackage(buffer);
+  const workbookPath = "xl/workbook.xml";
+  const workbook = await readRequiredPart(zip, workbookPath);
+  const relationships = await readRelationships(zip, workbookPath);
+
+  const sharedStringsPath = targetOfType(relationships, SHARED_STRINGS);
+  const sharedStrings = sharedStringsPath
+    ? await readPart(zip, sharedStringsPath)
+    : null;
+  const strings =
+    sharedStrings?.("sst > si")
+      .map((_, item) => sharedStrings(item).find("t").not("rPh t").text())
+      .get() ?? [];
+
+  const stylesPath = targetOfType(relationships, STYLES);
+  const dateStyles = readDateStyles(
+    stylesPath ? await readPart(zip, stylesPath) : null
+  );
+  const date1904 = ["1", "true"].includes(
+    workbook("workbookPr").attr("date1904") ?? ""
+  );
+
+  const sheets: Sheet[] = [];
+  for (const sheet of workbook("sheets > sheet").get()) {
+    const { name, state } = sheet.attribs;
+    const sheetPath = relationships.get(sheet.attribs["r:id"])?.target;
+    const $ = sheetPath ? await readPart(zip, sheetPath) : null;
+    if (!$ || state === "hidden" || state === "veryHidden") {
+      continue;
+    }
+
+    const rows = $("sheetData > row")
+      .get()
+      .map((row) => {
+        const values: string[] = [];
+        $(row)
+          .children("c")
+          .each((position, cell) => {
+            const { r, t, s } = cell.attribs;
+            const letters = r?.match(/^[A-Z]+/)?.[0];
+            const index = letters ? columnIndex(letters) : position;
+            const raw = $(cell).children("v").text();
+
+            let value: string;
+            if (t === "s") {
+              value = strings[Number(raw)] ?? "";
+            } else if (t === "inlineStr") {
+              value = $(cell).find("is t").not("rPh t").text();
+            } else if (t === "b") {
+              value = raw === "1" ? "TRUE" : "FALSE";
+            } else if (
+              (t === undefined || t === "n") &&
+              raw !== "" &&
+              dateStyles.has(Number(s ?? 0))
+            ) {
+              value = formatDateSerial(Number(raw), date1904);
+            } else {
+              value = raw;
+            }
+
+            while (values.length < index) {
+              values.push("");
+            }
+            values[index] = value;
+          });
+        return values;
+      });
+
+    sheets.push({ name: name ?? `Sheet ${sheets.length + 1}`, rows });
+  }
+
+  return sheets;
+}
@@ -0,0 +1,126 @@
+/**
+ * Rate Limiting and Concurrency utilities
+ * Paces calls to external services and bounds how many run at once
+ */
+
+/**
+ * Waits for a number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Token bucket rate limiter
+ *
+ * Tokens are added at a steady rate up to the bucket's capacity, and each
+ * call takes one, so calls average out at the rate while short bursts up to
+ * the capacity go through at once. The bucket can also be paused, e.g. when
+ * the service answers with a rate-limit error, so that every caller sharing
+ * it backs off together.
+ */
+export class TokenBucket {
+  private capacity: number;
+  private refillPerMs: number;
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+
+  /**
+   * @param ratePerMinute - Calls allowed per minute on average
+   * @param capacity - Largest burst allowed; defaults to one second's calls
+   */
+  constructor(
+    ratePerMinute: number,
+    capacity: number = Math.max(1, Math.ceil(ratePerMinute / 60))
+  ) {
+    this.capacity = capacity;
+    this.refillPerMs = ratePerMinute / 60000;
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Adds the tokens earned since the last refill
+   * @private
+   */
+  private refill(now: number): void {
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.lastRefill) * this.refillPerMs
+    );
+    this.lastRefill = now;
+  }
+
+  /**
+   * Waits until a token is available, then takes it
+   */
+  async acquire(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.refill(now);
+
+      const wait = Math.max(
+        this.pausedUntil - now,
+        this.tokens >= 1 ? 0 : (1 - this.tokens) / this.refillPerMs
+      );
+      if (wait <= 0) {
+        this.tokens -= 1;
+        return;
+      }
+
+      await sleep(Math.ceil(wait));
+    }
+  }
+
+  /**
+   * Hands out no tokens for a while
+   *
+   * @param ms - How long to pause, from now
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+}
+
+/**
+ * Maps items with an async function, running at most `limit` at a time
+ *
+ * Results keep the order of the items. After a call fails no further items
+ * are started; the calls already running are allowed to finish, and the
+ * first failure is then thrown.
+ *
+ * @param items - The items to map
+ * @param limit - Most calls running at once
+ * @param fn - The function applied to each item and its index
+ * @returns The results, in the order of the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failure: { error: unknown } | null = null;
+
+  const worker = async (): Promise<void> => {
+    while (!failure && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+
+  if (failure) {
+    throw (failure as { error: unknown }).error;
+  }
+  return results;
+}
@@ -0,0 +1,277 @@
+/**
+ * Reranker Module
+ *
+ * This module reorders retrieved chunks by how well they answer the query.
+ * Retrieval is tuned for recall (many candidates, cheap scoring); a reranker
+ * looks at the query and each candidate together and keeps the best few.
+ * Two implementations are provided: a local cross-encoder served over HTTP
+ * and an LLM-as-judge that asks the configured LLM to grade the passages.
+ *
+ * Reranker scores are normalized to 0-1 and replace the retrieval score, so
+ * the chat pipeline can apply its reranker relevance threshold to them.
+ */
+
+import { getConfig, RerankerConfig } from "./config";
+import { LLMError, ServiceUnavailableError } from "./errors";
+import type { LLMService } from "./llm-service";
+import { CircuitBreaker, withRetryAndCircuitBreaker } from "./retry";
+import { SearchResult } from "./vector-store";
+
+/**
+ * A search result reordered by a reranker
+ */
+export interface RerankedResult extends SearchResult {
+  /** Score assigned by retrieval before reranking */
+  retrievalScore: number;
+}
+
+/**
+ * Reorders search results by relevance to a query
+ */
+export interface Reranker {
+  /**
+   * Scores every candidate against the query and keeps the best
+   *
+   * @param query - The (standalone) user question
+   * @param results - Retrieved candidates
+   * @param topK - Number of results to keep
+   * @returns The best candidates, highest reranker score first
+   */
+  rerank(
+    query: string,
+    results: SearchResult[],
+    topK: number
+  ): Promise<RerankedResult[]>;
+}
+
+// For local cross-encoder endpoints (text-embeddings-inference `/rerank` format)
+interface LocalRerankRequest {
+  query: string;
+  texts: string[];
+}
+
+type LocalRerankResponse = Array<{ index: number; score: number }>;
+
+/**
+ * Maximum characters of each passage shown to the LLM judge
+ */
+const JUDGE_PASSAGE_LENGTH = 1000;
+
+/**
+ * Highest grade the LLM judge may assign
+ */
+const JUDGE_MAX_GRADE = 10;
+
+/**
+ * Replaces retrieval scores with reranker scores and keeps the best results
+ *
+ * @param results - Candidates in retrieval order
+ * @param scores - Reranker score per candidate, same order
+ * @param topK - Number of results to keep
+ * @returns Reranked results; ties keep retrieval order
+ */
+export function applyRerankScores(
+  results: SearchResult[],
+  scores: number[],
+  topK: number
+): RerankedResult[] {
+  return Array.from(results.keys())
+    .sort((a, b) => scores[b] - scores[a] || a - b)
+    .slice(0, topK)
+    .map((index) => ({
+      ...results[index],
+      score: scores[index],
+      retrievalScore: results[index].score,
+    }));
+}
+
+/**
+ * CrossEncoderReranker class
+ * Scores candidates with a local cross-encoder model served over HTTP
+ */
+export class CrossEncoderReranker implements Reranker {
+  private endpoint: string;
+  private circuitBreaker: CircuitBreaker;
+
+  constructor(endpoint: string) {
+    this.endpoint = endpoint;
+    this.circuitBreaker = new CircuitBreaker();
+  }
+
+  /**
+   * Calls the cross-encoder endpoint
+   * @private
+   */
+  private async callLocalReranker(
+    query: string,
+    texts: string[]
+  ): Promise<number[]> {
+    const request: LocalRerankRequest = { query, texts };
+
+    const response = await fetch(this.endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      throw new LLMError(
+        `Local rerank request failed: ${response.status} ${response.statusText}`
+      );
+    }
+
+    const data: LocalRerankResponse = await response.json();
+
+    const scores = new Array<number>(texts.length).fill(NaN);
+    for (const entry of Array.isArray(data) ? data : []) {
+      if (entry.index >= 0 && entry.index < texts.length) {
+        scores[entry.index] = entry.score;
+      }
+    }
+
+    if (scores.some((score) => typeof score !== "number" || isNaN(score))) {
+      throw new LLMError("Invalid response from local rerank endpoint");
+    }
+
+    return scores;
+  }
+
+  async rerank(
+    query: string,
+    results: SearchResult[],
+    topK: number
+  ): Promise<RerankedResult[]> {
+    if (results.length === 0) {
+      return [];
+    }
+
+    try {
+      const scores = await withRetryAndCircuitBreaker(
+        () =>
+          this.callLocalReranker(
+            query,
+            results.map((result) => result.text)
+          ),
+        this.circuitBreaker
+      );
+
+      return applyRerankScores(results, scores, topK);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "";
+      if (message.includes("Circuit breaker is OPEN")) {
+        throw new ServiceUnavailableError(
+          "Reranker service temporarily unavailable"
+        );
+      }
+      throw new LLMError(
+        `Failed to rerank results: ${message || "Unknown error"}`
+      );
+    }
+  }
+}
+
+/**
+ * LLMJudgeReranker class
+ * Asks the configured LLM to grade each candidate in a single call
+ */
+export class LLMJudgeReranker implements Reranker {
+  private llmService: LLMService;
+
+  constructor(llmService: LLMService) {
+    this.llmService = llmService;
+  }
+
+  /**
+   * Parses the judge's grades, one per passage, into 0-1 scores
+   * @private
+   */
+  private parseGrades(response: string, count: number): number[] {
+    const match = response.match(/\[[\s\S]*?\]/);
+
+    let grades: unknown;
+    try {
+      grades = match ? JSON.parse(match[0]) : null;
+    } catch {
+      grades = null;
+    }
+
+    if (
+      !Array.isArray(grades) ||
+      grades.length !== count ||
+      grades.some((grade) => typeof grade !== "number" || isNaN(grade))
+    ) {
+      throw new LLMError("LLM reranker returned unparseable grades");
+    }
+
+    return (grades as number[]).map(
+      (grade) =>
+        Math.min(Math.max(grade, 0), JUDGE_MAX_GRADE) / JUDGE_MAX_GRADE
+    );
+  }
+
+  async rerank(
+    query: string,
+    results: SearchResult[],
+    topK: number
+  ): Promise<RerankedResult[]> {
+    if (results.length === 0) {
+      return [];
+    }
+
+    const passages = results
+      .map(
+        (result, i) =>
+          `[${i + 1}] ${result.text
+            .replace(/\s+/g, " ")
+            .trim()
+            .slice(0, JUDGE_PASSAGE_LENGTH)}`
+      )
+      .join("\n\n");
+
+    const systemPrompt = `You grade how well passages answer a question.
+Give each passage a whole-number grade from 0 (unrelated) to ${JUDGE_MAX_GRADE} (directly answers the question).
+Respond with only a JSON array of grades, one per passage, in passage order, e.g. [7, 0, 3].`;
+
+    const userPrompt = `Question: ${query}
+
+Passages:
+${passages}
+
+Grades:`;
+
+    // LLMService applies its own retry and circuit breaker
+    const response = await this.llmService.generateResponse(
+      systemPrompt,
+      userPrompt
+    );
+
+    return applyRerankScores(
+      results,
+      this.parseGrades(response, results.length),
+      topK
+    );
+  }
+}
+
+/**
+ * Creates the reranker selected by configuration
+ *
+ * @param llmService - LLM used by the "llm" provider
+ * @param reranker - Reranker configuration (default: loaded from environment)
+ * @returns Reranker instance, or null when reranking is disabled
+ */
+export function createReranker(
+  llmService: LLMService,
+  reranker: RerankerConfig = getConfig().reranker
+): Reranker | null {
+  switch (reranker.provider) {
+    case "local":
+      return new CrossEncoderReranker(reranker.endpoint!);
+    case "llm":
+      return new LLMJudgeReranker(llmService);
+    default:
+      return null;
+  }
+}
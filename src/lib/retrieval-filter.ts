@@ -0,0 +1,123 @@
+/**
+ * Retrieval Filter Module
+ *
+ * This module narrows retrieval within a project to a subset of its
+ * documents, e.g. "only the 2024 handbook" or "only web pages". Filters are
+ * expressed on document attributes and translated to metadata conditions on
+ * the stored chunks, which carry their document's id, file type, upload time
+ * and tags.
+ */
+
+import { MetadataFilter } from "./vector-backend";
+
+/**
+ * Document-level restrictions for retrieval; all given fields must match
+ */
+export interface RetrievalFilter {
+  /** Only these documents */
+  documentIds?: string[];
+  /** Only documents of these types, e.g. "pdf" or "url" */
+  fileTypes?: string[];
+  /** Only documents carrying at least one of these tags */
+  tags?: string[];
+  /** Only documents uploaded at or after this ISO 8601 time */
+  uploadedAfter?: string;
+  /** Only documents uploaded at or before this ISO 8601 time */
+  uploadedBefore?: string;
+}
+
+/**
+ * Returns the chunk metadata key that marks a tag
+ *
+ * Metadata values must be scalars, so each tag is stored as its own boolean
+ * key rather than as a list.
+ *
+ * @param tag - The tag name
+ */
+export function tagMetadataKey(tag: string): string {
+  return `tag:${tag}`;
+}
+
+/**
+ * Builds the chunk metadata that records a document's tags
+ *
+ * @param assigned - Tags the document carries
+ * @param removed - Tags the document no longer carries; they are written as
+ *                  `false` because metadata updates merge rather than replace
+ * @returns Metadata keys to set on each of the document's chunks
+ */
+export function tagMetadata(
+  assigned: string[],
+  removed: string[] = []
+): Record<string, boolean> {
+  const metadata: Record<string, boolean> = {};
+  for (const tag of removed) {
+    metadata[tagMetadataKey(tag)] = false;
+  }
+  for (const tag of assigned) {
+    metadata[tagMetadataKey(tag)] = true;
+  }
+  return metadata;
+}
+
+/**
+ * Translates a retrieval filter to a chunk metadata filter
+ *
+ * @param filter - The retrieval filter
+ * @returns The metadata filter, or undefined if nothing is restricted
+ */
+export function toMetadataFilter(
+  filter?: RetrievalFilter
+): MetadataFilter | undefined {
+  if (!filter) {
+    return undefined;
+  }
+
+  const conditions: MetadataFilter[] = [];
+
+  if (filter.documentIds?.length) {
+    conditions.push({ documentId: { $in: filter.documentIds } });
+  }
+  if (filter.fileTypes?.length) {
+    conditions.push({ fileType: { $in: filter.fileTypes } });
+  }
+  if (filter.tags?.length) {
+    const tags = filter.tags.map((tag) => ({ [tagMetadataKey(tag)]: true }));
+    conditions.push(tags.length === 1 ? tags[0] : { $or: tags });
+  }
+  // Chunks store uploadedAt as epoch milliseconds so it can be compared
+  if (filter.uploadedAfter) {
+    conditions.push({
+      uploadedAt: { $gte: new Date(filter.uploadedAfter).getTime() },
+    });
+  }
+  if (filter.uploadedBefore) {
+    conditions.push({
+      uploadedAt: { $lte: new Date(filter.uploadedBefore).getTime() },
+    });
+  }
+
+  if (conditions.length === 0) {
+    return undefined;
+  }
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+}
+
+/**
+ * Combines optional metadata filters so that all of them must match
+ *
+ * @param filters - Filters to combine; undefined entries are skipped
+ * @returns The combined filter, or undefined if none were given
+ */
+export function combineFilters(
+  ...filters: (MetadataFilter | undefined)[]
+): MetadataFilter | undefined {
+  const defined = filters.filter(
+    (filter): filter is MetadataFilter => filter !== undefined
+  );
+
+  if (defined.length === 0) {
+    return undefined;
+  }
+  return defined.length === 1 ? defined[0] : { $and: defined };
+}
@@ -4,7 +4,7 @@
  * Requirements: 14.1, 14.4, 14.5
  */
 
-import { ValidationError, NotFoundError } from "./errors";
+import { ValidationError, NotFoundError, ConflictError } from "./errors";
 
 /**
  * Configuration for retry behavior
@@ -140,6 +140,16 @@ export class CircuitBreaker {
     }
   }
 
+  /**
+   * Check whether a call would currently be let through
+   * An OPEN circuit permits a trial call once the reset timeout has elapsed
+   */
+  isCallPermitted(): boolean {
+    return (
+      this.state !== CircuitState.OPEN || Date.now() >= this.nextAttemptTime
+    );
+  }
+
   /**
    * Get current circuit breaker state
    */
@@ -171,12 +181,16 @@ export class CircuitBreaker {
 
 /**
  * Check if an error should trigger a retry
- * Don't retry validation errors or not found errors
+ * Don't retry validation, not found or conflict errors
  * Requirements: 14.1
  */
-function shouldRetry(error: unknown): boolean {
-  // Don't retry validation errors or not found errors
-  if (error instanceof ValidationError || error instanceof NotFoundError) {
+export function shouldRetry(error: unknown): boolean {
+  // Don't retry errors that another attempt would raise again
+  if (
+    error instanceof ValidationError ||
+    error instanceof NotFoundError ||
+    error instanceof ConflictError
+  ) {
     return false;
   }
 
@@ -187,7 +201,7 @@ function shouldRetry(error: unknown): boolean {
 /**
  * Calculate delay for exponential backoff
  */
-function calculateDelay(attempt: number, config: RetryConfig): number {
+export function calculateDelay(attempt: number, config: RetryConfig): number {
   const delay = config.baseDelay * Math.pow(config.backoffFactor, attempt - 1);
   return Math.min(delay, config.maxDelay);
 }
@@ -6,6 +6,35 @@
 
 import { z } from "zod";
 
+/**
+ * Chunking strategies a project can use
+ */
+export const ChunkingStrategySchema = z.enum([
+  "recursive",
+  "markdown",
+  "sentence",
+  "token",
+]);
+
+/**
+ * Chunking strategy and parameters for a project
+ * Sizes are in the strategy's unit; limits per strategy are checked by the
+ * project service once omitted parameters are filled in.
+ */
+export const ChunkingOptionsSchema = z.object({
+  strategy: ChunkingStrategySchema.optional(),
+  chunkSize: z
+    .number()
+    .int()
+    .positive("Chunk size must be positive")
+    .optional(),
+  chunkOverlap: z
+    .number()
+    .int()
+    .min(0, "Chunk overlap must be at least 0")
+    .optional(),
+});
+
 /**
  * Schema for creating a new project
  * Validates the request payload for POST /api/projects
@@ -17,6 +46,7 @@ export const CreateProjectSchema = z.object({
       .min(1, "Project name is required")
       .max(100, "Project name must be 100 characters or less")
       .trim(),
+    chunking: ChunkingOptionsSchema.optional(),
   }),
 });
 
@@ -27,6 +57,11 @@ export const CreateProjectResponseSchema = z.object({
   id: z.string().uuid(),
   name: z.string(),
   createdAt: z.string().datetime(),
+  chunking: z.object({
+    strategy: ChunkingStrategySchema,
+    chunkSize: z.number().int(),
+    chunkOverlap: z.number().int(),
+  }),
 });
 
 /**
@@ -42,10 +77,7 @@ export const GetProjectSchema = z.object({
 /**
  * Response schema for project retrieval
  */
-export const GetProjectResponseSchema = z.object({
-  id: z.string().uuid(),
-  name: z.string(),
-  createdAt: z.string().datetime(),
+export const GetProjectResponseSchema = CreateProjectResponseSchema.extend({
   documentCount: z.number().int().min(0),
 });
 
@@ -66,6 +98,86 @@ export const DeleteProjectResponseSchema = z.object({
   message: z.string(),
 });
 
+/**
+ * Document file types and processing statuses
+ */
+export const DocumentFileTypeSchema = z.enum([
+  "pdf",
+  "docx",
+  "txt",
+  "md",
+  "html",
+  "csv",
+  "json",
+  "pptx",
+  "xlsx",
+  "url",
+]);
+export const DocumentStatusSchema = z.enum([
+  "pending",
+  "processing",
+  "ready",
+  "failed",
+]);
+
+/**
+ * Tag names, unique within a project
+ */
+export const TagNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Tag name is required")
+  .max(50, "Tag name must be 50 characters or less");
+
+/**
+ * Crawl scopes and statuses
+ */
+export const CrawlScopeSchema = z.enum(["origin", "prefix"]);
+export const CrawlStatusSchema = z.enum([
+  "pending",
+  "crawling",
+  "completed",
+  "failed",
+]);
+
+/**
+ * Boolean multipart form field, sent as "true" or "false"
+ */
+const FormBooleanSchema = z
+  .enum(["true", "false"])
+  .transform((value) => value === "true");
+
+/**
+ * Options for crawl-mode URL uploads
+ * Values arrive as multipart form fields, so numbers are coerced
+ */
+export const CrawlOptionsSchema = z.object({
+  maxDepth: z.coerce
+    .number()
+    .int()
+    .min(0, "Max depth must be at least 0")
+    .max(5, "Max depth must be 5 or less")
+    .default(2),
+  maxPages: z.coerce
+    .number()
+    .int()
+    .min(1, "Max pages must be at least 1")
+    .max(500, "Max pages must be 500 or less")
+    .default(50),
+  scope: CrawlScopeSchema.default("prefix"),
+  respectRobots: FormBooleanSchema.default(true),
+  useSitemap: FormBooleanSchema.default(true),
+});
+
+/**
+ * Re-sync interval for URL documents, in minutes (at most one year)
+ */
+export const SyncIntervalSchema = z.coerce
+  .number()
+  .int()
+  .min(5, "Sync interval must be at least 5 minutes")
+  .max(525600, "Sync interval must be 525600 minutes or less");
+
 /**
  * Schema for document upload
  * Validates the request payload for POST /api/documents/upload
@@ -74,6 +186,10 @@ export const UploadDocumentSchema = z.object({
   body: z.object({
     projectId: z.string().uuid("Project ID must be a valid UUID"),
     // File upload will be handled separately by Next.js
+    // Present when a URL upload should crawl the site instead of one page
+    crawl: CrawlOptionsSchema.optional(),
+    // Re-sync URL documents (every crawled page, in crawl mode) this often
+    syncIntervalMinutes: SyncIntervalSchema.optional(),
   }),
 });
 
@@ -84,11 +200,341 @@ export const UploadDocumentResponseSchema = z.object({
   id: z.string().uuid(),
   projectId: z.string().uuid(),
   filename: z.string(),
-  fileType: z.enum(["pdf", "docx", "txt", "url"]),
-  status: z.enum(["pending", "processing", "ready", "failed"]),
+  fileType: DocumentFileTypeSchema,
+  status: DocumentStatusSchema,
   uploadedAt: z.string().datetime(),
 });
 
+/**
+ * Schema for listing a project's documents
+ * Validates the URL parameters and query for GET /api/projects/:id/documents
+ */
+export const ListDocumentsSchema = z.object({
+  params: z.object({
+    id: z.string().uuid("Project ID must be a valid UUID"),
+  }),
+  query: z.object({
+    status: DocumentStatusSchema.optional(),
+    fileType: DocumentFileTypeSchema.optional(),
+    tag: TagNameSchema.optional(),
+    page: z.coerce.number().int().min(1, "Page must be at least 1").default(1),
+    pageSize: z.coerce
+      .number()
+      .int()
+      .min(1, "Page size must be at least 1")
+      .max(100, "Page size must be 100 or less")
+      .default(20),
+  }),
+});
+
+/**
+ * Schema for retrieving a document
+ * Validates the URL parameters for GET /api/documents/:id
+ */
+export const GetDocumentSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, "Document ID is required"),
+  }),
+});
+
+/**
+ * Schema for deleting a document
+ * Validates the URL parameters for DELETE /api/documents/:id
+ */
+export const DeleteDocumentSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, "Document ID is required"),
+  }),
+});
+
+/**
+ * Schema for updating a document
+ * Validates the request for PATCH /api/documents/:id
+ */
+export const UpdateDocumentSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, "Document ID is required"),
+  }),
+  body: z.object({
+    // null turns re-syncing off
+    syncIntervalMinutes: SyncIntervalSchema.nullable().optional(),
+  }),
+});
+
+/**
+ * Schema for re-syncing a URL document
+ * Validates the URL parameters for POST /api/documents/:id/sync
+ */
+export const SyncDocumentSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, "Document ID is required"),
+  }),
+});
+
+/**
+ * Schema for reprocessing a document
+ * Validates the URL parameters for POST /api/documents/:id/reprocess
+ */
+export const ReprocessDocumentSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, "Document ID is required"),
+  }),
+});
+
+/**
+ * Response schema for a document
+ */
+export const DocumentResponseSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  filename: z.string(),
+  fileType: DocumentFileTypeSchema,
+  status: DocumentStatusSchema,
+  uploadedAt: z.string().datetime(),
+  errorMessage: z.string().optional(),
+  sizeBytes: z.number().int().min(0).optional(),
+  sha256: z.string().optional(),
+  crawlId: z.string().optional(),
+  metadata: z
+    .object({
+      title: z.string().optional(),
+      canonicalUrl: z.string().url().optional(),
+      description: z.string().optional(),
+      author: z.string().optional(),
+      creationDate: z.string().datetime().optional(),
+      pageCount: z.number().int().min(0).optional(),
+    })
+    .optional(),
+  contentHash: z.string().optional(),
+  lastSyncedAt: z.string().datetime().optional(),
+  syncIntervalMinutes: z.number().int().min(1).optional(),
+  lastSyncError: z.string().optional(),
+});
+
+/**
+ * Response schema for a document with its chunk count and tag names
+ */
+export const DocumentDetailResponseSchema = DocumentResponseSchema.extend({
+  chunkCount: z.number().int().min(0),
+  tags: z.array(z.string()),
+});
+
+/**
+ * Response schema for a page of documents
+ */
+export const ListDocumentsResponseSchema = z.object({
+  documents: z.array(DocumentResponseSchema),
+  pagination: z.object({
+    page: z.number().int().min(1),
+    pageSize: z.number().int().min(1),
+    total: z.number().int().min(0),
+    totalPages: z.number().int().min(0),
+  }),
+});
+
+/**
+ * Schema for listing a project's tags
+ * Validates the URL parameters for GET /api/projects/:id/tags
+ */
+export const ListTagsSchema = z.object({
+  params: z.object({
+    id: z.string().uuid("Project ID must be a valid UUID"),
+  }),
+});
+
+/**
+ * Schema for creating a tag
+ * Validates the request for POST /api/projects/:id/tags
+ */
+export const CreateTagSchema = z.object({
+  params: z.object({
+    id: z.string().uuid("Project ID must be a valid UUID"),
+  }),
+  body: z.object({
+    name: TagNameSchema,
+  }),
+});
+
+/**
+ * Schema for deleting a tag
+ * Validates the URL parameters for DELETE /api/tags/:id
+ */
+export const DeleteTagSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, "Tag ID is required"),
+  }),
+});
+
+/**
+ * Schema for listing a document's tags
+ * Validates the URL parameters for GET /api/documents/:id/tags
+ */
+export const GetDocumentTagsSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, "Document ID is required"),
+  }),
+});
+
+/**
+ * Schema for assigning a tag to a document
+ * Validates the request for POST /api/documents/:id/tags
+ */
+export const AddDocumentTagSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, "Document ID is required"),
+  }),
+  body: z.object({
+    tagId: z.string().min(1, "Tag ID is required"),
+  }),
+});
+
+/**
+ * Schema for removing a tag from a document
+ * Validates the URL parameters for DELETE /api/documents/:id/tags/:tagId
+ */
+export const RemoveDocumentTagSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, "Document ID is required"),
+    tagId: z.string().min(1, "Tag ID is required"),
+  }),
+});
+
+/**
+ * Response schema for a tag
+ */
+export const TagResponseSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  name: z.string(),
+  createdAt: z.string().datetime(),
+});
+
+/**
+ * Response schema for a project's tags
+ */
+export const ListTagsResponseSchema = z.object({
+  tags: z.array(
+    TagResponseSchema.extend({
+      documentCount: z.number().int().min(0),
+    })
+  ),
+});
+
+/**
+ * Response schema for a document's tags
+ */
+export const DocumentTagsResponseSchema = z.object({
+  tags: z.array(TagResponseSchema),
+});
+
+/**
+ * Schema for retrieving a crawl
+ * Validates the URL parameters for GET /api/crawls/:id
+ */
+export const GetCrawlSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, "Crawl ID is required"),
+  }),
+});
+
+/**
+ * Response schema for a crawl with the processing status of its pages
+ */
+export const CrawlResponseSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  rootUrl: z.string().url(),
+  maxDepth: z.number().int().min(0),
+  maxPages: z.number().int().min(1),
+  scope: CrawlScopeSchema,
+  respectRobots: z.boolean(),
+  useSitemap: z.boolean(),
+  status: CrawlStatusSchema,
+  pagesFound: z.number().int().min(0),
+  errorMessage: z.string().optional(),
+  createdAt: z.string().datetime(),
+  completedAt: z.string().datetime().optional(),
+  documents: z.record(DocumentStatusSchema, z.number().int().min(0)),
+});
+
+/**
+ * Re-index statuses
+ */
+export const ReindexStatusSchema = z.enum(["running", "completed", "failed"]);
+
+/**
+ * Schema for retrieving a project's latest re-index
+ * Validates the URL parameters for GET /api/projects/:id/reindex
+ */
+export const GetReindexSchema = z.object({
+  params: z.object({
+    id: z.string().uuid("Project ID must be a valid UUID"),
+  }),
+});
+
+/**
+ * Response schema for a re-index and its progress
+ */
+export const ReindexResponseSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  fromCollection: z.string(),
+  toCollection: z.string(),
+  embeddingFingerprint: z.string(),
+  status: ReindexStatusSchema,
+  totalRecords: z.number().int().min(0),
+  processedRecords: z.number().int().min(0),
+  errorMessage: z.string().optional(),
+  createdAt: z.string().datetime(),
+  completedAt: z.string().datetime().optional(),
+});
+
+/**
+ * Schema for restricting chat retrieval to a subset of a project's documents
+ * Every given field must match; tags match if a document has any of them
+ */
+export const ChatFilterSchema = z
+  .object({
+    documentIds: z
+      .array(z.string().min(1, "Document ID must not be empty"))
+      .min(1, "documentIds must not be empty")
+      .max(100, "documentIds must have 100 entries or fewer")
+      .optional(),
+    fileTypes: z
+      .array(DocumentFileTypeSchema)
+      .min(1, "fileTypes must not be empty")
+      .optional(),
+    tags: z
+      .array(TagNameSchema)
+      .min(1, "tags must not be empty")
+      .max(50, "tags must have 50 entries or fewer")
+      .optional(),
+    uploadedAfter: z
+      .string()
+      .datetime({
+        offset: true,
+        message: "uploadedAfter must be an ISO 8601 date-time",
+      })
+      .optional(),
+    uploadedBefore: z
+      .string()
+      .datetime({
+        offset: true,
+        message: "uploadedBefore must be an ISO 8601 date-time",
+      })
+      .optional(),
+  })
+  .refine(
+    (filter) =>
+      !filter.uploadedAfter ||
+      !filter.uploadedBefore ||
+      new Date(filter.uploadedAfter) <= new Date(filter.uploadedBefore),
+    {
+      message: "uploadedAfter must not be later than uploadedBefore",
+      path: ["uploadedBefore"],
+    }
+  );
+
 /**
  * Schema for chat requests
  * Validates the request payload for POST /api/chat
@@ -101,17 +547,162 @@ export const ChatRequestSchema = z.object({
       .min(1, "Message is required")
       .max(10000, "Message must be 10000 characters or less")
       .trim(),
+    conversationId: z
+      .string()
+      .min(1, "Conversation ID must not be empty")
+      .optional(),
+    filter: ChatFilterSchema.optional(),
   }),
 });
 
+/**
+ * Schema for a retrieved chunk cited in a chat answer
+ */
+export const ChatSourceSchema = z.object({
+  marker: z.number().int().min(1),
+  documentId: z.string(),
+  filename: z.string(),
+  chunkIndex: z.number().int().min(0),
+  pageNumber: z.number().int().min(1).optional(),
+  pageEnd: z.number().int().min(1).optional(),
+  score: z.number(),
+  snippet: z.string(),
+});
+
 /**
  * Response schema for chat responses
  */
 export const ChatResponseSchema = z.object({
+  conversationId: z.string(),
   answer: z.string(),
   sourceCount: z.number().int().min(0),
+  sources: z.array(ChatSourceSchema),
+  unverifiedCitations: z.array(z.number().int()).optional(),
+  filter: ChatFilterSchema.optional(),
+});
+
+/**
+ * Schema for listing a project's conversations
+ * Validates the URL parameters and query for GET /api/projects/:id/conversations
+ */
+export const ListConversationsSchema = z.object({
+  params: z.object({
+    id: z.string().uuid("Project ID must be a valid UUID"),
+  }),
+  query: z.object({
+    page: z.coerce.number().int().min(1, "Page must be at least 1").default(1),
+    pageSize: z.coerce
+      .number()
+      .int()
+      .min(1, "Page size must be at least 1")
+      .max(100, "Page size must be 100 or less")
+      .default(20),
+  }),
+});
+
+/**
+ * Schema for retrieving a conversation
+ * Validates the URL parameters for GET /api/conversations/:id
+ */
+export const GetConversationSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, "Conversation ID is required"),
+  }),
+});
+
+/**
+ * Schema for renaming or pinning a conversation
+ * Validates the request for PATCH /api/conversations/:id
+ */
+export const UpdateConversationSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, "Conversation ID is required"),
+  }),
+  body: z
+    .object({
+      title: z
+        .string()
+        .trim()
+        .min(1, "Title must not be empty")
+        .max(200, "Title must be 200 characters or less")
+        .optional(),
+      pinned: z.boolean().optional(),
+    })
+    .refine((body) => body.title !== undefined || body.pinned !== undefined, {
+      message: "Provide a title and/or pinned",
+    }),
+});
+
+/**
+ * Schema for deleting a conversation
+ * Validates the URL parameters for DELETE /api/conversations/:id
+ */
+export const DeleteConversationSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, "Conversation ID is required"),
+  }),
+});
+
+/**
+ * Schema for forking a conversation
+ * Validates the request for POST /api/conversations/:id/fork
+ */
+export const ForkConversationSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, "Conversation ID is required"),
+  }),
+  body: z.object({
+    messageId: z.string().min(1, "Message ID is required"),
+  }),
+});
+
+/**
+ * Response schema for a conversation
+ */
+export const ConversationResponseSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  title: z.string(),
+  pinned: z.boolean(),
+  forkedFromId: z.string().optional(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+/**
+ * Response schema for a page of conversations
+ */
+export const ListConversationsResponseSchema = z.object({
+  conversations: z.array(
+    ConversationResponseSchema.extend({
+      messageCount: z.number().int().min(0),
+    })
+  ),
+  pagination: z.object({
+    page: z.number().int().min(1),
+    pageSize: z.number().int().min(1),
+    total: z.number().int().min(0),
+    totalPages: z.number().int().min(0),
+  }),
 });
 
+/**
+ * Response schema for a conversation with its messages
+ */
+export const ConversationWithMessagesResponseSchema =
+  ConversationResponseSchema.extend({
+    messages: z.array(
+      z.object({
+        id: z.string(),
+        conversationId: z.string(),
+        role: z.enum(["user", "assistant"]),
+        content: z.string(),
+        sources: z.array(ChatSourceSchema),
+        createdAt: z.string().datetime(),
+      })
+    ),
+  });
+
 /**
  * Type exports for use in API handlers
  */
@@ -123,5 +714,36 @@ export type DeleteProjectRequest = z.infer<typeof DeleteProjectSchema>;
 export type DeleteProjectResponse = z.infer<typeof DeleteProjectResponseSchema>;
 export type UploadDocumentRequest = z.infer<typeof UploadDocumentSchema>;
 export type UploadDocumentResponse = z.infer<typeof UploadDocumentResponseSchema>;
+export type ListDocumentsRequest = z.infer<typeof ListDocumentsSchema>;
+export type UpdateDocumentRequest = z.infer<typeof UpdateDocumentSchema>;
+export type DocumentResponse = z.infer<typeof DocumentResponseSchema>;
+export type DocumentDetailResponse = z.infer<
+  typeof DocumentDetailResponseSchema
+>;
+export type ListDocumentsResponse = z.infer<
+  typeof ListDocumentsResponseSchema
+>;
+export type CreateTagRequest = z.infer<typeof CreateTagSchema>;
+export type AddDocumentTagRequest = z.infer<typeof AddDocumentTagSchema>;
+export type TagResponse = z.infer<typeof TagResponseSchema>;
+export type ListTagsResponse = z.infer<typeof ListTagsResponseSchema>;
+export type DocumentTagsResponse = z.infer<typeof DocumentTagsResponseSchema>;
+export type CrawlOptions = z.infer<typeof CrawlOptionsSchema>;
+export type CrawlResponse = z.infer<typeof CrawlResponseSchema>;
+export type ReindexResponse = z.infer<typeof ReindexResponseSchema>;
 export type ChatRequest = z.infer<typeof ChatRequestSchema>;
-export type ChatResponse = z.infer<typeof ChatResponseSchema>;
\ No newline at end of file
+export type ChatFilter = z.infer<typeof ChatFilterSchema>;
+export type ChatResponse = z.infer<typeof ChatResponseSchema>;
+export type ChatSource = z.infer<typeof ChatSourceSchema>;
+export type ListConversationsRequest = z.infer<typeof ListConversationsSchema>;
+export type UpdateConversationRequest = z.infer<
+  typeof UpdateConversationSchema
+>;
+export type ForkConversationRequest = z.infer<typeof ForkConversationSchema>;
+export type ConversationResponse = z.infer<typeof ConversationResponseSchema>;
+export type ListConversationsResponse = z.infer<
+  typeof ListConversationsResponseSchema
+>;
+export type ConversationWithMessagesResponse = z.infer<
+  typeof ConversationWithMessagesResponseSchema
+>;
\ No newline at end of file
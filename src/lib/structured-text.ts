@@ -0,0 +1,221 @@
+/**
+ * Structured Text Conversion Module
+ *
+ * This module turns Markdown, CSV and JSON files into text worth indexing.
+ * Markdown keeps its structure, with every heading written in `#` form so the
+ * heading hierarchy is explicit. CSV rows (and other tables' rows) are
+ * written one per line, each value labelled with its column header, so a row
+ * split off into its own chunk still says what its values are. JSON is
+ * flattened into one `path: value` line per leaf, for the same reason.
+ */
+
+/**
+ * Lines that open or close a fenced code block
+ */
+const FENCE = /^\s{0,3}(```|~~~)/;
+
+/**
+ * Lines that cannot be the text of a setext heading
+ */
+const BLOCK_START = /^\s{0,3}([#>|*+-]|\d+[.)]\s)/;
+
+/**
+ * Normalizes a Markdown document for indexing
+ *
+ * YAML front matter and HTML comments are dropped, setext headings
+ * (underlined with `===` or `---`) are rewritten as `#`/`##` headings and
+ * runs of blank lines are collapsed. Lines inside fenced code blocks are
+ * never taken for heading underlines.
+ *
+ * @param markdown - The Markdown source
+ * @returns The normalized Markdown
+ */
+export function normalizeMarkdown(markdown: string): string {
+  const source = markdown
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .replace(/^---\n[\s\S]*?\n(---|\.\.\.)\n/, "");
+
+  const lines: string[] = [];
+  let fence: string | null = null;
+
+  for (const line of source.split("\n")) {
+    const marker = line.match(FENCE)?.[1];
+    if (fence) {
+      if (marker === fence) {
+        fence = null;
+      }
+      lines.push(line);
+      continue;
+    }
+    if (marker) {
+      fence = marker;
+      lines.push(line);
+      continue;
+    }
+
+    const previous = lines[lines.length - 1];
+    const underline = line.match(/^\s{0,3}(=+|-+)\s*$/)?.[1];
+    if (
+      underline &&
+      previous?.trim() &&
+      !BLOCK_START.test(previous) &&
+      !FENCE.test(previous)
+    ) {
+      const level = underline.startsWith("=") ? "#" : "##";
+      lines[lines.length - 1] = `${level} ${previous.trim()}`;
+      continue;
+    }
+
+    lines.push(line);
+  }
+
+  return lines
+    .join("\n")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/[ \t]+$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Parses delimited text into rows of fields (RFC 4180)
+ * Quoted fields may contain delimiters, newlines and `""` escaped quotes.
+ */
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Picks the delimiter (comma, semicolon or tab) used most on the first line
+ */
+function detectDelimiter(text: string): string {
+  const [firstLine] = text.split("\n", 1);
+  const count = (delimiter: string) => firstLine.split(delimiter).length;
+
+  return [";", "\t"].reduce(
+    (best, candidate) => (count(candidate) > count(best) ? candidate : best),
+    ","
+  );
+}
+
+/**
+ * Renders table rows as text, one row per line
+ *
+ * The first non-empty row is taken as the header. Every other row is written
+ * as `header: value` pairs separated by `; `, skipping empty values, so each
+ * line stands on its own. Columns without a header are named `Column N`.
+ *
+ * @param table - The table's rows of cell values
+ * @returns The rows as text
+ */
+export function rowsToText(table: string[][]): string {
+  const [header = [], ...rows] = table.filter((row) =>
+    row.some((value) => value.trim() !== "")
+  );
+  const column = (i: number) => header[i]?.trim() || `Column ${i + 1}`;
+
+  return rows
+    .map((row) =>
+      row
+        .map((value, i) => [column(i), value.trim()])
+        .filter(([, value]) => value !== "")
+        .map(([name, value]) => `${name}: ${value.replace(/\s+/g, " ")}`)
+        .join("; ")
+    )
+    .join("\n");
+}
+
+/**
+ * Renders a CSV table as text, one row per line (see rowsToText)
+ *
+ * @param csv - The CSV source (comma, semicolon or tab separated)
+ * @returns The rows as text
+ */
+export function csvToText(csv: string): string {
+  const source = csv.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  return rowsToText(parseDelimited(source, detectDelimiter(source)));
+}
+
+/**
+ * Appends an object key to a JSON path
+ * Keys that aren't plain identifiers are written in bracket notation.
+ */
+function keyPath(path: string, key: string): string {
+  if (/^[A-Za-z_$][\w$]*$/.test(key)) {
+    return path ? `${path}.${key}` : key;
+  }
+  return `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Renders a JSON document as text, one `path: value` line per leaf value
+ *
+ * Paths use dot and bracket notation (`users[0].name`). Strings are written
+ * without quotes; empty objects and arrays are written as `{}` and `[]`.
+ *
+ * @param json - The JSON source
+ * @returns The flattened document
+ * @throws SyntaxError if the source is not valid JSON
+ */
+export function jsonToText(json: string): string {
+  const lines: string[] = [];
+
+  const visit = (value: unknown, path: string): void => {
+    if (Array.isArray(value) && value.length > 0) {
+      value.forEach((item, i) => visit(item, `${path}[${i}]`));
+    } else if (
+      value !== null &&
+      typeof value === "object" &&
+      Object.keys(value).length > 0
+    ) {
+      for (const [key, item] of Object.entries(value)) {
+        visit(item, keyPath(path, key));
+      }
+    } else {
+      const text = typeof value === "string" ? value : JSON.stringify(value);
+      lines.push(path ? `${path}: ${text}` : text);
+    }
+  };
+
+  visit(JSON.parse(json.replace(/^\uFEFF/, "")), "");
+
+  return lines.join("\n");
+}
@@ -1,10 +1,17 @@
 /**
  * Text chunking utilities for RAG Chatbot Backend
- * Implements text chunking using LangChain's RecursiveCharacterTextSplitter
+ * Implements text chunking with a configurable ChunkingStrategy
  * Requirements: 4.1, 4.2, 4.3, 4.4
  */
 
-import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+import { createHash } from "crypto";
+import {
+  ChunkingOptions,
+  ChunkingStrategy,
+  DEFAULT_CHUNKING_OPTIONS,
+  TextSpan,
+  createChunkingStrategy,
+} from "./chunking-strategy";
 
 /**
  * Metadata associated with each chunk
@@ -13,6 +20,10 @@ export interface ChunkMetadata {
   documentId: string;
   filename: string;
   chunkIndex?: number;
+  /** First page the chunk's text is on, for paginated documents */
+  pageNumber?: number;
+  /** Last page the chunk's text is on; equals pageNumber unless it spans */
+  pageEnd?: number;
   [key: string]: any;
 }
 
@@ -24,51 +35,200 @@ export interface Chunk {
   metadata: ChunkMetadata;
 }
 
+/**
+ * Text of one page of a paginated document, such as a PDF
+ */
+export interface PageText {
+  /** 1-based page number */
+  pageNumber: number;
+  text: string;
+}
+
+/**
+ * Separator placed between pages when a paginated document is chunked
+ */
+const PAGE_SEPARATOR = "\n\n";
+
+/**
+ * A part of a document, such as a slide or a sheet, with metadata of its own
+ * Its metadata is added to every chunk cut from it.
+ */
+export interface TextSection {
+  text: string;
+  metadata: Record<string, string | number>;
+}
+
+/**
+ * Fingerprints a chunk's text so near-identical chunks can be recognised
+ *
+ * Case, punctuation, symbols and whitespace are ignored and Unicode
+ * compatibility forms are folded, so boilerplate repeated with different
+ * spacing or styling gets the same fingerprint.
+ *
+ * @param text - The chunk text
+ * @returns Hex SHA-256 of the normalized text
+ */
+export function chunkFingerprint(text: string): string {
+  const words =
+    text.normalize("NFKC").toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return createHash("sha256").update(words.join(" ")).digest("hex");
+}
+
+/**
+ * Removes chunks that repeat an earlier chunk of the same document
+ *
+ * Only a document's own chunks are compared: each document keeps its copy
+ * of text it shares with others, so deleting one document never takes the
+ * text away from the rest. Duplicates across documents are dropped from
+ * search results instead (see HybridRetriever).
+ *
+ * The chunks kept are renumbered, so chunk indexes stay consecutive.
+ *
+ * @param chunks - A document's chunks, in order
+ * @returns The chunks kept
+ */
+export function dropDuplicateChunks(chunks: Chunk[]): Chunk[] {
+  const seen = new Set<string>();
+  const kept: Chunk[] = [];
+
+  for (const chunk of chunks) {
+    const fingerprint = chunkFingerprint(chunk.text);
+    if (seen.has(fingerprint)) {
+      continue;
+    }
+    seen.add(fingerprint);
+    kept.push({
+      text: chunk.text,
+      metadata: { ...chunk.metadata, chunkIndex: kept.length },
+    });
+  }
+
+  return kept;
+}
+
 /**
  * TextChunker class provides methods to split text into chunks
- * Uses LangChain's RecursiveCharacterTextSplitter for intelligent text segmentation
+ * Where chunks are cut is up to its ChunkingStrategy (see chunking-strategy)
  */
 export class TextChunker {
-  private splitter: RecursiveCharacterTextSplitter;
+  private strategy: ChunkingStrategy;
 
   /**
-   * Initialize TextChunker with configured chunk size and overlap
+   * Initialize TextChunker with a chunking strategy and its parameters
    * Requirements: 4.1, 4.2, 4.3
+   *
+   * @param options - Strategy, chunk size and overlap; defaults to the
+   *        recursive strategy with 1000-character chunks and 200 of overlap
    */
-  constructor() {
-    // Configure RecursiveCharacterTextSplitter with specified parameters
-    // Chunk size: 1000 characters (Requirement 4.2)
-    // Chunk overlap: 200 characters (Requirement 4.3)
-    this.splitter = new RecursiveCharacterTextSplitter({
-      chunkSize: 1000,
-      chunkOverlap: 200,
-      separators: ["\n\n", "\n", ". ", " ", ""],
-    });
+  constructor(options: ChunkingOptions = DEFAULT_CHUNKING_OPTIONS) {
+    this.strategy = createChunkingStrategy(options);
   }
 
   /**
    * Split text into chunks while preserving metadata
    * Requirements: 4.1, 4.2, 4.3, 4.4
    *
-   * @param text - Text content to chunk
+   * Pages of a paginated document are chunked as one text, so a passage
+   * running over a page break stays together. Each chunk then records the
+   * pages it covers as `pageNumber` and `pageEnd`.
+   *
+   * @param text - Text content to chunk, or the document's pages in order
    * @param metadata - Metadata to preserve with each chunk
    * @returns Array of chunks with preserved metadata
    */
-  async chunkText(text: string, metadata: ChunkMetadata): Promise<Chunk[]> {
-    // Split the text using RecursiveCharacterTextSplitter
-    const textChunks = await this.splitter.splitText(text);
+  async chunkText(
+    text: string | PageText[],
+    metadata: ChunkMetadata
+  ): Promise<Chunk[]> {
+    const fullText =
+      typeof text === "string"
+        ? text
+        : text.map((page) => page.text).join(PAGE_SEPARATOR);
+
+    // Split the text with the chunking strategy
+    const spans = await this.strategy.split(fullText);
 
     // Map each text chunk to a Chunk object with preserved metadata
     // Requirement 4.4: Preserve metadata with each chunk
-    const chunks: Chunk[] = textChunks.map(
-      (chunkText: string, index: number) => ({
-        text: chunkText,
-        metadata: {
-          ...metadata,
-          chunkIndex: index,
-        },
-      })
-    );
+    const chunks: Chunk[] = spans.map((span: TextSpan, index: number) => ({
+      text: span.text,
+      metadata: {
+        ...metadata,
+        chunkIndex: index,
+      },
+    }));
+
+    if (typeof text !== "string") {
+      this.addPageNumbers(chunks, spans, text);
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Records the pages each chunk of a paginated document covers
+   * @private
+   */
+  private addPageNumbers(
+    chunks: Chunk[],
+    spans: TextSpan[],
+    pages: PageText[]
+  ): void {
+    // Offset in the joined text at which each page starts
+    const pageStarts: number[] = [];
+    let offset = 0;
+    for (const page of pages) {
+      pageStarts.push(offset);
+      offset += page.text.length + PAGE_SEPARATOR.length;
+    }
+
+    const pageAt = (position: number): number => {
+      let index = 0;
+      while (
+        index + 1 < pageStarts.length &&
+        pageStarts[index + 1] <= position
+      ) {
+        index++;
+      }
+      return pages[index].pageNumber;
+    };
+
+    chunks.forEach((chunk, index) => {
+      const { start, end } = spans[index];
+      chunk.metadata.pageNumber = pageAt(start);
+      chunk.metadata.pageEnd = pageAt(Math.max(start, end - 1));
+    });
+  }
+
+  /**
+   * Split a document's sections into chunks
+   *
+   * Each section is split on its own, so no chunk spans two sections, and
+   * its metadata is added to each of its chunks. Chunk indexes run across
+   * the whole document.
+   *
+   * @param sections - The document's sections, in order
+   * @param metadata - Metadata to preserve with each chunk
+   * @returns Array of chunks with preserved metadata
+   */
+  async chunkSections(
+    sections: TextSection[],
+    metadata: ChunkMetadata
+  ): Promise<Chunk[]> {
+    const chunks: Chunk[] = [];
+
+    for (const section of sections) {
+      for (const { text } of await this.strategy.split(section.text)) {
+        chunks.push({
+          text,
+          metadata: {
+            ...metadata,
+            ...section.metadata,
+            chunkIndex: chunks.length,
+          },
+        });
+      }
+    }
 
     return chunks;
   }
@@ -5,7 +5,93 @@
  */
 
 import { ValidationError } from "./errors";
-import * as cheerio from "cheerio";
+import { extractHtmlContent, HtmlContent } from "./html-content";
+import {
+  csvToText,
+  jsonToText,
+  normalizeMarkdown,
+  rowsToText,
+} from "./structured-text";
+import { readPptxSlides, readXlsxSheets } from "./office-documents";
+import { PageText, TextSection } from "./text-chunker";
+
+/**
+ * HTTP validators of a fetched page, for conditional re-fetching
+ */
+export interface PageValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * A fetched web page: its extracted content and HTTP validators
+ */
+export interface FetchedPage extends HtmlContent, PageValidators {}
+
+/**
+ * Text and document information of a PDF
+ */
+export interface PdfContent {
+  /** Text of every page, in order */
+  pages: PageText[];
+  title?: string;
+  author?: string;
+  /** ISO 8601 creation date from the PDF's info dictionary or XMP metadata */
+  creationDate?: string;
+}
+
+/**
+ * Largest web page body read, the same as the upload limit for HTML files
+ */
+const MAX_PAGE_BYTES = 5 * 1024 * 1024; // 5MB
+
+/**
+ * Reads a response body as text, refusing bodies over a size limit
+ *
+ * The body is read as it arrives and abandoned as soon as it passes the
+ * limit, so an oversized (or endless) page is never held in memory.
+ *
+ * @param response - The response to read
+ * @param limit - Largest body accepted, in bytes
+ * @returns The body decoded as UTF-8
+ * @throws Error if the body is larger than the limit
+ */
+async function readTextWithLimit(
+  response: Response,
+  limit: number
+): Promise<string> {
+  const tooLarge = () =>
+    new Error(`Page size exceeds ${limit / (1024 * 1024)}MB limit`);
+
+  if (Number(response.headers.get("content-length")) > limit) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) {
+    return "";
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      size += value.byteLength;
+      if (size > limit) {
+        await reader.cancel();
+        throw tooLarge();
+      }
+      chunks.push(value);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  return new TextDecoder().decode(Buffer.concat(chunks));
+}
 
 /**
  * TextExtractor class provides methods to extract text from various document formats
@@ -16,22 +102,58 @@ export class TextExtractor {
    * Extract text from PDF file using pdf-parse
    * Requirements: 3.1
    *
+   * Returns the pages' text joined; see extractPagesFromPdf.
+   *
    * @param buffer - PDF file buffer
    * @returns Extracted text content
    * @throws ValidationError if extraction fails
    */
   async extractFromPdf(buffer: Buffer): Promise<string> {
+    const { pages } = await this.extractPagesFromPdf(buffer);
+    return pages.map((page) => page.text).join("\n\n");
+  }
+
+  /**
+   * Extract the text of each page of a PDF, with its title, author and
+   * creation date
+   *
+   * @param buffer - PDF file buffer
+   * @returns The pages' text and the document information
+   * @throws ValidationError if extraction fails
+   */
+  async extractPagesFromPdf(buffer: Buffer): Promise<PdfContent> {
+    // Import pdf-parse dynamically to handle PDF files
+    const { PDFParse } = await import("pdf-parse");
+    const parser = new PDFParse({ data: buffer });
+
     try {
-      // pdf-parse uses CommonJS, so we need to use require
-      const pdfParse = require("pdf-parse");
-      const data = await pdfParse(buffer);
-      return data.text;
+      const { pages } = await parser.getText();
+      const info = await parser.getInfo();
+      const { CreationDate, XmpCreateDate } = info.getDateNode();
+      const created = CreationDate ?? XmpCreateDate;
+      const field = (value: unknown) =>
+        typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+      return {
+        pages: pages.map((page) => ({
+          pageNumber: page.num,
+          text: page.text,
+        })),
+        title: field(info.info?.Title),
+        author: field(info.info?.Author),
+        creationDate:
+          created && !isNaN(created.getTime())
+            ? created.toISOString()
+            : undefined,
+      };
     } catch (error) {
       throw new ValidationError(
         `Failed to extract text from PDF: ${
           error instanceof Error ? error.message : "Unknown error"
         }`
       );
+    } finally {
+      await parser.destroy();
     }
   }
 
@@ -58,6 +180,64 @@ export class TextExtractor {
     }
   }
 
+  /**
+   * Extract text from a PPTX presentation, slide by slide
+   *
+   * Each slide's text is followed by its speaker notes. Every section carries
+   * its `slideNumber`; hidden slides are skipped.
+   *
+   * @param buffer - PPTX file buffer
+   * @returns One section per slide with text
+   * @throws ValidationError if extraction fails
+   */
+  async extractFromPptx(buffer: Buffer): Promise<TextSection[]> {
+    try {
+      const slides = await readPptxSlides(buffer);
+      return slides
+        .map(({ slideNumber, text, notes }) => ({
+          text: notes ? `${text}\n\nSpeaker notes:\n${notes}`.trim() : text,
+          metadata: { slideNumber },
+        }))
+        .filter((section) => section.text !== "");
+    } catch (error) {
+      throw new ValidationError(
+        `Failed to extract text from PPTX: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Extract text from an XLSX workbook, sheet by sheet
+   *
+   * Each sheet's first non-empty row is its header; every other row becomes
+   * a line of `header: value` pairs under the sheet's name. Every section
+   * carries its `sheetName`; hidden and empty sheets are skipped.
+   *
+   * @param buffer - XLSX file buffer
+   * @returns One section per sheet with data
+   * @throws ValidationError if extraction fails
+   */
+  async extractFromXlsx(buffer: Buffer): Promise<TextSection[]> {
+    try {
+      const sheets = await readXlsxSheets(buffer);
+      return sheets
+        .map(({ name, rows }) => ({ name, text: rowsToText(rows) }))
+        .filter(({ text }) => text !== "")
+        .map(({ name, text }) => ({
+          text: `## ${name}\n\n${text}`,
+          metadata: { sheetName: name },
+        }));
+    } catch (error) {
+      throw new ValidationError(
+        `Failed to extract text from XLSX: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
   /**
    * Extract text from TXT file
    * Requirements: 3.3
@@ -78,38 +258,183 @@ export class TextExtractor {
     }
   }
 
+  /**
+   * Extract text from a Markdown file
+   *
+   * Headings are kept, with setext headings rewritten in `#` form; front
+   * matter and HTML comments are dropped.
+   *
+   * @param buffer - Markdown file buffer
+   * @returns The normalized Markdown
+   * @throws ValidationError if extraction fails
+   */
+  async extractFromMarkdown(buffer: Buffer): Promise<string> {
+    try {
+      return normalizeMarkdown(buffer.toString("utf-8"));
+    } catch (error) {
+      throw new ValidationError(
+        `Failed to extract text from Markdown: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Extract text from an HTML file
+   * Returns the page's main content as Markdown; see extractPageFromHtml.
+   *
+   * @param buffer - HTML file buffer
+   * @returns Extracted text content
+   * @throws ValidationError if extraction fails
+   */
+  async extractFromHtml(buffer: Buffer): Promise<string> {
+    return (await this.extractPageFromHtml(buffer)).markdown;
+  }
+
+  /**
+   * Extract the main content and metadata of an HTML file
+   * Boilerplate is dropped exactly as for URL documents.
+   *
+   * @param buffer - HTML file buffer
+   * @returns The page's Markdown content, title, canonical URL and description
+   * @throws ValidationError if extraction fails
+   */
+  async extractPageFromHtml(buffer: Buffer): Promise<HtmlContent> {
+    try {
+      return extractHtmlContent(buffer.toString("utf-8"));
+    } catch (error) {
+      throw new ValidationError(
+        `Failed to extract text from HTML: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Extract text from a CSV file
+   *
+   * Each row becomes one line of `header: value` pairs, so rows keep their
+   * column names wherever the document is chunked.
+   *
+   * @param buffer - CSV file buffer
+   * @returns One line of text per row
+   * @throws ValidationError if extraction fails
+   */
+  async extractFromCsv(buffer: Buffer): Promise<string> {
+    try {
+      return csvToText(buffer.toString("utf-8"));
+    } catch (error) {
+      throw new ValidationError(
+        `Failed to extract text from CSV: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Extract text from a JSON file
+   * Flattens the document to one `path: value` line per value.
+   *
+   * @param buffer - JSON file buffer
+   * @returns The flattened document
+   * @throws ValidationError if the file is not valid JSON
+   */
+  async extractFromJson(buffer: Buffer): Promise<string> {
+    try {
+      return jsonToText(buffer.toString("utf-8"));
+    } catch (error) {
+      throw new ValidationError(
+        `Failed to extract text from JSON: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
   /**
    * Extract text from URL using Cheerio
    * Requirements: 3.4
    *
+   * Returns the page's main content as Markdown; see extractPageFromUrl.
+   *
    * @param url - URL to extract text from
    * @returns Extracted text content
    * @throws ValidationError if extraction fails or URL is invalid
    */
   async extractFromUrl(url: string): Promise<string> {
+    return (await this.extractPageFromUrl(url)).markdown;
+  }
+
+  /**
+   * Extract the main content and metadata of a web page
+   *
+   * Boilerplate (navigation, footers, cookie banners, ...) is dropped and
+   * headings, lists and tables are kept as Markdown.
+   *
+   * @param url - URL of the page
+   * @returns The page's Markdown content, title, canonical URL and description
+   * @throws ValidationError if extraction fails or URL is invalid
+   */
+  async extractPageFromUrl(url: string): Promise<FetchedPage> {
+    const page = await this.fetchPage(url);
+    // Without validators a 304 is not a valid answer
+    if (!page) {
+      throw new ValidationError(
+        "Failed to extract text from URL: unexpected 304 Not Modified"
+      );
+    }
+    return page;
+  }
+
+  /**
+   * Fetch and extract a web page unless it is unchanged
+   *
+   * Validators from an earlier fetch are sent as `If-None-Match` and
+   * `If-Modified-Since`; a `304 Not Modified` answer returns null. Pages
+   * over the size limit of HTML uploads are refused.
+   *
+   * @param url - URL of the page
+   * @param validators - The page's ETag and Last-Modified from an earlier fetch
+   * @returns The extracted page with its new validators, or null if unchanged
+   * @throws ValidationError if extraction fails, the URL is invalid or the
+   *         page is too large
+   */
+  async fetchPage(
+    url: string,
+    validators: PageValidators = {}
+  ): Promise<FetchedPage | null> {
     try {
       // Validate URL format
       new URL(url);
 
+      const headers: Record<string, string> = {};
+      if (validators.etag) {
+        headers["If-None-Match"] = validators.etag;
+      }
+      if (validators.lastModified) {
+        headers["If-Modified-Since"] = validators.lastModified;
+      }
+
       // Fetch the HTML content
-      const response = await fetch(url);
+      const response = await fetch(url, { headers });
+      if (response.status === 304) {
+        return null;
+      }
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      const html = await response.text();
-
-      // Parse HTML and extract text using Cheerio
-      const $ = cheerio.load(html);
-
-      // Remove script and style elements
-      $("script, style").remove();
-
-      // Extract text content
-      const text = $("body").text();
+      const html = await readTextWithLimit(response, MAX_PAGE_BYTES);
 
-      // Clean up whitespace
-      return text.replace(/\s+/g, " ").trim();
+      // Keep only the main content, with its structure
+      return {
+        ...extractHtmlContent(html, response.url || url),
+        etag: response.headers.get("etag") ?? undefined,
+        lastModified: response.headers.get("last-modified") ?? undefined,
+      };
     } catch (error) {
       if (error instanceof TypeError && error.message.includes("Invalid URL")) {
         throw new ValidationError(`Invalid URL format: ${url}`);
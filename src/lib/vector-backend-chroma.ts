@@ -0,0 +1,252 @@
+/**
+ * ChromaDB Vector Store Backend
+ *
+ * Stores each collection as a ChromaDB collection using cosine distance, so
+ * that `1 - distance` is the cosine similarity reported to callers. Metadata
+ * filters use ChromaDB's `where` syntax and need only light normalisation.
+ */
+
+import { ChromaClient, ChromaNotFoundError, Collection, Where } from "chromadb";
+import {
+  DocumentChunk,
+  SearchResult,
+  MetadataFilter,
+  MetadataValue,
+  VectorDeleteOptions,
+  VectorGetOptions,
+  VectorQueryOptions,
+  VectorStoreBackend,
+} from "./vector-backend";
+
+/**
+ * Converts a metadata filter to a ChromaDB `where` clause
+ *
+ * ChromaDB accepts a single field per object, so several fields in one
+ * filter object are rewritten as an explicit `$and`. It also rejects `$and`
+ * and `$or` with fewer than two entries, so a single entry is unwrapped and
+ * empty ones are dropped.
+ *
+ * @param filter - The filter to convert
+ * @returns The equivalent `where` clause, or undefined for no filter
+ */
+export function toChromaWhere(filter?: MetadataFilter): Where | undefined {
+  if (!filter) {
+    return undefined;
+  }
+  if ("$and" in filter && Array.isArray(filter.$and)) {
+    return combineWhere("$and", filter.$and.map(toChromaWhere));
+  }
+  if ("$or" in filter && Array.isArray(filter.$or)) {
+    return combineWhere("$or", filter.$or.map(toChromaWhere));
+  }
+
+  return combineWhere(
+    "$and",
+    Object.entries(filter).map(
+      ([field, condition]) => ({ [field]: condition }) as Where
+    )
+  );
+}
+
+/**
+ * Joins `where` clauses with an operator, in a form ChromaDB accepts
+ * @private
+ */
+function combineWhere(
+  operator: "$and" | "$or",
+  parts: (Where | undefined)[]
+): Where | undefined {
+  const defined = parts.filter((part): part is Where => part !== undefined);
+
+  if (defined.length <= 1) {
+    return defined[0];
+  }
+  return (operator === "$and" ? { $and: defined } : { $or: defined }) as Where;
+}
+
+/**
+ * ChromaVectorBackend class
+ * Translates backend calls to the ChromaDB client
+ */
+export class ChromaVectorBackend implements VectorStoreBackend {
+  private client: ChromaClient;
+
+  /**
+   * @param host - ChromaDB host
+   * @param port - ChromaDB port
+   */
+  constructor(host: string, port: number) {
+    this.client = new ChromaClient({ path: `http://${host}:${port}` });
+  }
+
+  /**
+   * Looks up a collection by name, returning null if it doesn't exist
+   *
+   * A missing collection is an expected state (no documents processed yet),
+   * so it is not thrown and never counts as a circuit breaker failure.
+   * @private
+   */
+  private async findCollection(name: string): Promise<Collection | null> {
+    try {
+      return await this.client.getCollection({ name });
+    } catch (error) {
+      if (error instanceof ChromaNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gets a collection by name, creating it with cosine distance if needed
+   * @private
+   */
+  private async getOrCreateCollection(
+    name: string,
+    metadata: Record<string, MetadataValue> = {}
+  ): Promise<Collection> {
+    return this.client.getOrCreateCollection({
+      name,
+      configuration: { hnsw: { space: "cosine" } },
+      metadata: {
+        createdAt: new Date().toISOString(),
+        ...metadata,
+      },
+    });
+  }
+
+  async createCollection(
+    name: string,
+    metadata?: Record<string, MetadataValue>
+  ): Promise<void> {
+    await this.getOrCreateCollection(name, metadata);
+  }
+
+  async deleteCollection(name: string): Promise<void> {
+    try {
+      await this.client.deleteCollection({ name });
+    } catch (error) {
+      // Collection might not exist, which is not an error for deletion
+      if (!(error instanceof ChromaNotFoundError)) {
+        throw error;
+      }
+    }
+  }
+
+  async listCollections(): Promise<string[]> {
+    const collections = await this.client.listCollections();
+    return collections.map((collection) => collection.name);
+  }
+
+  async collectionExists(name: string): Promise<boolean> {
+    return (await this.findCollection(name)) !== null;
+  }
+
+  async getCollectionMetadata(
+    name: string
+  ): Promise<Record<string, MetadataValue> | null> {
+    const collection = await this.findCollection(name);
+    if (!collection) {
+      return null;
+    }
+    return (collection.metadata ?? {}) as Record<string, MetadataValue>;
+  }
+
+  async updateCollectionMetadata(
+    name: string,
+    metadata: Record<string, MetadataValue>
+  ): Promise<void> {
+    const collection = await this.getOrCreateCollection(name);
+    await collection.modify({
+      metadata: { ...collection.metadata, ...metadata },
+    });
+  }
+
+  async upsert(name: string, chunks: DocumentChunk[]): Promise<void> {
+    if (chunks.length === 0) {
+      return;
+    }
+
+    const collection = await this.getOrCreateCollection(name);
+
+    await collection.upsert({
+      ids: chunks.map((chunk) => chunk.id),
+      embeddings: chunks.map((chunk) => chunk.embedding),
+      metadatas: chunks.map((chunk) => ({
+        text: chunk.text,
+        ...chunk.metadata,
+      })),
+      documents: chunks.map((chunk) => chunk.text),
+    });
+  }
+
+  async query(
+    name: string,
+    embedding: number[],
+    topK: number,
+    options: VectorQueryOptions = {}
+  ): Promise<SearchResult[]> {
+    const collection = await this.findCollection(name);
+    if (!collection) {
+      return [];
+    }
+
+    const results = await collection.query({
+      queryEmbeddings: [embedding],
+      nResults: topK,
+      ids: options.ids,
+      where: toChromaWhere(options.where),
+      include: ["documents", "metadatas", "distances"],
+    });
+
+    const searchResults: SearchResult[] = [];
+
+    if (results.ids && results.ids[0]) {
+      for (let i = 0; i < results.ids[0].length; i++) {
+        searchResults.push({
+          id: results.ids[0][i],
+          text: results.documents?.[0]?.[i] || "",
+          score: 1 - (results.distances?.[0]?.[i] || 0), // Convert distance to similarity
+          metadata: results.metadatas?.[0]?.[i] || {},
+        });
+      }
+    }
+
+    return searchResults;
+  }
+
+  async get(name: string, options: VectorGetOptions): Promise<DocumentChunk[]> {
+    const collection = await this.findCollection(name);
+    if (!collection) {
+      return [];
+    }
+
+    const batch = await collection.get({
+      limit: options.limit,
+      offset: options.offset,
+      ids: options.ids,
+      where: toChromaWhere(options.where),
+      include: ["embeddings", "documents", "metadatas"],
+    });
+
+    return batch.ids.map((id, i) => ({
+      id,
+      text: batch.documents[i] ?? "",
+      embedding: (batch.embeddings as number[][])[i],
+      metadata: batch.metadatas[i] ?? {},
+    }));
+  }
+
+  async delete(name: string, options: VectorDeleteOptions): Promise<void> {
+    const collection = await this.findCollection(name);
+    await collection?.delete({
+      ids: options.ids,
+      where: toChromaWhere(options.where),
+    });
+  }
+
+  async count(name: string): Promise<number> {
+    const collection = await this.findCollection(name);
+    return collection ? await collection.count() : 0;
+  }
+}
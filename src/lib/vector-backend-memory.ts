@@ -0,0 +1,149 @@
+/**
+ * In-Memory Vector Store Backend
+ *
+ * Keeps collections in process memory and scores every record by cosine
+ * similarity on each query. Intended for tests and local experiments: data
+ * is lost on restart and is not shared between processes (for example the
+ * Next.js server and the ingestion worker).
+ */
+
+import {
+  DocumentChunk,
+  SearchResult,
+  MetadataValue,
+  VectorDeleteOptions,
+  VectorGetOptions,
+  VectorQueryOptions,
+  VectorStoreBackend,
+  cosineSimilarity,
+  matchesFilter,
+} from "./vector-backend";
+
+/**
+ * A stored collection
+ */
+interface MemoryCollection {
+  metadata: Record<string, MetadataValue>;
+  records: Map<string, DocumentChunk>;
+}
+
+/**
+ * MemoryVectorBackend class
+ * Exhaustive cosine search over collections held in a Map
+ */
+export class MemoryVectorBackend implements VectorStoreBackend {
+  private collections = new Map<string, MemoryCollection>();
+
+  async createCollection(
+    name: string,
+    metadata: Record<string, MetadataValue> = {}
+  ): Promise<void> {
+    if (!this.collections.has(name)) {
+      this.collections.set(name, { metadata, records: new Map() });
+    }
+  }
+
+  async deleteCollection(name: string): Promise<void> {
+    this.collections.delete(name);
+  }
+
+  async listCollections(): Promise<string[]> {
+    return Array.from(this.collections.keys());
+  }
+
+  async collectionExists(name: string): Promise<boolean> {
+    return this.collections.has(name);
+  }
+
+  async getCollectionMetadata(
+    name: string
+  ): Promise<Record<string, MetadataValue> | null> {
+    const collection = this.collections.get(name);
+    return collection ? { ...collection.metadata } : null;
+  }
+
+  async updateCollectionMetadata(
+    name: string,
+    metadata: Record<string, MetadataValue>
+  ): Promise<void> {
+    await this.createCollection(name);
+    const collection = this.collections.get(name)!;
+    collection.metadata = { ...collection.metadata, ...metadata };
+  }
+
+  async upsert(name: string, chunks: DocumentChunk[]): Promise<void> {
+    await this.createCollection(name);
+    const { records } = this.collections.get(name)!;
+
+    for (const chunk of chunks) {
+      records.set(chunk.id, {
+        ...chunk,
+        embedding: [...chunk.embedding],
+        metadata: { ...chunk.metadata },
+      });
+    }
+  }
+
+  async query(
+    name: string,
+    embedding: number[],
+    topK: number,
+    options: VectorQueryOptions = {}
+  ): Promise<SearchResult[]> {
+    const collection = this.collections.get(name);
+    if (!collection) {
+      return [];
+    }
+
+    return this.select(collection, options)
+      .map((record) => ({
+        id: record.id,
+        text: record.text,
+        score: cosineSimilarity(embedding, record.embedding),
+        metadata: { ...record.metadata },
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async get(name: string, options: VectorGetOptions): Promise<DocumentChunk[]> {
+    const collection = this.collections.get(name);
+    if (!collection) {
+      return [];
+    }
+
+    return this.select(collection, options)
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .slice(options.offset, options.offset + options.limit);
+  }
+
+  async delete(name: string, options: VectorDeleteOptions): Promise<void> {
+    const collection = this.collections.get(name);
+    if (!collection) {
+      return;
+    }
+
+    for (const record of this.select(collection, options)) {
+      collection.records.delete(record.id);
+    }
+  }
+
+  async count(name: string): Promise<number> {
+    return this.collections.get(name)?.records.size ?? 0;
+  }
+
+  /**
+   * Returns the records matching an id list and/or metadata filter
+   * @private
+   */
+  private select(
+    collection: MemoryCollection,
+    options: VectorQueryOptions
+  ): DocumentChunk[] {
+    return Array.from(collection.records.values()).filter(
+      (record) =>
+        (!options.ids || options.ids.includes(record.id)) &&
+        (!options.where || matchesFilter(record.metadata ?? {}, options.where))
+    );
+  }
+}
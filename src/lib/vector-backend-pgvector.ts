@@ -0,0 +1,287 @@
+/**
+ * pgvector Vector Store Backend
+ *
+ * Stores embeddings in the application's Postgres database using the
+ * pgvector extension, so a deployment can run without a separate ChromaDB
+ * service. Collections are rows of `VectorCollection`; records live in
+ * `VectorRecord` with their metadata as JSONB. Similarity is computed with
+ * the `<=>` cosine distance operator and reported as `1 - distance`.
+ *
+ * The embedding column has no fixed dimension (collections may use different
+ * embedding models), so queries scan a collection exactly rather than using
+ * an approximate index.
+ */
+
+import { prisma } from "../../lib/prisma";
+import { Prisma } from "../../generated/prisma/client";
+import {
+  DocumentChunk,
+  SearchResult,
+  MetadataCondition,
+  MetadataFilter,
+  MetadataValue,
+  VectorDeleteOptions,
+  VectorGetOptions,
+  VectorQueryOptions,
+  VectorStoreBackend,
+} from "./vector-backend";
+
+/**
+ * Records written per INSERT statement, well below Postgres' bind
+ * parameter limit
+ */
+const UPSERT_BATCH_SIZE = 1000;
+
+/**
+ * Record row returned by a similarity query
+ */
+interface VectorQueryRow {
+  id: string;
+  text: string;
+  metadata: Record<string, unknown> | null;
+  score: number;
+}
+
+/**
+ * Record row returned when paging through a collection
+ */
+interface VectorRecordRow {
+  id: string;
+  text: string;
+  metadata: Record<string, unknown> | null;
+  embedding: string;
+}
+
+/**
+ * Formats an embedding as a pgvector literal, e.g. `[0.1,0.2]`
+ */
+function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(",")}]`;
+}
+
+/**
+ * Builds the SQL predicate for one metadata field condition
+ *
+ * Equality uses JSONB containment so the GIN index on metadata applies;
+ * range comparisons only match numeric values, like ChromaDB.
+ * @private
+ */
+function conditionToSql(field: string, condition: MetadataCondition) {
+  const contains = (value: MetadataValue) =>
+    Prisma.sql`"metadata" @> ${JSON.stringify({ [field]: value })}::jsonb`;
+  const anyOf = (values: MetadataValue[]) =>
+    values.length > 0
+      ? Prisma.sql`(${Prisma.join(values.map(contains), " OR ")})`
+      : Prisma.sql`FALSE`;
+  const compare = (operator: string, value: number) =>
+    Prisma.sql`(CASE WHEN jsonb_typeof("metadata" -> ${field}::text) = 'number'
+      THEN ("metadata" ->> ${field}::text)::numeric ${Prisma.raw(operator)} ${value}::numeric
+      ELSE FALSE END)`;
+
+  if (typeof condition !== "object") return contains(condition);
+  if ("$eq" in condition) return contains(condition.$eq);
+  if ("$ne" in condition) return Prisma.sql`NOT ${contains(condition.$ne)}`;
+  if ("$in" in condition) return anyOf(condition.$in);
+  if ("$nin" in condition) return Prisma.sql`NOT ${anyOf(condition.$nin)}`;
+  if ("$gt" in condition) return compare(">", condition.$gt);
+  if ("$gte" in condition) return compare(">=", condition.$gte);
+  if ("$lt" in condition) return compare("<", condition.$lt);
+  return compare("<=", (condition as { $lte: number }).$lte);
+}
+
+/**
+ * Translates a metadata filter to a SQL predicate over `"metadata"`
+ *
+ * Field names and values are bound as parameters, never interpolated.
+ *
+ * @param filter - The filter to translate
+ * @returns SQL fragment usable in a WHERE clause
+ */
+export function filterToSql(filter: MetadataFilter): Prisma.Sql {
+  if ("$and" in filter && Array.isArray(filter.$and)) {
+    return filter.$and.length > 0
+      ? Prisma.sql`(${Prisma.join(filter.$and.map(filterToSql), " AND ")})`
+      : Prisma.sql`TRUE`;
+  }
+  if ("$or" in filter && Array.isArray(filter.$or)) {
+    return filter.$or.length > 0
+      ? Prisma.sql`(${Prisma.join(filter.$or.map(filterToSql), " OR ")})`
+      : Prisma.sql`FALSE`;
+  }
+
+  const conditions = Object.entries(
+    filter as Record<string, MetadataCondition>
+  ).map(([field, condition]) => conditionToSql(field, condition));
+
+  return conditions.length > 0
+    ? Prisma.sql`(${Prisma.join(conditions, " AND ")})`
+    : Prisma.sql`TRUE`;
+}
+
+/**
+ * Builds the record selection shared by queries, reads and deletes
+ * @private
+ */
+function selectionToSql(
+  name: string,
+  options: VectorQueryOptions
+): Prisma.Sql {
+  const ids =
+    options.ids !== undefined
+      ? Prisma.sql`AND "id" = ANY(${options.ids}::text[])`
+      : Prisma.empty;
+  const where = options.where
+    ? Prisma.sql`AND ${filterToSql(options.where)}`
+    : Prisma.empty;
+
+  return Prisma.sql`"collectionName" = ${name} ${ids} ${where}`;
+}
+
+/**
+ * PgVectorBackend class
+ * Stores collections in Postgres tables and searches them with pgvector
+ */
+export class PgVectorBackend implements VectorStoreBackend {
+  async createCollection(
+    name: string,
+    metadata: Record<string, MetadataValue> = {}
+  ): Promise<void> {
+    await prisma.vectorCollection.upsert({
+      where: { name },
+      create: { name, metadata },
+      update: {},
+    });
+  }
+
+  async deleteCollection(name: string): Promise<void> {
+    // Records are removed by the cascading foreign key
+    await prisma.vectorCollection.deleteMany({ where: { name } });
+  }
+
+  async listCollections(): Promise<string[]> {
+    const collections = await prisma.vectorCollection.findMany({
+      select: { name: true },
+      orderBy: { name: "asc" },
+    });
+    return collections.map((collection: { name: string }) => collection.name);
+  }
+
+  async collectionExists(name: string): Promise<boolean> {
+    const collection = await prisma.vectorCollection.findUnique({
+      where: { name },
+      select: { name: true },
+    });
+    return collection !== null;
+  }
+
+  async getCollectionMetadata(
+    name: string
+  ): Promise<Record<string, MetadataValue> | null> {
+    const collection = await prisma.vectorCollection.findUnique({
+      where: { name },
+      select: { metadata: true },
+    });
+    return collection ? collection.metadata ?? {} : null;
+  }
+
+  async updateCollectionMetadata(
+    name: string,
+    metadata: Record<string, MetadataValue>
+  ): Promise<void> {
+    await this.createCollection(name);
+    // Merged in one statement so concurrent updates don't drop keys
+    await prisma.$executeRaw`
+      UPDATE "VectorCollection"
+      SET "metadata" = COALESCE("metadata", '{}'::jsonb)
+        || ${JSON.stringify(metadata)}::jsonb
+      WHERE "name" = ${name}
+    `;
+  }
+
+  async upsert(name: string, chunks: DocumentChunk[]): Promise<void> {
+    if (chunks.length === 0) {
+      return;
+    }
+
+    await this.createCollection(name);
+
+    const statements = [];
+    for (let i = 0; i < chunks.length; i += UPSERT_BATCH_SIZE) {
+      const rows = chunks
+        .slice(i, i + UPSERT_BATCH_SIZE)
+        .map(
+          (chunk) =>
+            Prisma.sql`(${name}, ${chunk.id}, ${chunk.text},
+              ${JSON.stringify(chunk.metadata ?? {})}::jsonb,
+              ${toVectorLiteral(chunk.embedding)}::vector)`
+        );
+
+      statements.push(prisma.$executeRaw`
+        INSERT INTO "VectorRecord"
+          ("collectionName", "id", "text", "metadata", "embedding")
+        VALUES ${Prisma.join(rows)}
+        ON CONFLICT ("collectionName", "id") DO UPDATE SET
+          "text" = EXCLUDED."text",
+          "metadata" = EXCLUDED."metadata",
+          "embedding" = EXCLUDED."embedding"
+      `);
+    }
+
+    // All batches land together, like a single ChromaDB upsert
+    await prisma.$transaction(statements);
+  }
+
+  async query(
+    name: string,
+    embedding: number[],
+    topK: number,
+    options: VectorQueryOptions = {}
+  ): Promise<SearchResult[]> {
+    const vector = toVectorLiteral(embedding);
+
+    const rows = await prisma.$queryRaw<VectorQueryRow[]>`
+      SELECT "id", "text", "metadata",
+             1 - ("embedding" <=> ${vector}::vector) AS "score"
+      FROM "VectorRecord"
+      WHERE ${selectionToSql(name, options)}
+      ORDER BY "embedding" <=> ${vector}::vector, "id"
+      LIMIT ${topK}
+    `;
+
+    return rows.map((row: VectorQueryRow) => ({
+      id: row.id,
+      text: row.text,
+      score: Number(row.score),
+      metadata: row.metadata ?? {},
+    }));
+  }
+
+  async get(name: string, options: VectorGetOptions): Promise<DocumentChunk[]> {
+    const rows = await prisma.$queryRaw<VectorRecordRow[]>`
+      SELECT "id", "text", "metadata", "embedding"::text AS "embedding"
+      FROM "VectorRecord"
+      WHERE ${selectionToSql(name, options)}
+      ORDER BY "id"
+      LIMIT ${options.limit} OFFSET ${options.offset}
+    `;
+
+    return rows.map((row: VectorRecordRow) => ({
+      id: row.id,
+      text: row.text,
+      // pgvector's text form is a JSON array
+      embedding: JSON.parse(row.embedding) as number[],
+      metadata: row.metadata ?? {},
+    }));
+  }
+
+  async delete(name: string, options: VectorDeleteOptions): Promise<void> {
+    await prisma.$executeRaw`
+      DELETE FROM "VectorRecord"
+      WHERE ${selectionToSql(name, options)}
+    `;
+  }
+
+  async count(name: string): Promise<number> {
+    return prisma.vectorRecord.count({ where: { collectionName: name } });
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Vector Store Backend Module
+ *
+ * This module defines the storage interface behind VectorStore. A backend
+ * manages named collections of embedded chunks and answers nearest-neighbour
+ * queries by cosine similarity, optionally restricted by metadata filters.
+ * VectorStore adds project naming, retry and circuit breaking on top, so
+ * backends only translate calls to their storage engine.
+ */
+
+/**
+ * Document chunk with metadata for storage
+ */
+export interface DocumentChunk {
+  id: string;
+  text: string;
+  embedding: number[];
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Search result with similarity score
+ */
+export interface SearchResult {
+  id: string;
+  text: string;
+  score: number;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Scalar metadata value that filters can compare against
+ */
+export type MetadataValue = string | number | boolean;
+
+/**
+ * Comparison applied to a single metadata field
+ */
+export type MetadataCondition =
+  | MetadataValue
+  | { $eq: MetadataValue }
+  | { $ne: MetadataValue }
+  | { $in: MetadataValue[] }
+  | { $nin: MetadataValue[] }
+  | { $gt: number }
+  | { $gte: number }
+  | { $lt: number }
+  | { $lte: number };
+
+/**
+ * Metadata filter, a subset of ChromaDB's `where` syntax shared by all
+ * backends: `{ field: condition }` entries are AND-ed, and `$and` / `$or`
+ * combine nested filters
+ */
+export type MetadataFilter =
+  | { $and: MetadataFilter[] }
+  | { $or: MetadataFilter[] }
+  | { [field: string]: MetadataCondition };
+
+/**
+ * Options for a nearest-neighbour query
+ */
+export interface VectorQueryOptions {
+  /** Only consider these record ids */
+  ids?: string[];
+  /** Only consider records whose metadata matches */
+  where?: MetadataFilter;
+}
+
+/**
+ * Selects a page of records to read
+ */
+export interface VectorGetOptions {
+  limit: number;
+  offset: number;
+  ids?: string[];
+  where?: MetadataFilter;
+}
+
+/**
+ * Selects the records removed by a delete
+ */
+export interface VectorDeleteOptions {
+  ids?: string[];
+  where?: MetadataFilter;
+}
+
+/**
+ * Storage engine for embedded chunks, organised in named collections
+ *
+ * Missing collections are never an error: queries return nothing, counts
+ * are zero and deletes do nothing.
+ */
+export interface VectorStoreBackend {
+  /** Creates a collection if it doesn't exist */
+  createCollection(
+    name: string,
+    metadata?: Record<string, MetadataValue>
+  ): Promise<void>;
+
+  /** Removes a collection and its records if it exists */
+  deleteCollection(name: string): Promise<void>;
+
+  /** Lists the names of all collections */
+  listCollections(): Promise<string[]>;
+
+  /** Checks whether a collection exists */
+  collectionExists(name: string): Promise<boolean>;
+
+  /** Reads a collection's metadata, or null if it doesn't exist */
+  getCollectionMetadata(
+    name: string
+  ): Promise<Record<string, MetadataValue> | null>;
+
+  /** Sets metadata keys on a collection, creating it if needed */
+  updateCollectionMetadata(
+    name: string,
+    metadata: Record<string, MetadataValue>
+  ): Promise<void>;
+
+  /** Inserts records, replacing any with the same id; creates the collection */
+  upsert(name: string, chunks: DocumentChunk[]): Promise<void>;
+
+  /** Returns the records closest to an embedding, most similar first */
+  query(
+    name: string,
+    embedding: number[],
+    topK: number,
+    options?: VectorQueryOptions
+  ): Promise<SearchResult[]>;
+
+  /** Reads a page of records, embeddings included, in a stable order */
+  get(name: string, options: VectorGetOptions): Promise<DocumentChunk[]>;
+
+  /** Removes records by id and/or metadata filter */
+  delete(name: string, options: VectorDeleteOptions): Promise<void>;
+
+  /** Counts the records in a collection */
+  count(name: string): Promise<number>;
+}
+
+/**
+ * Computes the cosine similarity of two vectors
+ *
+ * @returns Similarity in [-1, 1], or 0 if either vector is all zeros
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Evaluates a single field condition against a metadata value
+ * @private
+ */
+function matchesCondition(
+  value: unknown,
+  condition: MetadataCondition
+): boolean {
+  if (typeof condition !== "object") {
+    return value === condition;
+  }
+
+  if ("$eq" in condition) return value === condition.$eq;
+  if ("$ne" in condition) return value !== condition.$ne;
+  if ("$in" in condition) {
+    return condition.$in.includes(value as MetadataValue);
+  }
+  if ("$nin" in condition) {
+    return !condition.$nin.includes(value as MetadataValue);
+  }
+  if (typeof value !== "number") return false;
+  if ("$gt" in condition) return value > condition.$gt;
+  if ("$gte" in condition) return value >= condition.$gte;
+  if ("$lt" in condition) return value < condition.$lt;
+  if ("$lte" in condition) return value <= condition.$lte;
+
+  return false;
+}
+
+/**
+ * Checks whether a record's metadata satisfies a filter
+ *
+ * Used by backends that filter in process; it follows the same semantics
+ * as the ChromaDB `where` clauses the other backends translate to.
+ *
+ * @param metadata - The record's metadata
+ * @param filter - The filter to apply
+ * @returns True if the metadata matches
+ */
+export function matchesFilter(
+  metadata: Record<string, unknown>,
+  filter: MetadataFilter
+): boolean {
+  if ("$and" in filter && Array.isArray(filter.$and)) {
+    return filter.$and.every((part) => matchesFilter(metadata, part));
+  }
+  if ("$or" in filter && Array.isArray(filter.$or)) {
+    return filter.$or.some((part) => matchesFilter(metadata, part));
+  }
+
+  return Object.entries(filter as Record<string, MetadataCondition>).every(
+    ([field, condition]) => matchesCondition(metadata[field], condition)
+  );
+}
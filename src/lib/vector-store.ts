@@ -1,91 +1,206 @@
 /**
  * Vector Store Service Module
  *
- * This module provides an interface to ChromaDB for storing and retrieving
- * document embeddings. It supports project-level isolation and semantic similarity search.
+ * This module provides project-level storage and retrieval of document
+ * embeddings with semantic similarity search. The storage engine is a
+ * pluggable VectorStoreBackend (ChromaDB, pgvector or in-memory) selected by
+ * configuration. All vector access in the application goes through this
+ * module, so collection naming and resilience (retry + circuit breaker) are
+ * handled in one place whatever the backend. A project is served by the
+ * collection named after it until a re-index swaps in a new collection,
+ * whose name is then recorded on the project. Callers pass that name in with
+ * the project (see VectorProject), so no vector operation has to look it up.
  *
  * Requirements: 5.2, 5.3, 7.1, 7.2
  */
 
-import { ChromaClient, Collection } from "chromadb";
-import { getConfig } from "./config";
-import { VectorStoreError, ServiceUnavailableError } from "./errors";
+import { getConfig, VectorStoreConfig } from "./config";
+import {
+  ConflictError,
+  VectorStoreError,
+  ServiceUnavailableError,
+} from "./errors";
 import { CircuitBreaker, withRetryAndCircuitBreaker } from "./retry";
+import {
+  RetrievalFilter,
+  combineFilters,
+  toMetadataFilter,
+} from "./retrieval-filter";
+import {
+  DocumentChunk,
+  MetadataFilter,
+  MetadataValue,
+  SearchResult,
+  VectorStoreBackend,
+} from "./vector-backend";
+import { ChromaVectorBackend } from "./vector-backend-chroma";
+import { MemoryVectorBackend } from "./vector-backend-memory";
+import { PgVectorBackend } from "./vector-backend-pgvector";
+
+export type {
+  DocumentChunk,
+  MetadataFilter,
+  MetadataValue,
+  SearchResult,
+  VectorStoreBackend,
+};
 
 /**
- * Document chunk with metadata for storage
+ * The project fields that locate its vectors
  */
-export interface DocumentChunk {
+export interface VectorProject {
   id: string;
-  text: string;
-  embedding: number[];
-  metadata?: Record<string, any>;
+  /** Collection swapped in by the last re-index, if any */
+  vectorCollection: string | null;
 }
 
 /**
- * Search result with similarity score
+ * Optional restrictions for similarity search
  */
-export interface SearchResult {
-  id: string;
-  text: string;
-  score: number;
-  metadata?: Record<string, any>;
+export interface SimilaritySearchOptions {
+  /** Only score these chunk ids */
+  ids?: string[];
+  /** Only score chunks whose metadata matches */
+  where?: MetadataFilter;
+  /** Only score chunks of documents matching this filter */
+  filter?: RetrievalFilter;
+}
+
+/**
+ * Outcome of moving one legacy collection to its canonical name
+ */
+export interface CollectionMigration {
+  from: string;
+  to: string;
+  records: number;
+}
+
+/**
+ * Settings for re-embedding a collection into another
+ */
+export interface ReembedOptions {
+  /** The project both collections belong to */
+  projectId: string;
+  /** Fingerprint of the model producing the new embeddings */
+  fingerprint: string;
+  /** Records already copied by an earlier, interrupted run */
+  offset: number;
+  /** Embeds a batch of texts with the new model */
+  embed: (texts: string[]) => Promise<number[][]>;
+  /**
+   * Looks up metadata of the given documents to fill in keys missing from
+   * records written by earlier versions; keys a record has are kept
+   */
+  backfill?: (
+    documentIds: string[]
+  ) => Promise<Map<string, Record<string, MetadataValue>>>;
+  /** Called after each batch with the records copied so far and the total */
+  onProgress?: (processed: number, total: number) => Promise<void>;
+}
+
+/**
+ * Prefix of collections written by earlier versions of DocumentService
+ */
+export const LEGACY_COLLECTION_PREFIX = "project_";
+
+/**
+ * Collection metadata key recording the embedding model of its vectors
+ */
+const EMBEDDING_FINGERPRINT_KEY = "embeddingFingerprint";
+
+/**
+ * Number of records read per request when copying or patching records
+ */
+const RECORD_BATCH_SIZE = 500;
+
+/**
+ * The in-memory backend is shared by every VectorStore in the process,
+ * otherwise documents written by one service would be invisible to another
+ */
+let memoryBackend: MemoryVectorBackend | null = null;
+
+/**
+ * Returns the canonical collection name for a project
+ *
+ * @param projectId - The unique project identifier
+ */
+export function projectCollectionName(projectId: string): string {
+  return projectId;
+}
+
+/**
+ * Returns the name of the collection currently serving a project
+ *
+ * @param project - The project and the collection recorded on it
+ * @returns The collection swapped in by the last re-index, or the
+ *          project's own collection if it was never re-indexed
+ */
+export function activeCollectionName(project: VectorProject): string {
+  return project.vectorCollection ?? projectCollectionName(project.id);
+}
+
+/**
+ * Returns the name of a collection a project is re-indexed into
+ *
+ * @param projectId - The unique project identifier
+ * @param suffix - Distinguishes the re-index from earlier ones
+ */
+export function shadowCollectionName(
+  projectId: string,
+  suffix: string
+): string {
+  return `${projectCollectionName(projectId)}_${suffix}`;
+}
+
+/**
+ * Creates the vector store backend selected by configuration
+ *
+ * @param vectorStore - Vector store configuration (default: loaded from environment)
+ * @returns Backend instance
+ */
+export function createVectorStoreBackend(
+  vectorStore: VectorStoreConfig = getConfig().vectorStore
+): VectorStoreBackend {
+  switch (vectorStore.provider) {
+    case "pgvector":
+      return new PgVectorBackend();
+    case "memory":
+      memoryBackend ??= new MemoryVectorBackend();
+      return memoryBackend;
+    default:
+      return new ChromaVectorBackend(vectorStore.host, vectorStore.port);
+  }
 }
 
 /**
  * VectorStore class
- * Handles vector storage and retrieval operations with ChromaDB
+ * Handles vector storage and retrieval operations for projects
  */
 export class VectorStore {
-  private client: ChromaClient;
-  private config = getConfig();
+  private backend: VectorStoreBackend;
   private circuitBreaker: CircuitBreaker;
 
   /**
-   * Initializes the ChromaDB client and circuit breaker
+   * Initializes the backend and circuit breaker
+   *
+   * @param backend - Storage engine (default: selected by configuration)
    */
-  constructor() {
-    this.client = new ChromaClient({
-      path: `http://${this.config.vectorStore.host}:${this.config.vectorStore.port}`,
-    });
+  constructor(backend: VectorStoreBackend = createVectorStoreBackend()) {
+    this.backend = backend;
     this.circuitBreaker = new CircuitBreaker();
   }
 
   /**
-   * Creates a project-specific collection in ChromaDB
-   *
-   * Collections provide isolation between projects, ensuring that queries
-   * for one project never return data from another project.
-   *
-   * Requirements:
-   * - 5.3: Store embeddings in project-specific collections
-   *
-   * @param projectId - The unique project identifier
-   * @returns Promise that resolves when collection is created
-   * @throws VectorStoreError if collection creation fails
+   * Runs a backend call with retry and circuit breaker protection, mapping
+   * failures to application errors
+   * @private
    */
-  async createCollection(projectId: string): Promise<void> {
+  private async execute<T>(
+    action: string,
+    fn: () => Promise<T>
+  ): Promise<T> {
     try {
-      await withRetryAndCircuitBreaker(
-        async () => {
-          // Check if collection already exists
-          const collections = await this.client.listCollections();
-          const collectionExists = collections.some(
-            (collection) => collection.name === projectId
-          );
-
-          if (!collectionExists) {
-            await this.client.createCollection({
-              name: projectId,
-              metadata: {
-                createdAt: new Date().toISOString(),
-                projectId: projectId,
-              },
-            });
-          }
-        },
-        this.circuitBreaker
-      );
+      return await withRetryAndCircuitBreaker(fn, this.circuitBreaker);
     } catch (error: any) {
       if (
         error.message?.includes("Circuit breaker is OPEN") ||
@@ -98,70 +213,185 @@ export class VectorStore {
       }
 
       throw new VectorStoreError(
-        `Failed to create collection for project ${projectId}: ${
-          error.message || "Unknown error"
-        }`
+        `Failed to ${action}: ${error.message || "Unknown error"}`
       );
     }
   }
 
+  /**
+   * Creates a project-specific collection
+   *
+   * Collections provide isolation between projects, ensuring that queries
+   * for one project never return data from another project.
+   *
+   * Requirements:
+   * - 5.3: Store embeddings in project-specific collections
+   *
+   * @param project - The project
+   * @returns Promise that resolves when collection is created
+   * @throws VectorStoreError if collection creation fails
+   */
+  async createCollection(project: VectorProject): Promise<void> {
+    const name = activeCollectionName(project);
+    await this.execute(`create collection for project ${project.id}`, () =>
+      this.backend.createCollection(name, { projectId: project.id })
+    );
+  }
+
   /**
    * Adds document chunks with embeddings to a project collection
    *
    * This method stores all chunks from a document along with their embeddings.
    * The chunks are stored in the project-specific collection to maintain isolation.
+   * The collection is created on first use.
    *
    * Requirements:
    * - 5.2: Store each embedding vector with its associated chunk text
    *
-   * @param projectId - The project identifier
+   * @param project - The project
    * @param chunks - Array of document chunks with embeddings
    * @returns Promise that resolves when documents are added
    * @throws VectorStoreError if document addition fails
    */
-  async addDocuments(projectId: string, chunks: DocumentChunk[]): Promise<void> {
-    try {
-      await withRetryAndCircuitBreaker(
-        async () => {
-          const collection = await this.client.getCollection({
-            name: projectId,
-          });
-
-          // Prepare data for batch insertion
-          const ids = chunks.map((chunk) => chunk.id);
-          const embeddings = chunks.map((chunk) => chunk.embedding);
-          const metadatas = chunks.map((chunk) => ({
-            text: chunk.text,
-            ...chunk.metadata,
-          }));
-          const documents = chunks.map((chunk) => chunk.text);
-
-          await collection.add({
-            ids,
-            embeddings,
-            metadatas,
-            documents,
-          });
+  async addDocuments(
+    project: VectorProject,
+    chunks: DocumentChunk[]
+  ): Promise<void> {
+    const name = activeCollectionName(project);
+    await this.execute(`add documents to project ${project.id}`, async () => {
+      await this.backend.createCollection(name, { projectId: project.id });
+      await this.backend.upsert(name, chunks);
+    });
+  }
+
+  /**
+   * Replaces the vectors stored for a document with a new set of chunks
+   *
+   * The new `${documentId}_${i}` vectors overwrite the old ones in a single
+   * upsert and only the surplus old chunks are deleted afterwards, so the
+   * document never goes without vectors while its content is refreshed.
+   *
+   * @param project - The project
+   * @param documentId - The document identifier
+   * @param chunks - The document's chunks, with `chunkIndex` in metadata
+   * @returns Promise that resolves when the vectors are replaced
+   * @throws VectorStoreError if the upsert or cleanup fails
+   */
+  async replaceDocumentVectors(
+    project: VectorProject,
+    documentId: string,
+    chunks: DocumentChunk[]
+  ): Promise<void> {
+    await this.addDocuments(project, chunks);
+    const name = activeCollectionName(project);
+    await this.execute(`trim vectors for document ${documentId}`, () =>
+      this.backend.delete(name, {
+        where: {
+          $and: [{ documentId }, { chunkIndex: { $gte: chunks.length } }],
         },
-        this.circuitBreaker
+      })
+    );
+  }
+
+  /**
+   * Removes every vector stored for a document
+   *
+   * Each chunk's metadata carries its documentId, so this removes all of the
+   * document's `${documentId}_${i}` vectors whatever their count.
+   *
+   * @param project - The project
+   * @param documentId - The document identifier
+   * @returns Promise that resolves when the vectors are removed
+   * @throws VectorStoreError if deletion fails
+   */
+  async deleteDocumentVectors(
+    project: VectorProject,
+    documentId: string
+  ): Promise<void> {
+    const name = activeCollectionName(project);
+    await this.execute(`delete vectors for document ${documentId}`, () =>
+      this.backend.delete(name, {
+        where: { documentId },
+      })
+    );
+  }
+
+  /**
+   * Merges metadata into every vector stored for a document
+   *
+   * Records are read back and upserted with their embeddings unchanged, so
+   * document attributes such as tags can change without re-embedding. Keys
+   * are set, never removed; write `false` to clear a flag.
+   *
+   * @param project - The project
+   * @param documentId - The document identifier
+   * @param metadata - Metadata keys to set on each chunk
+   * @returns Number of vectors updated
+   * @throws VectorStoreError if the vectors cannot be read or written
+   */
+  async updateDocumentMetadata(
+    project: VectorProject,
+    documentId: string,
+    metadata: Record<string, MetadataValue>
+  ): Promise<number> {
+    const name = activeCollectionName(project);
+    let updated = 0;
+
+    for (let offset = 0; ; offset += RECORD_BATCH_SIZE) {
+      const batch = await this.execute(
+        `read vectors for document ${documentId}`,
+        () =>
+          this.backend.get(name, {
+            limit: RECORD_BATCH_SIZE,
+            offset,
+            where: { documentId },
+          })
       );
-    } catch (error: any) {
-      if (
-        error.message?.includes("Circuit breaker is OPEN") ||
-        error.message?.includes("connection") ||
-        error.message?.includes("unreachable")
-      ) {
-        throw new ServiceUnavailableError(
-          `Vector store connection failed: ${error.message}`
-        );
+      if (batch.length === 0) {
+        break;
       }
 
-      throw new VectorStoreError(
-        `Failed to add documents to project ${projectId}: ${
-          error.message || "Unknown error"
-        }`
+      await this.execute(`update vectors for document ${documentId}`, () =>
+        this.backend.upsert(
+          name,
+          batch.map((chunk) => ({
+            ...chunk,
+            metadata: { ...chunk.metadata, ...metadata },
+          }))
+        )
       );
+      updated += batch.length;
+
+      if (batch.length < RECORD_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Reads the stored embeddings of chunks by id
+   *
+   * @param project - The project
+   * @param ids - The chunk ids
+   * @returns The embedding of each chunk found, by id
+   * @throws VectorStoreError if the vectors cannot be read
+   */
+  async getEmbeddings(
+    project: VectorProject,
+    ids: string[]
+  ): Promise<Map<string, number[]>> {
+    if (ids.length === 0) {
+      return new Map();
     }
+
+    const name = activeCollectionName(project);
+    const records = await this.execute(
+      `read vectors for project ${project.id}`,
+      () => this.backend.get(name, { limit: ids.length, offset: 0, ids })
+    );
+    return new Map(records.map((record) => [record.id, record.embedding]));
   }
 
   /**
@@ -169,76 +399,45 @@ export class VectorStore {
    *
    * This method retrieves the most relevant document chunks based on cosine similarity
    * to the query embedding. Results are filtered by project and limited to top-K.
+   * A project without a collection (nothing processed yet) has no results.
    *
    * Requirements:
    * - 7.1: Perform similarity search filtered by project collection
    * - 7.2: Retrieve top 5 most similar chunks based on cosine similarity
    *
-   * @param projectId - The project identifier
+   * @param project - The project
    * @param queryEmbedding - The embedding vector for the query
    * @param topK - Maximum number of results to return (default: 5)
+   * @param options - Optional restrictions by chunk id, metadata or document
    * @returns Promise that resolves to array of search results with similarity scores
    * @throws VectorStoreError if search fails
    */
   async similaritySearch(
-    projectId: string,
+    project: VectorProject,
     queryEmbedding: number[],
-    topK: number = 5
+    topK: number = 5,
+    options: SimilaritySearchOptions = {}
   ): Promise<SearchResult[]> {
-    try {
-      const results = await withRetryAndCircuitBreaker(
-        async () => {
-          const collection = await this.client.getCollection({
-            name: projectId,
-          });
-
-          return await collection.query({
-            queryEmbeddings: [queryEmbedding],
-            nResults: topK,
-            include: ["documents", "metadatas", "distances"],
-          });
-        },
-        this.circuitBreaker
-      );
-
-      // Transform results into SearchResult format
-      const searchResults: SearchResult[] = [];
-
-      if (results.ids && results.ids[0]) {
-        for (let i = 0; i < results.ids[0].length; i++) {
-          const id = results.ids[0][i];
-          const text = results.documents?.[0]?.[i] || "";
-          const score = 1 - (results.distances?.[0]?.[i] || 0); // Convert distance to similarity
-          const metadata = results.metadatas?.[0]?.[i] || {};
-
-          searchResults.push({
-            id,
-            text,
-            score,
-            metadata,
-          });
-        }
-      }
-
-      // Sort by score in descending order (highest similarity first)
-      return searchResults.sort((a, b) => b.score - a.score);
-    } catch (error: any) {
-      if (
-        error.message?.includes("Circuit breaker is OPEN") ||
-        error.message?.includes("connection") ||
-        error.message?.includes("unreachable")
-      ) {
-        throw new ServiceUnavailableError(
-          `Vector store connection failed: ${error.message}`
-        );
-      }
+    const name = activeCollectionName(project);
+    const results = await this.execute(
+      `perform similarity search for project ${project.id}`,
+      () =>
+        this.backend.query(
+          name,
+          queryEmbedding,
+          topK,
+          {
+            ids: options.ids,
+            where: combineFilters(
+              options.where,
+              toMetadataFilter(options.filter)
+            ),
+          }
+        )
+    );
 
-      throw new VectorStoreError(
-        `Failed to perform similarity search for project ${projectId}: ${
-          error.message || "Unknown error"
-        }`
-      );
-    }
+    // Sort by score in descending order (highest similarity first)
+    return results.sort((a, b) => b.score - a.score);
   }
 
   /**
@@ -246,6 +445,8 @@ export class VectorStore {
    *
    * This method removes the entire collection for a project, including all
    * document chunks and embeddings. This is called during project deletion.
+   * A legacy `project_*` collection that was never migrated is removed too,
+   * as are the project's re-index collections.
    *
    * Requirements:
    * - 1.3: Remove all associated documents from Vector_Database during project deletion
@@ -255,63 +456,311 @@ export class VectorStore {
    * @throws VectorStoreError if deletion fails
    */
   async deleteCollection(projectId: string): Promise<void> {
-    try {
-      await this.client.deleteCollection({
-        name: projectId,
-      });
-    } catch (error: any) {
-      if (
-        error.message?.includes("connection") ||
-        error.message?.includes("unreachable")
-      ) {
-        throw new ServiceUnavailableError(
-          `Vector store connection failed: ${error.message}`
-        );
+    await this.execute(
+      `delete collection for project ${projectId}`,
+      async () => {
+        const names = [
+          projectCollectionName(projectId),
+          `${LEGACY_COLLECTION_PREFIX}${projectId}`,
+          ...(await this.backend.listCollections()).filter((name) =>
+            name.startsWith(`${projectId}_`)
+          ),
+        ];
+        for (const name of names) {
+          await this.backend.deleteCollection(name);
+        }
       }
+    );
+  }
 
-      // Collection might not exist, which is not an error for deletion
-      if (error.message?.includes("not found")) {
-        return;
-      }
+  /**
+   * Checks if a collection exists for a project
+   *
+   * @param project - The project
+   * @returns Promise that resolves to true if collection exists
+   * @throws VectorStoreError if the vector store cannot be queried
+   */
+  async collectionExists(project: VectorProject): Promise<boolean> {
+    const name = activeCollectionName(project);
+    return this.execute(`look up collection for project ${project.id}`, () =>
+      this.backend.collectionExists(name)
+    );
+  }
 
-      throw new VectorStoreError(
-        `Failed to delete collection for project ${projectId}: ${
-          error.message || "Unknown error"
-        }`
+  /**
+   * Reads the embedding model recorded for a project's vectors
+   *
+   * @param project - The project
+   * @returns The embedding fingerprint, or null if the project has no
+   *          collection or its collection predates recorded fingerprints
+   * @throws VectorStoreError if the vector store cannot be queried
+   */
+  async getEmbeddingFingerprint(
+    project: VectorProject
+  ): Promise<string | null> {
+    const name = activeCollectionName(project);
+    const metadata = await this.execute(
+      `read collection metadata for project ${project.id}`,
+      () => this.backend.getCollectionMetadata(name)
+    );
+    const fingerprint = metadata?.[EMBEDDING_FINGERPRINT_KEY];
+    return typeof fingerprint === "string" ? fingerprint : null;
+  }
+
+  /**
+   * Checks that a project's vectors come from the given embedding model
+   *
+   * Vectors of different models live in different spaces, so searching a
+   * collection with another model's query embedding returns noise. A
+   * collection without a recorded fingerprint passes, as there is nothing
+   * to compare.
+   *
+   * @param project - The project
+   * @param fingerprint - Fingerprint of the model about to be used
+   * @throws ConflictError if the collection was embedded by another model
+   * @throws VectorStoreError if the vector store cannot be queried
+   */
+  async verifyEmbeddingFingerprint(
+    project: VectorProject,
+    fingerprint: string
+  ): Promise<void> {
+    const indexed = await this.getEmbeddingFingerprint(project);
+    if (indexed && indexed !== fingerprint) {
+      throw new ConflictError(
+        `Project ${project.id} was indexed with embedding model ${indexed}, ` +
+          `but the configured model is ${fingerprint}; the project must be ` +
+          `re-indexed with the configured model`
       );
     }
   }
 
   /**
-   * Checks if a collection exists for a project
+   * Records the embedding model of a project's vectors
    *
-   * @param projectId - The project identifier
-   * @returns Promise that resolves to true if collection exists
+   * Only a collection without a fingerprint and without vectors is
+   * stamped: vectors written before fingerprints were recorded may come
+   * from any model, so their collection stays unchecked until re-indexed.
+   *
+   * @param project - The project
+   * @param fingerprint - Fingerprint of the model writing the vectors
+   * @throws VectorStoreError if the collection cannot be read or updated
    */
-  async collectionExists(projectId: string): Promise<boolean> {
-    try {
-      const collections = await this.client.listCollections();
-      return collections.some((collection) => collection.name === projectId);
-    } catch (error: any) {
-      return false;
+  async recordEmbeddingFingerprint(
+    project: VectorProject,
+    fingerprint: string
+  ): Promise<void> {
+    if (
+      (await this.getEmbeddingFingerprint(project)) !== null ||
+      (await this.getDocumentCount(project)) > 0
+    ) {
+      return;
     }
+
+    const name = activeCollectionName(project);
+    await this.execute(
+      `record embedding model for project ${project.id}`,
+      async () => {
+        await this.backend.createCollection(name, { projectId: project.id });
+        await this.backend.updateCollectionMetadata(name, {
+          [EMBEDDING_FINGERPRINT_KEY]: fingerprint,
+        });
+      }
+    );
   }
 
   /**
    * Gets the number of documents in a project collection
    *
-   * @param projectId - The project identifier
+   * @param project - The project
    * @returns Promise that resolves to document count
+   * @throws VectorStoreError if the vector store cannot be queried
    */
-  async getDocumentCount(projectId: string): Promise<number> {
-    try {
-      const collection = await this.client.getCollection({
-        name: projectId,
+  async getDocumentCount(project: VectorProject): Promise<number> {
+    const name = activeCollectionName(project);
+    return this.execute(`count documents for project ${project.id}`, () =>
+      this.backend.count(name)
+    );
+  }
+
+  /**
+   * Re-embeds every record of a collection into another collection
+   *
+   * Records are read in batches in a stable order and written with the same
+   * ids, text and metadata but new embeddings, so a run that stopped part
+   * way can carry on from the number of records it copied. The target
+   * records the new model's fingerprint, and metadata missing from a record
+   * is filled in from `backfill` when given. Both collections must end up with
+   * the same number of records; a difference means documents were added or
+   * removed while copying.
+   *
+   * @param from - The collection to read
+   * @param to - The collection to write, created if needed
+   * @param options - The project, new model, starting offset, embedding
+   *        function, metadata backfill and progress callback
+   * @returns The number of records copied
+   * @throws VectorStoreError if a collection cannot be read or written, or
+   *         the record counts differ
+   */
+  async reembedCollection(
+    from: string,
+    to: string,
+    options: ReembedOptions
+  ): Promise<number> {
+    const { projectId, fingerprint, embed, backfill, onProgress } = options;
+
+    await this.execute(`create ${to}`, async () => {
+      await this.backend.createCollection(to, { projectId });
+      await this.backend.updateCollectionMetadata(to, {
+        [EMBEDDING_FINGERPRINT_KEY]: fingerprint,
       });
-      const count = await collection.count();
-      return count;
-    } catch (error: any) {
-      return 0;
+    });
+
+    const total = await this.execute(`count ${from}`, () =>
+      this.backend.count(from)
+    );
+
+    for (
+      let offset = options.offset;
+      offset < total;
+      offset += RECORD_BATCH_SIZE
+    ) {
+      const batch = await this.execute(`read ${from}`, () =>
+        this.backend.get(from, { limit: RECORD_BATCH_SIZE, offset })
+      );
+      if (batch.length === 0) {
+        break;
+      }
+
+      const embeddings = await embed(batch.map((chunk) => chunk.text));
+      const documents = backfill
+        ? await backfill(
+            Array.from(
+              new Set(batch.map((chunk) => chunk.metadata?.documentId))
+            ).filter((id): id is string => typeof id === "string")
+          )
+        : new Map<string, Record<string, MetadataValue>>();
+      await this.execute(`write ${to}`, () =>
+        this.backend.upsert(
+          to,
+          batch.map((chunk, i) => ({
+            ...chunk,
+            embedding: embeddings[i],
+            metadata: {
+              ...documents.get(chunk.metadata?.documentId),
+              ...chunk.metadata,
+            },
+          }))
+        )
+      );
+      await onProgress?.(offset + batch.length, total);
+    }
+
+    const expected = await this.execute(`count ${from}`, () =>
+      this.backend.count(from)
+    );
+    const copied = await this.execute(`count ${to}`, () =>
+      this.backend.count(to)
+    );
+    if (copied !== expected) {
+      throw new VectorStoreError(
+        `${to} holds ${copied} records but ${from} holds ${expected}; ` +
+          `documents changed during the re-index`
+      );
+    }
+
+    return copied;
+  }
+
+  /**
+   * Deletes a collection by name, e.g. one left behind by a re-index
+   *
+   * @param name - The collection name
+   * @throws VectorStoreError if deletion fails
+   */
+  async dropCollection(name: string): Promise<void> {
+    await this.execute(`delete ${name}`, () =>
+      this.backend.deleteCollection(name)
+    );
+  }
+
+  /**
+   * Moves legacy `project_<id>` collections to their canonical names
+   *
+   * Records are copied in batches (ids, embeddings, documents and metadata
+   * unchanged) with upserts, so an interrupted run can simply be repeated.
+   * A legacy collection is only deleted once the canonical collection holds
+   * at least as many records.
+   *
+   * @param dryRun - Only report what would be moved
+   * @returns One entry per legacy collection found
+   * @throws VectorStoreError if a collection cannot be copied or verified
+   */
+  async migrateLegacyCollections(
+    dryRun: boolean = false
+  ): Promise<CollectionMigration[]> {
+    const names = await this.execute("list collections", () =>
+      this.backend.listCollections()
+    );
+
+    const migrations: CollectionMigration[] = [];
+
+    for (const legacy of names) {
+      if (!legacy.startsWith(LEGACY_COLLECTION_PREFIX)) {
+        continue;
+      }
+
+      const projectId = legacy.slice(LEGACY_COLLECTION_PREFIX.length);
+      const target = projectCollectionName(projectId);
+      const records = await this.execute(`count ${legacy}`, () =>
+        this.backend.count(legacy)
+      );
+
+      if (!dryRun) {
+        await this.copyCollection(legacy, target, projectId, records);
+      }
+
+      migrations.push({ from: legacy, to: target, records });
     }
+
+    return migrations;
   }
-}
\ No newline at end of file
+
+  /**
+   * Copies every record of a legacy collection, verifies and drops it
+   * @private
+   */
+  private async copyCollection(
+    legacy: string,
+    target: string,
+    projectId: string,
+    records: number
+  ): Promise<void> {
+    await this.execute(`create ${target}`, () =>
+      this.backend.createCollection(target, { projectId })
+    );
+
+    for (let offset = 0; offset < records; offset += RECORD_BATCH_SIZE) {
+      await this.execute(`copy ${legacy} to ${target}`, async () => {
+        const batch = await this.backend.get(legacy, {
+          limit: RECORD_BATCH_SIZE,
+          offset,
+        });
+        await this.backend.upsert(target, batch);
+      });
+    }
+
+    const copied = await this.execute(`count ${target}`, () =>
+      this.backend.count(target)
+    );
+    if (copied < records) {
+      throw new VectorStoreError(
+        `Copied ${copied} of ${records} records from ${legacy}; ` +
+          `the legacy collection was kept`
+      );
+    }
+
+    await this.execute(`delete ${legacy}`, () =>
+      this.backend.deleteCollection(legacy)
+    );
+  }
+}
@@ -0,0 +1,479 @@
+/**
+ * Web Crawler Module
+ *
+ * This module discovers the pages of a website for URL ingestion. Starting
+ * from a root page it follows links breadth-first, up to a depth and page
+ * limit, staying on the root's origin or under its path prefix. robots.txt
+ * rules for the crawler's user agent are honoured and the site's sitemaps
+ * can seed pages that are not linked from the root.
+ *
+ * The crawler only discovers pages; each page is extracted and indexed by
+ * the normal document pipeline.
+ */
+
+import * as cheerio from "cheerio";
+import { ValidationError } from "./errors";
+
+/**
+ * Which discovered links a crawl may follow
+ * - origin: any page on the root URL's scheme, host and port
+ * - prefix: pages on the same origin under the root URL's directory
+ */
+export type CrawlScope = "origin" | "prefix";
+
+/**
+ * Options controlling a crawl
+ */
+export interface CrawlOptions {
+  /** Link hops to follow from the root page; 0 crawls the root only */
+  maxDepth: number;
+  /** Maximum number of pages to return, the root included */
+  maxPages: number;
+  scope: CrawlScope;
+  /** Skip pages disallowed by robots.txt */
+  respectRobots: boolean;
+  /** Seed the crawl with in-scope pages listed in the site's sitemaps */
+  useSitemap: boolean;
+}
+
+/**
+ * Request settings for a crawler instance
+ */
+export interface CrawlerClientOptions {
+  userAgent: string;
+  requestTimeoutMs: number;
+}
+
+/**
+ * A page found by the crawl
+ */
+export interface CrawledPage {
+  url: string;
+  /** Link hops from the root page; sitemap pages count as one hop */
+  depth: number;
+}
+
+/**
+ * Fetch implementation used by the crawler, injectable for tests
+ */
+export type FetchFunction = (
+  url: string,
+  init?: RequestInit
+) => Promise<Response>;
+
+/**
+ * Allow/disallow rules from robots.txt that apply to one user agent
+ */
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  sitemaps: string[];
+}
+
+/**
+ * Sitemaps read per crawl, nested sitemap indexes included
+ */
+const MAX_SITEMAPS = 10;
+
+/**
+ * Normalises a URL for crawling: resolves it against a base, drops the
+ * fragment and rejects anything that is not http(s)
+ *
+ * @param href - Absolute or relative URL
+ * @param base - URL to resolve relative references against
+ * @returns The normalised URL, or null if it cannot be crawled
+ */
+export function normalizeUrl(href: string, base?: string): string | null {
+  try {
+    const url = new URL(href, base);
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return null;
+    }
+    url.hash = "";
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extracts the crawlable links of an HTML page
+ *
+ * Honours `<base href>` and skips links marked `rel="nofollow"`.
+ *
+ * @param html - The page's HTML
+ * @param pageUrl - The URL the page was fetched from
+ * @returns Normalised, de-duplicated absolute URLs in document order
+ */
+export function extractLinks(html: string, pageUrl: string): string[] {
+  const $ = cheerio.load(html);
+  const base = normalizeUrl($("base[href]").attr("href") ?? "", pageUrl);
+  const links = new Set<string>();
+
+  $("a[href]").each((_, element) => {
+    const rel = ($(element).attr("rel") ?? "").toLowerCase().split(/\s+/);
+    if (rel.includes("nofollow")) {
+      return;
+    }
+
+    const url = normalizeUrl($(element).attr("href")!, base ?? pageUrl);
+    if (url) {
+      links.add(url);
+    }
+  });
+
+  return [...links];
+}
+
+/**
+ * Parses robots.txt and returns the rules for a user agent
+ *
+ * The group naming the most specific matching agent token applies; the `*`
+ * group is used otherwise. `Sitemap` lines are collected regardless of
+ * group.
+ *
+ * @param text - The robots.txt contents
+ * @param userAgent - The crawler's user agent
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  interface Group {
+    agents: string[];
+    allow: string[];
+    disallow: string[];
+  }
+
+  const groups: Group[] = [];
+  const sitemaps: string[] = [];
+  let current: Group | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      continue;
+    }
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], allow: [], disallow: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (field === "sitemap") {
+      if (value) {
+        sitemaps.push(value);
+      }
+    } else if (field === "allow" && current && value) {
+      current.allow.push(value);
+    } else if (field === "disallow" && current && value) {
+      // An empty Disallow allows everything, so it adds no rule
+      current.disallow.push(value);
+    }
+  }
+
+  const agent = userAgent.toLowerCase();
+  let match: Group | undefined;
+  let matchLength = -1;
+
+  for (const group of groups) {
+    for (const token of group.agents) {
+      const length =
+        token === "*" ? 0 : agent.includes(token) ? token.length : -1;
+      if (length > matchLength) {
+        match = group;
+        matchLength = length;
+      }
+    }
+  }
+
+  return {
+    allow: match?.allow ?? [],
+    disallow: match?.disallow ?? [],
+    sitemaps,
+  };
+}
+
+/**
+ * Returns how many characters of a robots.txt rule match a path, or -1
+ * @private
+ */
+function ruleMatchLength(rule: string, path: string): number {
+  const anchored = rule.endsWith("$");
+  const pattern = (anchored ? rule.slice(0, -1) : rule)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+
+  return new RegExp(`^${pattern}${anchored ? "$" : ""}`).test(path)
+    ? rule.length
+    : -1;
+}
+
+/**
+ * Checks whether robots.txt rules allow a URL
+ *
+ * The longest matching rule wins; Allow wins a tie.
+ *
+ * @param rules - Rules from parseRobotsTxt
+ * @param url - The absolute URL to check
+ */
+export function isAllowedByRobots(rules: RobotsRules, url: string): boolean {
+  const { pathname, search } = new URL(url);
+  const path = pathname + search;
+
+  const longest = (patterns: string[]) =>
+    Math.max(-1, ...patterns.map((rule) => ruleMatchLength(rule, path)));
+
+  return longest(rules.allow) >= longest(rules.disallow);
+}
+
+/**
+ * Reads the page URLs and nested sitemap URLs from a sitemap document
+ *
+ * @param xml - A `<urlset>` or `<sitemapindex>` document
+ */
+export function parseSitemap(xml: string): {
+  pages: string[];
+  sitemaps: string[];
+} {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const locs = (selector: string) =>
+    $(selector)
+      .map((_, element) => $(element).text().trim())
+      .get()
+      .filter((loc: string) => loc.length > 0);
+
+  return {
+    pages: locs("urlset > url > loc"),
+    sitemaps: locs("sitemapindex > sitemap > loc"),
+  };
+}
+
+/**
+ * WebCrawler class
+ * Discovers a website's pages breadth-first within the configured limits
+ */
+export class WebCrawler {
+  private options: CrawlOptions;
+  private client: CrawlerClientOptions;
+  private fetchFn: FetchFunction;
+
+  constructor(
+    options: CrawlOptions,
+    client: CrawlerClientOptions,
+    fetchFn: FetchFunction = fetch
+  ) {
+    this.options = options;
+    this.client = client;
+    this.fetchFn = fetchFn;
+  }
+
+  /**
+   * Crawls a website from its root page
+   *
+   * Pages that fail to load, are not HTML, or redirect out of scope are
+   * skipped. The root page must load.
+   *
+   * @param rootUrl - The page to start from
+   * @returns The discovered pages in crawl order, root first
+   * @throws ValidationError if the root URL is invalid, disallowed by
+   *         robots.txt or cannot be fetched as HTML
+   */
+  async crawl(rootUrl: string): Promise<CrawledPage[]> {
+    const root = normalizeUrl(rootUrl);
+    if (!root) {
+      throw new ValidationError(`Invalid URL format: ${rootUrl}`);
+    }
+
+    const inScope = this.scopeMatcher(root);
+    const robots = await this.loadRobots(root);
+
+    if (robots && !isAllowedByRobots(robots, root)) {
+      throw new ValidationError(`Crawling ${root} is disallowed by robots.txt`);
+    }
+
+    const pages: CrawledPage[] = [];
+    const seen = new Set<string>([root]);
+    const queue: CrawledPage[] = [{ url: root, depth: 0 }];
+
+    const enqueue = (url: string, depth: number) => {
+      if (
+        depth <= this.options.maxDepth &&
+        !seen.has(url) &&
+        inScope(url) &&
+        (!robots || isAllowedByRobots(robots, url))
+      ) {
+        seen.add(url);
+        queue.push({ url, depth });
+      }
+    };
+
+    while (queue.length > 0 && pages.length < this.options.maxPages) {
+      const page = queue.shift()!;
+      const html = await this.fetchPage(page.url, inScope);
+
+      if (html === null) {
+        if (page.depth === 0) {
+          throw new ValidationError(`Failed to fetch ${root} as an HTML page`);
+        }
+        continue;
+      }
+
+      pages.push(page);
+
+      const links = extractLinks(html, page.url);
+      if (
+        page.depth === 0 &&
+        this.options.useSitemap &&
+        this.options.maxDepth > 0
+      ) {
+        // Sitemap pages count as one hop, queued after the root's own links
+        links.push(...(await this.loadSitemapPages(root, robots)));
+      }
+
+      for (const link of links) {
+        enqueue(link, page.depth + 1);
+      }
+    }
+
+    return pages;
+  }
+
+  /**
+   * Builds the scope check for a crawl rooted at a URL
+   * @private
+   */
+  private scopeMatcher(root: string): (url: string) => boolean {
+    const rootUrl = new URL(root);
+    const prefix = rootUrl.pathname.slice(
+      0,
+      rootUrl.pathname.lastIndexOf("/") + 1
+    );
+
+    return (url: string) => {
+      const candidate = new URL(url);
+      if (candidate.origin !== rootUrl.origin) {
+        return false;
+      }
+      return (
+        this.options.scope === "origin" || candidate.pathname.startsWith(prefix)
+      );
+    };
+  }
+
+  /**
+   * Fetches a URL with the crawler's user agent and timeout
+   * @private
+   */
+  private async request(url: string): Promise<Response | null> {
+    try {
+      return await this.fetchFn(url, {
+        headers: { "User-Agent": this.client.userAgent },
+        signal: AbortSignal.timeout(this.client.requestTimeoutMs),
+      });
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Fetches a page, returning its HTML or null if it should be skipped
+   * @private
+   */
+  private async fetchPage(
+    url: string,
+    inScope: (url: string) => boolean
+  ): Promise<string | null> {
+    const response = await this.request(url);
+    if (!response || !response.ok) {
+      return null;
+    }
+
+    const contentType = response.headers.get("content-type") ?? "";
+    if (!contentType.includes("text/html")) {
+      return null;
+    }
+
+    // Redirects are followed by fetch; don't index pages that left scope
+    if (response.url && !inScope(response.url)) {
+      return null;
+    }
+
+    return response.text();
+  }
+
+  /**
+   * Loads the robots.txt rules for the root's origin
+   *
+   * A missing or unreadable robots.txt allows everything.
+   * @private
+   */
+  private async loadRobots(root: string): Promise<RobotsRules | null> {
+    if (!this.options.respectRobots && !this.options.useSitemap) {
+      return null;
+    }
+
+    const response = await this.request(new URL("/robots.txt", root).href);
+    const rules =
+      response && response.ok
+        ? parseRobotsTxt(await response.text(), this.client.userAgent)
+        : { allow: [], disallow: [], sitemaps: [] };
+
+    if (!this.options.respectRobots) {
+      // Keep the sitemap locations but apply no rules
+      return { allow: [], disallow: [], sitemaps: rules.sitemaps };
+    }
+    return rules;
+  }
+
+  /**
+   * Reads the site's sitemaps and returns the page URLs they list
+   *
+   * Sitemaps named in robots.txt are read, falling back to /sitemap.xml.
+   * @private
+   */
+  private async loadSitemapPages(
+    root: string,
+    robots: RobotsRules | null
+  ): Promise<string[]> {
+    const pending = robots?.sitemaps.length
+      ? [...robots.sitemaps]
+      : [new URL("/sitemap.xml", root).href];
+    const visited = new Set<string>();
+    const pages: string[] = [];
+
+    while (pending.length > 0 && visited.size < MAX_SITEMAPS) {
+      const sitemapUrl = normalizeUrl(pending.shift()!, root);
+      if (!sitemapUrl || visited.has(sitemapUrl)) {
+        continue;
+      }
+      visited.add(sitemapUrl);
+
+      const response = await this.request(sitemapUrl);
+      if (!response || !response.ok) {
+        continue;
+      }
+
+      const sitemap = parseSitemap(await response.text());
+      pending.push(...sitemap.sitemaps);
+      for (const page of sitemap.pages) {
+        const url = normalizeUrl(page, sitemapUrl);
+        if (url) {
+          pages.push(url);
+        }
+      }
+    }
+
+    return pages;
+  }
+}
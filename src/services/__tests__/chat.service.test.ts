@@ -0,0 +1,194 @@
+/**
+ * Unit tests for ChatService
+ * Tests how conversation history reaches the condensation and answer prompts
+ */
+
+import { mockPrisma } from "../../__tests__/setup";
+
+mockPrisma();
+
+const { ChatService } = await import("../chat.service");
+
+/**
+ * Builds alternating question and answer messages of about 400 characters,
+ * oldest first
+ */
+function history(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `m${i}`,
+    conversationId: "conv-1",
+    role: i % 2 === 0 ? "user" : "assistant",
+    content: `turn ${i} ${"x".repeat(400)}`,
+    sources: [],
+    createdAt: new Date(i * 1000),
+  }));
+}
+
+describe("ChatService", () => {
+  let service: InstanceType<typeof ChatService>;
+  let prompts: { system: string; user: string }[];
+  let responses: string[];
+  let generateEmbedding: ReturnType<typeof jest.fn>;
+  let getRecentMessages: ReturnType<typeof jest.fn>;
+  let startConversation: ReturnType<typeof jest.fn>;
+  let appendExchange: ReturnType<typeof jest.fn>;
+
+  beforeEach(() => {
+    prompts = [];
+    responses = [];
+    generateEmbedding = jest.fn(async () => [0.1, 0.2]);
+    getRecentMessages = jest.fn(async () => []);
+    startConversation = jest.fn(async () => ({}));
+    appendExchange = jest.fn(async () => ({}));
+
+    service = new ChatService();
+    Object.assign(service, {
+      projectService: {
+        getVectorProject: async (id: string) => ({
+          id,
+          vectorCollection: null,
+        }),
+      },
+      vectorStore: { verifyEmbeddingFingerprint: async () => {} },
+      embeddingService: {
+        getFingerprint: () => "test/model",
+        generateEmbedding,
+      },
+      retriever: {
+        retrieve: async () => [
+          {
+            id: "chunk-1",
+            text: "Refunds are issued within 30 days.",
+            score: 0.9,
+            metadata: {
+              documentId: "d1",
+              filename: "policy.pdf",
+              chunkIndex: 0,
+            },
+          },
+        ],
+      },
+      reranker: null,
+      llmService: {
+        generateResponse: async (system: string, user: string) => {
+          prompts.push({ system, user });
+          return responses.shift() ?? "Within 30 days [1].";
+        },
+      },
+      conversationService: {
+        getConversationInProject: async (id: string) => ({ id }),
+        getRecentMessages,
+        startConversation,
+        appendExchange,
+      },
+    });
+  });
+
+  it("should start a conversation when none is given", async () => {
+    const response = await service.processQuery({
+      projectId: "p1",
+      message: "What is the refund policy?",
+    });
+
+    expect(response.conversationId).toEqual(expect.any(String));
+    // Without history the question is searched as asked
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0].user).not.toContain("Conversation so far");
+    expect(generateEmbedding).toHaveBeenCalledWith(
+      "What is the refund policy?"
+    );
+    expect(startConversation).toHaveBeenCalledWith(
+      response.conversationId,
+      "p1",
+      "What is the refund policy?",
+      "Within 30 days [1].",
+      expect.any(Array)
+    );
+    expect(appendExchange).not.toHaveBeenCalled();
+  });
+
+  it("should not save a new conversation left unanswered", async () => {
+    generateEmbedding.mockImplementation(async () => {
+      throw new Error("quota exceeded");
+    });
+
+    await expect(
+      service.processQuery({ projectId: "p1", message: "Refunds?" })
+    ).rejects.toThrow("Unable to process query embedding");
+    expect(startConversation).not.toHaveBeenCalled();
+  });
+
+  it("should search a follow-up condensed with the history", async () => {
+    getRecentMessages.mockImplementation(async () => history(2));
+    responses.push("How long do refunds of the premium plan take?");
+
+    await service.processQuery({
+      projectId: "p1",
+      message: "And for that one?",
+      conversationId: "conv-1",
+    });
+
+    expect(getRecentMessages).toHaveBeenCalledWith("conv-1", 10);
+    expect(prompts).toHaveLength(2);
+    expect(prompts[0].user).toContain("User: turn 0");
+    expect(prompts[0].user).toContain(
+      "Follow-up question: And for that one?"
+    );
+    expect(generateEmbedding).toHaveBeenCalledWith(
+      "How long do refunds of the premium plan take?"
+    );
+    // The answer prompt keeps the question as asked
+    expect(prompts[1].user).toContain("Question: And for that one?");
+  });
+
+  it("should drop the oldest turns beyond the history budget", async () => {
+    getRecentMessages.mockImplementation(async () => history(10));
+
+    await service.processQuery({
+      projectId: "p1",
+      message: "And then?",
+      conversationId: "conv-1",
+    });
+
+    // A quarter of the 12000-character budget holds the last 7 messages
+    for (const { user } of prompts) {
+      for (let turn = 0; turn < 3; turn++) {
+        expect(user).not.toContain(`turn ${turn} `);
+      }
+      for (let turn = 3; turn < 10; turn++) {
+        expect(user).toContain(`turn ${turn} `);
+      }
+    }
+    const answerPrompt = prompts[1].user;
+    expect(answerPrompt.indexOf("turn 3 ")).toBeLessThan(
+      answerPrompt.indexOf("turn 9 ")
+    );
+    expect(answerPrompt.indexOf("turn 9 ")).toBeLessThan(
+      answerPrompt.indexOf("Context:")
+    );
+  });
+
+  it("should search the original message if condensation fails", async () => {
+    getRecentMessages.mockImplementation(async () => history(2));
+    let calls = 0;
+    Object.assign(service, {
+      llmService: {
+        generateResponse: async () => {
+          if (calls++ === 0) {
+            throw new Error("LLM unavailable");
+          }
+          return "Within 30 days [1].";
+        },
+      },
+    });
+
+    const response = await service.processQuery({
+      projectId: "p1",
+      message: "And for that one?",
+      conversationId: "conv-1",
+    });
+
+    expect(generateEmbedding).toHaveBeenCalledWith("And for that one?");
+    expect(response.answer).toBe("Within 30 days [1].");
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Unit tests for ConversationService
+ * Tests titles, message history and forking against an in-memory Prisma fake
+ */
+
+import { mockPrisma } from "../../__tests__/setup";
+
+interface StoredConversation {
+  id: string;
+  projectId: string;
+  title: string;
+  pinned: boolean;
+  forkedFromId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface StoredMessage {
+  id: string;
+  conversationId: string;
+  role: string;
+  content: string;
+  sources: unknown;
+  createdAt: Date;
+}
+
+let conversations: StoredConversation[] = [];
+let messages: StoredMessage[] = [];
+let nextId = 0;
+
+function createMessage(data: Omit<StoredMessage, "id" | "sources"> & {
+  sources?: unknown;
+}): StoredMessage {
+  const message = { id: `m${++nextId}`, sources: null, ...data };
+  messages.push(message);
+  return message;
+}
+
+function byCreatedAt(direction: "asc" | "desc") {
+  const sign = direction === "asc" ? 1 : -1;
+  return (a: StoredMessage, b: StoredMessage) =>
+    sign * (a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+const prisma = {
+  conversation: {
+    create: async ({
+      data,
+    }: {
+      data: Partial<StoredConversation> & {
+        messages?: { create: Omit<StoredMessage, "id" | "conversationId">[] };
+      };
+    }) => {
+      const { messages: nested, ...fields } = data;
+      const now = new Date();
+      const conversation: StoredConversation = {
+        id: `c${++nextId}`,
+        projectId: "",
+        title: "",
+        pinned: false,
+        forkedFromId: null,
+        createdAt: now,
+        updatedAt: now,
+        ...fields,
+      };
+      conversations.push(conversation);
+      for (const message of nested?.create ?? []) {
+        createMessage({ ...message, conversationId: conversation.id });
+      }
+      return conversation;
+    },
+    findUnique: async ({
+      where,
+      include,
+    }: {
+      where: { id: string };
+      include?: { messages: unknown };
+    }) => {
+      const conversation = conversations.find((c) => c.id === where.id);
+      if (!conversation || !include) {
+        return conversation ?? null;
+      }
+      return {
+        ...conversation,
+        messages: messages
+          .filter((m) => m.conversationId === conversation.id)
+          .sort(byCreatedAt("asc")),
+      };
+    },
+    update: async ({
+      where,
+      data,
+    }: {
+      where: { id: string };
+      data: Partial<StoredConversation>;
+    }) => {
+      const conversation = conversations.find((c) => c.id === where.id);
+      if (!conversation) {
+        throw Object.assign(new Error("Record not found"), {
+          code: "P2025",
+        });
+      }
+      return Object.assign(conversation, data);
+    },
+  },
+  message: {
+    create: async ({ data }: { data: Omit<StoredMessage, "id"> }) =>
+      createMessage(data),
+    findMany: async ({
+      where,
+      take,
+    }: {
+      where: { conversationId: string };
+      take: number;
+    }) =>
+      messages
+        .filter((m) => m.conversationId === where.conversationId)
+        .sort(byCreatedAt("desc"))
+        .slice(0, take),
+  },
+  $transaction: (operations: Promise<unknown>[]) => Promise.all(operations),
+};
+mockPrisma(prisma);
+
+const { ConversationService } = await import("../conversation.service");
+const { NotFoundError, ValidationError } = await import("../../lib/errors");
+
+describe("ConversationService", () => {
+  let service: InstanceType<typeof ConversationService>;
+
+  beforeEach(() => {
+    conversations = [];
+    messages = [];
+    service = new ConversationService();
+  });
+
+  describe("createConversation", () => {
+    it("should title a conversation after its opening message", async () => {
+      const conversation = await service.createConversation(
+        "p1",
+        "  What is the\n  refund policy?  "
+      );
+
+      expect(conversation).toMatchObject({
+        projectId: "p1",
+        title: "What is the refund policy?",
+        pinned: false,
+      });
+    });
+
+    it("should truncate long titles to 80 characters", async () => {
+      const conversation = await service.createConversation(
+        "p1",
+        `${"word ".repeat(30)}end`
+      );
+
+      expect(conversation.title).toHaveLength(80);
+      expect(conversation.title.endsWith("word…")).toBe(true);
+    });
+  });
+
+  describe("startConversation", () => {
+    it("should save a conversation with its first exchange", async () => {
+      const answer = await service.startConversation(
+        "conv-1",
+        "p1",
+        "What is the refund policy?",
+        "Within 30 days.",
+        []
+      );
+
+      expect(answer).toMatchObject({
+        conversationId: "conv-1",
+        role: "assistant",
+        content: "Within 30 days.",
+      });
+      await expect(
+        service.getConversationInProject("conv-1", "p1")
+      ).resolves.toMatchObject({ title: "What is the refund policy?" });
+      const history = await service.getRecentMessages("conv-1", 10);
+      expect(history.map((m) => m.role)).toEqual(["user", "assistant"]);
+    });
+  });
+
+  describe("getConversationInProject", () => {
+    it("should not find a conversation of another project", async () => {
+      const conversation = await service.createConversation("p1", "Hello");
+
+      await expect(
+        service.getConversationInProject(conversation.id, "p1")
+      ).resolves.toMatchObject({ id: conversation.id });
+      await expect(
+        service.getConversationInProject(conversation.id, "p2")
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe("history", () => {
+    it("should store each exchange as a question and an answer", async () => {
+      const conversation = await service.createConversation("p1", "Q1");
+      const sources = [
+        {
+          marker: 1,
+          documentId: "d1",
+          filename: "a.pdf",
+          chunkIndex: 0,
+          score: 0.9,
+          snippet: "…",
+        },
+      ];
+
+      const answer = await service.appendExchange(
+        conversation.id,
+        "Q1",
+        "A1 [1]",
+        sources
+      );
+
+      expect(answer).toMatchObject({ role: "assistant", content: "A1 [1]" });
+      expect(answer.sources).toEqual(sources);
+      const history = await service.getRecentMessages(conversation.id, 10);
+      expect(history.map((m) => [m.role, m.content])).toEqual([
+        ["user", "Q1"],
+        ["assistant", "A1 [1]"],
+      ]);
+      expect(history[0].sources).toEqual([]);
+    });
+
+    it("should return the most recent messages, oldest first", async () => {
+      const conversation = await service.createConversation("p1", "Q1");
+      for (let turn = 1; turn <= 3; turn++) {
+        await service.appendExchange(
+          conversation.id,
+          `Q${turn}`,
+          `A${turn}`,
+          []
+        );
+        // Exchanges are timestamped to the millisecond
+        await new Promise((resolve) => setTimeout(resolve, 2));
+      }
+
+      const history = await service.getRecentMessages(conversation.id, 3);
+
+      expect(history.map((m) => m.content)).toEqual(["A2", "Q3", "A3"]);
+    });
+  });
+
+  describe("forkConversation", () => {
+    it("should copy the messages up to the given one", async () => {
+      const source = await service.createConversation("p1", "Q1");
+      await service.appendExchange(source.id, "Q1", "A1", []);
+      await new Promise((resolve) => setTimeout(resolve, 2));
+      await service.appendExchange(source.id, "Q2", "A2", []);
+      const [, firstAnswer] = await service.getRecentMessages(source.id, 4);
+
+      const fork = await service.forkConversation(source.id, firstAnswer.id);
+
+      expect(fork).toMatchObject({
+        projectId: "p1",
+        title: "Q1 (fork)",
+        forkedFromId: source.id,
+      });
+      expect(fork.messages.map((m) => m.content)).toEqual(["Q1", "A1"]);
+      expect(await service.getRecentMessages(source.id, 10)).toHaveLength(4);
+    });
+
+    it("should refuse a message of another conversation", async () => {
+      const source = await service.createConversation("p1", "Q1");
+      const other = await service.createConversation("p1", "Other");
+      const foreign = await service.appendExchange(other.id, "Q", "A", []);
+
+      await expect(
+        service.forkConversation(source.id, foreign.id)
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  it("should report renaming a missing conversation as not found", async () => {
+    await expect(
+      service.updateConversation("missing", { title: "New" })
+    ).rejects.toThrow(NotFoundError);
+  });
+});
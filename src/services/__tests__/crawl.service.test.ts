@@ -0,0 +1,162 @@
+/**
+ * Unit tests for CrawlService
+ * Tests that a crawl job queues each page exactly once, across retries
+ */
+
+import { mockPrisma } from "../../__tests__/setup";
+
+interface StoredDocument {
+  id: string;
+  filename: string;
+  crawlId: string | null;
+}
+
+interface StoredJob {
+  documentId: string;
+  type: string;
+}
+
+let documents: StoredDocument[] = [];
+let jobs: StoredJob[] = [];
+let failEnqueueFor: string | null = null;
+
+const client = {
+  document: {
+    create: async ({ data }: { data: Omit<StoredDocument, "id"> }) => {
+      const document = {
+        id: `doc-${documents.length}`,
+        filename: data.filename,
+        crawlId: data.crawlId,
+      };
+      documents.push(document);
+      return { id: document.id };
+    },
+  },
+  ingestionJob: {
+    create: async ({ data }: { data: StoredJob }) => {
+      const document = documents.find(({ id }) => id === data.documentId);
+      if (document?.filename === failEnqueueFor) {
+        throw new Error("connection lost");
+      }
+      jobs.push({ documentId: data.documentId, type: data.type });
+      return data;
+    },
+  },
+};
+
+mockPrisma({
+  ...client,
+  document: {
+    ...client.document,
+    findUnique: async () => ({
+      ...documents[0],
+      syncIntervalMinutes: null,
+      crawl: {
+        id: "crawl-1",
+        projectId: "project-1",
+        rootUrl: "https://example.com/",
+        maxDepth: 2,
+        maxPages: 10,
+        scope: "domain",
+        respectRobots: true,
+        useSitemap: false,
+      },
+    }),
+    findMany: async ({ where }: { where: { crawlId?: string } }) =>
+      where.crawlId
+        ? documents.filter(
+            (document) =>
+              document.crawlId === where.crawlId &&
+              !jobs.some(
+                (job) =>
+                  job.documentId === document.id &&
+                  job.type === "process_document"
+              )
+          )
+        : documents,
+  },
+  crawl: { update: async () => ({}) },
+  // Rolls back the documents and jobs written by a failed transaction
+  $transaction: async (fn: (tx: typeof client) => Promise<unknown>) => {
+    const snapshot = { documents: [...documents], jobs: [...jobs] };
+    try {
+      return await fn(client);
+    } catch (error) {
+      ({ documents, jobs } = snapshot);
+      throw error;
+    }
+  },
+});
+
+const { CrawlService } = await import("../crawl.service");
+const { WebCrawler } = await import("../../lib/web-crawler");
+
+const PAGES = [
+  "https://example.com/",
+  "https://example.com/a",
+  "https://example.com/b",
+];
+
+function processingJobs(filename: string): number {
+  const document = documents.find((d) => d.filename === filename);
+  return jobs.filter(
+    (job) => job.documentId === document?.id && job.type === "process_document"
+  ).length;
+}
+
+describe("CrawlService.runCrawl", () => {
+  let crawl: ReturnType<typeof jest.spyOn>;
+
+  beforeEach(() => {
+    documents = [
+      { id: "root", filename: "https://example.com/", crawlId: "crawl-1" },
+    ];
+    jobs = [{ documentId: "root", type: "crawl_site" }];
+    failEnqueueFor = null;
+    crawl = jest
+      .spyOn(WebCrawler.prototype, "crawl")
+      .mockImplementation(async () =>
+        PAGES.map((url, depth) => ({ url, depth }))
+      );
+  });
+
+  afterEach(() => {
+    crawl.mockRestore();
+  });
+
+  it("should queue the root and every new page once", async () => {
+    await new CrawlService().runCrawl("root");
+
+    for (const url of PAGES) {
+      expect(processingJobs(url)).toBe(1);
+    }
+  });
+
+  it("should not keep a page whose job cannot be queued", async () => {
+    failEnqueueFor = "https://example.com/b";
+
+    await expect(new CrawlService().runCrawl("root")).rejects.toThrow(
+      "connection lost"
+    );
+    expect(documents.map((d) => d.filename)).not.toContain(
+      "https://example.com/b"
+    );
+  });
+
+  it("should queue only what an earlier attempt left unqueued", async () => {
+    // An earlier attempt queued the root, then created a page it never
+    // queued
+    jobs.push({ documentId: "root", type: "process_document" });
+    documents.push({
+      id: "orphan",
+      filename: "https://example.com/a",
+      crawlId: "crawl-1",
+    });
+
+    await new CrawlService().runCrawl("root");
+
+    for (const url of PAGES) {
+      expect(processingJobs(url)).toBe(1);
+    }
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Unit tests for DocumentService
+ * Tests how re-syncs of URL documents decide what to re-process, how
+ * processing reuses the embeddings of chunks other documents share, and
+ * what happens to a document whose job cannot be queued
+ */
+
+import { mockPrisma } from "../../__tests__/setup";
+
+let storedDocument: Record<string, unknown> | null = null;
+const update = jest.fn(async () => storedDocument);
+mockPrisma({
+  document: {
+    findUnique: async () => storedDocument,
+    update,
+  },
+});
+
+const { DocumentService } = await import("../document.service");
+const { VectorStore } = await import("../../lib/vector-store");
+const { MemoryVectorBackend } = await import("../../lib/vector-backend-memory");
+const { chunkFingerprint } = await import("../../lib/text-chunker");
+
+function urlDocument(status: string) {
+  return {
+    id: "doc-1",
+    projectId: "project-1",
+    filename: "https://example.com/page",
+    fileType: "url",
+    status,
+    contentHash: null,
+    etag: '"v1"',
+    lastModified: null,
+  };
+}
+
+describe("DocumentService.syncDocument", () => {
+  let service: InstanceType<typeof DocumentService>;
+  let fetchPage: ReturnType<typeof jest.fn>;
+  let processDocument: ReturnType<typeof jest.fn>;
+
+  beforeEach(() => {
+    update.mockClear();
+    fetchPage = jest.fn(async () => ({ markdown: "# Page", etag: '"v2"' }));
+    processDocument = jest.fn(async () => {});
+    service = new DocumentService();
+    Object.assign(service, {
+      textExtractor: { fetchPage },
+      processDocument,
+    });
+  });
+
+  it("should skip a document that is waiting to be processed", async () => {
+    storedDocument = urlDocument("pending");
+
+    expect(await service.syncDocument("doc-1")).toBe("skipped");
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+
+  it("should re-process a document whose previous sync failed", async () => {
+    // A rescheduled re-sync finds the document as its failed attempt left it
+    storedDocument = urlDocument("failed");
+
+    expect(await service.syncDocument("doc-1")).toBe("updated");
+    // Without a conditional request, since the stored content is unusable
+    expect(fetchPage).toHaveBeenCalledWith("https://example.com/page", {});
+    expect(processDocument).toHaveBeenCalledTimes(1);
+  });
+
+  it("should keep a ready document ready when re-indexing fails", async () => {
+    storedDocument = urlDocument("ready");
+    processDocument.mockImplementationOnce(async () => {
+      throw new Error("Embedding API quota exceeded");
+    });
+
+    await expect(service.syncDocument("doc-1")).rejects.toThrow(
+      "Embedding API quota exceeded"
+    );
+    // Its previous content is still indexed and searchable
+    expect(update).toHaveBeenCalledWith({
+      where: { id: "doc-1" },
+      data: expect.objectContaining({
+        status: "ready",
+        errorMessage: null,
+        lastSyncError: "Embedding API quota exceeded",
+      }),
+    });
+  });
+
+  it("should leave a failed document failed when sync fails", async () => {
+    storedDocument = urlDocument("failed");
+    processDocument.mockImplementationOnce(async () => {
+      throw new Error("Embedding API quota exceeded");
+    });
+
+    await expect(service.syncDocument("doc-1")).rejects.toThrow();
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("should only record the sync of an unchanged ready document", async () => {
+    storedDocument = urlDocument("ready");
+    fetchPage.mockImplementationOnce(async () => null);
+
+    expect(await service.syncDocument("doc-1")).toBe("unchanged");
+    expect(processDocument).not.toHaveBeenCalled();
+    expect(update).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("DocumentService.processDocument", () => {
+  const project = {
+    id: "project-1",
+    vectorCollection: null,
+    chunkingStrategy: "recursive",
+    chunkSize: 40,
+    chunkOverlap: 0,
+  };
+  let service: InstanceType<typeof DocumentService>;
+  let vectorStore: InstanceType<typeof VectorStore>;
+  let generateBatchEmbeddings: ReturnType<typeof jest.fn>;
+  let findFingerprints: ReturnType<typeof jest.fn>;
+  let indexDocument: ReturnType<typeof jest.fn>;
+
+  beforeEach(async () => {
+    update.mockClear();
+    storedDocument = {
+      id: "doc-1",
+      projectId: project.id,
+      filename: "notes.txt",
+      fileType: "txt",
+      status: "pending",
+      uploadedAt: new Date("2026-10-01"),
+      tags: [],
+      project,
+    };
+
+    vectorStore = new VectorStore(new MemoryVectorBackend());
+    // Another document already holds the shared text
+    await vectorStore.addDocuments(project, [
+      {
+        id: "doc-0_0",
+        text: "Shared footer on every page.",
+        embedding: [0.5, 0.5],
+        metadata: { documentId: "doc-0" },
+      },
+    ]);
+
+    generateBatchEmbeddings = jest.fn(async (texts: string[]) =>
+      texts.map(() => [1, 0])
+    );
+    findFingerprints = jest.fn(
+      async () =>
+        new Map([[chunkFingerprint("shared FOOTER on every page"), "doc-0_0"]])
+    );
+    indexDocument = jest.fn(async () => {});
+    service = new DocumentService();
+    Object.assign(service, {
+      vectorStore,
+      keywordIndex: { findFingerprints, indexDocument },
+      embeddingService: {
+        getFingerprint: () => "google:text-embedding-004:768",
+        generateBatchEmbeddings,
+      },
+    });
+  });
+
+  it("should reuse the embedding of a chunk another document has", async () => {
+    await service.processDocument(
+      "doc-1",
+      Buffer.from("New text in this document.\n\nShared footer on every page.")
+    );
+
+    // Only the new text is embedded
+    expect(generateBatchEmbeddings).toHaveBeenCalledWith([
+      "New text in this document.",
+    ]);
+    // The document keeps its own copy of the shared chunk
+    const embeddings = await vectorStore.getEmbeddings(project, [
+      "doc-1_0",
+      "doc-1_1",
+    ]);
+    expect(embeddings.get("doc-1_0")).toEqual([1, 0]);
+    expect(embeddings.get("doc-1_1")).toEqual([0.5, 0.5]);
+    expect(indexDocument.mock.calls[0][2][1]).toMatchObject({
+      id: "doc-1_1",
+      fingerprint: chunkFingerprint("Shared footer on every page."),
+    });
+    expect(update).toHaveBeenLastCalledWith(
+      expect.objectContaining({ data: { status: "ready" } })
+    );
+  });
+
+  it("should embed every chunk when the lookup fails", async () => {
+    findFingerprints.mockImplementationOnce(async () => {
+      throw new Error("connection refused");
+    });
+    jest.spyOn(console, "warn").mockImplementationOnce(() => {});
+
+    await service.processDocument(
+      "doc-1",
+      Buffer.from("New text in this document.\n\nShared footer on every page.")
+    );
+
+    expect(generateBatchEmbeddings).toHaveBeenCalledWith([
+      "New text in this document.",
+      "Shared footer on every page.",
+    ]);
+  });
+});
+
+describe("DocumentService.queueProcessing", () => {
+  beforeEach(() => {
+    update.mockClear();
+  });
+
+  it("should fail a document whose job cannot be queued", async () => {
+    const service = new DocumentService();
+    Object.assign(service, {
+      ingestionQueue: {
+        enqueue: async () => {
+          throw new Error("connection lost");
+        },
+      },
+    });
+
+    await expect(service.queueProcessing("doc-1")).rejects.toThrow(
+      "connection lost"
+    );
+    // Left pending, it would never be processed nor could be reprocessed
+    expect(update).toHaveBeenCalledWith({
+      where: { id: "doc-1" },
+      data: {
+        status: "failed",
+        errorMessage: "Failed to queue for processing: connection lost",
+      },
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for the ingestion worker
+ * Tests how a job's outcome settles the job and its document
+ */
+
+import { mockPrisma } from "../../__tests__/setup";
+
+const updateMany = jest.fn(async () => ({ count: 1 }));
+mockPrisma({ document: { updateMany } });
+
+let runError: Error | null = null;
+const runStep = jest.fn(async () => {
+  if (runError) {
+    throw runError;
+  }
+});
+
+let nextJob: Record<string, unknown> | null = null;
+const complete = jest.fn(async () => {});
+const fail = jest.fn(async () => "queued");
+
+const { IngestionWorkerService } = await import(
+  "../ingestion-worker.service"
+);
+const { NotFoundError } = await import("../../lib/errors");
+
+function createWorker() {
+  const worker = new IngestionWorkerService();
+  Object.assign(worker, {
+    queue: {
+      claimNext: async () => nextJob,
+      heartbeat: async () => true,
+      complete,
+      fail,
+    },
+    documentService: { processDocument: runStep, syncDocument: runStep },
+    crawlService: { runCrawl: runStep },
+  });
+  return worker;
+}
+
+function job(type: string) {
+  return { id: "job-1", documentId: "doc-1", type, attempts: 1 };
+}
+
+describe("IngestionWorkerService.processNextJob", () => {
+  beforeEach(() => {
+    runError = null;
+    nextJob = null;
+    for (const fn of [updateMany, runStep, complete, fail]) {
+      fn.mockClear();
+    }
+  });
+
+  it("should report when there is no job to run", async () => {
+    const worker = createWorker();
+
+    expect(await worker.processNextJob()).toBe(false);
+    expect(runStep).not.toHaveBeenCalled();
+  });
+
+  it("should complete a job whose step succeeds", async () => {
+    nextJob = job("process_document");
+    const worker = createWorker();
+
+    expect(await worker.processNextJob()).toBe(true);
+    expect(runStep).toHaveBeenCalledWith("doc-1");
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(fail).not.toHaveBeenCalled();
+  });
+
+  it("should fail a job permanently on a non-retryable error", async () => {
+    nextJob = job("process_document");
+    runError = new NotFoundError("Document with id doc-1 not found");
+    const worker = createWorker();
+
+    await worker.processNextJob();
+
+    expect(fail).toHaveBeenCalledWith(
+      nextJob,
+      expect.any(String),
+      runError,
+      false
+    );
+    expect(updateMany).not.toHaveBeenCalled();
+  });
+
+  it("should set a rescheduled processing job's document pending", async () => {
+    nextJob = job("process_document");
+    runError = new Error("Embedding request timed out");
+    const worker = createWorker();
+
+    await worker.processNextJob();
+
+    expect(fail).toHaveBeenCalledWith(
+      nextJob,
+      expect.any(String),
+      runError,
+      true
+    );
+    expect(updateMany).toHaveBeenCalledWith({
+      where: { id: "doc-1", status: "failed" },
+      data: { status: "pending" },
+    });
+  });
+
+  it("should leave a rescheduled re-sync's document failed", async () => {
+    // A pending document would make the retried sync skip it, leaving
+    // nothing queued to ever process it again
+    nextJob = job("sync_document");
+    runError = new Error("Embedding request timed out");
+    const worker = createWorker();
+
+    await worker.processNextJob();
+
+    expect(fail).toHaveBeenCalledWith(
+      nextJob,
+      expect.any(String),
+      runError,
+      true
+    );
+    expect(updateMany).not.toHaveBeenCalled();
+  });
+});
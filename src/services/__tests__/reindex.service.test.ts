@@ -0,0 +1,400 @@
+/**
+ * Unit tests for ReindexService
+ * Runs re-indexes on the in-memory vector backend against a Prisma fake
+ * whose writes, like Prisma's, only run when awaited or in a transaction
+ */
+
+import { mockPrisma } from "../../__tests__/setup";
+
+interface StoredProject {
+  id: string;
+  vectorCollection: string | null;
+}
+
+interface StoredReindex {
+  id: string;
+  projectId: string;
+  fromCollection: string;
+  toCollection: string;
+  embeddingFingerprint: string;
+  status: string;
+  totalRecords: number;
+  processedRecords: number;
+  errorMessage: string | null;
+  leaseExpiresAt: Date | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+const UPLOADED_AT = new Date("2026-01-01T00:00:00Z");
+
+let projects: StoredProject[] = [];
+let reindexes: StoredReindex[] = [];
+let failTransaction = false;
+let nextId = 0;
+
+/**
+ * Defers a write until it is awaited, so one passed to $transaction only
+ * runs if the whole transaction does
+ */
+function lazy<T>(run: () => T) {
+  return {
+    run,
+    then<R>(resolve: (value: T) => R, reject?: (error: unknown) => R) {
+      return Promise.resolve().then(run).then(resolve, reject);
+    },
+  };
+}
+
+function findOrThrow<T extends { id: string }>(rows: T[], id: string): T {
+  const row = rows.find((candidate) => candidate.id === id);
+  if (!row) {
+    throw Object.assign(new Error("Record not found"), { code: "P2025" });
+  }
+  return row;
+}
+
+const prisma = {
+  project: {
+    findUnique: async ({ where }: { where: { id: string } }) =>
+      projects.find((project) => project.id === where.id) ?? null,
+    update: ({
+      where,
+      data,
+    }: {
+      where: { id: string };
+      data: Partial<StoredProject>;
+    }) => lazy(() => Object.assign(findOrThrow(projects, where.id), data)),
+  },
+  document: {
+    findMany: async ({ where }: { where: { id: { in: string[] } } }) =>
+      where.id.in.map((id) => ({
+        id,
+        fileType: "pdf",
+        uploadedAt: UPLOADED_AT,
+      })),
+  },
+  reindex: {
+    findFirst: async ({
+      where,
+    }: {
+      where: { projectId: string; status?: string };
+    }) =>
+      reindexes
+        .filter(
+          (reindex) =>
+            reindex.projectId === where.projectId &&
+            (!where.status || reindex.status === where.status)
+        )
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0] ??
+      null,
+    create: async ({ data }: { data: Partial<StoredReindex> }) => {
+      const reindex: StoredReindex = {
+        id: `r${++nextId}`,
+        projectId: "",
+        fromCollection: "",
+        toCollection: "",
+        embeddingFingerprint: "",
+        status: "running",
+        totalRecords: 0,
+        processedRecords: 0,
+        errorMessage: null,
+        leaseExpiresAt: null,
+        createdAt: new Date(Date.now() + nextId),
+        completedAt: null,
+        ...data,
+      };
+      reindexes.push(reindex);
+      return reindex;
+    },
+    update: ({
+      where,
+      data,
+    }: {
+      where: { id: string };
+      data: Partial<StoredReindex>;
+    }) => lazy(() => Object.assign(findOrThrow(reindexes, where.id), data)),
+  },
+  // Advisory locks have nothing to serialize in a single test
+  $executeRaw: async () => 1,
+  $transaction: async (
+    operations:
+      | { run: () => unknown }[]
+      | ((tx: unknown) => Promise<unknown>)
+  ): Promise<unknown> => {
+    if (typeof operations === "function") {
+      return operations(prisma);
+    }
+    if (failTransaction) {
+      throw new Error("Connection lost");
+    }
+    return operations.map((operation) => operation.run());
+  },
+};
+mockPrisma(prisma);
+
+const { ReindexService } = await import("../reindex.service");
+const { MemoryVectorBackend } = await import("../../lib/vector-backend-memory");
+const { VectorStore } = await import("../../lib/vector-store");
+const { ConflictError, LLMError, VectorStoreError } = await import(
+  "../../lib/errors"
+);
+
+const OLD_MODEL = "gemini/embedding-001";
+const NEW_MODEL = "local/bge-small";
+
+/**
+ * Records a running re-index of p1 to the new model
+ */
+function runningReindex(overrides: Partial<StoredReindex>): StoredReindex {
+  const reindex: StoredReindex = {
+    id: `r${++nextId}`,
+    projectId: "p1",
+    fromCollection: "p1",
+    toCollection: "p1_shadow",
+    embeddingFingerprint: NEW_MODEL,
+    status: "running",
+    totalRecords: 0,
+    processedRecords: 0,
+    errorMessage: null,
+    leaseExpiresAt: null,
+    createdAt: new Date(),
+    completedAt: null,
+    ...overrides,
+  };
+  reindexes.push(reindex);
+  return reindex;
+}
+
+describe("ReindexService", () => {
+  let service: InstanceType<typeof ReindexService>;
+  let backend: InstanceType<typeof MemoryVectorBackend>;
+  let vectorStore: InstanceType<typeof VectorStore>;
+  let generateBatchEmbeddings: ReturnType<typeof jest.fn>;
+  let backfillDocumentMetadata: ReturnType<typeof jest.fn>;
+  const project = { id: "p1", vectorCollection: null };
+
+  beforeEach(async () => {
+    projects = [{ ...project }];
+    reindexes = [];
+    failTransaction = false;
+
+    backend = new MemoryVectorBackend();
+    vectorStore = new VectorStore(backend);
+    await vectorStore.recordEmbeddingFingerprint(project, OLD_MODEL);
+    await vectorStore.addDocuments(
+      project,
+      ["c0", "c1", "c2"].map((id) => ({
+        id,
+        text: `Text ${id}`,
+        embedding: [1, 0],
+        metadata: { documentId: "d1" },
+      }))
+    );
+
+    generateBatchEmbeddings = jest.fn(async (texts: string[]) =>
+      texts.map(() => [0, 1])
+    );
+    backfillDocumentMetadata = jest.fn(async () => 0);
+    service = new ReindexService();
+    Object.assign(service, {
+      vectorStore,
+      embeddingService: {
+        getFingerprint: () => NEW_MODEL,
+        generateBatchEmbeddings,
+      },
+      keywordIndex: { backfillDocumentMetadata },
+    });
+  });
+
+  describe("needsReindex", () => {
+    it("should want a project indexed with another model", async () => {
+      expect(await service.needsReindex("p1")).toBe(true);
+    });
+
+    it("should not want a project without vectors", async () => {
+      projects.push({ id: "p2", vectorCollection: null });
+
+      expect(await service.needsReindex("p2")).toBe(false);
+    });
+
+    it("should not want a project on the configured model", async () => {
+      await service.reindexProject("p1");
+
+      expect(await service.needsReindex("p1")).toBe(false);
+    });
+  });
+
+  describe("reindexProject", () => {
+    it("should switch the project to a re-embedded collection", async () => {
+      const progress: number[] = [];
+
+      const reindex = await service.reindexProject("p1", (update) =>
+        progress.push(update.processedRecords)
+      );
+
+      expect(reindex).toMatchObject({
+        fromCollection: "p1",
+        status: "completed",
+        embeddingFingerprint: NEW_MODEL,
+        processedRecords: 3,
+        totalRecords: 3,
+      });
+      expect(reindex.toCollection).toStartWith("p1_");
+      expect(progress).toEqual([3]);
+      // The swap and the completion were written together
+      expect(projects[0].vectorCollection).toBe(reindex.toCollection);
+      expect(reindexes[0].status).toBe("completed");
+
+      const swapped = projects[0];
+      expect(await vectorStore.getEmbeddingFingerprint(swapped)).toBe(
+        NEW_MODEL
+      );
+      const [result] = await vectorStore.similaritySearch(swapped, [0, 1]);
+      expect(result.score).toBeCloseTo(1);
+      expect(await backend.collectionExists("p1")).toBe(false);
+    });
+
+    it("should fill in document attributes older chunks lack", async () => {
+      // Written before retrieval filters: no fileType or uploadedAt
+      await backend.upsert("p1", [
+        {
+          id: "c3",
+          text: "Text c3",
+          embedding: [1, 0],
+          metadata: { documentId: "d2", fileType: "docx" },
+        },
+      ]);
+
+      const reindex = await service.reindexProject("p1");
+
+      const records = await backend.get(reindex.toCollection, {
+        limit: 10,
+        offset: 0,
+      });
+      expect(records[0].metadata).toEqual({
+        documentId: "d1",
+        fileType: "pdf",
+        uploadedAt: UPLOADED_AT.getTime(),
+      });
+      // Keys a chunk already has are kept
+      expect(records[3].metadata).toMatchObject({
+        fileType: "docx",
+        uploadedAt: UPLOADED_AT.getTime(),
+      });
+      expect(backfillDocumentMetadata).toHaveBeenCalledWith("p1");
+    });
+
+    it("should drop the shadow collection if re-embedding fails", async () => {
+      generateBatchEmbeddings.mockImplementation(async () => {
+        throw new LLMError("Embedding provider unavailable");
+      });
+
+      await expect(service.reindexProject("p1")).rejects.toThrow(LLMError);
+
+      const [failed] = reindexes;
+      expect(failed).toMatchObject({
+        status: "failed",
+        errorMessage: "Embedding provider unavailable",
+      });
+      expect(await backend.collectionExists(failed.toCollection)).toBe(false);
+      expect(projects[0].vectorCollection).toBeNull();
+      expect(await vectorStore.getDocumentCount(project)).toBe(3);
+    });
+
+    it("should keep the old collection if the swap fails", async () => {
+      failTransaction = true;
+
+      await expect(service.reindexProject("p1")).rejects.toThrow(
+        "Connection lost"
+      );
+
+      const [failed] = reindexes;
+      expect(failed.status).toBe("failed");
+      expect(await backend.collectionExists(failed.toCollection)).toBe(false);
+      expect(projects[0].vectorCollection).toBeNull();
+      expect(await vectorStore.getEmbeddingFingerprint(project)).toBe(
+        OLD_MODEL
+      );
+    });
+
+    it("should resume an interrupted re-index from its progress", async () => {
+      // An earlier run copied the first two records, then the process died
+      // and its lease ran out
+      const running = runningReindex({
+        toCollection: "p1_resumed",
+        processedRecords: 2,
+        totalRecords: 3,
+        leaseExpiresAt: new Date(Date.now() - 1000),
+      });
+      await backend.upsert(
+        "p1_resumed",
+        (await backend.get("p1", { limit: 2, offset: 0 })).map((chunk) => ({
+          ...chunk,
+          embedding: [0, 1],
+        }))
+      );
+
+      const reindex = await service.reindexProject("p1");
+
+      expect(reindex).toMatchObject({ id: running.id, status: "completed" });
+      expect(generateBatchEmbeddings).toHaveBeenCalledTimes(1);
+      expect(generateBatchEmbeddings).toHaveBeenCalledWith(["Text c2"]);
+      expect(projects[0].vectorCollection).toBe("p1_resumed");
+      expect(await backend.count("p1_resumed")).toBe(3);
+    });
+
+    it("should not take over a re-index another process runs", async () => {
+      const running = runningReindex({
+        toCollection: "p1_leased",
+        processedRecords: 1,
+        leaseExpiresAt: new Date(Date.now() + 60_000),
+      });
+      await backend.createCollection("p1_leased");
+
+      await expect(service.reindexProject("p1")).rejects.toThrow(
+        ConflictError
+      );
+
+      expect(reindexes).toEqual([running]);
+      expect(running).toMatchObject({ status: "running", processedRecords: 1 });
+      expect(await backend.collectionExists("p1_leased")).toBe(true);
+      expect(generateBatchEmbeddings).not.toHaveBeenCalled();
+    });
+
+    it("should roll back a re-index to another model first", async () => {
+      const stale = runningReindex({
+        toCollection: "p1_stale",
+        embeddingFingerprint: "local/other",
+        processedRecords: 1,
+      });
+      await backend.createCollection("p1_stale");
+
+      const reindex = await service.reindexProject("p1");
+
+      expect(reindex.id).not.toBe(stale.id);
+      expect(stale.status).toBe("failed");
+      expect(await backend.collectionExists("p1_stale")).toBe(false);
+      // The new re-index starts over rather than at the stale progress
+      expect(generateBatchEmbeddings).toHaveBeenCalledWith([
+        "Text c0",
+        "Text c1",
+        "Text c2",
+      ]);
+    });
+
+    it("should fail if documents change while copying", async () => {
+      generateBatchEmbeddings.mockImplementation(async (texts: string[]) => {
+        await vectorStore.deleteDocumentVectors(project, "d1");
+        return texts.map(() => [0, 1]);
+      });
+
+      await expect(service.reindexProject("p1")).rejects.toThrow(
+        VectorStoreError
+      );
+      expect(reindexes[0].status).toBe("failed");
+      expect(projects[0].vectorCollection).toBeNull();
+    });
+  });
+
+});
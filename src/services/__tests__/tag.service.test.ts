@@ -0,0 +1,204 @@
+/**
+ * Unit tests for TagService
+ * Tests tag assignment and how tag changes reach the stored chunks, against
+ * the in-memory vector backend
+ */
+
+import { mockPrisma } from "../../__tests__/setup";
+
+const project = { id: "project-1", vectorCollection: null };
+
+interface StoredTag {
+  id: string;
+  projectId: string;
+  name: string;
+  createdAt: Date;
+}
+
+let tags: StoredTag[] = [];
+let assignments: { documentId: string; tagId: string }[] = [];
+
+function findTag(id: string) {
+  const tag = tags.find((tag) => tag.id === id);
+  return tag ? { ...tag, project } : null;
+}
+
+mockPrisma({
+  tag: {
+    create: async ({ data }: { data: { projectId: string; name: string } }) => {
+      if (tags.some((tag) => tag.name === data.name)) {
+        throw Object.assign(new Error("Unique constraint"), { code: "P2002" });
+      }
+      const tag = { ...data, id: `tag-${tags.length}`, createdAt: new Date() };
+      tags.push(tag);
+      return tag;
+    },
+    findUnique: async ({ where }: { where: { id: string } }) =>
+      findTag(where.id),
+    delete: async ({ where }: { where: { id: string } }) => {
+      tags = tags.filter((tag) => tag.id !== where.id);
+      assignments = assignments.filter(({ tagId }) => tagId !== where.id);
+    },
+  },
+  documentTag: {
+    findMany: async ({ where }: { where: { tagId: string } }) =>
+      assignments.filter(({ tagId }) => tagId === where.tagId),
+    upsert: async ({
+      create,
+    }: {
+      create: { documentId: string; tagId: string };
+    }) => {
+      if (
+        !assignments.some(
+          ({ documentId, tagId }) =>
+            documentId === create.documentId && tagId === create.tagId
+        )
+      ) {
+        assignments.push(create);
+      }
+    },
+    deleteMany: async ({
+      where,
+    }: {
+      where: { documentId: string; tagId: string };
+    }) => {
+      assignments = assignments.filter(
+        ({ documentId, tagId }) =>
+          documentId !== where.documentId || tagId !== where.tagId
+      );
+    },
+  },
+  document: {
+    findUnique: async ({ where }: { where: { id: string } }) => ({
+      id: where.id,
+      projectId: project.id,
+      project,
+      tags: assignments
+        .filter(({ documentId }) => documentId === where.id)
+        .map(({ tagId }) => ({ tag: findTag(tagId) }))
+        .sort((a, b) => a.tag!.name.localeCompare(b.tag!.name)),
+    }),
+  },
+});
+
+const { TagService } = await import("../tag.service");
+const { VectorStore, activeCollectionName } = await import(
+  "../../lib/vector-store"
+);
+const { MemoryVectorBackend } = await import("../../lib/vector-backend-memory");
+const { ConflictError } = await import("../../lib/errors");
+
+describe("TagService", () => {
+  let backend: InstanceType<typeof MemoryVectorBackend>;
+  let updateDocumentMetadata: ReturnType<typeof jest.fn>;
+  let service: InstanceType<typeof TagService>;
+
+  async function chunkMetadata(documentId: string) {
+    const chunks = await backend.get(activeCollectionName(project), {
+      limit: 10,
+      offset: 0,
+      where: { documentId },
+    });
+    return chunks.map((chunk) => chunk.metadata);
+  }
+
+  beforeEach(async () => {
+    tags = [];
+    assignments = [];
+    backend = new MemoryVectorBackend();
+    const vectorStore = new VectorStore(backend);
+    for (const documentId of ["doc-1", "doc-2"]) {
+      await vectorStore.addDocuments(
+        project,
+        [0, 1].map((i) => ({
+          id: `${documentId}_${i}`,
+          text: `Chunk ${i}`,
+          embedding: [1, 0],
+          metadata: { documentId, chunkIndex: i },
+        }))
+      );
+    }
+
+    updateDocumentMetadata = jest.fn(async () => {});
+    service = new TagService();
+    Object.assign(service, {
+      vectorStore,
+      keywordIndex: { updateDocumentMetadata },
+    });
+  });
+
+  it("should reject a second tag with the same name", async () => {
+    const tag = await service.createTag(project.id, "manuals");
+
+    expect(tag).toMatchObject({ projectId: project.id, name: "manuals" });
+    await expect(service.createTag(project.id, "manuals")).rejects.toThrow(
+      ConflictError
+    );
+  });
+
+  it("should tag only the chunks of the tagged document", async () => {
+    const tag = await service.createTag(project.id, "manuals");
+
+    const documentTags = await service.addTagToDocument("doc-1", tag.id);
+
+    expect(documentTags.map(({ name }) => name)).toEqual(["manuals"]);
+    for (const metadata of await chunkMetadata("doc-1")) {
+      expect(metadata).toMatchObject({ "tag:manuals": true });
+    }
+    for (const metadata of await chunkMetadata("doc-2")) {
+      expect(metadata).not.toHaveProperty("tag:manuals");
+    }
+    expect(updateDocumentMetadata).toHaveBeenCalledWith("doc-1", {
+      "tag:manuals": true,
+    });
+  });
+
+  it("should untag the chunks of an untagged document", async () => {
+    const tag = await service.createTag(project.id, "manuals");
+    await service.addTagToDocument("doc-1", tag.id);
+
+    expect(await service.removeTagFromDocument("doc-1", tag.id)).toEqual([]);
+    for (const metadata of await chunkMetadata("doc-1")) {
+      expect(metadata).toMatchObject({ "tag:manuals": false });
+    }
+    expect(updateDocumentMetadata).toHaveBeenLastCalledWith("doc-1", {
+      "tag:manuals": false,
+    });
+  });
+
+  it("should untag every document's chunks on delete", async () => {
+    const tag = await service.createTag(project.id, "manuals");
+    await service.addTagToDocument("doc-1", tag.id);
+    await service.addTagToDocument("doc-2", tag.id);
+
+    await service.deleteTag(tag.id);
+
+    expect(tags).toEqual([]);
+    for (const documentId of ["doc-1", "doc-2"]) {
+      for (const metadata of await chunkMetadata(documentId)) {
+        expect(metadata).toMatchObject({ "tag:manuals": false });
+      }
+    }
+  });
+
+  it("should keep the tag for a retry when untagging fails", async () => {
+    const tag = await service.createTag(project.id, "manuals");
+    await service.addTagToDocument("doc-1", tag.id);
+    await service.addTagToDocument("doc-2", tag.id);
+    updateDocumentMetadata.mockImplementationOnce(async () => {});
+    updateDocumentMetadata.mockImplementationOnce(async () => {
+      throw new Error("connection lost");
+    });
+
+    await expect(service.deleteTag(tag.id)).rejects.toThrow();
+    expect(tags).toHaveLength(1);
+    expect(assignments).toHaveLength(2);
+
+    await service.deleteTag(tag.id);
+
+    expect(tags).toEqual([]);
+    for (const metadata of await chunkMetadata("doc-2")) {
+      expect(metadata).toMatchObject({ "tag:manuals": false });
+    }
+  });
+});
@@ -5,9 +5,19 @@
  * Requirements: 6.1, 6.2, 6.3, 7.1, 7.2, 7.3, 7.4, 8.1, 8.2, 8.3, 8.4, 9.1, 9.2, 9.3, 10.1, 10.2, 10.3, 10.4, 11.1, 11.2, 11.3
  */
 
+import { randomUUID } from "crypto";
 import { ProjectService } from "./project.service";
+import { ConversationService, Message } from "./conversation.service";
 import { EmbeddingService } from "../lib/embedding-service";
-import { VectorStore } from "../lib/vector-store";
+import {
+  VectorProject,
+  VectorStore,
+  SearchResult,
+} from "../lib/vector-store";
+import { KeywordIndex } from "../lib/keyword-index";
+import { HybridRetriever } from "../lib/hybrid-retriever";
+import { Reranker, createReranker } from "../lib/reranker";
+import { RetrievalFilter } from "../lib/retrieval-filter";
 import { LLMService } from "../lib/llm-service";
 import {
   NotFoundError,
@@ -15,6 +25,14 @@ import {
   ServiceUnavailableError,
 } from "../lib/errors";
 import { getConfig } from "../lib/config";
+import {
+  ChatSource,
+  buildSnippet,
+  checkCitations,
+  pageRange,
+} from "../lib/citations";
+
+export type { ChatSource } from "../lib/citations";
 
 /**
  * Chat query request interface
@@ -22,16 +40,86 @@ import { getConfig } from "../lib/config";
 export interface ChatRequest {
   projectId: string;
   message: string;
+  conversationId?: string;
+  filter?: RetrievalFilter;
 }
 
 /**
  * Chat response interface
  */
 export interface ChatResponse {
+  conversationId: string;
   answer: string;
   sourceCount: number;
+  sources: ChatSource[];
+  unverifiedCitations?: number[];
+  /** Document filter retrieval was restricted to, if any */
+  filter?: RetrievalFilter;
 }
 
+/**
+ * Events emitted by the streaming chat pipeline, in order:
+ * one "retrieval", zero or more "token", then one "done"
+ */
+export type ChatStreamEvent =
+  | {
+      type: "retrieval";
+      conversationId: string;
+      sourceCount: number;
+      highestScore: number;
+      sources: ChatSource[];
+      filter?: RetrievalFilter;
+    }
+  | { type: "token"; delta: string }
+  | {
+      type: "done";
+      sourceCount: number;
+      sources: ChatSource[];
+      unverifiedCitations?: number[];
+    };
+
+/**
+ * Outcome of the retrieval phase shared by the buffered and streaming pipelines
+ * A null prompt means the relevance threshold was not met
+ */
+interface RetrievalOutcome {
+  conversationId: string;
+  /** A new conversation is only saved together with its first answer */
+  isNewConversation: boolean;
+  searchResults: SearchResult[];
+  highestScore: number;
+  sources: ChatSource[];
+  prompt: { system: string; user: string } | null;
+}
+
+/**
+ * Answer returned when no retrieved chunk meets the relevance threshold
+ */
+const FALLBACK_ANSWER = "I don't know";
+
+/**
+ * Prompt budget shared by conversation history and retrieved context
+ * Simple token estimation: ~4 characters per token
+ */
+// Conservative limit to leave room for prompts
+const MAX_PROMPT_CONTEXT_TOKENS = 3000;
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Share of the prompt budget history may use; context always gets the rest
+ */
+const HISTORY_BUDGET_RATIO = 0.25;
+
+/**
+ * Number of chunks that make it into the prompt context (7.2)
+ */
+const CONTEXT_CHUNK_COUNT = 5;
+
+/**
+ * Number of most recent messages considered for history and condensation
+ */
+const HISTORY_MESSAGE_LIMIT = 10;
+
 /**
  * Service class for processing chat queries using RAG pipeline
  */
@@ -39,14 +127,20 @@ export class ChatService {
   private projectService: ProjectService;
   private embeddingService: EmbeddingService;
   private vectorStore: VectorStore;
+  private retriever: HybridRetriever;
+  private reranker: Reranker | null;
   private llmService: LLMService;
+  private conversationService: ConversationService;
   private config = getConfig();
 
   constructor() {
     this.projectService = new ProjectService();
+    this.conversationService = new ConversationService();
     this.embeddingService = new EmbeddingService();
     this.vectorStore = new VectorStore();
+    this.retriever = new HybridRetriever(this.vectorStore, new KeywordIndex());
     this.llmService = new LLMService();
+    this.reranker = createReranker(this.llmService);
   }
 
   /**
@@ -89,10 +183,168 @@ export class ChatService {
    * @returns Promise<ChatResponse> - The response with answer and source count
    * @throws NotFoundError if project does not exist
    * @throws ValidationError if request is invalid
+   * @throws ConflictError if the project uses another embedding model
    * @throws ServiceUnavailableError if external services are unavailable
    */
   async processQuery(request: ChatRequest): Promise<ChatResponse> {
-    const { projectId, message } = request;
+    const retrieval = await this.retrieve(request);
+    const { conversationId, searchResults, sources, prompt } = retrieval;
+
+    if (!prompt) {
+      // 8.4: Don't invoke LLM if threshold not met
+      await this.saveExchange(request, retrieval, FALLBACK_ANSWER, []);
+      return {
+        conversationId,
+        answer: FALLBACK_ANSWER,
+        sourceCount: 0,
+        sources: [],
+        filter: request.filter,
+      };
+    }
+
+    // 10.4: Invoke LLM (temperature already constrained in LLMService)
+    let llmResponse: string;
+    try {
+      llmResponse = await this.llmService.generateResponse(
+        prompt.system,
+        prompt.user
+      );
+    } catch (error) {
+      throw new ServiceUnavailableError("Unable to generate response");
+    }
+
+    // 11.1, 11.2, 11.3: Return response verbatim with source count and
+    // the retrieved chunks it cites
+    const citations = this.resolveCitations(llmResponse, sources);
+
+    await this.saveExchange(
+      request,
+      retrieval,
+      llmResponse,
+      citations.sources
+    );
+
+    return {
+      conversationId,
+      answer: llmResponse,
+      sourceCount: searchResults.length,
+      ...citations,
+      filter: request.filter,
+    };
+  }
+
+  /**
+   * Processes a user query through the RAG pipeline, streaming the answer
+   *
+   * Runs the same validation, retrieval and threshold check as processQuery.
+   * All of that completes before the first event is yielded, so request
+   * errors (invalid project, unavailable embedding service) surface from the
+   * first iteration and can still be turned into a normal error response.
+   *
+   * @param request - The chat request containing projectId and message
+   * @returns Async iterator of retrieval, token and done events
+   * @throws NotFoundError if project does not exist
+   * @throws ValidationError if request is invalid
+   * @throws ConflictError if the project uses another embedding model
+   * @throws ServiceUnavailableError if external services are unavailable
+   */
+  async *processQueryStream(
+    request: ChatRequest
+  ): AsyncGenerator<ChatStreamEvent> {
+    const retrieval = await this.retrieve(request);
+    const { conversationId, searchResults, highestScore, sources, prompt } =
+      retrieval;
+
+    if (!prompt) {
+      // 8.4: Don't invoke LLM if threshold not met
+      yield {
+        type: "retrieval",
+        conversationId,
+        sourceCount: 0,
+        highestScore,
+        sources: [],
+        filter: request.filter,
+      };
+      yield { type: "token", delta: FALLBACK_ANSWER };
+      await this.saveExchange(request, retrieval, FALLBACK_ANSWER, []);
+      yield { type: "done", sourceCount: 0, sources: [] };
+      return;
+    }
+
+    yield {
+      type: "retrieval",
+      conversationId,
+      sourceCount: searchResults.length,
+      highestScore,
+      sources,
+      filter: request.filter,
+    };
+
+    // 11.1: Deltas are forwarded verbatim
+    let answer = "";
+    for await (const delta of this.llmService.generateResponseStream(
+      prompt.system,
+      prompt.user
+    )) {
+      answer += delta;
+      yield { type: "token", delta };
+    }
+
+    const citations = this.resolveCitations(answer, sources);
+
+    // Only completed answers are saved; an aborted stream leaves no trace
+    await this.saveExchange(request, retrieval, answer, citations.sources);
+
+    yield {
+      type: "done",
+      sourceCount: searchResults.length,
+      ...citations,
+    };
+  }
+
+  /**
+   * Saves an answered exchange, starting the conversation if it is new
+   * @private
+   */
+  private async saveExchange(
+    request: ChatRequest,
+    retrieval: RetrievalOutcome,
+    answer: string,
+    sources: ChatSource[]
+  ): Promise<void> {
+    if (retrieval.isNewConversation) {
+      await this.conversationService.startConversation(
+        retrieval.conversationId,
+        request.projectId,
+        request.message,
+        answer,
+        sources
+      );
+    } else {
+      await this.conversationService.appendExchange(
+        retrieval.conversationId,
+        request.message,
+        answer,
+        sources
+      );
+    }
+  }
+
+  /**
+   * Validates the request, retrieves relevant chunks and builds the prompts
+   *
+   * Follow-up questions in an existing conversation are first condensed into
+   * a standalone question so that retrieval doesn't depend on earlier turns.
+   * Without a conversationId, the id of a new conversation is picked here,
+   * but nothing is saved until the question has been answered.
+   *
+   * @param request - The chat request
+   * @returns The conversation, search results, top score and prompts
+   *          (prompts are null below the relevance threshold)
+   * @private
+   */
+  private async retrieve(request: ChatRequest): Promise<RetrievalOutcome> {
+    const { projectId, message, conversationId, filter } = request;
 
     // Validate request
     if (!projectId || !projectId.trim()) {
@@ -104,8 +356,9 @@ export class ChatService {
     }
 
     // 6.1: Validate that the project exists
+    let project: VectorProject;
     try {
-      await this.projectService.getProject(projectId);
+      project = await this.projectService.getVectorProject(projectId);
     } catch (error) {
       if (error instanceof NotFoundError) {
         throw new NotFoundError(`Project '${projectId}' not found`);
@@ -113,73 +366,260 @@ export class ChatService {
       throw error;
     }
 
-    // 6.2: Generate embedding for the user message
+    // Queries embedded by another model than the project's vectors would
+    // match noise, so refuse until the project is re-indexed
+    await this.vectorStore.verifyEmbeddingFingerprint(
+      project,
+      this.embeddingService.getFingerprint()
+    );
+
+    // Resolve the conversation and its recent turns
+    let history: Message[] = [];
+    if (conversationId) {
+      await this.conversationService.getConversationInProject(
+        conversationId,
+        projectId
+      );
+      history = await this.conversationService.getRecentMessages(
+        conversationId,
+        HISTORY_MESSAGE_LIMIT
+      );
+    }
+    const conversation = {
+      conversationId: conversationId ?? randomUUID(),
+      isNewConversation: !conversationId,
+    };
+
+    const searchQuery =
+      history.length > 0 ? await this.condenseQuery(history, message) : message;
+
+    // 6.2: Generate embedding for the (standalone) user message
     let queryEmbedding: number[];
     try {
-      queryEmbedding = await this.embeddingService.generateEmbedding(message);
+      queryEmbedding = await this.embeddingService.generateEmbedding(
+        searchQuery
+      );
     } catch (error) {
       throw new ServiceUnavailableError("Unable to process query embedding");
     }
 
-    // 7.1, 7.2, 7.3, 7.4: Perform similarity search
-    let searchResults;
+    // 7.1, 7.2, 7.3, 7.4: Perform hybrid vector + keyword search, ranked
+    // by fused rank and limited to the filtered documents; over-fetch when
+    // a reranker will pick the final set
+    let searchResults: SearchResult[];
     try {
-      searchResults = await this.vectorStore.similaritySearch(
-        projectId,
+      searchResults = await this.retriever.retrieve(
+        project,
+        searchQuery,
         queryEmbedding,
-        5 // Top 5 similar chunks
+        this.reranker
+          ? this.config.reranker.candidateCount
+          : CONTEXT_CHUNK_COUNT,
+        filter
       );
     } catch (error) {
       throw new ServiceUnavailableError("Unable to perform similarity search");
     }
 
-    // 8.1, 8.2: Check relevance threshold
-    const highestScore = searchResults.length > 0 ? searchResults[0].score : 0;
-    const relevanceThreshold = this.config.processing.relevanceThreshold; // 0.75
+    // Scores are vector similarity unless the reranker succeeded, in which
+    // case its scores and threshold apply
+    let relevanceThreshold = this.config.processing.relevanceThreshold; // 0.75
+    if (this.reranker) {
+      const reranked = await this.rerank(searchQuery, searchResults);
+      if (reranked) {
+        searchResults = reranked;
+        relevanceThreshold = this.config.reranker.relevanceThreshold;
+      } else {
+        searchResults = searchResults.slice(0, CONTEXT_CHUNK_COUNT);
+      }
+    }
+
+    // 8.1, 8.2: Check relevance threshold against the best score; fused
+    // order doesn't put the most similar chunk first
+    const highestScore = Math.max(
+      0,
+      ...searchResults.map((result) => result.score)
+    );
 
     if (highestScore < relevanceThreshold) {
-      // 8.4: Don't invoke LLM if threshold not met
       return {
-        answer: "I don't know",
-        sourceCount: 0,
+        ...conversation,
+        searchResults,
+        highestScore,
+        sources: [],
+        prompt: null,
       };
     }
 
-    // 8.3: Assemble context if threshold met
-    const context = this.assembleContext(searchResults);
+    // 8.3, 9.2: History and context share one budget; history is capped so
+    // retrieved context always keeps the larger share
+    const budgetChars = MAX_PROMPT_CONTEXT_TOKENS * CHARS_PER_TOKEN;
+    const transcript = this.buildHistoryWindow(
+      history,
+      Math.floor(budgetChars * HISTORY_BUDGET_RATIO)
+    );
+    const { context, sources } = this.assembleContext(
+      searchResults,
+      budgetChars - transcript.length
+    );
+    const historySection = transcript
+      ? `Conversation so far (for reference only, not a source of facts):
+${transcript}
+
+`
+      : "";
 
     // 10.1, 10.2, 10.3: Construct prompts
     const systemPrompt = `You are a helpful assistant that answers questions based ONLY on the provided context.
 If the answer is not explicitly present in the context, respond exactly: "I don't know"
-Do not make assumptions or provide information not contained in the context.`;
+Do not make assumptions or provide information not contained in the context.
+Each context passage starts with a numbered marker such as [1]. After every statement, cite the passage(s) it comes from using those markers, e.g. [1] or [2, 3]. Only cite markers that appear in the context.`;
 
-    const userPrompt = `Context:
+    const userPrompt = `${historySection}Context:
 ${context}
 
 Question: ${message}
 
-Answer the question based only on the context provided above.`;
+Answer the question based only on the context provided above, citing passages by their [n] markers.`;
 
-    // 10.4: Invoke LLM (temperature already constrained in LLMService)
-    let llmResponse: string;
+    return {
+      ...conversation,
+      searchResults,
+      highestScore,
+      sources,
+      prompt: { system: systemPrompt, user: userPrompt },
+    };
+  }
+
+  /**
+   * Reranks retrieved candidates down to the context set
+   *
+   * Returns null if the reranker fails, so the caller can fall back to
+   * retrieval order and the similarity threshold.
+   *
+   * @param query - The standalone question
+   * @param results - Retrieved candidates
+   * @returns The best candidates scored by the reranker, or null on failure
+   * @private
+   */
+  private async rerank(
+    query: string,
+    results: SearchResult[]
+  ): Promise<SearchResult[] | null> {
     try {
-      llmResponse = await this.llmService.generateResponse(
-        systemPrompt,
-        userPrompt
-      );
+      return await this.reranker!.rerank(query, results, CONTEXT_CHUNK_COUNT);
     } catch (error) {
-      throw new ServiceUnavailableError("Unable to generate response");
+      console.warn("Reranking failed, using retrieval order:", error);
+      return null;
     }
+  }
 
-    // 11.1, 11.2, 11.3: Return response verbatim with source count
-    return {
-      answer: llmResponse,
-      sourceCount: searchResults.length,
-    };
+  /**
+   * Rewrites a follow-up question into a standalone question using prior turns
+   *
+   * Falls back to the original message if the LLM is unavailable, so a
+   * condensation failure degrades retrieval rather than failing the request.
+   *
+   * @param history - Recent messages, oldest first
+   * @param message - The follow-up question
+   * @returns The standalone question
+   * @private
+   */
+  private async condenseQuery(
+    history: Message[],
+    message: string
+  ): Promise<string> {
+    const transcript = this.buildHistoryWindow(
+      history,
+      Math.floor(
+        MAX_PROMPT_CONTEXT_TOKENS * CHARS_PER_TOKEN * HISTORY_BUDGET_RATIO
+      )
+    );
+
+    const systemPrompt = `Rewrite the user's follow-up question as a single standalone question that can be understood without the conversation.
+Resolve pronouns and references such as "it", "that one" or "the second one" using the conversation.
+Do not answer the question. Respond with the rewritten question only.`;
+
+    const userPrompt = `Conversation:
+${transcript}
+
+Follow-up question: ${message}
+
+Standalone question:`;
+
+    try {
+      const condensed = (
+        await this.llmService.generateResponse(systemPrompt, userPrompt)
+      ).trim();
+      return condensed || message;
+    } catch (error) {
+      console.warn("Query condensation failed, using original message:", error);
+      return message;
+    }
+  }
+
+  /**
+   * Renders the most recent turns that fit in the given character budget
+   *
+   * Turns are taken newest first and emitted oldest first, so truncation
+   * always drops the oldest part of the conversation.
+   *
+   * @param history - Recent messages, oldest first
+   * @param maxChars - Character budget for the transcript
+   * @returns The transcript, or an empty string if there is no history
+   * @private
+   */
+  private buildHistoryWindow(history: Message[], maxChars: number): string {
+    const lines: string[] = [];
+    let length = 0;
+
+    for (let i = history.length - 1; i >= 0; i--) {
+      const speaker = history[i].role === "user" ? "User" : "Assistant";
+      const line = `${speaker}: ${history[i].content.trim()}`;
+
+      if (length + line.length + 1 > maxChars) {
+        break;
+      }
+
+      lines.unshift(line);
+      length += line.length + 1;
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Maps the citation markers in an answer to the sources given to the model
+   *
+   * Markers that don't match any numbered passage are reported as
+   * unverified rather than removed, so the answer stays verbatim (11.1).
+   *
+   * @param answer - The LLM answer
+   * @param sources - The numbered sources included in the context
+   * @returns The cited sources and any unverified markers
+   * @private
+   */
+  private resolveCitations(
+    answer: string,
+    sources: ChatSource[]
+  ): Pick<ChatResponse, "sources" | "unverifiedCitations"> {
+    const { cited, unverified } = checkCitations(answer, sources);
+
+    if (unverified.length > 0) {
+      console.warn(
+        `LLM cited markers with no matching source: ${unverified.join(", ")}`
+      );
+      return { sources: cited, unverifiedCitations: unverified };
+    }
+
+    return { sources: cited };
   }
 
   /**
-   * Assembles context from search results with token limit consideration
+   * Assembles numbered context from search results with token limit consideration
+   *
+   * Each included chunk is prefixed with a `[n]` marker and its origin so the
+   * model can cite it; the same numbering is returned as the source list.
    *
    * Requirements:
    * - 9.1: Concatenate in ranked order
@@ -187,25 +627,39 @@ Answer the question based only on the context provided above.`;
    * - 9.3: Truncate preserving ranking
    *
    * @param searchResults - The ranked search results
-   * @returns The assembled context string
+   * @param maxContextChars - Character budget left for context
+   * @returns The assembled context string and the sources it contains
    * @private
    */
   private assembleContext(
-    searchResults: Array<{ text: string; score: number }>
-  ): string {
-    // Simple token estimation: ~4 characters per token
-    const maxContextTokens = 3000; // Conservative limit to leave room for prompts
-    const maxContextChars = maxContextTokens * 4;
-
+    searchResults: SearchResult[],
+    maxContextChars: number
+  ): {
+    context: string;
+    sources: ChatSource[];
+  } {
     let context = "";
-    let includedChunks = 0;
+    const sources: ChatSource[] = [];
 
     // 9.1: Concatenate in ranked order (results are already sorted by score)
     for (const result of searchResults) {
       const chunkText = result.text.trim();
       if (!chunkText) continue;
 
-      const newContext = context ? `${context}\n\n${chunkText}` : chunkText;
+      const marker = sources.length + 1;
+      const filename = String(result.metadata?.filename ?? "unknown");
+      const chunkIndex = Number(result.metadata?.chunkIndex ?? 0);
+      const pages = pageRange(result.metadata);
+      // Page numbers let the model say where in a PDF a passage came from
+      const location = pages
+        ? pages.pageNumber === pages.pageEnd
+          ? `page ${pages.pageNumber}`
+          : `pages ${pages.pageNumber}-${pages.pageEnd}`
+        : `chunk ${chunkIndex}`;
+      const header = `[${marker}] (${filename}, ${location})`;
+      const passage = `${header}\n${chunkText}`;
+
+      const newContext = context ? `${context}\n\n${passage}` : passage;
 
       // 9.2: Check if adding this chunk would exceed limits
       if (newContext.length > maxContextChars) {
@@ -213,9 +667,17 @@ Answer the question based only on the context provided above.`;
       }
 
       context = newContext;
-      includedChunks++;
+      sources.push({
+        marker,
+        documentId: String(result.metadata?.documentId ?? ""),
+        filename,
+        chunkIndex,
+        ...pages,
+        score: result.score,
+        snippet: buildSnippet(chunkText),
+      });
     }
 
-    return context || "No relevant context found.";
+    return { context: context || "No relevant context found.", sources };
   }
 }
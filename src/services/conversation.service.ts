@@ -0,0 +1,551 @@
+/**
+ * ConversationService - Manages persisted chat history
+ * Stores conversations per project and the messages exchanged in them so that
+ * follow-up questions can be answered in the context of earlier turns
+ */
+
+import { prisma } from "../../lib/prisma";
+import { NotFoundError, DatabaseError, ValidationError } from "../lib/errors";
+import { ChatSource } from "../lib/citations";
+
+/**
+ * Message author role
+ */
+export type MessageRole = "user" | "assistant";
+
+/**
+ * Conversation interface matching Prisma schema
+ */
+export interface Conversation {
+  id: string;
+  projectId: string;
+  title: string;
+  pinned: boolean;
+  forkedFromId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Conversation summary used in listings
+ */
+export interface ConversationSummary extends Conversation {
+  messageCount: number;
+}
+
+/**
+ * Conversation with its full message history
+ */
+export interface ConversationWithMessages extends Conversation {
+  messages: Message[];
+}
+
+/**
+ * One page of a conversation listing
+ */
+export interface ConversationPage {
+  conversations: ConversationSummary[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+/**
+ * Mutable conversation fields
+ */
+export interface ConversationUpdate {
+  title?: string;
+  pinned?: boolean;
+}
+
+/**
+ * Message interface matching Prisma schema
+ */
+export interface Message {
+  id: string;
+  conversationId: string;
+  role: MessageRole;
+  content: string;
+  sources: ChatSource[];
+  createdAt: Date;
+}
+
+/**
+ * Conversation row as stored by Prisma
+ */
+interface ConversationRecord {
+  id: string;
+  projectId: string;
+  title: string;
+  pinned: boolean;
+  forkedFromId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Message row as stored by Prisma (sources is a JSON column)
+ */
+interface MessageRecord {
+  id: string;
+  conversationId: string;
+  role: string;
+  content: string;
+  sources: unknown;
+  createdAt: Date;
+}
+
+/**
+ * Maximum length of a conversation title derived from its first message
+ */
+const TITLE_LENGTH = 80;
+
+/**
+ * Service class for conversation and message persistence
+ */
+export class ConversationService {
+  /**
+   * Maps a Prisma conversation record to the Conversation interface
+   * @private
+   */
+  private toConversation(conversation: ConversationRecord): Conversation {
+    return {
+      id: conversation.id,
+      projectId: conversation.projectId,
+      title: conversation.title,
+      pinned: conversation.pinned,
+      forkedFromId: conversation.forkedFromId ?? undefined,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+    };
+  }
+
+  /**
+   * Maps a Prisma message record to the Message interface
+   * @private
+   */
+  private toMessage(message: MessageRecord): Message {
+    return {
+      id: message.id,
+      conversationId: message.conversationId,
+      role: message.role as MessageRole,
+      content: message.content,
+      sources: (message.sources as ChatSource[] | null) ?? [],
+      createdAt: message.createdAt,
+    };
+  }
+
+  /**
+   * Derives a conversation title from its opening message
+   * @private
+   */
+  private titleFrom(message: string): string {
+    const flattened = message.replace(/\s+/g, " ").trim();
+    return flattened.length > TITLE_LENGTH
+      ? `${flattened.slice(0, TITLE_LENGTH - 1).trimEnd()}…`
+      : flattened;
+  }
+
+  /**
+   * Starts a new conversation titled after its opening message
+   *
+   * @param projectId - The project the conversation belongs to
+   * @param firstMessage - The opening user message
+   * @returns Promise<Conversation> - The created conversation
+   * @throws DatabaseError if database operation fails
+   */
+  async createConversation(
+    projectId: string,
+    firstMessage: string
+  ): Promise<Conversation> {
+    try {
+      const conversation = await prisma.conversation.create({
+        data: { projectId, title: this.titleFrom(firstMessage) },
+      });
+      return this.toConversation(conversation);
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to create conversation: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Retrieves a conversation, checking that it belongs to the project
+   *
+   * @param id - The conversation identifier
+   * @param projectId - The project the caller is working in
+   * @returns Promise<Conversation>
+   * @throws NotFoundError if the conversation doesn't exist in the project
+   * @throws DatabaseError if database operation fails
+   */
+  async getConversationInProject(
+    id: string,
+    projectId: string
+  ): Promise<Conversation> {
+    try {
+      const conversation = await prisma.conversation.findUnique({
+        where: { id },
+      });
+
+      if (!conversation || conversation.projectId !== projectId) {
+        throw new NotFoundError(
+          `Conversation '${id}' not found in project '${projectId}'`
+        );
+      }
+
+      return this.toConversation(conversation);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      throw new DatabaseError(
+        `Failed to retrieve conversation: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Retrieves the most recent messages of a conversation, oldest first
+   *
+   * @param conversationId - The conversation identifier
+   * @param limit - Maximum number of messages to return
+   * @returns Promise<Message[]>
+   * @throws DatabaseError if database operation fails
+   */
+  async getRecentMessages(
+    conversationId: string,
+    limit: number
+  ): Promise<Message[]> {
+    try {
+      const messages: MessageRecord[] = await prisma.message.findMany({
+        where: { conversationId },
+        orderBy: { createdAt: "desc" },
+        take: limit,
+      });
+      return messages.reverse().map((message) => this.toMessage(message));
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to retrieve messages: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Builds the messages of one question/answer exchange
+   *
+   * Explicit timestamps keep the pair ordered even within one transaction.
+   * @private
+   */
+  private exchangeMessages(
+    question: string,
+    answer: string,
+    sources: ChatSource[]
+  ) {
+    const askedAt = new Date();
+    const answeredAt = new Date(askedAt.getTime() + 1);
+
+    return {
+      answeredAt,
+      messages: [
+        { role: "user", content: question, createdAt: askedAt },
+        {
+          role: "assistant",
+          content: answer,
+          sources: sources as unknown as object[],
+          createdAt: answeredAt,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Creates a conversation together with its first exchange
+   *
+   * Nothing is written until the question has been answered, so a question
+   * that fails leaves no empty conversation behind. The caller picks the id,
+   * so it can be announced before the answer is complete.
+   *
+   * @param id - The new conversation's identifier
+   * @param projectId - The project the conversation belongs to
+   * @param question - The opening user message, which also titles it
+   * @param answer - The assistant's answer
+   * @param sources - The sources cited by the answer
+   * @returns Promise<Message> - The stored assistant message
+   * @throws DatabaseError if database operation fails
+   */
+  async startConversation(
+    id: string,
+    projectId: string,
+    question: string,
+    answer: string,
+    sources: ChatSource[]
+  ): Promise<Message> {
+    const { answeredAt, messages } = this.exchangeMessages(
+      question,
+      answer,
+      sources
+    );
+
+    try {
+      const [, , assistantMessage] = await prisma.$transaction([
+        prisma.conversation.create({
+          data: {
+            id,
+            projectId,
+            title: this.titleFrom(question),
+            updatedAt: answeredAt,
+          },
+        }),
+        ...messages.map((message) =>
+          prisma.message.create({ data: { conversationId: id, ...message } })
+        ),
+      ]);
+      return this.toMessage(assistantMessage as MessageRecord);
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to create conversation: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Records one question/answer exchange and bumps the conversation
+   *
+   * @param conversationId - The conversation identifier
+   * @param question - The user's message
+   * @param answer - The assistant's answer
+   * @param sources - The sources cited by the answer
+   * @returns Promise<Message> - The stored assistant message
+   * @throws DatabaseError if database operation fails
+   */
+  async appendExchange(
+    conversationId: string,
+    question: string,
+    answer: string,
+    sources: ChatSource[]
+  ): Promise<Message> {
+    const { answeredAt, messages } = this.exchangeMessages(
+      question,
+      answer,
+      sources
+    );
+
+    try {
+      const [, assistantMessage] = await prisma.$transaction([
+        ...messages.map((message) =>
+          prisma.message.create({ data: { conversationId, ...message } })
+        ),
+        prisma.conversation.update({
+          where: { id: conversationId },
+          data: { updatedAt: answeredAt },
+        }),
+      ]);
+      return this.toMessage(assistantMessage);
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to save messages: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Lists a project's conversations, pinned first, then most recently active
+   *
+   * @param projectId - The project identifier
+   * @param page - 1-based page number
+   * @param pageSize - Conversations per page
+   * @returns Promise<ConversationPage>
+   * @throws DatabaseError if database operation fails
+   */
+  async listConversations(
+    projectId: string,
+    page: number,
+    pageSize: number
+  ): Promise<ConversationPage> {
+    try {
+      const [total, conversations] = await prisma.$transaction([
+        prisma.conversation.count({ where: { projectId } }),
+        prisma.conversation.findMany({
+          where: { projectId },
+          orderBy: [{ pinned: "desc" }, { updatedAt: "desc" }],
+          skip: (page - 1) * pageSize,
+          take: pageSize,
+          include: { _count: { select: { messages: true } } },
+        }),
+      ]);
+
+      return {
+        conversations: (
+          conversations as Array<
+            ConversationRecord & { _count: { messages: number } }
+          >
+        ).map((conversation) => ({
+          ...this.toConversation(conversation),
+          messageCount: conversation._count.messages,
+        })),
+        pagination: {
+          page,
+          pageSize,
+          total,
+          totalPages: Math.ceil(total / pageSize),
+        },
+      };
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to list conversations: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Retrieves a conversation with all of its messages, oldest first
+   *
+   * @param id - The conversation identifier
+   * @returns Promise<ConversationWithMessages>
+   * @throws NotFoundError if the conversation doesn't exist
+   * @throws DatabaseError if database operation fails
+   */
+  async getConversation(id: string): Promise<ConversationWithMessages> {
+    try {
+      const conversation = await prisma.conversation.findUnique({
+        where: { id },
+        include: { messages: { orderBy: { createdAt: "asc" } } },
+      });
+
+      if (!conversation) {
+        throw new NotFoundError(`Conversation with id ${id} not found`);
+      }
+
+      return {
+        ...this.toConversation(conversation),
+        messages: (conversation.messages as MessageRecord[]).map((message) =>
+          this.toMessage(message)
+        ),
+      };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      throw new DatabaseError(
+        `Failed to retrieve conversation: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Renames and/or pins a conversation
+   *
+   * @param id - The conversation identifier
+   * @param update - The fields to change
+   * @returns Promise<Conversation> - The updated conversation
+   * @throws NotFoundError if the conversation doesn't exist
+   * @throws DatabaseError if database operation fails
+   */
+  async updateConversation(
+    id: string,
+    update: ConversationUpdate
+  ): Promise<Conversation> {
+    try {
+      const conversation = await prisma.conversation.update({
+        where: { id },
+        data: {
+          ...(update.title !== undefined && { title: update.title }),
+          ...(update.pinned !== undefined && { pinned: update.pinned }),
+        },
+      });
+      return this.toConversation(conversation);
+    } catch (error) {
+      throw this.toWriteError(error, id, "update");
+    }
+  }
+
+  /**
+   * Deletes a conversation and its messages
+   *
+   * @param id - The conversation identifier
+   * @throws NotFoundError if the conversation doesn't exist
+   * @throws DatabaseError if database operation fails
+   */
+  async deleteConversation(id: string): Promise<void> {
+    try {
+      // Messages are removed by the cascade configured in the Prisma schema
+      await prisma.conversation.delete({ where: { id } });
+    } catch (error) {
+      throw this.toWriteError(error, id, "delete");
+    }
+  }
+
+  /**
+   * Branches a conversation at a given message
+   *
+   * The fork is a new conversation in the same project containing copies of
+   * every message up to and including the given one; the original is left
+   * untouched.
+   *
+   * @param id - The conversation to fork
+   * @param messageId - The last message to carry over
+   * @returns Promise<ConversationWithMessages> - The new conversation
+   * @throws NotFoundError if the conversation doesn't exist
+   * @throws ValidationError if the message isn't part of the conversation
+   * @throws DatabaseError if database operation fails
+   */
+  async forkConversation(
+    id: string,
+    messageId: string
+  ): Promise<ConversationWithMessages> {
+    const source = await this.getConversation(id);
+
+    const cutoff = source.messages.findIndex(
+      (message) => message.id === messageId
+    );
+    if (cutoff === -1) {
+      throw new ValidationError(
+        `Message '${messageId}' is not part of conversation '${id}'`
+      );
+    }
+
+    try {
+      const fork = await prisma.conversation.create({
+        data: {
+          projectId: source.projectId,
+          title: this.titleFrom(`${source.title} (fork)`),
+          forkedFromId: source.id,
+          messages: {
+            create: source.messages.slice(0, cutoff + 1).map((message) => ({
+              role: message.role,
+              content: message.content,
+              sources: message.sources as unknown as object[],
+              createdAt: message.createdAt,
+            })),
+          },
+        },
+      });
+
+      return this.getConversation(fork.id);
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to fork conversation: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Maps a failed update/delete to NotFoundError or DatabaseError
+   * @private
+   */
+  private toWriteError(error: unknown, id: string, action: string): Error {
+    if (error && typeof error === "object" && "code" in error) {
+      const prismaError = error as { code: string };
+      if (prismaError.code === "P2025") {
+        return new NotFoundError(`Conversation with id ${id} not found`);
+      }
+    }
+    return new DatabaseError(
+      `Failed to ${action} conversation: ${(error as Error).message}`
+    );
+  }
+}
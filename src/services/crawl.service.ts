@@ -0,0 +1,349 @@
+/**
+ * CrawlService - Manages crawl-mode URL uploads
+ * A crawl starts from a root URL document. Its ingestion job discovers the
+ * site's pages with the WebCrawler, creates a document for each page found
+ * and queues every page, the root included, for the normal processing
+ * pipeline.
+ */
+
+import { prisma } from "../../lib/prisma";
+import { Prisma } from "../../generated/prisma/client";
+import {
+  AppError,
+  NotFoundError,
+  DatabaseError,
+  ValidationError,
+} from "../lib/errors";
+import { getConfig } from "../lib/config";
+import { IngestionQueue, IngestionJob } from "../lib/ingestion-queue";
+import {
+  CrawlOptions,
+  CrawlScope,
+  WebCrawler,
+  normalizeUrl,
+} from "../lib/web-crawler";
+import { Document, DocumentService, DocumentStatus } from "./document.service";
+
+/**
+ * Crawl status type
+ */
+export type CrawlStatus = "pending" | "crawling" | "completed" | "failed";
+
+/**
+ * Crawl interface matching Prisma schema
+ */
+export interface Crawl extends CrawlOptions {
+  id: string;
+  projectId: string;
+  rootUrl: string;
+  status: CrawlStatus;
+  pagesFound: number;
+  errorMessage?: string;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Crawl with the number of its page documents in each processing status
+ */
+export interface CrawlDetail extends Crawl {
+  documents: Record<DocumentStatus, number>;
+}
+
+/**
+ * Crawl row as stored by Prisma
+ */
+interface CrawlRecord {
+  id: string;
+  projectId: string;
+  rootUrl: string;
+  maxDepth: number;
+  maxPages: number;
+  scope: string;
+  respectRobots: boolean;
+  useSitemap: boolean;
+  status: string;
+  pagesFound: number;
+  errorMessage: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+/**
+ * Service class for website crawls
+ */
+export class CrawlService {
+  private documentService: DocumentService;
+  private ingestionQueue: IngestionQueue;
+  private config = getConfig();
+
+  constructor() {
+    this.documentService = new DocumentService();
+    this.ingestionQueue = new IngestionQueue();
+  }
+
+  /**
+   * Maps a Prisma crawl record to the Crawl interface
+   * @private
+   */
+  private toCrawl(crawl: CrawlRecord): Crawl {
+    return {
+      id: crawl.id,
+      projectId: crawl.projectId,
+      rootUrl: crawl.rootUrl,
+      maxDepth: crawl.maxDepth,
+      maxPages: crawl.maxPages,
+      scope: crawl.scope as CrawlScope,
+      respectRobots: crawl.respectRobots,
+      useSitemap: crawl.useSitemap,
+      status: crawl.status as CrawlStatus,
+      pagesFound: crawl.pagesFound,
+      errorMessage: crawl.errorMessage || undefined,
+      createdAt: crawl.createdAt,
+      completedAt: crawl.completedAt ?? undefined,
+    };
+  }
+
+  /**
+   * Rethrows application errors and wraps anything else as a DatabaseError
+   * @private
+   */
+  private rethrow(error: unknown, action: string): never {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new DatabaseError(
+      `Failed to ${action}: ${(error as Error).message}`
+    );
+  }
+
+  /**
+   * Creates a crawl with its root document and queues the crawl job
+   *
+   * @param projectId - The project ID to associate the pages with
+   * @param url - The root URL to crawl from
+   * @param options - Depth, page, scope, robots.txt and sitemap settings
+   * @param syncIntervalMinutes - Re-sync interval for every page, if any
+   * @returns The crawl, its root document and the queued job
+   * @throws ValidationError if the URL is invalid
+   * @throws NotFoundError if project doesn't exist
+   * @throws DatabaseError if database operation fails, or the crawl job
+   *         cannot be queued (the crawl and its root are then marked failed)
+   */
+  async startCrawl(
+    projectId: string,
+    url: string,
+    options: CrawlOptions,
+    syncIntervalMinutes?: number
+  ): Promise<{ crawl: Crawl; document: Document; job: IngestionJob }> {
+    let crawl: CrawlRecord;
+    try {
+      const project = await prisma.project.findUnique({
+        where: { id: projectId },
+      });
+
+      if (!project) {
+        throw new NotFoundError(`Project with id ${projectId} not found`);
+      }
+
+      const rootUrl = normalizeUrl(url);
+      if (!rootUrl) {
+        throw new ValidationError(`Invalid URL format: ${url}`);
+      }
+
+      crawl = await prisma.crawl.create({
+        data: { projectId, rootUrl, ...options },
+      });
+    } catch (error) {
+      this.rethrow(error, "start crawl");
+    }
+
+    const document = await this.documentService.uploadUrl(
+      projectId,
+      crawl.rootUrl,
+      { crawlId: crawl.id, syncIntervalMinutes }
+    );
+    let job: IngestionJob;
+    try {
+      job = await this.ingestionQueue.enqueue(document.id, "crawl_site");
+    } catch (error) {
+      // Nothing would ever run the crawl, so record it as failed
+      await this.documentService.markQueueingFailed(document.id, error);
+      try {
+        await prisma.crawl.update({
+          where: { id: crawl.id },
+          data: {
+            status: "failed",
+            errorMessage: (error as Error).message,
+            completedAt: new Date(),
+          },
+        });
+      } catch {
+        // The queueing error is the one worth reporting
+      }
+      throw error;
+    }
+
+    return { crawl: this.toCrawl(crawl), document, job };
+  }
+
+  /**
+   * Crawls the site of a crawl's root document
+   *
+   * Creates a pending document for each page found and queues all of them,
+   * the root included, for processing. Pages share the root's re-sync
+   * interval. Pages that already have a document in the project (from an
+   * earlier attempt, another crawl or a single-page upload) are skipped.
+   * A retry queues only the crawl's documents that have no processing job
+   * yet, so nothing is processed twice.
+   *
+   * @param documentId - The crawl's root document
+   * @throws NotFoundError if the document doesn't exist
+   * @throws ValidationError if the document is not a crawl root, or the
+   *         root page is disallowed or cannot be fetched
+   * @throws DatabaseError if database operation fails
+   */
+  async runCrawl(documentId: string): Promise<void> {
+    try {
+      const document = await prisma.document.findUnique({
+        where: { id: documentId },
+        include: { crawl: true },
+      });
+
+      if (!document) {
+        throw new NotFoundError(`Document with id ${documentId} not found`);
+      }
+
+      const crawl = document.crawl;
+      if (!crawl || crawl.rootUrl !== document.filename) {
+        throw new ValidationError(
+          `Document ${documentId} is not the root of a crawl`
+        );
+      }
+
+      await prisma.crawl.update({
+        where: { id: crawl.id },
+        data: { status: "crawling", errorMessage: null },
+      });
+
+      const crawler = new WebCrawler(
+        this.toCrawl(crawl),
+        this.config.crawler
+      );
+
+      let pages;
+      try {
+        pages = await crawler.crawl(crawl.rootUrl);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        await prisma.crawl.update({
+          where: { id: crawl.id },
+          data: { status: "failed", errorMessage, completedAt: new Date() },
+        });
+        await prisma.document.update({
+          where: { id: documentId },
+          data: { status: "failed", errorMessage },
+        });
+        throw error;
+      }
+
+      const existing = await prisma.document.findMany({
+        where: { projectId: crawl.projectId, fileType: "url" },
+        select: { filename: true },
+      });
+      const known = new Set(
+        existing.map(({ filename }: { filename: string }) =>
+          normalizeUrl(filename)
+        )
+      );
+      // Each page is written together with its job, so a failure part way
+      // through never leaves a page that nothing will process
+      for (const page of pages.filter((page) => !known.has(page.url))) {
+        await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+          const created = await tx.document.create({
+            data: {
+              projectId: crawl.projectId,
+              filename: page.url,
+              fileType: "url",
+              status: "pending",
+              crawlId: crawl.id,
+              syncIntervalMinutes: document.syncIntervalMinutes,
+            },
+            select: { id: true },
+          });
+          await this.ingestionQueue.enqueue(
+            created.id,
+            "process_document",
+            tx
+          );
+        });
+      }
+
+      // Queue the root, unless an earlier attempt already did, and any page
+      // an earlier attempt created without queueing it
+      const unqueued = await prisma.document.findMany({
+        where: {
+          crawlId: crawl.id,
+          jobs: { none: { type: "process_document" } },
+        },
+        select: { id: true },
+      });
+      for (const { id } of unqueued) {
+        await this.ingestionQueue.enqueue(id, "process_document");
+      }
+
+      await prisma.crawl.update({
+        where: { id: crawl.id },
+        data: {
+          status: "completed",
+          pagesFound: pages.length,
+          completedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      this.rethrow(error, "crawl site");
+    }
+  }
+
+  /**
+   * Retrieves a crawl with the processing status of its pages
+   *
+   * @param id - The crawl identifier
+   * @returns Promise<CrawlDetail>
+   * @throws NotFoundError if the crawl doesn't exist
+   * @throws DatabaseError if database operation fails
+   */
+  async getCrawl(id: string): Promise<CrawlDetail> {
+    try {
+      const crawl = await prisma.crawl.findUnique({ where: { id } });
+
+      if (!crawl) {
+        throw new NotFoundError(`Crawl with id ${id} not found`);
+      }
+
+      const counts = await prisma.document.groupBy({
+        by: ["status"],
+        where: { crawlId: id },
+        _count: { _all: true },
+      });
+
+      const documents: Record<DocumentStatus, number> = {
+        pending: 0,
+        processing: 0,
+        ready: 0,
+        failed: 0,
+      };
+      for (const { status, _count } of counts as {
+        status: DocumentStatus;
+        _count: { _all: number };
+      }[]) {
+        documents[status] = _count._all;
+      }
+
+      return { ...this.toCrawl(crawl), documents };
+    } catch (error) {
+      this.rethrow(error, "retrieve crawl");
+    }
+  }
+}
@@ -10,12 +10,29 @@ import {
   NotFoundError,
   DatabaseError,
   VectorStoreError,
+  ServiceUnavailableError,
+  ConflictError,
 } from "../lib/errors";
-import { TextExtractor } from "../lib/text-extractor";
-import { TextChunker } from "../lib/text-chunker";
-import { getConfig } from "../lib/config";
-import { ChromaClient } from "chromadb";
-import { GoogleGenerativeAIEmbeddings } from "@langchain/google-genai";
+import { FetchedPage, TextExtractor } from "../lib/text-extractor";
+import {
+  PageText,
+  TextChunker,
+  TextSection,
+  chunkFingerprint,
+  dropDuplicateChunks,
+} from "../lib/text-chunker";
+import { IngestionQueue, IngestionJob } from "../lib/ingestion-queue";
+import { KeywordIndex } from "../lib/keyword-index";
+import { tagMetadata } from "../lib/retrieval-filter";
+import { VectorProject, VectorStore } from "../lib/vector-store";
+import {
+  BlobStore,
+  createBlobStore,
+  documentStorageKey,
+} from "../lib/blob-store";
+import { createHash } from "crypto";
+import { projectChunkingOptions } from "./project.service";
+import { EmbeddingService } from "../lib/embedding-service";
 
 /**
  * Document interface matching Prisma schema
@@ -24,10 +41,41 @@ export interface Document {
   id: string;
   projectId: string;
   filename: string;
-  fileType: "pdf" | "docx" | "txt" | "url";
+  fileType: DocumentFileType;
   status: DocumentStatus;
   uploadedAt: Date;
   errorMessage?: string;
+  sizeBytes?: number;
+  sha256?: string;
+  /** The crawl this page was found by, for crawl-mode URL uploads */
+  crawlId?: string;
+  metadata?: DocumentMetadata;
+  /** SHA-256 of the extracted content, for URL documents */
+  contentHash?: string;
+  /** When the URL was last fetched, whether or not it had changed */
+  lastSyncedAt?: Date;
+  /** How often the URL is re-synced; unset means never */
+  syncIntervalMinutes?: number;
+  /** Why the last re-sync failed; the document kept its previous content */
+  lastSyncError?: string;
+}
+
+/**
+ * Source metadata recorded when a document is processed
+ */
+export interface DocumentMetadata {
+  /** Page title of URL and HTML documents, or the title of a PDF */
+  title?: string;
+  /** Canonical URL declared by the page, for URL and HTML documents */
+  canonicalUrl?: string;
+  /** Meta description of the page, for URL and HTML documents */
+  description?: string;
+  /** Author of a PDF */
+  author?: string;
+  /** ISO 8601 creation date of a PDF */
+  creationDate?: string;
+  /** Number of pages of a PDF */
+  pageCount?: number;
 }
 
 /**
@@ -35,6 +83,102 @@ export interface Document {
  */
 export type DocumentStatus = "pending" | "processing" | "ready" | "failed";
 
+/**
+ * Document file type; "url" for URL uploads
+ */
+export type DocumentFileType =
+  | "pdf"
+  | "docx"
+  | "txt"
+  | "md"
+  | "html"
+  | "csv"
+  | "json"
+  | "pptx"
+  | "xlsx"
+  | "url";
+
+/**
+ * Result of re-syncing a URL document
+ * - unchanged: the page was not modified, or its content hash matched
+ * - updated: the content changed and the document was re-indexed
+ * - skipped: the document is already queued or being processed
+ */
+export type SyncOutcome = "unchanged" | "updated" | "skipped";
+
+/**
+ * Optional settings for URL uploads
+ */
+export interface UrlUploadOptions {
+  /** The crawl the page belongs to, for crawl-mode uploads */
+  crawlId?: string;
+  /** Re-sync the URL this often; omitted means never */
+  syncIntervalMinutes?: number;
+}
+
+/**
+ * Fields of a document that can be changed after upload
+ */
+export interface DocumentUpdate {
+  /** Re-sync interval for URL documents; null turns re-syncing off */
+  syncIntervalMinutes?: number | null;
+}
+
+/**
+ * Document with the number of chunks it was split into and its tag names
+ */
+export interface DocumentDetail extends Document {
+  chunkCount: number;
+  tags: string[];
+}
+
+/**
+ * Optional filters for document listings
+ */
+export interface DocumentFilter {
+  status?: DocumentStatus;
+  fileType?: string;
+  /** Only documents carrying the tag with this name */
+  tag?: string;
+}
+
+/**
+ * One page of a document listing
+ */
+export interface DocumentPage {
+  documents: Document[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+/**
+ * Document row as stored by Prisma
+ */
+interface DocumentRecord {
+  id: string;
+  projectId: string;
+  filename: string;
+  fileType: string;
+  status: string;
+  uploadedAt: Date;
+  errorMessage: string | null;
+  storageKey: string | null;
+  sizeBytes: number | null;
+  sha256: string | null;
+  crawlId: string | null;
+  metadata: unknown;
+  contentHash: string | null;
+  etag: string | null;
+  lastModified: string | null;
+  lastSyncedAt: Date | null;
+  syncIntervalMinutes: number | null;
+  lastSyncError: string | null;
+}
+
 /**
  * File size limits by type (in bytes)
  */
@@ -42,37 +186,82 @@ const FILE_SIZE_LIMITS = {
   pdf: 10 * 1024 * 1024, // 10MB
   docx: 10 * 1024 * 1024, // 10MB
   txt: 5 * 1024 * 1024, // 5MB
+  md: 5 * 1024 * 1024, // 5MB
+  html: 5 * 1024 * 1024, // 5MB
+  csv: 10 * 1024 * 1024, // 10MB
+  json: 5 * 1024 * 1024, // 5MB
+  pptx: 25 * 1024 * 1024, // 25MB
+  xlsx: 10 * 1024 * 1024, // 10MB
 };
 
 /**
  * Supported file types
  */
-const SUPPORTED_FILE_TYPES = ["pdf", "docx", "txt"];
+const SUPPORTED_FILE_TYPES = [
+  "pdf",
+  "docx",
+  "txt",
+  "md",
+  "html",
+  "csv",
+  "json",
+  "pptx",
+  "xlsx",
+];
+
+/**
+ * Other extensions (and MIME subtypes) of the supported file types
+ */
+const FILE_TYPE_ALIASES: Record<string, string> = {
+  markdown: "md",
+  htm: "html",
+};
+
+/**
+ * Whether extracted text is split into sections rather than text or pages
+ */
+function isSections(
+  text: string | PageText[] | TextSection[]
+): text is TextSection[] {
+  return Array.isArray(text) && text.some((part) => "metadata" in part);
+}
+
+/**
+ * Fingerprints extracted text, so re-syncs can tell whether it changed and
+ * pages with the same content can be recognised as duplicates
+ * Whitespace is collapsed first, so layout-only differences don't count.
+ */
+function contentHash(text: string): string {
+  return createHash("sha256")
+    .update(text.replace(/\s+/g, " ").trim())
+    .digest("hex");
+}
 
 /**
  * Service class for document management operations
  */
 export class DocumentService {
   private textExtractor: TextExtractor;
-  private textChunker: TextChunker;
-  private chromaClient: ChromaClient;
+  private vectorStore: VectorStore;
+  private ingestionQueue: IngestionQueue;
+  private blobStore: BlobStore;
+  private keywordIndex: KeywordIndex;
+  private embeddingService: EmbeddingService;
 
   constructor() {
     this.textExtractor = new TextExtractor();
-    this.textChunker = new TextChunker();
-
-    // Initialize ChromaDB client for vector store operations
-    const config = getConfig();
-    this.chromaClient = new ChromaClient({
-      path: `http://${config.vectorStore.host}:${config.vectorStore.port}`,
-    });
+    this.ingestionQueue = new IngestionQueue();
+    this.blobStore = createBlobStore();
+    this.keywordIndex = new KeywordIndex();
+    this.vectorStore = new VectorStore();
+    this.embeddingService = new EmbeddingService();
   }
 
   /**
    * Validates file size based on file type
    * Requirements: 2.1, 2.2, 2.3, 2.5
    *
-   * @param fileType - The type of file (pdf, docx, txt)
+   * @param fileType - The type of file (pdf, docx, pptx, xlsx, txt, md, ...)
    * @param fileSize - The size of the file in bytes
    * @throws ValidationError if file size exceeds limit
    */
@@ -130,14 +319,80 @@ export class DocumentService {
   }
 
   /**
-   * Uploads a document file and creates a database record
+   * Maps a Prisma document record to the Document interface
+   * @private
+   */
+  private toDocument(document: DocumentRecord): Document {
+    return {
+      id: document.id,
+      projectId: document.projectId,
+      filename: document.filename,
+      fileType: document.fileType as DocumentFileType,
+      status: document.status as DocumentStatus,
+      uploadedAt: document.uploadedAt,
+      errorMessage: document.errorMessage || undefined,
+      sizeBytes: document.sizeBytes ?? undefined,
+      sha256: document.sha256 ?? undefined,
+      crawlId: document.crawlId ?? undefined,
+      metadata: (document.metadata as DocumentMetadata | null) ?? undefined,
+      contentHash: document.contentHash ?? undefined,
+      lastSyncedAt: document.lastSyncedAt ?? undefined,
+      syncIntervalMinutes: document.syncIntervalMinutes ?? undefined,
+      lastSyncError: document.lastSyncError ?? undefined,
+    };
+  }
+
+  /**
+   * Finds the stored embeddings of chunks other documents of a project share
+   *
+   * Reusing them only saves embedding calls, so a failed lookup counts as
+   * finding nothing and every chunk is embedded.
+   * @private
+   */
+  private async findStoredEmbeddings(
+    project: VectorProject,
+    documentId: string,
+    fingerprints: string[]
+  ): Promise<Map<string, number[]>> {
+    try {
+      const chunkIds = await this.keywordIndex.findFingerprints(
+        project.id,
+        documentId,
+        fingerprints
+      );
+      const embeddings = await this.vectorStore.getEmbeddings(
+        project,
+        Array.from(chunkIds.values())
+      );
+
+      const found = new Map<string, number[]>();
+      for (const [fingerprint, chunkId] of chunkIds) {
+        const embedding = embeddings.get(chunkId);
+        if (embedding) {
+          found.set(fingerprint, embedding);
+        }
+      }
+      return found;
+    } catch (error) {
+      console.warn("Embedding reuse failed, embedding every chunk:", error);
+      return new Map();
+    }
+  }
+
+  /**
+   * Uploads a document file, stores its bytes in the blob store and creates a database record
    * Requirements: 2.1, 2.2, 2.3, 2.5, 2.6, 12.3
    *
+   * A file whose bytes match a document already in the project is
+   * rejected, so the same content isn't indexed (and retrieved) twice.
+   *
    * @param projectId - The project ID to associate the document with
    * @param file - The file to upload (with name, type, and buffer)
    * @returns Promise<Document> - The created document with status "pending"
    * @throws ValidationError if file validation fails
    * @throws NotFoundError if project doesn't exist
+   * @throws ConflictError if the project already has a copy of the file
+   * @throws ServiceUnavailableError if the blob store rejects the file
    * @throws DatabaseError if database operation fails
    */
   async uploadDocument(
@@ -156,8 +411,9 @@ export class DocumentService {
 
       // Extract file type from filename or MIME type
       const fileExtension = file.name.split(".").pop()?.toLowerCase() || "";
-      const fileType =
+      const rawType =
         fileExtension || file.type.split("/").pop()?.toLowerCase() || "";
+      const fileType = FILE_TYPE_ALIASES[rawType] ?? rawType;
 
       // Validate file type
       this.validateFileType(fileType);
@@ -165,6 +421,20 @@ export class DocumentService {
       // Validate file size
       this.validateFileSize(fileType, file.buffer.length);
 
+      // Reject a second copy of the same bytes
+      const sha256 = createHash("sha256").update(file.buffer).digest("hex");
+      const duplicate = await prisma.document.findFirst({
+        where: { projectId, sha256 },
+        select: { id: true, filename: true },
+      });
+
+      if (duplicate) {
+        throw new ConflictError(
+          `File is identical to document ${duplicate.id} ` +
+            `(${duplicate.filename}) already in this project`
+        );
+      }
+
       // Create database record with status "pending"
       // Requirement 12.3: Initial status is "pending"
       const document = await prisma.document.create({
@@ -173,20 +443,36 @@ export class DocumentService {
           filename: file.name,
           fileType,
           status: "pending",
+          sizeBytes: file.buffer.length,
+          sha256,
         },
       });
 
-      return {
-        id: document.id,
-        projectId: document.projectId,
-        filename: document.filename,
-        fileType: document.fileType as "pdf" | "docx" | "txt" | "url",
-        status: document.status as DocumentStatus,
-        uploadedAt: document.uploadedAt,
-        errorMessage: document.errorMessage || undefined,
-      };
+      // Keep the original bytes so the document can be processed (and
+      // reprocessed) without the request that uploaded it
+      const storageKey = documentStorageKey(projectId, document.id, file.name);
+      try {
+        await this.blobStore.put(storageKey, file.buffer, file.type);
+      } catch (error) {
+        await prisma.document.delete({ where: { id: document.id } });
+        throw new ServiceUnavailableError(
+          `Failed to store uploaded file: ${(error as Error).message}`
+        );
+      }
+
+      const stored = await prisma.document.update({
+        where: { id: document.id },
+        data: { storageKey },
+      });
+
+      return this.toDocument(stored);
     } catch (error) {
-      if (error instanceof ValidationError || error instanceof NotFoundError) {
+      if (
+        error instanceof ValidationError ||
+        error instanceof NotFoundError ||
+        error instanceof ConflictError ||
+        error instanceof ServiceUnavailableError
+      ) {
         throw error;
       }
       throw new DatabaseError(
@@ -201,12 +487,22 @@ export class DocumentService {
    *
    * @param projectId - The project ID to associate the document with
    * @param url - The URL to upload
+   * A URL already in the project is rejected, except for crawl roots (a
+   * crawl skips the pages the project already has). Pages whose content
+   * turns out to match another document's are rejected when processed.
+   *
+   * @param options - The crawl the page belongs to and its re-sync interval
    * @returns Promise<Document> - The created document with status "pending"
    * @throws ValidationError if URL validation fails
    * @throws NotFoundError if project doesn't exist
+   * @throws ConflictError if the project already has a document for the URL
    * @throws DatabaseError if database operation fails
    */
-  async uploadUrl(projectId: string, url: string): Promise<Document> {
+  async uploadUrl(
+    projectId: string,
+    url: string,
+    options: UrlUploadOptions = {}
+  ): Promise<Document> {
     try {
       // Verify project exists
       const project = await prisma.project.findUnique({
@@ -220,6 +516,19 @@ export class DocumentService {
       // Validate URL format
       this.validateUrl(url);
 
+      const duplicate =
+        !options.crawlId &&
+        (await prisma.document.findFirst({
+          where: { projectId, fileType: "url", filename: url },
+          select: { id: true },
+        }));
+
+      if (duplicate) {
+        throw new ConflictError(
+          `URL is already in this project as document ${duplicate.id}`
+        );
+      }
+
       // Create database record with status "pending"
       // Requirement 12.3: Initial status is "pending"
       const document = await prisma.document.create({
@@ -228,52 +537,502 @@ export class DocumentService {
           filename: url, // Store URL in filename field
           fileType: "url",
           status: "pending",
+          crawlId: options.crawlId,
+          syncIntervalMinutes: options.syncIntervalMinutes,
+        },
+      });
+
+      return this.toDocument(document);
+    } catch (error) {
+      if (
+        error instanceof ValidationError ||
+        error instanceof NotFoundError ||
+        error instanceof ConflictError
+      ) {
+        throw error;
+      }
+      throw new DatabaseError(
+        `Failed to upload URL: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Queues a document for background processing
+   * The ingestion worker picks the job up and runs processDocument
+   *
+   * If the job cannot be queued, the document is marked failed: left
+   * pending without a job, nothing would ever process it, and a pending
+   * document cannot be reprocessed.
+   *
+   * @param documentId - The document ID to process
+   * @returns Promise<IngestionJob> - The queued job
+   * @throws DatabaseError if the job cannot be queued
+   */
+  async queueProcessing(documentId: string): Promise<IngestionJob> {
+    try {
+      return await this.ingestionQueue.enqueue(documentId, "process_document");
+    } catch (error) {
+      await this.markQueueingFailed(documentId, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Marks a document whose ingestion job could not be queued as failed
+   *
+   * Best effort: when the database is unreachable this fails too, and the
+   * caller reports the original error.
+   *
+   * @param documentId - The document ID
+   * @param error - Why the job could not be queued
+   */
+  async markQueueingFailed(documentId: string, error: unknown): Promise<void> {
+    try {
+      await prisma.document.update({
+        where: { id: documentId },
+        data: {
+          status: "failed",
+          errorMessage: `Failed to queue for processing: ${
+            (error as Error).message
+          }`,
+        },
+      });
+    } catch {
+      // The caller's error is the one worth reporting
+    }
+  }
+
+  /**
+   * Lists a project's documents, most recently uploaded first
+   *
+   * @param projectId - The project identifier
+   * @param filter - Optional status and file type filters
+   * @param page - 1-based page number
+   * @param pageSize - Documents per page
+   * @returns Promise<DocumentPage>
+   * @throws DatabaseError if database operation fails
+   */
+  async listDocuments(
+    projectId: string,
+    filter: DocumentFilter,
+    page: number,
+    pageSize: number
+  ): Promise<DocumentPage> {
+    const where = {
+      projectId,
+      ...(filter.status && { status: filter.status }),
+      ...(filter.fileType && { fileType: filter.fileType }),
+      ...(filter.tag && { tags: { some: { tag: { name: filter.tag } } } }),
+    };
+
+    try {
+      const [total, documents] = await prisma.$transaction([
+        prisma.document.count({ where }),
+        prisma.document.findMany({
+          where,
+          orderBy: { uploadedAt: "desc" },
+          skip: (page - 1) * pageSize,
+          take: pageSize,
+        }),
+      ]);
+
+      return {
+        documents: (documents as DocumentRecord[]).map((document) =>
+          this.toDocument(document)
+        ),
+        pagination: {
+          page,
+          pageSize,
+          total,
+          totalPages: Math.ceil(total / pageSize),
+        },
+      };
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to list documents: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Retrieves a document with its processing status and chunk count
+   *
+   * @param id - The document identifier
+   * @returns Promise<DocumentDetail>
+   * @throws NotFoundError if the document doesn't exist
+   * @throws DatabaseError if database operation fails
+   */
+  async getDocument(id: string): Promise<DocumentDetail> {
+    try {
+      const document = await prisma.document.findUnique({
+        where: { id },
+        include: {
+          _count: { select: { chunks: true } },
+          tags: { include: { tag: true }, orderBy: { tag: { name: "asc" } } },
         },
       });
 
+      if (!document) {
+        throw new NotFoundError(`Document with id ${id} not found`);
+      }
+
       return {
-        id: document.id,
-        projectId: document.projectId,
-        filename: document.filename,
-        fileType: document.fileType as "pdf" | "docx" | "txt" | "url",
-        status: document.status as DocumentStatus,
-        uploadedAt: document.uploadedAt,
-        errorMessage: document.errorMessage || undefined,
+        ...this.toDocument(document),
+        chunkCount: document._count.chunks,
+        tags: document.tags.map(
+          (assignment: { tag: { name: string } }) => assignment.tag.name
+        ),
       };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      throw new DatabaseError(
+        `Failed to retrieve document: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Deletes a document, its vectors and its stored upload
+   *
+   * Vectors are removed first so that a vector store failure leaves the
+   * document in place and the deletion can be retried.
+   *
+   * @param id - The document identifier
+   * @throws NotFoundError if the document doesn't exist
+   * @throws VectorStoreError if the vectors cannot be removed
+   * @throws DatabaseError if database operation fails
+   */
+  async deleteDocument(id: string): Promise<void> {
+    let project: VectorProject;
+    try {
+      const document = await prisma.document.findUnique({
+        where: { id },
+        select: { project: { select: { id: true, vectorCollection: true } } },
+      });
+
+      if (!document) {
+        throw new NotFoundError(`Document with id ${id} not found`);
+      }
+      project = document.project;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      throw new DatabaseError(
+        `Failed to retrieve document: ${(error as Error).message}`
+      );
+    }
+
+    await this.vectorStore.deleteDocumentVectors(project, id);
+
+    let storageKey: string | null = null;
+    try {
+      // Chunks and ingestion jobs are removed by the cascade configured in
+      // the Prisma schema
+      const deleted = await prisma.document.delete({ where: { id } });
+      storageKey = deleted.storageKey;
+    } catch (error) {
+      if (
+        error &&
+        typeof error === "object" &&
+        "code" in error &&
+        (error as { code: string }).code === "P2025"
+      ) {
+        throw new NotFoundError(`Document with id ${id} not found`);
+      }
+      throw new DatabaseError(
+        `Failed to delete document: ${(error as Error).message}`
+      );
+    }
+
+    if (storageKey) {
+      try {
+        await this.blobStore.delete(storageKey);
+      } catch (error) {
+        console.error(
+          `Failed to delete stored file for document ${id}:`,
+          error
+        );
+      }
+    }
+  }
+
+  /**
+   * Re-runs the processing pipeline for a document from its stored source
+   *
+   * Files are re-read from the blob store and URLs are fetched again. The
+   * document goes back to "pending" and a new ingestion job is queued; its
+   * old vectors are replaced when the job runs.
+   *
+   * @param id - The document identifier
+   * @returns The updated document and the queued job
+   * @throws NotFoundError if the document doesn't exist
+   * @throws ConflictError if the document is already queued or processing
+   * @throws ValidationError if the original file is no longer stored
+   * @throws DatabaseError if database operation fails
+   */
+  async reprocessDocument(
+    id: string
+  ): Promise<{ document: Document; job: IngestionJob }> {
+    let document: DocumentRecord | null;
+    try {
+      document = await prisma.document.findUnique({ where: { id } });
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to retrieve document: ${(error as Error).message}`
+      );
+    }
+
+    if (!document) {
+      throw new NotFoundError(`Document with id ${id} not found`);
+    }
+
+    if (document.fileType !== "url" && !document.storageKey) {
+      throw new ValidationError(
+        "No stored file found for document; please upload it again"
+      );
+    }
+
+    try {
+      // Claim the document atomically so concurrent requests queue one job
+      const { count } = await prisma.document.updateMany({
+        where: { id, status: { notIn: ["pending", "processing"] } },
+        data: { status: "pending", errorMessage: null },
+      });
+
+      if (count === 0) {
+        throw new ConflictError(
+          `Document ${id} is already queued or being processed`
+        );
+      }
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        throw error;
+      }
+      throw new DatabaseError(
+        `Failed to reprocess document: ${(error as Error).message}`
+      );
+    }
+
+    const job = await this.queueProcessing(id);
+
+    return {
+      document: {
+        ...this.toDocument(document),
+        status: "pending",
+        errorMessage: undefined,
+      },
+      job,
+    };
+  }
+
+  /**
+   * Changes a document's settings
+   *
+   * @param id - The document identifier
+   * @param update - The fields to change
+   * @returns Promise<Document> - The updated document
+   * @throws NotFoundError if the document doesn't exist
+   * @throws ValidationError if a re-sync interval is set on a file document
+   * @throws DatabaseError if database operation fails
+   */
+  async updateDocument(id: string, update: DocumentUpdate): Promise<Document> {
+    try {
+      const existing = await prisma.document.findUnique({
+        where: { id },
+        select: { fileType: true },
+      });
+
+      if (!existing) {
+        throw new NotFoundError(`Document with id ${id} not found`);
+      }
+
+      if (update.syncIntervalMinutes != null && existing.fileType !== "url") {
+        throw new ValidationError("Only URL documents can be re-synced");
+      }
+
+      const document = await prisma.document.update({
+        where: { id },
+        data: {
+          ...(update.syncIntervalMinutes !== undefined && {
+            syncIntervalMinutes: update.syncIntervalMinutes,
+          }),
+        },
+      });
+
+      return this.toDocument(document);
     } catch (error) {
       if (error instanceof ValidationError || error instanceof NotFoundError) {
         throw error;
       }
+      if (
+        error &&
+        typeof error === "object" &&
+        "code" in error &&
+        (error as { code: string }).code === "P2025"
+      ) {
+        throw new NotFoundError(`Document with id ${id} not found`);
+      }
       throw new DatabaseError(
-        `Failed to upload URL: ${(error as Error).message}`
+        `Failed to update document: ${(error as Error).message}`
       );
     }
   }
 
+  /**
+   * Queues an immediate re-sync of a URL document
+   *
+   * @param id - The document identifier
+   * @returns Promise<IngestionJob> - The queued job
+   * @throws NotFoundError if the document doesn't exist
+   * @throws ValidationError if the document is not a URL document
+   * @throws DatabaseError if database operation fails
+   */
+  async queueSync(id: string): Promise<IngestionJob> {
+    const document = await this.getDocument(id);
+
+    if (document.fileType !== "url") {
+      throw new ValidationError("Only URL documents can be re-synced");
+    }
+
+    return this.ingestionQueue.enqueue(id, "sync_document");
+  }
+
+  /**
+   * Re-fetches a URL document and re-indexes it only if its content changed
+   *
+   * A ready document's page is requested with the ETag and Last-Modified
+   * validators of the previous fetch. A `304 Not Modified`, or content with
+   * the same hash as before, only records the sync. Changed content goes
+   * through the processing pipeline, which upserts the new vectors over the
+   * old ones rather than deleting them first, so the document stays
+   * searchable throughout. If re-indexing fails, a ready document stays
+   * ready with its previous content and the error in `lastSyncError`. A
+   * failed document is always re-indexed.
+   *
+   * @param id - The document identifier
+   * @returns Promise<SyncOutcome>
+   * @throws NotFoundError if the document doesn't exist
+   * @throws ValidationError if the document is not a URL document or the
+   *         page cannot be fetched
+   * @throws DatabaseError if database operation fails
+   */
+  async syncDocument(id: string): Promise<SyncOutcome> {
+    let document: DocumentRecord | null;
+    try {
+      document = await prisma.document.findUnique({ where: { id } });
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to retrieve document: ${(error as Error).message}`
+      );
+    }
+
+    if (!document) {
+      throw new NotFoundError(`Document with id ${id} not found`);
+    }
+
+    if (document.fileType !== "url") {
+      throw new ValidationError("Only URL documents can be re-synced");
+    }
+
+    // A queued or running processing job will fetch the page anyway
+    if (document.status === "pending" || document.status === "processing") {
+      return "skipped";
+    }
+
+    const ready = document.status === "ready";
+    const page = await this.textExtractor.fetchPage(
+      document.filename,
+      ready
+        ? {
+            etag: document.etag ?? undefined,
+            lastModified: document.lastModified ?? undefined,
+          }
+        : {}
+    );
+
+    if (
+      page &&
+      (!ready || contentHash(page.markdown) !== document.contentHash)
+    ) {
+      try {
+        await this.processDocument(id, undefined, page);
+      } catch (error) {
+        // The pipeline marked the document failed, but its previous content
+        // is still indexed: new vectors are only upserted over the old ones
+        if (ready) {
+          await prisma.document.update({
+            where: { id },
+            data: {
+              status: "ready",
+              errorMessage: null,
+              lastSyncedAt: new Date(),
+              lastSyncError: (error as Error).message,
+            },
+          });
+        }
+        throw error;
+      }
+      return "updated";
+    }
+
+    try {
+      await prisma.document.update({
+        where: { id },
+        data: {
+          lastSyncedAt: new Date(),
+          lastSyncError: null,
+          ...(page && {
+            etag: page.etag ?? null,
+            lastModified: page.lastModified ?? null,
+          }),
+        },
+      });
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to record document sync: ${(error as Error).message}`
+      );
+    }
+
+    return "unchanged";
+  }
+
   /**
    * Processes a document through the complete RAG pipeline
    * Requirements: 3.1, 3.2, 3.3, 3.5, 4.1, 4.2, 4.3, 4.4, 5.1, 5.2, 5.3, 5.4, 5.5, 12.4, 12.5
    *
    * Pipeline steps:
    * 1. Extract text using TextExtractor
-   * 2. Chunk text using TextChunker
-   * 3. Generate embeddings using Google Generative AI
+   * 2. Chunk text using TextChunker with the project's chunking strategy,
+   *    leaving out chunks repeated within the document
+   * 3. Generate embeddings using EmbeddingService, after checking that the
+   *    project's vectors come from the configured embedding model; chunks
+   *    other documents of the project share reuse their stored embedding
    * 4. Store vectors in ChromaDB
-   * 5. Update document status to "ready" or "failed"
+   * 5. Index chunk text for keyword search
+   * 6. Update document status to "ready" or "failed"
    *
    * @param documentId - The document ID to process
-   * @param fileBuffer - Optional file buffer (required for file documents, not for URLs)
+   * @param fileBuffer - Optional file buffer; when omitted, file documents are read from the blob store
+   * @param page - Optional page already fetched for a URL document (by a re-sync)
    * @returns Promise<void>
    * @throws NotFoundError if document doesn't exist
+   * @throws ConflictError if a page's content duplicates another document,
+   *         or the project was indexed with another embedding model
    */
   async processDocument(
     documentId: string,
-    fileBuffer?: Buffer
+    fileBuffer?: Buffer,
+    page?: FetchedPage
   ): Promise<void> {
     try {
       // Retrieve document from database
       const document = await prisma.document.findUnique({
         where: { id: documentId },
+        include: { tags: { include: { tag: true } }, project: true },
       });
 
       if (!document) {
@@ -288,28 +1047,47 @@ export class DocumentService {
 
       // Step 1: Extract text based on file type
       // Requirements: 3.1, 3.2, 3.3, 3.4
-      let extractedText: string;
+      // PDFs are extracted page by page so chunks can record their pages.
+      // Slide decks and spreadsheets are extracted as sections (slides,
+      // sheets) whose metadata is added to their chunks
+      let extractedText: string | PageText[] | TextSection[];
+      let sourceMetadata: DocumentMetadata | undefined;
+      let syncState:
+        | Pick<DocumentRecord, "contentHash" | "etag" | "lastModified">
+        | undefined;
 
       try {
         if (document.fileType === "url") {
           // Extract from URL (filename field contains the URL)
-          extractedText = await this.textExtractor.extractFromUrl(
-            document.filename
-          );
+          const { markdown, etag, lastModified, ...metadata } =
+            page ??
+            (await this.textExtractor.extractPageFromUrl(document.filename));
+          extractedText = markdown;
+          sourceMetadata = metadata;
+          syncState = {
+            contentHash: contentHash(markdown),
+            etag: etag ?? null,
+            lastModified: lastModified ?? null,
+          };
         } else {
-          // Extract from file buffer
+          // Extract from file buffer, loading the stored upload if none was passed
           if (!fileBuffer) {
-            throw new ValidationError(
-              "File buffer is required for file documents"
-            );
+            if (!document.storageKey) {
+              throw new ValidationError(
+                "No stored file found for document; please upload it again"
+              );
+            }
+            fileBuffer = await this.blobStore.get(document.storageKey);
           }
 
           switch (document.fileType) {
-            case "pdf":
-              extractedText = await this.textExtractor.extractFromPdf(
-                fileBuffer
-              );
+            case "pdf": {
+              const { pages, ...info } =
+                await this.textExtractor.extractPagesFromPdf(fileBuffer);
+              extractedText = pages;
+              sourceMetadata = { ...info, pageCount: pages.length };
               break;
+            }
             case "docx":
               extractedText = await this.textExtractor.extractFromDocx(
                 fileBuffer
@@ -320,6 +1098,38 @@ export class DocumentService {
                 fileBuffer
               );
               break;
+            case "md":
+              extractedText = await this.textExtractor.extractFromMarkdown(
+                fileBuffer
+              );
+              break;
+            case "html": {
+              const { markdown, ...metadata } =
+                await this.textExtractor.extractPageFromHtml(fileBuffer);
+              extractedText = markdown;
+              sourceMetadata = metadata;
+              break;
+            }
+            case "csv":
+              extractedText = await this.textExtractor.extractFromCsv(
+                fileBuffer
+              );
+              break;
+            case "json":
+              extractedText = await this.textExtractor.extractFromJson(
+                fileBuffer
+              );
+              break;
+            case "pptx":
+              extractedText = await this.textExtractor.extractFromPptx(
+                fileBuffer
+              );
+              break;
+            case "xlsx":
+              extractedText = await this.textExtractor.extractFromXlsx(
+                fileBuffer
+              );
+              break;
             default:
               throw new ValidationError(
                 `Unsupported file type: ${document.fileType}`
@@ -338,14 +1148,53 @@ export class DocumentService {
         throw error;
       }
 
-      // Step 2: Chunk text
+      // A page with the same content as another document of the project
+      // (the same article under two URLs, say) is a duplicate
+      if (syncState) {
+        const duplicate = await prisma.document.findFirst({
+          where: {
+            projectId: document.projectId,
+            contentHash: syncState.contentHash,
+            id: { not: documentId },
+          },
+          select: { id: true, filename: true },
+        });
+
+        if (duplicate) {
+          const errorMessage =
+            `Content is identical to document ${duplicate.id} ` +
+            `(${duplicate.filename}) already in this project`;
+          await prisma.document.update({
+            where: { id: documentId },
+            data: { status: "failed", errorMessage },
+          });
+          throw new ConflictError(errorMessage);
+        }
+      }
+
+      // Step 2: Chunk text with the project's chunking strategy
       // Requirements: 4.1, 4.2, 4.3, 4.4
-      const chunks = await this.textChunker.chunkText(extractedText, {
+      // Document attributes are copied onto every chunk so retrieval can
+      // be filtered by them (see retrieval-filter)
+      const chunkMetadata = {
         documentId: document.id,
         filename: document.filename,
-      });
+        fileType: document.fileType,
+        uploadedAt: new Date(document.uploadedAt).getTime(),
+        ...tagMetadata(
+          document.tags.map(
+            (assignment: { tag: { name: string } }) => assignment.tag.name
+          )
+        ),
+      };
+      const textChunker = new TextChunker(
+        projectChunkingOptions(document.project)
+      );
+      const textChunks = isSections(extractedText)
+        ? await textChunker.chunkSections(extractedText, chunkMetadata)
+        : await textChunker.chunkText(extractedText, chunkMetadata);
 
-      if (chunks.length === 0) {
+      if (textChunks.length === 0) {
         await prisma.document.update({
           where: { id: documentId },
           data: {
@@ -356,18 +1205,51 @@ export class DocumentService {
         return;
       }
 
+      // Leave out chunks that repeat earlier ones of the same document,
+      // such as a header on every page, so they aren't stored twice
+      const chunks = dropDuplicateChunks(textChunks);
+
       // Step 3: Generate embeddings
-      // Requirement 5.1: Generate embeddings for each chunk
-      const config = getConfig();
-      const embeddingModel = new GoogleGenerativeAIEmbeddings({
-        apiKey: config.embedding.apiKey,
-        modelName: config.embedding.modelName,
-      });
+      // Vectors of another model can't be mixed into the project's
+      // collection; a new collection records the configured model
+      const fingerprint = this.embeddingService.getFingerprint();
+      try {
+        await this.vectorStore.verifyEmbeddingFingerprint(
+          document.project,
+          fingerprint
+        );
+        await this.vectorStore.recordEmbeddingFingerprint(
+          document.project,
+          fingerprint
+        );
+      } catch (error) {
+        await prisma.document.update({
+          where: { id: documentId },
+          data: { status: "failed", errorMessage: (error as Error).message },
+        });
+        throw error;
+      }
 
+      // Requirement 5.1: Generate embeddings for each chunk. Text other
+      // documents share, such as boilerplate on every page of a site, keeps
+      // its own chunk here but reuses the embedding already stored for it
+      const fingerprints = chunks.map((chunk) => chunkFingerprint(chunk.text));
       let embeddings: number[][];
       try {
-        const chunkTexts = chunks.map((chunk) => chunk.text);
-        embeddings = await embeddingModel.embedDocuments(chunkTexts);
+        const stored = await this.findStoredEmbeddings(
+          document.project,
+          documentId,
+          fingerprints
+        );
+        const generated = await this.embeddingService.generateBatchEmbeddings(
+          chunks
+            .filter((_, i) => !stored.has(fingerprints[i]))
+            .map((chunk) => chunk.text)
+        );
+        let next = 0;
+        embeddings = fingerprints.map(
+          (fingerprint) => stored.get(fingerprint) ?? generated[next++]
+        );
       } catch (error) {
         // Requirement 5.5: Mark document as failed if embedding fails
         await prisma.document.update({
@@ -385,30 +1267,19 @@ export class DocumentService {
       // Step 4: Store vectors in ChromaDB
       // Requirements: 5.2, 5.3
       try {
-        const collectionName = `project_${document.projectId}`;
-
-        // Get or create collection for this project
-        // Requirement 5.3: Store in project-specific collection
-        let collection;
-        try {
-          collection = await this.chromaClient.getCollection({
-            name: collectionName,
-          });
-        } catch (error) {
-          // Collection doesn't exist, create it
-          collection = await this.chromaClient.createCollection({
-            name: collectionName,
-          });
-        }
-
-        // Add documents to collection
-        // Requirement 5.2: Store embedding vector with chunk text
-        await collection.add({
-          ids: chunks.map((chunk, i) => `${documentId}_${i}`),
-          embeddings: embeddings,
-          documents: chunks.map((chunk) => chunk.text),
-          metadatas: chunks.map((chunk) => chunk.metadata),
-        });
+        // Requirement 5.2, 5.3: Store embedding vector with chunk text in the
+        // project-specific collection, replacing the vectors of an earlier
+        // run (reprocessing, re-sync, or a retry after a partial write)
+        await this.vectorStore.replaceDocumentVectors(
+          document.project,
+          documentId,
+          chunks.map((chunk, i) => ({
+            id: `${documentId}_${i}`,
+            text: chunk.text,
+            embedding: embeddings[i],
+            metadata: chunk.metadata,
+          }))
+        );
       } catch (error) {
         // Mark document as failed if vector storage fails
         await prisma.document.update({
@@ -423,11 +1294,45 @@ export class DocumentService {
         );
       }
 
-      // Step 5: Update document status to "ready"
+      // Step 5: Index chunk text for keyword search, under the vector ids
+      try {
+        await this.keywordIndex.indexDocument(
+          document.projectId,
+          documentId,
+          chunks.map((chunk, i) => ({
+            id: `${documentId}_${i}`,
+            chunkIndex: i,
+            text: chunk.text,
+            fingerprint: fingerprints[i],
+            metadata: chunk.metadata,
+          }))
+        );
+      } catch (error) {
+        await prisma.document.update({
+          where: { id: documentId },
+          data: {
+            status: "failed",
+            errorMessage: `Keyword indexing failed: ${
+              (error as Error).message
+            }`,
+          },
+        });
+        throw error;
+      }
+
+      // Step 6: Update document status to "ready"
       // Requirement 5.4, 12.4: Update status to ready when successful
       await prisma.document.update({
         where: { id: documentId },
-        data: { status: "ready" },
+        data: {
+          status: "ready",
+          ...(sourceMetadata && { metadata: sourceMetadata }),
+          ...(syncState && {
+            ...syncState,
+            lastSyncedAt: new Date(),
+            lastSyncError: null,
+          }),
+        },
       });
     } catch (error) {
       // If error wasn't already handled (status not updated to failed), handle it here
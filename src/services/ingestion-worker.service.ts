@@ -0,0 +1,232 @@
+/**
+ * IngestionWorkerService - Runs queued ingestion jobs in the background
+ * Claims jobs from the Postgres-backed IngestionQueue, keeps their lease alive
+ * while the document pipeline runs, and settles them as succeeded, rescheduled
+ * or failed. A circuit breaker pauses claiming while downstream services
+ * (embedding provider, vector store) are failing. Workers also periodically
+ * queue re-syncs for URL documents whose sync interval has elapsed, and log
+ * the embedding cache's hit and miss counters.
+ */
+
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { prisma } from "../../lib/prisma";
+import { DocumentService } from "./document.service";
+import { CrawlService } from "./crawl.service";
+import { IngestionQueue, IngestionJob } from "../lib/ingestion-queue";
+import { getEmbeddingCacheStats } from "../lib/embedding-cache";
+import { getConfig } from "../lib/config";
+import { ValidationError } from "../lib/errors";
+import { CircuitBreaker, shouldRetry, withRetry } from "../lib/retry";
+
+/**
+ * Service class for background document ingestion
+ */
+export class IngestionWorkerService {
+  private queue: IngestionQueue;
+  private documentService: DocumentService;
+  private crawlService: CrawlService;
+  private circuitBreaker: CircuitBreaker;
+  private config = getConfig();
+  private workerId: string;
+  private running = false;
+  private lastSyncCheck = 0;
+  private lastStatsLog = Date.now();
+  private loggedStats = "";
+  private loop: Promise<void> | null = null;
+
+  constructor() {
+    this.queue = new IngestionQueue();
+    this.documentService = new DocumentService();
+    this.crawlService = new CrawlService();
+    this.circuitBreaker = new CircuitBreaker();
+    this.workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  }
+
+  /**
+   * Starts the polling loop
+   * Returns immediately; use stop() to drain and shut down
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.loop = this.run();
+  }
+
+  /**
+   * Stops the polling loop after the in-flight job (if any) settles
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    await this.loop;
+    this.loop = null;
+  }
+
+  /**
+   * Polls the queue until stopped, sleeping when there is nothing to do
+   * @private
+   */
+  private async run(): Promise<void> {
+    while (this.running) {
+      let processed = false;
+
+      try {
+        await this.scheduleDueSyncs();
+        processed = await this.processNextJob();
+        this.logCacheStats();
+      } catch (error) {
+        // Claim or settle failures are logged and retried on the next tick
+        console.error(`Ingestion worker ${this.workerId} error:`, error);
+      }
+
+      if (!processed && this.running) {
+        await this.sleep(this.config.ingestion.pollIntervalMs);
+      }
+    }
+  }
+
+  /**
+   * Queues re-syncs for due URL documents, at most once per check interval
+   * @private
+   */
+  private async scheduleDueSyncs(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastSyncCheck < this.config.ingestion.syncCheckIntervalMs) {
+      return;
+    }
+
+    this.lastSyncCheck = now;
+    await this.queue.enqueueDueSyncs();
+  }
+
+  /**
+   * Logs the embedding cache counters once per log interval, if they changed
+   * since they were last logged
+   * @private
+   */
+  private logCacheStats(): void {
+    const interval = this.config.embeddingCache.statsLogIntervalMs;
+    const now = Date.now();
+    if (interval === 0 || now - this.lastStatsLog < interval) {
+      return;
+    }
+
+    this.lastStatsLog = now;
+    const { memoryHits, databaseHits, misses, memoryEntries } =
+      getEmbeddingCacheStats();
+    const stats =
+      `${memoryHits} memory hits, ${databaseHits} database hits, ` +
+      `${misses} misses, ${memoryEntries} embeddings in memory`;
+    if (stats !== this.loggedStats) {
+      this.loggedStats = stats;
+      console.log(
+        `Ingestion worker ${this.workerId} embedding cache: ${stats}`
+      );
+    }
+  }
+
+  /**
+   * Claims and runs a single job
+   *
+   * @returns Promise<boolean> - True if a job was claimed and run
+   */
+  async processNextJob(): Promise<boolean> {
+    // Leave jobs in the queue while downstream services are known to be down
+    if (!this.circuitBreaker.isCallPermitted()) {
+      return false;
+    }
+
+    const job = await withRetry(() => this.queue.claimNext(this.workerId), {
+      maxAttempts: 3,
+      baseDelay: 500,
+    });
+
+    if (!job) {
+      return false;
+    }
+
+    const heartbeat = setInterval(() => {
+      this.queue.heartbeat(job.id, this.workerId).then(
+        (held) => {
+          if (!held) {
+            console.warn(
+              `Ingestion worker ${this.workerId} lost lease on job ${job.id}`
+            );
+          }
+        },
+        (error) => console.error(`Heartbeat failed for job ${job.id}:`, error)
+      );
+    }, this.config.ingestion.heartbeatIntervalMs);
+
+    try {
+      // Non-retryable failures (bad input, missing document, duplicate) are
+      // returned rather than thrown so they don't count against the circuit
+      // breaker
+      const permanentError = await this.circuitBreaker.execute(async () => {
+        try {
+          await this.runJob(job);
+          return null;
+        } catch (error) {
+          if (!shouldRetry(error)) {
+            return error;
+          }
+          throw error;
+        }
+      });
+
+      if (permanentError) {
+        await this.queue.fail(job, this.workerId, permanentError, false);
+      } else {
+        await this.queue.complete(job.id, this.workerId);
+      }
+    } catch (error) {
+      const outcome = await this.queue.fail(job, this.workerId, error, true);
+
+      // The pipeline marks the document failed; a rescheduled processing job
+      // shows it as pending again until the retry runs. A rescheduled re-sync
+      // leaves it as the sync did: ready with its previous content, or
+      // failed, which syncDocument fetches and processes in full (it skips
+      // pending documents).
+      if (outcome === "queued" && job.type === "process_document") {
+        await prisma.document.updateMany({
+          where: { id: job.documentId, status: "failed" },
+          data: { status: "pending" },
+        });
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    return true;
+  }
+
+  /**
+   * Dispatches a job to the pipeline step for its type
+   * @private
+   */
+  private async runJob(job: IngestionJob): Promise<void> {
+    switch (job.type) {
+      case "process_document":
+        await this.documentService.processDocument(job.documentId);
+        break;
+      case "crawl_site":
+        await this.crawlService.runCrawl(job.documentId);
+        break;
+      case "sync_document":
+        await this.documentService.syncDocument(job.documentId);
+        break;
+      default:
+        throw new ValidationError(`Unknown ingestion job type: ${job.type}`);
+    }
+  }
+
+  /**
+   * @private
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
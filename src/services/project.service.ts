@@ -5,8 +5,26 @@
  */
 
 import { prisma } from "../../lib/prisma";
-import { NotFoundError, DatabaseError, VectorStoreError } from "../lib/errors";
-import { ChromaClient } from "chromadb";
+import {
+  NotFoundError,
+  DatabaseError,
+  ValidationError,
+  VectorStoreError,
+  ServiceUnavailableError,
+} from "../lib/errors";
+import { getConfig } from "../lib/config";
+import {
+  ChunkingOptions,
+  ChunkingStrategyName,
+  chunkingOptionsError,
+  resolveChunkingOptions,
+} from "../lib/chunking-strategy";
+import { VectorProject, VectorStore } from "../lib/vector-store";
+import {
+  BlobStore,
+  createBlobStore,
+  projectStoragePrefix,
+} from "../lib/blob-store";
 
 /**
  * Project interface matching Prisma schema
@@ -15,6 +33,8 @@ export interface Project {
   id: string;
   name: string;
   createdAt: Date;
+  /** How the project's documents are chunked */
+  chunking: ChunkingOptions;
 }
 
 /**
@@ -24,44 +44,102 @@ export interface ProjectWithDocuments extends Project {
   documentCount: number;
 }
 
+/**
+ * Project row as stored by Prisma
+ */
+interface ProjectRecord {
+  id: string;
+  name: string;
+  createdAt: Date;
+  chunkingStrategy: string;
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+/**
+ * Reads a project's stored chunking strategy and parameters
+ *
+ * @param project - The project record
+ * @returns The options its documents are chunked with
+ */
+export function projectChunkingOptions(
+  project: Pick<
+    ProjectRecord,
+    "chunkingStrategy" | "chunkSize" | "chunkOverlap"
+  >
+): ChunkingOptions {
+  return {
+    strategy: project.chunkingStrategy as ChunkingStrategyName,
+    chunkSize: project.chunkSize,
+    chunkOverlap: project.chunkOverlap,
+  };
+}
+
 /**
  * Service class for project management operations
  */
 export class ProjectService {
-  private chromaClient: ChromaClient;
+  private vectorStore: VectorStore;
+  private blobStore: BlobStore;
+  private config = getConfig();
 
   constructor() {
-    // Initialize ChromaDB client for vector store operations
-    const chromaHost = process.env.CHROMA_HOST || "localhost";
-    const chromaPort = process.env.CHROMA_PORT || "8000";
-    this.chromaClient = new ChromaClient({
-      path: `http://${chromaHost}:${chromaPort}`,
-    });
+    this.blobStore = createBlobStore();
+    this.vectorStore = new VectorStore();
+  }
+
+  /**
+   * Maps a Prisma project record to the Project interface
+   * @private
+   */
+  private toProject(project: ProjectRecord): Project {
+    return {
+      id: project.id,
+      name: project.name,
+      createdAt: project.createdAt,
+      chunking: projectChunkingOptions(project),
+    };
   }
 
   /**
    * Creates a new project with a unique identifier
    * Requirement 1.1: Generate unique project identifier and store in database
    *
+   * The chunking strategy and parameters are stored with the project and
+   * used every time one of its documents is processed. Parameters left out
+   * are filled in from the configured defaults (see resolveChunkingOptions).
+   *
    * @param name - The name of the project
+   * @param chunking - Chunking strategy and parameters, if not the defaults
    * @returns Promise<Project> - The created project with generated ID
-   * @throws ValidationError if name is invalid
+   * @throws ValidationError if the chunking parameters are invalid
    * @throws DatabaseError if database operation fails
    */
-  async createProject(name: string): Promise<Project> {
+  async createProject(
+    name: string,
+    chunking: Partial<ChunkingOptions> = {}
+  ): Promise<Project> {
+    const options = resolveChunkingOptions(
+      chunking,
+      this.config.processing.chunking
+    );
+    const chunkingError = chunkingOptionsError(options);
+    if (chunkingError) {
+      throw new ValidationError(chunkingError);
+    }
+
     try {
       // Prisma will automatically generate a unique CUID for the id field
       const project = await prisma.project.create({
         data: {
           name,
+          chunkingStrategy: options.strategy,
+          chunkSize: options.chunkSize,
+          chunkOverlap: options.chunkOverlap,
         },
       });
 
-      return {
-        id: project.id,
-        name: project.name,
-        createdAt: project.createdAt,
-      };
+      return this.toProject(project);
     } catch (error) {
       // Handle Prisma-specific errors
       if (error && typeof error === "object" && "code" in error) {
@@ -99,9 +177,7 @@ export class ProjectService {
       }
 
       return {
-        id: project.id,
-        name: project.name,
-        createdAt: project.createdAt,
+        ...this.toProject(project),
         documentCount: project.documents.length,
       };
     } catch (error) {
@@ -114,15 +190,47 @@ export class ProjectService {
     }
   }
 
+  /**
+   * Retrieves the project fields that locate its vectors
+   *
+   * @param id - The unique project identifier
+   * @returns Promise<VectorProject>
+   * @throws NotFoundError if project doesn't exist
+   * @throws DatabaseError if database operation fails
+   */
+  async getVectorProject(id: string): Promise<VectorProject> {
+    try {
+      const project = await prisma.project.findUnique({
+        where: { id },
+        select: { id: true, vectorCollection: true },
+      });
+
+      if (!project) {
+        throw new NotFoundError(`Project with id ${id} not found`);
+      }
+
+      return project;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      throw new DatabaseError(
+        `Failed to retrieve project: ${(error as Error).message}`
+      );
+    }
+  }
+
   /**
    * Deletes a project and all associated data
    * Requirement 1.3: Cascade delete from both Vector_Database and Metadata_Database
+   * Stored upload files are removed from the blob store as well
    *
    * @param id - The unique project identifier
    * @returns Promise<void>
    * @throws NotFoundError if project doesn't exist
    * @throws DatabaseError if metadata database operation fails
    * @throws VectorStoreError if vector database operation fails
+   * @throws ServiceUnavailableError if the vector database is unreachable
    */
   async deleteProject(id: string): Promise<void> {
     try {
@@ -135,33 +243,32 @@ export class ProjectService {
         throw new NotFoundError(`Project with id ${id} not found`);
       }
 
-      // Delete from vector database (ChromaDB)
-      // Collection name follows the pattern: project_{projectId}
-      const collectionName = `project_${id}`;
-
-      try {
-        await this.chromaClient.deleteCollection({ name: collectionName });
-      } catch (chromaError) {
-        // If collection doesn't exist, that's okay - it might not have been created yet
-        // Only throw if it's a different error
-        const errorMessage = (chromaError as Error).message || "";
-        if (
-          !errorMessage.includes("does not exist") &&
-          !errorMessage.includes("not found")
-        ) {
-          throw new VectorStoreError(
-            `Failed to delete vector collection: ${errorMessage}`
-          );
-        }
-      }
+      // Delete from vector database (ChromaDB); a project without a
+      // collection yet is not an error
+      await this.vectorStore.deleteCollection(id);
 
       // Delete from metadata database (PostgreSQL via Prisma)
       // Cascade delete is configured in Prisma schema, so documents will be deleted automatically
       await prisma.project.delete({
         where: { id },
       });
+
+      // Remove stored upload bytes; the records referencing them are gone,
+      // so a failure here only leaves orphaned blobs behind
+      try {
+        await this.blobStore.deletePrefix(projectStoragePrefix(id));
+      } catch (blobError) {
+        console.error(
+          `Failed to delete stored files for project ${id}:`,
+          blobError
+        );
+      }
     } catch (error) {
-      if (error instanceof NotFoundError || error instanceof VectorStoreError) {
+      if (
+        error instanceof NotFoundError ||
+        error instanceof VectorStoreError ||
+        error instanceof ServiceUnavailableError
+      ) {
         throw error;
       }
 
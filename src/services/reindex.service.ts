@@ -0,0 +1,413 @@
+/**
+ * ReindexService - Re-embeds projects after the embedding model changes
+ * Vectors of different embedding models can't be searched together, so a
+ * project indexed with another model is copied into a shadow collection
+ * with every chunk re-embedded by the configured model. The project keeps
+ * serving from its old collection meanwhile. Once the copy is complete the
+ * project is switched to the shadow collection in a single database write;
+ * if anything fails first, the shadow collection is dropped and the project
+ * stays on the old one.
+ *
+ * Chunks indexed before retrieval filters existed lack the document
+ * attributes the filters match on; a re-index copies them from the
+ * documents, in both the vectors and the keyword index.
+ */
+
+import { randomUUID } from "crypto";
+import { prisma } from "../../lib/prisma";
+import { Prisma } from "../../generated/prisma/client";
+import {
+  AppError,
+  ConflictError,
+  DatabaseError,
+  NotFoundError,
+} from "../lib/errors";
+import { EmbeddingService } from "../lib/embedding-service";
+import { KeywordIndex } from "../lib/keyword-index";
+import {
+  MetadataValue,
+  VectorProject,
+  VectorStore,
+  activeCollectionName,
+  shadowCollectionName,
+} from "../lib/vector-store";
+
+/**
+ * How long a running re-index stays claimed by the process running it
+ * Progress is recorded after every batch, which renews the lease; a batch
+ * waiting out a rate limit must fit well within it.
+ */
+const REINDEX_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * Re-index status type
+ */
+export type ReindexStatus = "running" | "completed" | "failed";
+
+/**
+ * Re-index interface matching Prisma schema
+ */
+export interface Reindex {
+  id: string;
+  projectId: string;
+  fromCollection: string;
+  toCollection: string;
+  /** Fingerprint of the model the project is re-embedded with */
+  embeddingFingerprint: string;
+  status: ReindexStatus;
+  totalRecords: number;
+  processedRecords: number;
+  errorMessage?: string;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Re-index row as stored by Prisma
+ */
+interface ReindexRecord {
+  id: string;
+  projectId: string;
+  fromCollection: string;
+  toCollection: string;
+  embeddingFingerprint: string;
+  status: string;
+  totalRecords: number;
+  processedRecords: number;
+  errorMessage: string | null;
+  leaseExpiresAt: Date | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+/**
+ * Service class for re-embedding projects with the configured model
+ */
+export class ReindexService {
+  private vectorStore: VectorStore;
+  private embeddingService: EmbeddingService;
+  private keywordIndex: KeywordIndex;
+
+  constructor() {
+    this.vectorStore = new VectorStore();
+    this.embeddingService = new EmbeddingService();
+    this.keywordIndex = new KeywordIndex();
+  }
+
+  /**
+   * Maps a Prisma re-index record to the Reindex interface
+   * @private
+   */
+  private toReindex(reindex: ReindexRecord): Reindex {
+    return {
+      id: reindex.id,
+      projectId: reindex.projectId,
+      fromCollection: reindex.fromCollection,
+      toCollection: reindex.toCollection,
+      embeddingFingerprint: reindex.embeddingFingerprint,
+      status: reindex.status as ReindexStatus,
+      totalRecords: reindex.totalRecords,
+      processedRecords: reindex.processedRecords,
+      errorMessage: reindex.errorMessage || undefined,
+      createdAt: reindex.createdAt,
+      completedAt: reindex.completedAt ?? undefined,
+    };
+  }
+
+  /**
+   * Rethrows application errors and wraps anything else as a DatabaseError
+   * @private
+   */
+  private rethrow(error: unknown, action: string): never {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new DatabaseError(
+      `Failed to ${action}: ${(error as Error).message}`
+    );
+  }
+
+  /**
+   * Tells whether a project's vectors come from another embedding model
+   * than the configured one
+   *
+   * Projects without vectors have nothing to re-embed. Collections written
+   * before fingerprints were recorded count as another model.
+   *
+   * @param projectId - The project identifier
+   * @returns True if the project should be re-indexed
+   * @throws NotFoundError if the project doesn't exist
+   * @throws VectorStoreError if the vector store cannot be queried
+   */
+  async needsReindex(projectId: string): Promise<boolean> {
+    const project = await this.findProject(projectId);
+    if (!(await this.vectorStore.collectionExists(project))) {
+      return false;
+    }
+    return (
+      (await this.vectorStore.getEmbeddingFingerprint(project)) !==
+      this.embeddingService.getFingerprint()
+    );
+  }
+
+  /**
+   * Loads the project fields that locate its vectors
+   * @private
+   */
+  private async findProject(projectId: string): Promise<VectorProject> {
+    try {
+      const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: { id: true, vectorCollection: true },
+      });
+
+      if (!project) {
+        throw new NotFoundError(`Project with id ${projectId} not found`);
+      }
+      return project;
+    } catch (error) {
+      this.rethrow(error, "retrieve project");
+    }
+  }
+
+  /**
+   * Re-embeds a project with the configured model and swaps its collection
+   *
+   * A re-index left running by an interrupted process is resumed from its
+   * recorded progress once its lease has expired, when it targets the same
+   * model; one targeting another model is rolled back and a new re-index
+   * started. Progress is recorded after every batch. Document attributes
+   * missing from older chunks are filled in on the way.
+   *
+   * @param projectId - The project identifier
+   * @param onProgress - Called with the re-index after each batch
+   * @returns The completed re-index
+   * @throws NotFoundError if the project doesn't exist
+   * @throws ConflictError if another process is re-indexing the project
+   * @throws VectorStoreError or an embedding error if re-embedding fails;
+   *         the re-index is then rolled back
+   */
+  async reindexProject(
+    projectId: string,
+    onProgress?: (reindex: Reindex) => void
+  ): Promise<Reindex> {
+    let reindex = await this.startReindex(projectId);
+
+    try {
+      await this.keywordIndex.backfillDocumentMetadata(projectId);
+      await this.vectorStore.reembedCollection(
+        reindex.fromCollection,
+        reindex.toCollection,
+        {
+          projectId,
+          fingerprint: reindex.embeddingFingerprint,
+          offset: reindex.processedRecords,
+          embed: (texts) =>
+            this.embeddingService.generateBatchEmbeddings(texts),
+          backfill: (documentIds) => this.findDocumentMetadata(documentIds),
+          onProgress: async (processedRecords, totalRecords) => {
+            reindex = this.toReindex(
+              await prisma.reindex.update({
+                where: { id: reindex.id },
+                data: {
+                  processedRecords,
+                  totalRecords,
+                  leaseExpiresAt: new Date(Date.now() + REINDEX_LEASE_MS),
+                },
+              })
+            );
+            onProgress?.(reindex);
+          },
+        }
+      );
+
+      // The swap and the completion are one transaction, so the project
+      // is never left pointing at a collection of an unfinished re-index
+      const [, completed] = await prisma.$transaction([
+        prisma.project.update({
+          where: { id: projectId },
+          data: { vectorCollection: reindex.toCollection },
+        }),
+        prisma.reindex.update({
+          where: { id: reindex.id },
+          data: { status: "completed", completedAt: new Date() },
+        }),
+      ]);
+      reindex = this.toReindex(completed);
+    } catch (error) {
+      await this.rollBack(reindex, error);
+      this.rethrow(error, "re-index project");
+    }
+
+    // Nothing reads the old collection any more, so failing to delete it
+    // only leaves it behind
+    try {
+      await this.vectorStore.dropCollection(reindex.fromCollection);
+    } catch (error) {
+      console.error(
+        `Failed to delete collection ${reindex.fromCollection}:`,
+        error
+      );
+    }
+
+    return reindex;
+  }
+
+  /**
+   * Loads the document attributes that chunk metadata carries, as written
+   * by DocumentService when a document is processed
+   * @private
+   */
+  private async findDocumentMetadata(
+    documentIds: string[]
+  ): Promise<Map<string, Record<string, MetadataValue>>> {
+    const documents = await prisma.document.findMany({
+      where: { id: { in: documentIds } },
+      select: { id: true, fileType: true, uploadedAt: true },
+    });
+
+    return new Map(
+      documents.map(
+        (document: { id: string; fileType: string; uploadedAt: Date }) => [
+          document.id,
+          {
+            fileType: document.fileType,
+            uploadedAt: new Date(document.uploadedAt).getTime(),
+          },
+        ]
+      )
+    );
+  }
+
+  /**
+   * Claims the project's running re-index or starts a new one
+   *
+   * The claim leases the re-index to this process: a running one whose
+   * lease hasn't expired belongs to a process that is still working on it.
+   * @private
+   */
+  private async startReindex(projectId: string): Promise<Reindex> {
+    const fingerprint = this.embeddingService.getFingerprint();
+
+    try {
+      const project = await this.findProject(projectId);
+      const { claimed, superseded } = await prisma.$transaction(
+        async (tx: Prisma.TransactionClient) => {
+          // Concurrent runs queue here, so only one can resume or start
+          await tx.$executeRaw`
+            SELECT pg_advisory_xact_lock(
+              hashtextextended(${`reindex:${projectId}`}, 0)
+            )`;
+
+          const now = new Date();
+          const leaseExpiresAt = new Date(now.getTime() + REINDEX_LEASE_MS);
+          const running = await tx.reindex.findFirst({
+            where: { projectId, status: "running" },
+            orderBy: { createdAt: "desc" },
+          });
+
+          if (running) {
+            if (running.leaseExpiresAt && running.leaseExpiresAt > now) {
+              throw new ConflictError(
+                `Project ${projectId} is already being re-indexed`
+              );
+            }
+            if (running.embeddingFingerprint === fingerprint) {
+              const claimed = await tx.reindex.update({
+                where: { id: running.id },
+                data: { leaseExpiresAt },
+              });
+              return { claimed, superseded: null };
+            }
+          }
+
+          const claimed = await tx.reindex.create({
+            data: {
+              projectId,
+              fromCollection: activeCollectionName(project),
+              toCollection: shadowCollectionName(
+                projectId,
+                randomUUID().slice(0, 8)
+              ),
+              embeddingFingerprint: fingerprint,
+              leaseExpiresAt,
+            },
+          });
+          return { claimed, superseded: running };
+        }
+      );
+
+      // The abandoned re-index can't be claimed by anyone else now that a
+      // newer one is running, so it is cleaned up outside the transaction
+      if (superseded) {
+        await this.rollBack(
+          this.toReindex(superseded),
+          new Error(`Superseded by a re-index with ${fingerprint}`)
+        );
+      }
+      return this.toReindex(claimed);
+    } catch (error) {
+      this.rethrow(error, "start re-index");
+    }
+  }
+
+  /**
+   * Drops a re-index's shadow collection and marks it failed
+   *
+   * The project still points at the collection it had before, so rolling
+   * back only has to clean up. Failures are logged rather than thrown so
+   * that the error that caused the rollback is the one reported.
+   * @private
+   */
+  private async rollBack(reindex: Reindex, cause: unknown): Promise<void> {
+    try {
+      await this.vectorStore.dropCollection(reindex.toCollection);
+    } catch (error) {
+      console.error(
+        `Failed to delete collection ${reindex.toCollection}:`,
+        error
+      );
+    }
+
+    try {
+      await prisma.reindex.update({
+        where: { id: reindex.id },
+        data: {
+          status: "failed",
+          errorMessage:
+            cause instanceof Error ? cause.message : "Unknown error",
+          completedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      console.error(`Failed to record re-index ${reindex.id} failure:`, error);
+    }
+  }
+
+  /**
+   * Retrieves the most recent re-index of a project
+   *
+   * @param projectId - The project identifier
+   * @returns Promise<Reindex>
+   * @throws NotFoundError if the project was never re-indexed
+   * @throws DatabaseError if database operation fails
+   */
+  async getLatestReindex(projectId: string): Promise<Reindex> {
+    try {
+      const reindex = await prisma.reindex.findFirst({
+        where: { projectId },
+        orderBy: { createdAt: "desc" },
+      });
+
+      if (!reindex) {
+        throw new NotFoundError(
+          `No re-index found for project ${projectId}`
+        );
+      }
+
+      return this.toReindex(reindex);
+    } catch (error) {
+      this.rethrow(error, "retrieve re-index");
+    }
+  }
+}
@@ -0,0 +1,354 @@
+/**
+ * TagService - Manages document tags within a project
+ * Tags group a project's documents for display and scope retrieval. Each
+ * document's tags are mirrored into the metadata of its chunks (vectors and
+ * keyword index), so assigning or removing a tag patches the stored chunks
+ * in place instead of reprocessing the document.
+ */
+
+import { prisma } from "../../lib/prisma";
+import {
+  AppError,
+  NotFoundError,
+  DatabaseError,
+  ConflictError,
+  ValidationError,
+} from "../lib/errors";
+import { KeywordIndex } from "../lib/keyword-index";
+import { tagMetadata } from "../lib/retrieval-filter";
+import { VectorProject, VectorStore } from "../lib/vector-store";
+
+/**
+ * Tag interface matching Prisma schema
+ */
+export interface Tag {
+  id: string;
+  projectId: string;
+  name: string;
+  createdAt: Date;
+}
+
+/**
+ * Tag with the number of documents carrying it
+ */
+export interface TagSummary extends Tag {
+  documentCount: number;
+}
+
+/**
+ * Tag row as stored by Prisma
+ */
+interface TagRecord {
+  id: string;
+  projectId: string;
+  name: string;
+  createdAt: Date;
+}
+
+/**
+ * Document row with the fields tag changes need
+ */
+interface TaggedDocumentRecord {
+  id: string;
+  projectId: string;
+  project: VectorProject;
+  tags: { tag: TagRecord }[];
+}
+
+/**
+ * Service class for tag management and assignment
+ */
+export class TagService {
+  private vectorStore: VectorStore;
+  private keywordIndex: KeywordIndex;
+
+  constructor() {
+    this.vectorStore = new VectorStore();
+    this.keywordIndex = new KeywordIndex();
+  }
+
+  /**
+   * Maps a Prisma tag record to the Tag interface
+   * @private
+   */
+  private toTag(tag: TagRecord): Tag {
+    return {
+      id: tag.id,
+      projectId: tag.projectId,
+      name: tag.name,
+      createdAt: tag.createdAt,
+    };
+  }
+
+  /**
+   * Loads a document with its tags
+   * @private
+   */
+  private async findDocument(
+    documentId: string
+  ): Promise<TaggedDocumentRecord> {
+    const document = await prisma.document.findUnique({
+      where: { id: documentId },
+      select: {
+        id: true,
+        projectId: true,
+        project: { select: { id: true, vectorCollection: true } },
+        tags: { include: { tag: true }, orderBy: { tag: { name: "asc" } } },
+      },
+    });
+
+    if (!document) {
+      throw new NotFoundError(`Document with id ${documentId} not found`);
+    }
+    return document;
+  }
+
+  /**
+   * Loads a tag by id, with the project fields its chunks are found by
+   * @private
+   */
+  private async findTag(
+    tagId: string
+  ): Promise<TagRecord & { project: VectorProject }> {
+    const tag = await prisma.tag.findUnique({
+      where: { id: tagId },
+      include: { project: { select: { id: true, vectorCollection: true } } },
+    });
+
+    if (!tag) {
+      throw new NotFoundError(`Tag with id ${tagId} not found`);
+    }
+    return tag;
+  }
+
+  /**
+   * Writes tag changes into a document's stored chunks
+   *
+   * Documents that have not been processed yet have no chunks; they pick
+   * up their tags when processing reads them.
+   * @private
+   */
+  private async patchChunks(
+    project: VectorProject,
+    documentId: string,
+    metadata: Record<string, boolean>
+  ): Promise<void> {
+    await this.vectorStore.updateDocumentMetadata(
+      project,
+      documentId,
+      metadata
+    );
+    await this.keywordIndex.updateDocumentMetadata(documentId, metadata);
+  }
+
+  /**
+   * Rethrows application errors and wraps anything else as a DatabaseError
+   * @private
+   */
+  private rethrow(error: unknown, action: string): never {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new DatabaseError(
+      `Failed to ${action}: ${(error as Error).message}`
+    );
+  }
+
+  /**
+   * Lists a project's tags with their document counts, by name
+   *
+   * @param projectId - The project identifier
+   * @returns Promise<TagSummary[]>
+   * @throws DatabaseError if database operation fails
+   */
+  async listTags(projectId: string): Promise<TagSummary[]> {
+    try {
+      const tags = await prisma.tag.findMany({
+        where: { projectId },
+        orderBy: { name: "asc" },
+        include: { _count: { select: { documents: true } } },
+      });
+
+      return tags.map(
+        (tag: TagRecord & { _count: { documents: number } }) => ({
+          ...this.toTag(tag),
+          documentCount: tag._count.documents,
+        })
+      );
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to list tags: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Creates a tag in a project
+   *
+   * @param projectId - The project identifier
+   * @param name - The tag name, unique within the project
+   * @returns Promise<Tag> - The created tag
+   * @throws ConflictError if the project already has a tag with this name
+   * @throws DatabaseError if database operation fails
+   */
+  async createTag(projectId: string, name: string): Promise<Tag> {
+    try {
+      const tag = await prisma.tag.create({ data: { projectId, name } });
+      return this.toTag(tag);
+    } catch (error) {
+      if (
+        error &&
+        typeof error === "object" &&
+        "code" in error &&
+        (error as { code: string }).code === "P2002"
+      ) {
+        throw new ConflictError(
+          `Tag '${name}' already exists in this project`
+        );
+      }
+      throw new DatabaseError(
+        `Failed to create tag: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Deletes a tag and removes it from every document carrying it
+   *
+   * The chunks are untagged before the tag is deleted, so if that fails
+   * part way the tag still lists its documents and deleting it again
+   * finishes the job.
+   *
+   * @param tagId - The tag identifier
+   * @throws NotFoundError if the tag doesn't exist
+   * @throws VectorStoreError if chunk metadata cannot be updated
+   * @throws DatabaseError if database operation fails
+   */
+  async deleteTag(tagId: string): Promise<void> {
+    try {
+      const tag = await this.findTag(tagId);
+      const assignments = await prisma.documentTag.findMany({
+        where: { tagId },
+        select: { documentId: true },
+      });
+
+      const removed = tagMetadata([], [tag.name]);
+      for (const { documentId } of assignments as { documentId: string }[]) {
+        await this.patchChunks(tag.project, documentId, removed);
+      }
+
+      // Assignments are removed by the cascade configured in the Prisma schema
+      await prisma.tag.delete({ where: { id: tagId } });
+    } catch (error) {
+      if (
+        error &&
+        typeof error === "object" &&
+        "code" in error &&
+        (error as { code: string }).code === "P2025"
+      ) {
+        throw new NotFoundError(`Tag with id ${tagId} not found`);
+      }
+      this.rethrow(error, "delete tag");
+    }
+  }
+
+  /**
+   * Lists the tags carried by a document, by name
+   *
+   * @param documentId - The document identifier
+   * @returns Promise<Tag[]>
+   * @throws NotFoundError if the document doesn't exist
+   * @throws DatabaseError if database operation fails
+   */
+  async getDocumentTags(documentId: string): Promise<Tag[]> {
+    try {
+      const document = await this.findDocument(documentId);
+      return document.tags.map(({ tag }) => this.toTag(tag));
+    } catch (error) {
+      this.rethrow(error, "retrieve document tags");
+    }
+  }
+
+  /**
+   * Assigns a tag to a document and tags its stored chunks
+   *
+   * Assigning a tag the document already carries is a no-op.
+   *
+   * @param documentId - The document identifier
+   * @param tagId - The tag identifier
+   * @returns Promise<Tag[]> - The document's tags after the change
+   * @throws NotFoundError if the document or tag doesn't exist
+   * @throws ValidationError if the tag belongs to another project
+   * @throws VectorStoreError if chunk metadata cannot be updated
+   * @throws DatabaseError if database operation fails
+   */
+  async addTagToDocument(documentId: string, tagId: string): Promise<Tag[]> {
+    try {
+      const document = await this.findDocument(documentId);
+      const tag = await this.findTag(tagId);
+
+      if (tag.projectId !== document.projectId) {
+        throw new ValidationError(
+          "Tag and document belong to different projects"
+        );
+      }
+
+      await prisma.documentTag.upsert({
+        where: { documentId_tagId: { documentId, tagId } },
+        create: { documentId, tagId },
+        update: {},
+      });
+
+      await this.patchChunks(
+        document.project,
+        documentId,
+        tagMetadata([tag.name])
+      );
+
+      return this.getDocumentTags(documentId);
+    } catch (error) {
+      this.rethrow(error, "assign tag");
+    }
+  }
+
+  /**
+   * Removes a tag from a document and untags its stored chunks
+   *
+   * The chunks are untagged first, so a failure leaves the assignment in
+   * place for a retry.
+   *
+   * @param documentId - The document identifier
+   * @param tagId - The tag identifier
+   * @returns Promise<Tag[]> - The document's tags after the change
+   * @throws NotFoundError if the document doesn't carry the tag
+   * @throws VectorStoreError if chunk metadata cannot be updated
+   * @throws DatabaseError if database operation fails
+   */
+  async removeTagFromDocument(
+    documentId: string,
+    tagId: string
+  ): Promise<Tag[]> {
+    try {
+      const document = await this.findDocument(documentId);
+      const assigned = document.tags.find(({ tag }) => tag.id === tagId);
+
+      if (!assigned) {
+        throw new NotFoundError(
+          `Document ${documentId} does not carry tag ${tagId}`
+        );
+      }
+
+      await this.patchChunks(
+        document.project,
+        documentId,
+        tagMetadata([], [assigned.tag.name])
+      );
+
+      await prisma.documentTag.deleteMany({ where: { documentId, tagId } });
+
+      return this.getDocumentTags(documentId);
+    } catch (error) {
+      this.rethrow(error, "remove tag");
+    }
+  }
+}